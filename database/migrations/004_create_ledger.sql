@@ -0,0 +1,174 @@
+-- Migration: Double-entry ledger
+-- Every movement of money is recorded as a journal entry made of postings that balance
+-- (sum of debits = sum of credits) per currency. Each wallet owns a liability ledger account,
+-- and internal system accounts (funding, fees, suspense) sit on the other side of credits and debits.
+-- wallets.balance is kept as the running balance of the wallet's ledger account and can be
+-- checked against postings through the wallet_balance_mismatches view.
+
+-- Step 1: Ledger accounts (user wallets and internal system accounts)
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('asset', 'liability', 'equity', 'income', 'expense')),
+  currency CHAR(3) NOT NULL,
+  wallet_id UUID UNIQUE REFERENCES wallets(id),
+  created_at TIMESTAMP DEFAULT now()
+);
+
+-- Step 2: Journal entries and their postings
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT UNIQUE NOT NULL,
+  entry_type TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS postings (
+  id BIGSERIAL PRIMARY KEY,
+  journal_entry_id UUID NOT NULL REFERENCES journal_entries(id),
+  account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount NUMERIC(18,2) NOT NULL CHECK (amount > 0),
+  currency CHAR(3) NOT NULL,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_postings_journal_entry ON postings(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_postings_account ON postings(account_id);
+
+-- Step 3: Link the per-wallet transaction rows to the journal entry that moved the money
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS journal_entry_id UUID REFERENCES journal_entries(id);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_journal_entry ON transactions(journal_entry_id);
+
+-- Step 4: A journal entry must balance per currency once the DB transaction commits
+CREATE OR REPLACE FUNCTION check_journal_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+    unbalanced_currency CHAR(3);
+BEGIN
+    SELECT currency INTO unbalanced_currency
+    FROM postings
+    WHERE journal_entry_id = NEW.journal_entry_id
+    GROUP BY currency
+    HAVING SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) <> 0
+    LIMIT 1;
+
+    IF unbalanced_currency IS NOT NULL THEN
+        RAISE EXCEPTION 'Journal entry % is not balanced in %', NEW.journal_entry_id, unbalanced_currency;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS postings_must_balance ON postings;
+CREATE CONSTRAINT TRIGGER postings_must_balance AFTER INSERT ON postings
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION check_journal_entry_balanced();
+
+-- Step 5: The ledger is append-only, corrections are made with new entries
+CREATE OR REPLACE FUNCTION prevent_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger table % is append-only', TG_TABLE_NAME;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS postings_append_only ON postings;
+CREATE TRIGGER postings_append_only BEFORE UPDATE OR DELETE ON postings
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_mutation();
+
+DROP TRIGGER IF EXISTS journal_entries_append_only ON journal_entries;
+CREATE TRIGGER journal_entries_append_only BEFORE UPDATE OR DELETE ON journal_entries
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_mutation();
+
+-- Step 6: System accounts for every supported currency
+INSERT INTO ledger_accounts (code, name, type, currency)
+SELECT account.code || ':' || currency.code, account.name || ' (' || currency.code || ')', account.type, currency.code
+FROM (VALUES
+    ('FUNDING', 'Funding settlement', 'asset'),
+    ('FEES', 'Fee income', 'income'),
+    ('SUSPENSE', 'Suspense', 'liability')
+) AS account(code, name, type)
+CROSS JOIN (VALUES ('NGN'), ('USD'), ('EUR'), ('GBP')) AS currency(code)
+ON CONFLICT (code) DO NOTHING;
+
+-- Step 7: Every wallet gets its own ledger account, including wallets created from now on
+CREATE OR REPLACE FUNCTION create_wallet_ledger_account()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO ledger_accounts (code, name, type, currency, wallet_id)
+    VALUES ('WALLET:' || NEW.id, 'Wallet ' || NEW.id, 'liability', NEW.currency, NEW.id)
+    ON CONFLICT (code) DO NOTHING;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS create_wallet_ledger_account ON wallets;
+CREATE TRIGGER create_wallet_ledger_account AFTER INSERT ON wallets
+    FOR EACH ROW EXECUTE FUNCTION create_wallet_ledger_account();
+
+INSERT INTO ledger_accounts (code, name, type, currency, wallet_id)
+SELECT 'WALLET:' || w.id, 'Wallet ' || w.id, 'liability', w.currency, w.id
+FROM wallets w
+ON CONFLICT (code) DO NOTHING;
+
+-- Step 8: Carry existing balances into the ledger as opening entries against the funding account
+DO $$
+DECLARE
+    w RECORD;
+    entry_id UUID;
+BEGIN
+    FOR w IN
+        SELECT wl.id, wl.currency, wl.balance
+        FROM wallets wl
+        WHERE wl.balance > 0
+          AND NOT EXISTS (SELECT 1 FROM journal_entries je WHERE je.reference = 'OPENING-' || wl.id)
+    LOOP
+        INSERT INTO journal_entries (reference, entry_type, description)
+        VALUES ('OPENING-' || w.id, 'opening_balance', 'Opening balance carried over from wallets.balance')
+        RETURNING id INTO entry_id;
+
+        INSERT INTO postings (journal_entry_id, account_id, direction, amount, currency)
+        SELECT entry_id, la.id, 'debit', w.balance, w.currency
+        FROM ledger_accounts la WHERE la.code = 'FUNDING:' || w.currency;
+
+        INSERT INTO postings (journal_entry_id, account_id, direction, amount, currency)
+        SELECT entry_id, la.id, 'credit', w.balance, w.currency
+        FROM ledger_accounts la WHERE la.wallet_id = w.id;
+    END LOOP;
+END $$;
+
+-- Step 9: Balances derived from postings, signed by each account's normal balance
+CREATE OR REPLACE VIEW ledger_account_balances AS
+SELECT
+  la.id AS account_id,
+  la.code,
+  la.type,
+  la.currency,
+  la.wallet_id,
+  COALESCE(SUM(
+    CASE
+      WHEN la.type IN ('asset', 'expense') THEN
+        CASE WHEN p.direction = 'debit' THEN p.amount ELSE -p.amount END
+      ELSE
+        CASE WHEN p.direction = 'credit' THEN p.amount ELSE -p.amount END
+    END
+  ), 0) AS balance
+FROM ledger_accounts la
+LEFT JOIN postings p ON p.account_id = la.id
+GROUP BY la.id, la.code, la.type, la.currency, la.wallet_id;
+
+CREATE OR REPLACE VIEW wallet_balance_mismatches AS
+SELECT w.id AS wallet_id, w.user_id, w.currency, w.balance AS wallet_balance, lab.balance AS ledger_balance
+FROM wallets w
+JOIN ledger_account_balances lab ON lab.wallet_id = w.id
+WHERE w.balance <> lab.balance;
+
+-- Verify the change
+-- SELECT * FROM wallet_balance_mismatches;
+-- SELECT currency, SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) FROM postings GROUP BY currency;
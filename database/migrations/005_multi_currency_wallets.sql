@@ -0,0 +1,32 @@
+-- Migration: Multiple wallets per user, one per currency
+-- Replaces the UNIQUE constraint on wallets.user_id with a UNIQUE (user_id, currency) pair
+-- so a user can hold one wallet in each supported currency
+
+-- Step 1: Drop the one-wallet-per-user constraint
+ALTER TABLE wallets
+DROP CONSTRAINT IF EXISTS wallets_user_id_key;
+
+-- Step 2: Currency is now part of the wallet's identity
+UPDATE wallets SET currency = 'NGN' WHERE currency IS NULL;
+
+ALTER TABLE wallets
+ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE wallets
+DROP CONSTRAINT IF EXISTS wallets_user_id_currency_key;
+
+ALTER TABLE wallets
+ADD CONSTRAINT wallets_user_id_currency_key UNIQUE (user_id, currency);
+
+ALTER TABLE wallets
+DROP CONSTRAINT IF EXISTS wallets_currency_check;
+
+ALTER TABLE wallets
+ADD CONSTRAINT wallets_currency_check
+CHECK (currency IN ('NGN', 'USD', 'EUR', 'GBP'));
+
+-- Step 3: Wallet lookups by owner no longer hit a unique index
+CREATE INDEX IF NOT EXISTS idx_wallets_userid ON wallets(user_id);
+
+-- Verify the change
+-- SELECT user_id, currency, balance FROM wallets ORDER BY user_id, currency;
@@ -0,0 +1,71 @@
+-- Migration: Currency conversion between a user's wallets
+-- Adds user roles (so admins can maintain rates), the FX rate table, short-lived quotes,
+-- the FX position and spread income ledger accounts, and conversion transaction types
+
+-- Step 1: User roles
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';
+
+ALTER TABLE users
+DROP CONSTRAINT IF EXISTS users_role_check;
+
+ALTER TABLE users
+ADD CONSTRAINT users_role_check
+CHECK (role IN ('user', 'admin'));
+
+-- Step 2: Mid-market rates, one row per currency pair, maintained by admins or the rate feed
+CREATE TABLE IF NOT EXISTS fx_rates (
+  base_currency CHAR(3) NOT NULL,
+  quote_currency CHAR(3) NOT NULL,
+  mid_rate NUMERIC(20, 8) NOT NULL CHECK (mid_rate > 0),
+  spread_bps INTEGER NOT NULL DEFAULT 0 CHECK (spread_bps >= 0 AND spread_bps < 10000),
+  source TEXT NOT NULL CHECK (source IN ('admin', 'feed')),
+  updated_by UUID REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT now(),
+  PRIMARY KEY (base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+-- Step 3: Quotes lock a rate and amounts for a user until they expire or are used
+CREATE TABLE IF NOT EXISTS fx_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_currency CHAR(3) NOT NULL,
+  to_currency CHAR(3) NOT NULL,
+  source_amount NUMERIC(18, 2) NOT NULL CHECK (source_amount > 0),
+  target_amount NUMERIC(18, 2) NOT NULL CHECK (target_amount > 0),
+  mid_rate NUMERIC(20, 8) NOT NULL,
+  rate NUMERIC(20, 8) NOT NULL,
+  spread_bps INTEGER NOT NULL,
+  spread_amount NUMERIC(18, 2) NOT NULL CHECK (spread_amount >= 0),
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_quotes_userid ON fx_quotes(user_id);
+
+-- Step 4: FX position (the house's exposure per currency) and spread income accounts
+INSERT INTO ledger_accounts (code, name, type, currency)
+SELECT account.code || ':' || currency.code, account.name || ' (' || currency.code || ')', account.type, currency.code
+FROM (VALUES
+    ('FX_POSITION', 'FX position', 'equity'),
+    ('FX_SPREAD', 'FX spread income', 'income')
+) AS account(code, name, type)
+CROSS JOIN (VALUES ('NGN'), ('USD'), ('EUR'), ('GBP')) AS currency(code)
+ON CONFLICT (code) DO NOTHING;
+
+-- Step 5: Conversion transaction types and per-transaction metadata (rate used, quote, counter amount)
+ALTER TABLE transactions
+DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('credit', 'debit', 'transfer_in', 'transfer_out', 'conversion_in', 'conversion_out'));
+
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+-- Verify the change
+-- SELECT * FROM fx_rates;
+-- SELECT code, balance FROM ledger_account_balances WHERE code LIKE 'FX_%';
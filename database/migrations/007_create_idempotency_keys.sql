@@ -0,0 +1,22 @@
+-- Migration: Idempotency keys for money-moving endpoints
+-- Stores the first response for each (user, Idempotency-Key) so retries are replayed
+-- instead of executed again. Rows past expires_at are treated as unused and get recycled.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  request_method TEXT NOT NULL,
+  request_path TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  created_at TIMESTAMP DEFAULT now(),
+  expires_at TIMESTAMP NOT NULL,
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Verify the change
+-- SELECT user_id, idempotency_key, status, response_status, expires_at FROM idempotency_keys ORDER BY created_at DESC LIMIT 10;
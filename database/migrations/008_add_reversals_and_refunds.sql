@@ -0,0 +1,30 @@
+-- Migration: Reversals and refunds
+-- Compensating journal entries point at the entry they undo through related_entry_id, and the
+-- per-wallet transaction rows point at the row they compensate through related_transaction_id.
+-- A partial unique index makes a second reversal of the same entry impossible.
+
+-- Step 1: Link journal entries to the entry they reverse or refund
+ALTER TABLE journal_entries
+ADD COLUMN IF NOT EXISTS related_entry_id UUID REFERENCES journal_entries(id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_single_reversal
+  ON journal_entries(related_entry_id) WHERE entry_type = 'reversal';
+
+CREATE INDEX IF NOT EXISTS idx_journal_entries_related_entry ON journal_entries(related_entry_id);
+
+-- Step 2: Link compensating transaction rows to the original rows
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS related_transaction_id UUID REFERENCES transactions(id);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_related_transaction ON transactions(related_transaction_id);
+
+-- Step 3: Reversal and refund transaction types
+ALTER TABLE transactions
+DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('credit', 'debit', 'transfer_in', 'transfer_out', 'conversion_in', 'conversion_out', 'reversal', 'refund'));
+
+-- Verify the change
+-- SELECT id, reference, entry_type, related_entry_id FROM journal_entries WHERE related_entry_id IS NOT NULL;
@@ -0,0 +1,36 @@
+-- Migration: Authorization holds
+-- A hold reserves part of a wallet's balance without touching the ledger. wallets.held_amount
+-- is the sum of the wallet's active holds, and the available balance is balance - held_amount.
+-- Each hold owns a 'pending' transaction row that becomes 'success' when the hold is captured,
+-- or 'failed' when it is voided or expires.
+
+-- Step 1: Reserved amount per wallet
+ALTER TABLE wallets
+ADD COLUMN IF NOT EXISTS held_amount NUMERIC(18, 2) NOT NULL DEFAULT 0.00 CHECK (held_amount >= 0);
+
+-- Step 2: Holds, optionally naming the recipient of a two-phase transfer
+CREATE TABLE IF NOT EXISTS holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_id UUID NOT NULL REFERENCES wallets(id),
+  user_id UUID NOT NULL REFERENCES users(id),
+  recipient_user_id UUID REFERENCES users(id),
+  amount NUMERIC(18, 2) NOT NULL CHECK (amount > 0),
+  captured_amount NUMERIC(18, 2) CHECK (captured_amount > 0 AND captured_amount <= amount),
+  reference TEXT UNIQUE NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'captured', 'voided', 'expired')),
+  transaction_id UUID REFERENCES transactions(id),
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_holds_user_id ON holds(user_id);
+CREATE INDEX IF NOT EXISTS idx_holds_active_expiry ON holds(expires_at) WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_holds_updated_at ON holds;
+CREATE TRIGGER update_holds_updated_at BEFORE UPDATE ON holds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Verify the change
+-- SELECT w.id, w.balance, w.held_amount, w.balance - w.held_amount AS available_balance FROM wallets w;
@@ -0,0 +1,50 @@
+-- Migration: Scheduled and recurring transfers
+-- A schedule describes a transfer to repeat from start_at ('once', 'daily', 'weekly' or 'monthly').
+-- Occurrences are numbered from 0; occurrence n is due at start_at + n intervals, so monthly
+-- schedules keep their day of month. Every attempt is kept in scheduled_transfer_runs with a
+-- deterministic reference (SCH-<schedule id>-<occurrence>), which makes a repeated run a no-op.
+
+-- Step 1: Schedules
+CREATE TABLE IF NOT EXISTS scheduled_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_user_id UUID NOT NULL REFERENCES users(id),
+  amount NUMERIC(18, 2) NOT NULL CHECK (amount > 0),
+  currency CHAR(3) NOT NULL,
+  description TEXT,
+  frequency TEXT NOT NULL CHECK (frequency IN ('once', 'daily', 'weekly', 'monthly')),
+  start_at TIMESTAMP NOT NULL,
+  end_at TIMESTAMP,
+  max_runs INTEGER CHECK (max_runs > 0),
+  next_occurrence INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP,
+  run_count INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+  created_at TIMESTAMP DEFAULT now(),
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transfers_user_id ON scheduled_transfers(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_transfers_due ON scheduled_transfers(next_run_at) WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_scheduled_transfers_updated_at ON scheduled_transfers;
+CREATE TRIGGER update_scheduled_transfers_updated_at BEFORE UPDATE ON scheduled_transfers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 2: Outcome of every run, including failed ones
+CREATE TABLE IF NOT EXISTS scheduled_transfer_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scheduled_transfer_id UUID NOT NULL REFERENCES scheduled_transfers(id) ON DELETE CASCADE,
+  occurrence INTEGER NOT NULL,
+  reference TEXT UNIQUE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+  error_message TEXT,
+  scheduled_for TIMESTAMP NOT NULL,
+  executed_at TIMESTAMP DEFAULT now(),
+  UNIQUE (scheduled_transfer_id, occurrence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_transfer_runs_schedule ON scheduled_transfer_runs(scheduled_transfer_id);
+
+-- Verify the change
+-- SELECT id, frequency, next_run_at, run_count, status FROM scheduled_transfers WHERE status = 'active' ORDER BY next_run_at;
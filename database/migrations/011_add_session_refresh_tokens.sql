@@ -0,0 +1,23 @@
+-- Migration: Rotating refresh tokens on the sessions table
+-- Every row is one refresh token; `token` holds its SHA-256 hash, never the token itself.
+-- Rotating a token inserts a new row in the same family and points the old one at it through
+-- replaced_by. Presenting a token that was already replaced revokes the whole family.
+
+-- Step 1: Group tokens issued from the same login
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS family_id UUID;
+UPDATE sessions SET family_id = id WHERE family_id IS NULL;
+ALTER TABLE sessions ALTER COLUMN family_id SET NOT NULL;
+
+-- Step 2: Rotation and revocation state
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS replaced_by UUID;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ip_address TEXT;
+
+-- Step 3: Sessions always belong to a user
+DELETE FROM sessions WHERE user_id IS NULL;
+ALTER TABLE sessions ALTER COLUMN user_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_family_id ON sessions(family_id);
+
+-- Verify the change
+-- SELECT family_id, COUNT(*) AS tokens, MAX(revoked_at) AS revoked_at FROM sessions GROUP BY family_id LIMIT 10;
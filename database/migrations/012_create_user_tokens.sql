@@ -0,0 +1,18 @@
+-- Migration: Single-use tokens emailed to users
+-- Only the SHA-256 hash of each token is stored. A token is spent by setting consumed_at,
+-- and is never valid after expires_at.
+
+CREATE TABLE IF NOT EXISTS user_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose TEXT NOT NULL CHECK (purpose IN ('email_verification')),
+  token_hash TEXT UNIQUE NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  consumed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_tokens_user_purpose ON user_tokens(user_id, purpose, created_at DESC);
+
+-- Verify the change
+-- SELECT user_id, purpose, expires_at, consumed_at FROM user_tokens ORDER BY created_at DESC LIMIT 10;
@@ -0,0 +1,12 @@
+-- Migration: Password reset tokens
+-- Reset tokens live in user_tokens next to email verification codes.
+
+ALTER TABLE user_tokens
+DROP CONSTRAINT IF EXISTS user_tokens_purpose_check;
+
+ALTER TABLE user_tokens
+ADD CONSTRAINT user_tokens_purpose_check
+CHECK (purpose IN ('email_verification', 'password_reset'));
+
+-- Verify the change
+-- SELECT purpose, COUNT(*) FROM user_tokens GROUP BY purpose;
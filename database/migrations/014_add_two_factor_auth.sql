@@ -0,0 +1,23 @@
+-- Migration: TOTP two-factor authentication
+-- totp_secret is written at setup and only counts once totp_enabled is set by a confirmed code.
+-- totp_last_step is the time step of the last accepted code, so a code cannot be replayed.
+
+-- Step 1: TOTP state on users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_step BIGINT;
+
+-- Step 2: Single-use recovery codes, stored hashed
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
+
+-- Verify the change
+-- SELECT id, email, totp_enabled FROM users WHERE totp_enabled;
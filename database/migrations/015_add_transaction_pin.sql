@@ -0,0 +1,11 @@
+-- Migration: Transaction PIN
+-- pin_hash is a bcrypt hash of the 4-6 digit PIN required for debits and transfers.
+-- Failed PIN attempts are counted separately from login, and reaching the limit sets pin_locked_until.
+
+-- Step 1: PIN state on users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_failed_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_locked_until TIMESTAMP;
+
+-- Verify the change
+-- SELECT id, email, pin_hash IS NOT NULL AS has_pin, pin_failed_attempts, pin_locked_until FROM users;
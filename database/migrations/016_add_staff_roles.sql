@@ -0,0 +1,17 @@
+-- Migration: Staff roles
+-- Support staff can look up users and their wallets, auditors get read-only access to the audit trail,
+-- and admins can do both plus manage roles.
+
+-- Step 1: Allow the new roles
+ALTER TABLE users
+DROP CONSTRAINT IF EXISTS users_role_check;
+
+ALTER TABLE users
+ADD CONSTRAINT users_role_check
+CHECK (role IN ('user', 'support', 'admin', 'auditor'));
+
+-- Step 2: Staff lists filter on role
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role) WHERE role <> 'user';
+
+-- Verify the change
+-- SELECT role, COUNT(*) FROM users GROUP BY role;
@@ -0,0 +1,33 @@
+-- Migration: Wallet and account status
+-- active: everything allowed; frozen: money can come in but not leave;
+-- suspended: no money movement at all; closed: like suspended, and final.
+-- A user's status applies to all of their wallets on top of each wallet's own status.
+
+-- Step 1: Status columns
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE wallets ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_status_check;
+ALTER TABLE users ADD CONSTRAINT users_status_check
+CHECK (status IN ('active', 'frozen', 'suspended', 'closed'));
+
+ALTER TABLE wallets DROP CONSTRAINT IF EXISTS wallets_status_check;
+ALTER TABLE wallets ADD CONSTRAINT wallets_status_check
+CHECK (status IN ('active', 'frozen', 'suspended', 'closed'));
+
+-- Step 2: Every status change, with who made it and why
+CREATE TABLE IF NOT EXISTS status_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('user', 'wallet')),
+  subject_id UUID NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_changes_subject ON status_changes(subject_type, subject_id, created_at DESC);
+
+-- Verify the change
+-- SELECT subject_type, subject_id, from_status, to_status, reason, created_at FROM status_changes ORDER BY created_at DESC;
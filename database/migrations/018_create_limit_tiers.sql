@@ -0,0 +1,53 @@
+-- Migration: Transaction limits by tier
+-- Each user belongs to a tier, and each tier has per-currency limits on single payments,
+-- rolling daily (24 hour) and monthly (30 day) outflow, and the wallet balance. NULL means no limit.
+-- Users can set lower limits for themselves in user_limits; the lower of the two applies.
+
+-- Step 1: Tier limits per currency
+CREATE TABLE IF NOT EXISTS limit_tiers (
+  tier TEXT NOT NULL CHECK (tier IN ('basic', 'standard', 'premium')),
+  currency CHAR(3) NOT NULL,
+  per_transaction_max NUMERIC(18, 2) CHECK (per_transaction_max > 0),
+  daily_outflow_max NUMERIC(18, 2) CHECK (daily_outflow_max > 0),
+  monthly_outflow_max NUMERIC(18, 2) CHECK (monthly_outflow_max > 0),
+  max_balance NUMERIC(18, 2) CHECK (max_balance > 0),
+  updated_at TIMESTAMP DEFAULT now(),
+  PRIMARY KEY (tier, currency)
+);
+
+INSERT INTO limit_tiers (tier, currency, per_transaction_max, daily_outflow_max, monthly_outflow_max, max_balance)
+VALUES
+  ('basic', 'NGN', 50000, 200000, 1000000, 300000),
+  ('basic', 'USD', 100, 400, 2000, 500),
+  ('basic', 'EUR', 100, 400, 2000, 500),
+  ('basic', 'GBP', 100, 400, 2000, 500),
+  ('standard', 'NGN', 500000, 2000000, 20000000, 5000000),
+  ('standard', 'USD', 1000, 4000, 40000, 10000),
+  ('standard', 'EUR', 1000, 4000, 40000, 10000),
+  ('standard', 'GBP', 1000, 4000, 40000, 10000),
+  ('premium', 'NGN', 5000000, 20000000, 200000000, NULL),
+  ('premium', 'USD', 10000, 40000, 400000, NULL),
+  ('premium', 'EUR', 10000, 40000, 400000, NULL),
+  ('premium', 'GBP', 10000, 40000, 400000, NULL)
+ON CONFLICT (tier, currency) DO NOTHING;
+
+-- Step 2: Tier assignment; existing users start on basic
+ALTER TABLE users ADD COLUMN IF NOT EXISTS limit_tier TEXT NOT NULL DEFAULT 'basic';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_limit_tier_check;
+ALTER TABLE users ADD CONSTRAINT users_limit_tier_check
+CHECK (limit_tier IN ('basic', 'standard', 'premium'));
+
+-- Step 3: Limits users set for themselves, NULL falls back to the tier
+CREATE TABLE IF NOT EXISTS user_limits (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  currency CHAR(3) NOT NULL,
+  per_transaction_max NUMERIC(18, 2) CHECK (per_transaction_max > 0),
+  daily_outflow_max NUMERIC(18, 2) CHECK (daily_outflow_max > 0),
+  monthly_outflow_max NUMERIC(18, 2) CHECK (monthly_outflow_max > 0),
+  updated_at TIMESTAMP DEFAULT now(),
+  PRIMARY KEY (user_id, currency)
+);
+
+-- Verify the change
+-- SELECT tier, currency, per_transaction_max, daily_outflow_max, monthly_outflow_max, max_balance FROM limit_tiers ORDER BY tier, currency;
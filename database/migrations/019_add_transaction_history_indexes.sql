@@ -0,0 +1,19 @@
+-- Migration: Transaction history filters and keyset pagination
+-- History pages walk (created_at, id) backwards per user, so deep pages seek through an index
+-- instead of counting and skipping every earlier row.
+
+-- Step 1: Keyset index for the history feed
+CREATE INDEX IF NOT EXISTS idx_transactions_user_created_id
+ON transactions(user_id, created_at DESC, id DESC);
+
+-- Step 2: Trigram indexes so the free-text search can use ILIKE '%term%'
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_description_trgm
+ON transactions USING GIN (description gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_reference_trgm
+ON transactions USING GIN (reference gin_trgm_ops);
+
+-- Verify the change
+-- SELECT indexname FROM pg_indexes WHERE tablename = 'transactions' ORDER BY indexname;
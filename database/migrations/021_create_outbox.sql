@@ -0,0 +1,31 @@
+-- Migration: Transactional outbox
+-- Events are written in the same DB transaction as the balance change they describe, so they
+-- exist exactly when the change committed. A relay worker hands each row to every sink (audit
+-- log, webhooks, in-process bus) and marks it published once all of them accepted it. Rows of
+-- one wallet are relayed in id order; a row that keeps failing holds back the rows behind it.
+
+-- Step 1: Outbox rows
+CREATE TABLE IF NOT EXISTS outbox_events (
+  id BIGSERIAL PRIMARY KEY,
+  -- Sent to sinks as the event id, so a retried event can be recognized downstream
+  event_id UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  wallet_id UUID NOT NULL REFERENCES wallets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  ip_address VARCHAR(45),
+  -- Sinks that already accepted the event; a retry only runs the others
+  delivered_sinks TEXT[] NOT NULL DEFAULT '{}',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT now(),
+  published_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+-- Step 2: Indexes for the relay and the cleanup of published rows
+CREATE INDEX IF NOT EXISTS idx_outbox_events_unpublished ON outbox_events(wallet_id, id) WHERE published_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_outbox_events_published_at ON outbox_events(published_at) WHERE published_at IS NOT NULL;
+
+-- Verify the change
+-- SELECT event_type, attempts, last_error, next_attempt_at FROM outbox_events WHERE published_at IS NULL ORDER BY id;
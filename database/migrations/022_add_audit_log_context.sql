@@ -0,0 +1,23 @@
+-- Migration: Audit log search and request context
+-- Audit records now carry the id of the request that wrote them, next to its IP and user agent.
+-- Outbox events keep the same details, since the relay writes their audit records after the
+-- request is gone. Searches walk id backwards, filtered by actor, event type or time.
+
+-- Step 1: Request details on audit records and outbox events
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS request_id TEXT;
+
+ALTER TABLE outbox_events ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE outbox_events ADD COLUMN IF NOT EXISTS request_id TEXT;
+
+-- Step 2: Indexes for the audit search and the security activity feed
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor_id ON audit_logs(actor_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_event_type_id ON audit_logs(event_type, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_request_id ON audit_logs(request_id) WHERE request_id IS NOT NULL;
+
+-- Step 3: The new indexes lead with the same columns
+DROP INDEX IF EXISTS idx_audit_logs_actor;
+DROP INDEX IF EXISTS idx_audit_logs_event_type;
+
+-- Verify the change
+-- SELECT event_type, ip_address, user_agent, request_id FROM audit_logs ORDER BY id DESC LIMIT 20;
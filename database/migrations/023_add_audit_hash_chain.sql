@@ -0,0 +1,49 @@
+-- Migration: Tamper-evident audit log
+-- Every audit record stores a sequence number, the hash of the record before it and a hash of
+-- its own content with that link, so editing or deleting a record breaks the chain after it.
+-- Writers lock the single audit_chain_head row, which serializes them and leaves no gaps.
+-- Checkpoints sign the head of the chain with a key kept outside the database, so the chain
+-- cannot be rebuilt from the point of a change without the forgery showing.
+
+-- Step 1: Chain columns; records written before this migration stay outside the chain
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS seq BIGINT UNIQUE;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS hash TEXT;
+
+-- Step 2: The last link of the chain, one row
+CREATE TABLE IF NOT EXISTS audit_chain_head (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  seq BIGINT NOT NULL DEFAULT 0,
+  hash TEXT,
+  updated_at TIMESTAMP DEFAULT now()
+);
+
+INSERT INTO audit_chain_head (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Step 3: Signed checkpoints of the head
+CREATE TABLE IF NOT EXISTS audit_checkpoints (
+  id BIGSERIAL PRIMARY KEY,
+  seq BIGINT NOT NULL,
+  hash TEXT NOT NULL,
+  -- HMAC-SHA256 of seq and hash with AUDIT_CHECKPOINT_SECRET
+  signature TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_checkpoints_seq ON audit_checkpoints(seq);
+
+-- Step 4: Refuse edits and deletes of audit records; the chain still shows them if this is bypassed
+CREATE OR REPLACE FUNCTION prevent_audit_log_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Audit log is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+CREATE TRIGGER audit_logs_append_only BEFORE UPDATE OR DELETE ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_mutation();
+
+-- Verify the change
+-- SELECT seq, prev_hash, hash FROM audit_logs WHERE seq IS NOT NULL ORDER BY seq DESC LIMIT 5;
+-- SELECT * FROM audit_chain_head;
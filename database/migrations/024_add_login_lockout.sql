@@ -0,0 +1,11 @@
+-- Migration: Per-account login lockout
+-- Wrong passwords are counted per account, whichever IP they come from. Each one makes the account
+-- wait longer before the next attempt is checked, and reaching the limit locks it for a while.
+-- login_locked_until covers both the short waits and the lockout.
+
+-- Step 1: Login attempt state on users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS login_locked_until TIMESTAMP;
+
+-- Verify the change
+-- SELECT id, email, failed_login_attempts, login_locked_until FROM users WHERE login_locked_until > now();
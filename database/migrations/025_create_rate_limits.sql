@@ -0,0 +1,16 @@
+-- Migration: Shared rate limit counters
+-- One row per limiter and client, counting hits in the current fixed window, so every app
+-- instance enforces the same limits. Rows past reset_at start a new window on the next hit and
+-- are deleted by a background job. UNLOGGED: counters are cheap to lose in a crash and are
+-- written on every request, so they skip the write-ahead log.
+
+CREATE UNLOGGED TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  hits INTEGER NOT NULL,
+  reset_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON rate_limits(reset_at);
+
+-- Verify the change
+-- SELECT key, hits, reset_at FROM rate_limits ORDER BY hits DESC LIMIT 10;
@@ -0,0 +1,10 @@
+-- Migration: Drop stored webhook response bodies
+-- Delivery attempts kept the start of each response, and owners could read it back. An endpoint
+-- resolving to an internal service turned that into a way to read the service, so only the status
+-- is kept from now on and the bodies already stored are removed.
+
+-- Step 1: Remove the column and everything in it
+ALTER TABLE webhook_delivery_attempts DROP COLUMN IF EXISTS response_body;
+
+-- Verify the change
+-- SELECT column_name FROM information_schema.columns WHERE table_name = 'webhook_delivery_attempts';
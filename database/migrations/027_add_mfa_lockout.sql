@@ -0,0 +1,10 @@
+-- Migration: Per-account two-factor code lockout
+-- Wrong TOTP and recovery codes are counted per account, at login and for payments alike. Reaching
+-- the limit stops codes being checked for a while, so the six-digit code cannot be guessed by volume.
+
+-- Step 1: Two-factor attempt state on users
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_mfa_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_locked_until TIMESTAMP;
+
+-- Verify the change
+-- SELECT id, email, failed_mfa_attempts, mfa_locked_until FROM users WHERE mfa_locked_until > now();
@@ -0,0 +1,10 @@
+-- Migration: Processing lease on idempotency keys
+-- A claimed key used to stay 'processing' until it expired if the process died mid-request, so
+-- every retry got 409 for a day. The claim now holds a lease; a retry of the same request may
+-- take the key over once the lease has run out.
+
+-- Step 1: Lease on the claim
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+-- Verify the change
+-- SELECT user_id, idempotency_key, status, locked_until FROM idempotency_keys WHERE status = 'processing';
@@ -0,0 +1,19 @@
+-- Migration: Outbox cleanup watermark
+-- Records the highest outbox id the cleanup has deleted. A realtime client resuming from an
+-- earlier id may have missed deleted events and is told to reload. The oldest remaining row
+-- cannot answer this, since an event that never publishes is never deleted.
+
+-- Step 1: Single-row watermark
+CREATE TABLE IF NOT EXISTS outbox_cleanup (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  deleted_through BIGINT NOT NULL DEFAULT 0
+);
+
+-- Step 2: Seed it. Which rows were deleted before now is not known, so every id issued so far
+-- counts as possibly deleted; a client resuming across the upgrade reloads once.
+INSERT INTO outbox_cleanup (id, deleted_through)
+SELECT true, CASE WHEN is_called THEN last_value ELSE 0 END FROM outbox_events_id_seq
+ON CONFLICT (id) DO NOTHING;
+
+-- Verify the change
+-- SELECT deleted_through FROM outbox_cleanup;
@@ -0,0 +1,132 @@
+import { accountStatusService, assertStatusAllows } from '../services/accountStatusService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { webhookService } from '../services/webhookService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+jest.mock('../services/webhookService', () => ({
+  webhookService: {
+    publish: jest.fn(),
+  },
+}));
+
+describe('AccountStatusService', () => {
+  const staffId = 'staff-1';
+  const userId = 'user-123';
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('assertStatusAllows', () => {
+    it('should let money into a frozen wallet but not out of it', () => {
+      expect(() => assertStatusAllows({ status: 'frozen', user_status: 'active' }, 'in')).not.toThrow();
+      expect(() => assertStatusAllows({ status: 'frozen', user_status: 'active' }, 'out')).toThrow(
+        'This wallet is frozen'
+      );
+    });
+
+    it('should block everything for a suspended or closed owner', () => {
+      expect(() => assertStatusAllows({ status: 'active', user_status: 'suspended' }, 'in')).toThrow(
+        'Your account is suspended'
+      );
+      expect(() => assertStatusAllows({ status: 'active', user_status: 'closed' }, 'in', 'recipient')).toThrow(
+        'Recipient account cannot receive funds'
+      );
+    });
+  });
+
+  describe('setUserStatus', () => {
+    it('should record the change with its reason and audit it', async () => {
+      const change = {
+        id: 'change-1',
+        subject_type: 'user',
+        subject_id: userId,
+        from_status: 'active',
+        to_status: 'frozen',
+        reason: 'Chargeback dispute',
+        changed_by: staffId,
+        created_at: new Date(),
+      };
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ status: 'active' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [change] });
+
+      const result = await accountStatusService.setUserStatus(
+        staffId,
+        userId,
+        'frozen',
+        '  Chargeback dispute ',
+        '127.0.0.1'
+      );
+
+      expect(result).toEqual(change);
+      expect(mockClient.query).toHaveBeenNthCalledWith(2, 'UPDATE users SET status = $1 WHERE id = $2', [
+        'frozen',
+        userId,
+      ]);
+      expect(mockClient.query.mock.calls[2][1]).toEqual(['user', userId, 'active', 'frozen', 'Chargeback dispute', staffId]);
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: staffId,
+        eventType: 'USER_STATUS_CHANGED',
+        eventData: { userId, from: 'active', to: 'frozen', reason: 'Chargeback dispute' },
+        ipAddress: '127.0.0.1',
+      });
+      expect(webhookService.publish).toHaveBeenCalledWith(userId, 'account.frozen', {
+        from_status: 'active',
+        to_status: 'frozen',
+      });
+    });
+
+    it('should require a reason', async () => {
+      await expect(accountStatusService.setUserStatus(staffId, userId, 'frozen', ' ')).rejects.toThrow(
+        'A reason is required'
+      );
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not close an account that still holds money', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ status: 'suspended' }] }).mockResolvedValueOnce({
+        rows: [
+          { balance: '0.00', held_amount: '0.00' },
+          { balance: '0.00', held_amount: '25.00' },
+        ],
+      });
+
+      await expect(accountStatusService.setUserStatus(staffId, userId, 'closed', 'Customer request')).rejects.toThrow(
+        'Account must have no balance or holds before it is closed'
+      );
+      expect(mockClient.query.mock.calls[1][0]).toBe(
+        'SELECT balance, held_amount FROM wallets WHERE user_id = $1 ORDER BY id FOR UPDATE'
+      );
+    });
+  });
+
+  describe('setWalletStatus', () => {
+    it('should not reopen a closed wallet', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ status: 'closed', balance: '0.00', held_amount: '0.00' }] });
+
+      await expect(
+        accountStatusService.setWalletStatus(staffId, 'wallet-123', 'active', 'Opened by mistake')
+      ).rejects.toThrow('Wallet is closed and cannot be reopened');
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { adminService } from '../services/adminService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
+import { walletService } from '../services/walletService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+jest.mock('../services/sessionService', () => ({
+  sessionService: {
+    revokeAllSessions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/walletService', () => ({
+  walletService: {
+    getWallets: jest.fn(),
+    getTransactionHistory: jest.fn(),
+  },
+}));
+
+describe('AdminService', () => {
+  const staffId = 'staff-1';
+  const customer = {
+    id: 'user-123',
+    email: 'test@example.com',
+    full_name: 'Test User',
+    phone_number: null,
+    is_verified: true,
+    role: 'user',
+    created_at: new Date(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('searchUsers', () => {
+    it('should match on email, name or phone and audit the search', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+        .mockResolvedValueOnce({ rows: [customer] });
+
+      const result = await adminService.searchUsers(staffId, ' test_user ', 1, 20, '127.0.0.1');
+
+      expect(result).toEqual({ users: [customer], total: 1, page: 1, totalPages: 1 });
+      expect(db.query).toHaveBeenNthCalledWith(
+        1,
+        'SELECT COUNT(*) FROM users WHERE email ILIKE $1 OR full_name ILIKE $1 OR phone_number ILIKE $1',
+        ['%test\\_user%']
+      );
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: staffId,
+        eventType: 'ADMIN_USERS_SEARCHED',
+        eventData: { query: 'test_user', page: 1, results: 1 },
+        ipAddress: '127.0.0.1',
+      });
+    });
+
+    it('should list everyone when the query is empty', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await adminService.searchUsers(staffId);
+
+      expect(db.query).toHaveBeenNthCalledWith(1, 'SELECT COUNT(*) FROM users', []);
+      expect((db.query as jest.Mock).mock.calls[1][1]).toEqual([20, 0]);
+    });
+  });
+
+  describe('getUserTransactions', () => {
+    it('should return any user history with the staff member as the audited actor', async () => {
+      const history = { transactions: [], total: 0, page: 2, totalPages: 0 };
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [customer] });
+      (walletService.getTransactionHistory as jest.Mock).mockResolvedValueOnce(history);
+
+      const result = await adminService.getUserTransactions(staffId, customer.id, 2, 20, 'USD');
+
+      expect(result).toBe(history);
+      expect(walletService.getTransactionHistory).toHaveBeenCalledWith(customer.id, 2, 20, 'USD', {});
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: staffId,
+          eventType: 'ADMIN_TRANSACTIONS_VIEWED',
+          eventData: { userId: customer.id, currency: 'USD', page: 2, filters: {} },
+        })
+      );
+    });
+
+    it('should throw error for an unknown user', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(adminService.getUserTransactions(staffId, 'missing')).rejects.toThrow('User not found');
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWallet', () => {
+    it('should throw error when the wallet does not exist', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(adminService.getWallet(staffId, 'wallet-x')).rejects.toThrow('Wallet not found');
+    });
+  });
+
+  describe('setRole', () => {
+    it('should change the role and sign the user out everywhere', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [customer] })
+        .mockResolvedValueOnce({ rows: [{ ...customer, role: 'support' }] });
+      (sessionService.revokeAllSessions as jest.Mock).mockResolvedValueOnce(2);
+
+      const result = await adminService.setRole(staffId, customer.id, 'support');
+
+      expect(result.role).toBe('support');
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith(customer.id);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: staffId,
+          eventType: 'ADMIN_ROLE_CHANGED',
+          eventData: { userId: customer.id, from: 'user', to: 'support', revokedSessions: 2 },
+        })
+      );
+    });
+
+    it('should reject an unknown role', async () => {
+      await expect(adminService.setRole(staffId, customer.id, 'owner' as any)).rejects.toThrow(
+        'role must be one of user, support, admin, auditor'
+      );
+    });
+
+    it('should not let staff change their own role', async () => {
+      await expect(adminService.setRole(staffId, staffId, 'user')).rejects.toThrow('You cannot change your own role');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+});
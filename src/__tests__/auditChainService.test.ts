@@ -0,0 +1,205 @@
+import { auditChainService } from '../services/auditChainService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { AuditChainEntry } from '../types';
+import { auditEntryHash, canonicalJson, signCheckpoint } from '../utils/auditChain';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    iterate: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    AUDIT_CHECKPOINT_SECRET: 'checkpoint-secret',
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+type ChainRow = AuditChainEntry & { hash: string };
+
+// A valid chain of `length` records, as the audit service writes them
+const buildChain = (length: number): ChainRow[] => {
+  const rows: ChainRow[] = [];
+
+  for (let seq = 1; seq <= length; seq++) {
+    const entry: AuditChainEntry = {
+      seq: String(seq),
+      prev_hash: rows.length > 0 ? rows[rows.length - 1].hash : null,
+      actor_id: 'user-1',
+      event_type: 'USER_LOGIN',
+      event_data: { email: 'user@example.com', attempt: seq },
+      ip_address: '127.0.0.1',
+      user_agent: 'curl/8.0',
+      request_id: `req-${seq}`,
+      created_at: `2025-01-05 09:30:0${seq}.000000`,
+    };
+    rows.push({ ...entry, hash: auditEntryHash(entry) });
+  }
+
+  return rows;
+};
+
+const checkpointAt = (row: ChainRow, signature?: string) => ({
+  id: row.seq,
+  seq: row.seq,
+  hash: row.hash,
+  signature: signature || signCheckpoint('checkpoint-secret', row.seq, row.hash),
+  created_at: new Date(),
+});
+
+describe('AuditChainService', () => {
+  // The chain head, the checkpoints, the rows walked and the count of records outside the chain
+  const storeWith = (
+    rows: ChainRow[],
+    head: { seq: string; hash: string | null },
+    checkpoints: any[] = [],
+    unchained = 0
+  ): void => {
+    (db.query as jest.Mock).mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM audit_chain_head')) {
+        return { rows: [head] };
+      }
+      if (sql.includes('FROM audit_checkpoints')) {
+        return { rows: checkpoints };
+      }
+      return { rows: [{ count: String(unchained) }] };
+    });
+    (db.iterate as jest.Mock).mockImplementation(async function* () {
+      yield* rows;
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('canonicalJson', () => {
+    it('should not depend on key order', () => {
+      expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: null }], c: 'x' } })).toBe(
+        canonicalJson({ a: { c: 'x', d: [2, { e: null, f: 3 }] }, b: 1 })
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept an untouched chain and audit the run', async () => {
+      const chain = buildChain(4);
+      storeWith(chain, { seq: '4', hash: chain[3].hash }, [checkpointAt(chain[1])]);
+
+      const report = await auditChainService.verify('auditor-1', '::1');
+
+      expect(report).toEqual({
+        valid: true,
+        checked: 4,
+        head_seq: '4',
+        first_broken_seq: null,
+        changed: [],
+        missing: [],
+        invalid_checkpoints: [],
+        unchained: 0,
+      });
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: 'auditor-1',
+        eventType: 'AUDIT_CHAIN_VERIFIED',
+        eventData: { valid: true, checked: 4, firstBrokenSeq: null },
+        ipAddress: '::1',
+      });
+    });
+
+    it('should find a record whose content was edited', async () => {
+      const chain = buildChain(4);
+      chain[1] = { ...chain[1], event_data: { email: 'someone@else.com', attempt: 2 } };
+      storeWith(chain, { seq: '4', hash: chain[3].hash });
+
+      const report = await auditChainService.verify();
+
+      expect(report.valid).toBe(false);
+      expect(report.first_broken_seq).toBe('2');
+      expect(report.changed).toEqual(['2']);
+    });
+
+    it('should find a record that was edited and rehashed from the link that no longer matches', async () => {
+      const chain = buildChain(4);
+      const { hash, ...entry } = chain[1];
+      const forged = { ...entry, ip_address: '10.0.0.1' };
+      chain[1] = { ...forged, hash: auditEntryHash(forged) };
+      storeWith(chain, { seq: '4', hash: chain[3].hash });
+
+      const report = await auditChainService.verify();
+
+      expect(hash).not.toBe(chain[1].hash);
+      expect(report.changed).toEqual(['2']);
+    });
+
+    it('should report deleted records as missing sequence numbers', async () => {
+      const chain = buildChain(6);
+      storeWith([chain[0], chain[3], chain[4], chain[5]], { seq: '6', hash: chain[5].hash });
+
+      const report = await auditChainService.verify();
+
+      expect(report.missing).toEqual([{ from: '2', to: '3' }]);
+      expect(report.first_broken_seq).toBe('2');
+    });
+
+    it('should notice records cut from the end against a signed checkpoint', async () => {
+      const chain = buildChain(5);
+      // The head was rolled back along with the rows, but the checkpoint cannot be
+      storeWith(chain.slice(0, 3), { seq: '3', hash: chain[2].hash }, [checkpointAt(chain[4])]);
+
+      const report = await auditChainService.verify();
+
+      expect(report.missing).toEqual([{ from: '4', to: '5' }]);
+    });
+
+    it('should reject a checkpoint with a forged signature', async () => {
+      const chain = buildChain(3);
+      storeWith(chain, { seq: '3', hash: chain[2].hash }, [checkpointAt(chain[2], 'f'.repeat(64))]);
+
+      const report = await auditChainService.verify();
+
+      expect(report.invalid_checkpoints).toEqual(['3']);
+      expect(report.valid).toBe(false);
+    });
+
+    it('should count records written outside the chain', async () => {
+      const chain = buildChain(2);
+      storeWith(chain, { seq: '2', hash: chain[1].hash }, [], 1);
+
+      const report = await auditChainService.verify();
+
+      expect(report.unchained).toBe(1);
+      expect(report.valid).toBe(false);
+    });
+  });
+
+  describe('checkpoint', () => {
+    it('should sign the head of the chain', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ seq: '42', hash: 'hash-42' }] })
+        .mockResolvedValueOnce({ rows: [{ id: '1', seq: '42' }] });
+
+      await auditChainService.checkpoint();
+
+      expect((db.query as jest.Mock).mock.calls[1][1]).toEqual([
+        '42',
+        'hash-42',
+        signCheckpoint('checkpoint-secret', '42', 'hash-42'),
+      ]);
+    });
+
+    it('should do nothing before the first chained record', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ seq: '0', hash: null }] });
+
+      await expect(auditChainService.checkpoint()).resolves.toBeNull();
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
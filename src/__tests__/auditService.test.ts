@@ -1,18 +1,36 @@
 import { auditService } from '../services/auditService';
 import { db } from '../database/postgres';
+import { auditEntryHash } from '../utils/auditChain';
+import { runWithRequestContext } from '../utils/requestContext';
 
 // Mock database
 jest.mock('../database/postgres', () => ({
   db: {
     query: jest.fn(),
+    transaction: jest.fn(),
   },
 }));
 
 describe('AuditService', () => {
+  let mockClient: { query: jest.Mock };
+
+  // The audit record's columns, without the chain fields
+  const insertedParams = (): any[] =>
+    mockClient.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO audit_logs'))[1].slice(0, 6);
+
   beforeEach(() => {
     jest.clearAllMocks();
     // Clear console.error mock
     jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockClient = {
+      query: jest.fn(async (sql: string) =>
+        sql.includes('FROM audit_chain_head')
+          ? { rows: [{ seq: '41', hash: 'hash-41', now: '2025-01-05 09:30:00.123456' }] }
+          : { rows: [] }
+      ),
+    };
+    (db.transaction as jest.Mock).mockImplementation((callback) => callback(mockClient));
   });
 
   afterEach(() => {
@@ -29,21 +47,16 @@ describe('AuditService', () => {
         userAgent: 'Mozilla/5.0',
       };
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.log(auditData);
 
-      expect(db.query).toHaveBeenCalledWith(
-        `INSERT INTO audit_logs (actor_id, event_type, event_data, ip_address, user_agent)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [
-          auditData.actorId,
-          auditData.eventType,
-          JSON.stringify(auditData.eventData),
-          auditData.ipAddress,
-          auditData.userAgent,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        auditData.actorId,
+        auditData.eventType,
+        JSON.stringify(auditData.eventData),
+        auditData.ipAddress,
+        auditData.userAgent,
+        null,
+      ]);
     });
 
     it('should handle null optional fields', async () => {
@@ -53,20 +66,16 @@ describe('AuditService', () => {
         eventData: { key: 'value' },
       };
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.log(auditData);
 
-      expect(db.query).toHaveBeenCalledWith(
-        expect.any(String),
-        [
-          auditData.actorId,
-          auditData.eventType,
-          JSON.stringify(auditData.eventData),
-          null,
-          null,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        auditData.actorId,
+        auditData.eventType,
+        JSON.stringify(auditData.eventData),
+        null,
+        null,
+        null,
+      ]);
     });
 
     it('should catch and log errors without throwing', async () => {
@@ -77,7 +86,7 @@ describe('AuditService', () => {
       };
 
       const error = new Error('Database error');
-      (db.query as jest.Mock).mockRejectedValueOnce(error);
+      (db.transaction as jest.Mock).mockRejectedValueOnce(error);
 
       // Should not throw
       await expect(auditService.log(auditData)).resolves.not.toThrow();
@@ -86,46 +95,185 @@ describe('AuditService', () => {
     });
   });
 
+  describe('record', () => {
+    it('should throw when the audit log cannot be written', async () => {
+      (db.transaction as jest.Mock).mockRejectedValueOnce(new Error('Database error'));
+
+      await expect(
+        auditService.record({ actorId: 'user-123', eventType: 'TEST_EVENT', eventData: {} })
+      ).rejects.toThrow('Database error');
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should fill in the details of the request being served', async () => {
+      await runWithRequestContext({ requestId: 'req-1', ipAddress: '10.0.0.1', userAgent: 'curl/8.0' }, () =>
+        auditService.record({ actorId: 'user-123', eventType: 'TEST_EVENT', eventData: {}, ipAddress: '127.0.0.1' })
+      );
+
+      expect(insertedParams()).toEqual([
+        'user-123',
+        'TEST_EVENT',
+        '{}',
+        '127.0.0.1',
+        'curl/8.0',
+        'req-1',
+      ]);
+    });
+
+    it('should write in the caller\'s transaction when given its client', async () => {
+      await auditService.record({ actorId: 'user-123', eventType: 'TEST_EVENT', eventData: {} }, mockClient as any);
+
+      expect(db.transaction).not.toHaveBeenCalled();
+      expect(insertedParams()[1]).toBe('TEST_EVENT');
+    });
+  });
+
+  describe('recordTransactions', () => {
+    it('should record each transaction for its owner in the money movement\'s transaction', async () => {
+      const transactions = [
+        { id: 'txn-1', user_id: 'user-1', type: 'transfer_out', amount: '50.00', reference: 'TXN-1' },
+        { id: 'txn-2', user_id: 'user-2', type: 'transfer_in', amount: '50.00', reference: 'TXN-1' },
+      ];
+
+      await auditService.recordTransactions(mockClient as any, transactions as any, '127.0.0.1');
+
+      const inserts = mockClient.query.mock.calls.filter(([sql]) => sql.includes('INSERT INTO audit_logs'));
+      expect(db.transaction).not.toHaveBeenCalled();
+      expect(inserts.map(([, params]) => params.slice(0, 4))).toEqual([
+        [
+          'user-1',
+          'TRANSACTION_CREATED',
+          JSON.stringify({ transactionId: 'txn-1', reference: 'TXN-1', type: 'transfer_out', amount: '50.00' }),
+          '127.0.0.1',
+        ],
+        [
+          'user-2',
+          'TRANSACTION_CREATED',
+          JSON.stringify({ transactionId: 'txn-2', reference: 'TXN-1', type: 'transfer_in', amount: '50.00' }),
+          '127.0.0.1',
+        ],
+      ]);
+    });
+  });
+
+  describe('chain', () => {
+    it('should link the record to the head of the chain and move the head', async () => {
+      await auditService.record({ actorId: 'user-123', eventType: 'TEST_EVENT', eventData: { b: 2, a: undefined } });
+
+      const [sql] = mockClient.query.mock.calls[0];
+      expect(sql).toContain('FOR UPDATE');
+
+      const insert = mockClient.query.mock.calls[1][1];
+      const expectedHash = auditEntryHash({
+        seq: '42',
+        prev_hash: 'hash-41',
+        actor_id: 'user-123',
+        event_type: 'TEST_EVENT',
+        event_data: { b: 2 },
+        ip_address: null,
+        user_agent: null,
+        request_id: null,
+        created_at: '2025-01-05 09:30:00.123456',
+      });
+      expect(insert.slice(6)).toEqual(['42', 'hash-41', expectedHash, '2025-01-05 09:30:00.123456']);
+      expect(mockClient.query.mock.calls[2]).toEqual([expect.stringContaining('UPDATE audit_chain_head'), ['42', expectedHash]]);
+    });
+  });
+
+  describe('search', () => {
+    const cursorFor = (id: string): string => Buffer.from(id).toString('base64url');
+
+    it('should filter by actor, event type, time and event data, and audit the search', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: '30' }, { id: '29' }, { id: '28' }] });
+
+      const page = await auditService.search(
+        'auditor-1',
+        {
+          actor_id: '5f0c8f1e-3b1a-4c55-9a43-1d2b3c4d5e6f',
+          event_type: 'user_login, TRANSACTION_CREATED',
+          from: '2025-01-01',
+          data: { 'conversion.currency': 'USD' },
+        },
+        cursorFor('31'),
+        2
+      );
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain(
+        'WHERE l.actor_id = $1 AND l.event_type = ANY($2) AND l.created_at >= $3 AND l.event_data #>> $4 = $5 AND l.id < $6'
+      );
+      expect(params).toEqual([
+        '5f0c8f1e-3b1a-4c55-9a43-1d2b3c4d5e6f',
+        ['USER_LOGIN', 'TRANSACTION_CREATED'],
+        new Date('2025-01-01'),
+        ['conversion', 'currency'],
+        'USD',
+        '31',
+        3,
+      ]);
+      expect(page).toEqual({ logs: [{ id: '30' }, { id: '29' }], next_cursor: cursorFor('29'), limit: 2 });
+      expect(insertedParams()[1]).toBe('AUDIT_LOGS_SEARCHED');
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await expect(auditService.search('auditor-1', {}, cursorFor('1 OR 1=1'))).rejects.toThrow('Invalid cursor');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject an event data field that is not a plain path', async () => {
+      await expect(auditService.search('auditor-1', { data: { "a') OR ('1": 'x' } })).rejects.toThrow(
+        'is not a valid event data field'
+      );
+    });
+  });
+
+  describe('getSecurityActivity', () => {
+    it('should only list the user\'s own security and money events', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: '5' }] });
+
+      const page = await auditService.getSecurityActivity('user-123');
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('WHERE actor_id = $1 AND event_type = ANY($2)');
+      expect(params[0]).toBe('user-123');
+      expect(params[1]).toEqual(expect.arrayContaining(['USER_LOGIN', 'TRANSACTION_CREATED']));
+      expect(params[1]).not.toContain('ADMIN_USER_VIEWED');
+      expect(page).toEqual({ activity: [{ id: '5' }], next_cursor: null, limit: 20 });
+    });
+  });
+
   describe('logUserRegistration', () => {
     it('should log user registration event', async () => {
       const userId = 'user-123';
       const email = 'test@example.com';
       const ipAddress = '127.0.0.1';
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.logUserRegistration(userId, email, ipAddress);
 
-      expect(db.query).toHaveBeenCalledWith(
-        expect.any(String),
-        [
-          userId,
-          'USER_REGISTERED',
-          JSON.stringify({ email }),
-          ipAddress,
-          null,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        userId,
+        'USER_REGISTERED',
+        JSON.stringify({ email }),
+        ipAddress,
+        null,
+        null,
+      ]);
     });
 
     it('should log user registration without IP address', async () => {
       const userId = 'user-123';
       const email = 'test@example.com';
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.logUserRegistration(userId, email);
 
-      expect(db.query).toHaveBeenCalledWith(
-        expect.any(String),
-        [
-          userId,
-          'USER_REGISTERED',
-          JSON.stringify({ email }),
-          null,
-          null,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        userId,
+        'USER_REGISTERED',
+        JSON.stringify({ email }),
+        null,
+        null,
+        null,
+      ]);
     });
   });
 
@@ -135,20 +283,16 @@ describe('AuditService', () => {
       const email = 'test@example.com';
       const ipAddress = '127.0.0.1';
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.logUserLogin(userId, email, ipAddress);
 
-      expect(db.query).toHaveBeenCalledWith(
-        expect.any(String),
-        [
-          userId,
-          'USER_LOGIN',
-          JSON.stringify({ email }),
-          ipAddress,
-          null,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        userId,
+        'USER_LOGIN',
+        JSON.stringify({ email }),
+        ipAddress,
+        null,
+        null,
+      ]);
     });
   });
 
@@ -160,20 +304,16 @@ describe('AuditService', () => {
       const amount = '1000.00';
       const ipAddress = '127.0.0.1';
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.logTransaction(userId, transactionId, type, amount, ipAddress);
 
-      expect(db.query).toHaveBeenCalledWith(
-        expect.any(String),
-        [
-          userId,
-          'TRANSACTION_CREATED',
-          JSON.stringify({ transactionId, type, amount }),
-          ipAddress,
-          null,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        userId,
+        'TRANSACTION_CREATED',
+        JSON.stringify({ transactionId, type, amount }),
+        ipAddress,
+        null,
+        null,
+      ]);
     });
 
     it('should log transaction without IP address', async () => {
@@ -182,20 +322,16 @@ describe('AuditService', () => {
       const type = 'debit';
       const amount = '500.00';
 
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       await auditService.logTransaction(userId, transactionId, type, amount);
 
-      expect(db.query).toHaveBeenCalledWith(
-        expect.any(String),
-        [
-          userId,
-          'TRANSACTION_CREATED',
-          JSON.stringify({ transactionId, type, amount }),
-          null,
-          null,
-        ]
-      );
+      expect(insertedParams()).toEqual([
+        userId,
+        'TRANSACTION_CREATED',
+        JSON.stringify({ transactionId, type, amount }),
+        null,
+        null,
+        null,
+      ]);
     });
   });
 });
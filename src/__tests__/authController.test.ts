@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { authController } from '../controllers/authController';
 import { authService } from '../services/authService';
+import { emailVerificationService } from '../services/emailVerificationService';
 
 // Mock authService
 jest.mock('../services/authService', () => ({
@@ -11,6 +12,19 @@ jest.mock('../services/authService', () => ({
   },
 }));
 
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    getSecurityActivity: jest.fn(),
+  },
+}));
+
+jest.mock('../services/emailVerificationService', () => ({
+  emailVerificationService: {
+    verifyEmail: jest.fn(),
+    sendVerificationEmail: jest.fn(),
+  },
+}));
+
 describe('AuthController', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -144,6 +158,26 @@ describe('AuthController', () => {
     });
   });
 
+  describe('verifyEmail', () => {
+    it('should verify the email with the submitted token', async () => {
+      mockRequest.body = { token: 'verification-token' };
+      (emailVerificationService.verifyEmail as jest.Mock).mockResolvedValueOnce({
+        email: 'test@example.com',
+        is_verified: true,
+      });
+
+      await authController.verifyEmail(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(emailVerificationService.verifyEmail).toHaveBeenCalledWith('verification-token', '127.0.0.1');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        message: 'Email verified successfully',
+        data: { email: 'test@example.com', is_verified: true },
+      });
+    });
+  });
+
   describe('getProfile', () => {
     const mockUser = {
       id: 'user-123',
@@ -155,7 +189,7 @@ describe('AuthController', () => {
     };
 
     it('should return user profile when authenticated', async () => {
-      mockRequest.user = { userId: 'user-123', email: 'test@example.com' };
+      mockRequest.user = { userId: 'user-123', email: 'test@example.com', role: 'user' };
       (authService.getUserById as jest.Mock).mockResolvedValueOnce(mockUser);
 
       await authController.getProfile(
@@ -193,7 +227,7 @@ describe('AuthController', () => {
     });
 
     it('should return 404 when user is not found', async () => {
-      mockRequest.user = { userId: 'user-123', email: 'test@example.com' };
+      mockRequest.user = { userId: 'user-123', email: 'test@example.com', role: 'user' };
       (authService.getUserById as jest.Mock).mockResolvedValueOnce(null);
 
       await authController.getProfile(
@@ -213,7 +247,7 @@ describe('AuthController', () => {
 
     it('should call next with error on service failure', async () => {
       const error = new Error('Service error');
-      mockRequest.user = { userId: 'user-123', email: 'test@example.com' };
+      mockRequest.user = { userId: 'user-123', email: 'test@example.com', role: 'user' };
       (authService.getUserById as jest.Mock).mockRejectedValueOnce(error);
 
       await authController.getProfile(
@@ -0,0 +1,66 @@
+import { AuthFailureService } from '../services/authFailureService';
+import { auditService } from '../services/auditService';
+import { runWithRequestContext } from '../utils/requestContext';
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+const fromIp = (ipAddress: string, callback: () => void): void =>
+  runWithRequestContext({ requestId: 'req-1', ipAddress, userAgent: 'curl/8.0' }, callback);
+
+describe('AuthFailureService', () => {
+  let service: AuthFailureService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AuthFailureService();
+  });
+
+  it('should write one record per IP address and reason', async () => {
+    fromIp('203.0.113.7', () => {
+      service.note('NO_TOKEN', 'GET', '/api/v1/wallet');
+      service.note('NO_TOKEN', 'GET', '/api/v1/wallet');
+      service.note('NO_TOKEN', 'POST', '/api/v1/wallet/transfer');
+      service.note('INVALID_TOKEN', 'GET', '/api/v1/wallet');
+    });
+
+    await expect(service.flush()).resolves.toBe(2);
+
+    expect(auditService.log).toHaveBeenCalledTimes(2);
+    expect(auditService.log).toHaveBeenCalledWith({
+      actorId: null,
+      eventType: 'AUTHENTICATION_FAILED',
+      eventData: {
+        reason: 'NO_TOKEN',
+        count: 3,
+        paths: ['GET /api/v1/wallet', 'POST /api/v1/wallet/transfer'],
+        firstAt: expect.any(String),
+        lastAt: expect.any(String),
+      },
+      ipAddress: '203.0.113.7',
+      userAgent: 'curl/8.0',
+    });
+  });
+
+  it('should start counting again after a flush', async () => {
+    fromIp('203.0.113.7', () => service.note('NO_TOKEN', 'GET', '/api/v1/wallet'));
+    await service.flush();
+
+    await expect(service.flush()).resolves.toBe(0);
+    expect(auditService.log).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count sources past the cap under the reason alone', async () => {
+    for (let i = 0; i < 1002; i++) {
+      fromIp(`198.51.${Math.floor(i / 256)}.${i % 256}`, () => service.note('INVALID_TOKEN', 'GET', '/api/v1/wallet'));
+    }
+
+    await expect(service.flush()).resolves.toBe(1001);
+
+    const overflow = (auditService.log as jest.Mock).mock.calls.find(([record]) => record.ipAddress === undefined);
+    expect(overflow[0].eventData.count).toBe(2);
+  });
+});
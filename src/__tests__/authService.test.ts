@@ -1,9 +1,15 @@
 import { authService } from '../services/authService';
 import { db } from '../database/postgres';
 import { hashPassword, comparePassword } from '../utils/password';
-import { generateToken } from '../utils/jwt';
+import { generateToken, generateMfaToken, verifyMfaToken } from '../utils/jwt';
 import { AppError } from '../middleware/errorHandler';
 import { auditService } from '../services/auditService';
+import { sessionService } from '../services/sessionService';
+import { emailVerificationService } from '../services/emailVerificationService';
+import { userTokenService } from '../services/userTokenService';
+import { mailer } from '../mail';
+import { mfaService } from '../services/mfaService';
+import { loginLockoutService } from '../services/loginLockoutService';
 
 // Mock dependencies
 jest.mock('../database/postgres', () => ({
@@ -18,20 +24,78 @@ jest.mock('../utils/password', () => ({
   comparePassword: jest.fn(),
 }));
 
+jest.mock('../config/env', () => ({
+  config: {
+    PASSWORD_RESET_TTL_MINUTES: 30,
+    PASSWORD_RESET_RESEND_SECONDS: 60,
+  },
+}));
+
+jest.mock('../mail', () => ({
+  mailer: {
+    send: jest.fn(),
+  },
+}));
+
+jest.mock('../services/userTokenService', () => ({
+  userTokenService: {
+    issue: jest.fn(),
+    consume: jest.fn(),
+    revokeAll: jest.fn(),
+    cooldownRemaining: jest.fn(),
+  },
+}));
+
 jest.mock('../utils/jwt', () => ({
   generateToken: jest.fn(),
+  generateMfaToken: jest.fn(),
+  verifyMfaToken: jest.fn(),
+}));
+
+jest.mock('../services/mfaService', () => ({
+  mfaService: {
+    verifyCode: jest.fn(),
+  },
+}));
+
+jest.mock('../services/loginLockoutService', () => ({
+  loginLockoutService: {
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  },
 }));
 
 jest.mock('../services/auditService', () => ({
   auditService: {
     logUserRegistration: jest.fn(),
     logUserLogin: jest.fn(),
+    log: jest.fn(),
+  },
+}));
+
+jest.mock('../services/emailVerificationService', () => ({
+  emailVerificationService: {
+    sendVerificationEmail: jest.fn(),
+  },
+}));
+
+jest.mock('../services/sessionService', () => ({
+  sessionService: {
+    createSession: jest.fn(),
+    rotate: jest.fn(),
+    revokeSession: jest.fn(),
+    revokeAllSessions: jest.fn(),
   },
 }));
 
 describe('AuthService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (sessionService.createSession as jest.Mock).mockResolvedValue({
+      userId: 'user-123',
+      sessionId: 'session-123',
+      refreshToken: 'refresh-token',
+    });
   });
 
   describe('register', () => {
@@ -74,7 +138,11 @@ describe('AuthService', () => {
       expect(result).toHaveProperty('token');
       expect(result.user.email).toBe(validRegisterData.email);
       expect(result.token).toBe(token);
+      expect(result.refresh_token).toBe('refresh-token');
+      expect(sessionService.createSession).toHaveBeenCalledWith(userId, '127.0.0.1');
+      expect(generateToken).toHaveBeenCalledWith(expect.objectContaining({ userId, sessionId: 'session-123' }));
       expect(auditService.logUserRegistration).toHaveBeenCalledWith(userId, validRegisterData.email, '127.0.0.1');
+      expect(emailVerificationService.sendVerificationEmail).toHaveBeenCalledWith(userId, '127.0.0.1');
     });
 
     it('should throw error for missing full_name', async () => {
@@ -144,9 +212,46 @@ describe('AuthService', () => {
 
       expect(result).toHaveProperty('user');
       expect(result).toHaveProperty('token');
-      expect(result.user.email).toBe(validLoginData.email);
-      expect(result.token).toBe(token);
+      expect(result).toMatchObject({
+        user: { email: validLoginData.email },
+        token,
+        refresh_token: 'refresh-token',
+      });
       expect(auditService.logUserLogin).toHaveBeenCalledWith(mockUser.id, mockUser.email, '127.0.0.1');
+      expect(loginLockoutService.recordSuccess).toHaveBeenCalledWith(mockUser.id);
+    });
+
+    it('should ask for a TOTP code instead of issuing tokens when 2FA is enabled', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...mockUser, totp_enabled: true }] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(true);
+      (generateMfaToken as jest.Mock).mockReturnValueOnce('mfa-token');
+
+      const result = await authService.login(validLoginData, '127.0.0.1');
+
+      expect(result).toEqual({ mfa_required: true, mfa_token: 'mfa-token' });
+      expect(sessionService.createSession).not.toHaveBeenCalled();
+      expect(auditService.logUserLogin).not.toHaveBeenCalled();
+    });
+
+    it('should complete the login once the TOTP code checks out', async () => {
+      (verifyMfaToken as jest.Mock).mockReturnValueOnce(mockUser.id);
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [mockUser] });
+      (generateToken as jest.Mock).mockReturnValueOnce('jwt-token');
+
+      const result = await authService.completeMfaLogin('mfa-token', '123456', '127.0.0.1');
+
+      expect(mfaService.verifyCode).toHaveBeenCalledWith(mockUser.id, '123456', 'login', '127.0.0.1');
+      expect(result.token).toBe('jwt-token');
+      expect(auditService.logUserLogin).toHaveBeenCalledWith(mockUser.id, mockUser.email, '127.0.0.1');
+    });
+
+    it('should reject an expired MFA token', async () => {
+      (verifyMfaToken as jest.Mock).mockImplementationOnce(() => {
+        throw new Error('Invalid or expired MFA token');
+      });
+
+      await expect(authService.completeMfaLogin('mfa-token', '123456')).rejects.toThrow('Invalid or expired MFA token');
+      expect(mfaService.verifyCode).not.toHaveBeenCalled();
     });
 
     it('should throw error for invalid email format', async () => {
@@ -159,7 +264,13 @@ describe('AuthService', () => {
     it('should throw error when user does not exist', async () => {
       (db.query as jest.Mock).mockResolvedValue({ rows: [] });
 
-      await expect(authService.login(validLoginData)).rejects.toThrow(AppError);
+      await expect(authService.login(validLoginData, '127.0.0.1')).rejects.toThrow(AppError);
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: null,
+        eventType: 'USER_LOGIN_FAILED',
+        eventData: { email: validLoginData.email, reason: 'UNKNOWN_EMAIL' },
+        ipAddress: '127.0.0.1',
+      });
     });
 
     it('should throw error for incorrect password', async () => {
@@ -167,6 +278,174 @@ describe('AuthService', () => {
       (comparePassword as jest.Mock).mockResolvedValue(false);
 
       await expect(authService.login(validLoginData)).rejects.toThrow(AppError);
+      expect(loginLockoutService.recordFailure).toHaveBeenCalledWith(mockUser, undefined);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: mockUser.id,
+          eventType: 'USER_LOGIN_FAILED',
+          eventData: { email: validLoginData.email, reason: 'INVALID_PASSWORD' },
+        })
+      );
+    });
+
+    it('should refuse the right password while the account is locked, with the same response', async () => {
+      (db.query as jest.Mock).mockResolvedValue({ rows: [{ ...mockUser, login_locked: true }] });
+      (comparePassword as jest.Mock).mockResolvedValue(true);
+
+      await expect(authService.login(validLoginData)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid email or password',
+      });
+      expect(comparePassword).toHaveBeenCalled();
+      expect(loginLockoutService.recordFailure).not.toHaveBeenCalled();
+      expect(loginLockoutService.recordSuccess).not.toHaveBeenCalled();
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ eventData: { email: validLoginData.email, reason: 'ACCOUNT_LOCKED' } })
+      );
+    });
+  });
+
+  describe('refresh', () => {
+    it('should rotate the refresh token and sign a token for the same session', async () => {
+      (sessionService.rotate as jest.Mock).mockResolvedValueOnce({
+        userId: 'user-123',
+        sessionId: 'session-123',
+        refreshToken: 'next-refresh-token',
+      });
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'test@example.com', role: 'user' }],
+      });
+      (generateToken as jest.Mock).mockReturnValueOnce('new-jwt-token');
+
+      const result = await authService.refresh('refresh-token', '127.0.0.1');
+
+      expect(result).toEqual({ token: 'new-jwt-token', refresh_token: 'next-refresh-token' });
+      expect(sessionService.rotate).toHaveBeenCalledWith('refresh-token', '127.0.0.1');
+      expect(generateToken).toHaveBeenCalledWith({
+        userId: 'user-123',
+        email: 'test@example.com',
+        role: 'user',
+        sessionId: 'session-123',
+      });
+    });
+
+    it('should require a refresh token', async () => {
+      await expect(authService.refresh('')).rejects.toThrow('refresh_token is required');
+      expect(sessionService.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke every session of the user', async () => {
+      (sessionService.revokeAllSessions as jest.Mock).mockResolvedValueOnce(3);
+
+      const result = await authService.logoutAll('user-123', '127.0.0.1');
+
+      expect(result).toEqual({ revoked_sessions: 3 });
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'user-123', eventType: 'USER_LOGOUT_ALL' })
+      );
+    });
+  });
+
+  describe('forgotPassword', () => {
+    let mockClient: { query: jest.Mock };
+
+    beforeEach(() => {
+      mockClient = { query: jest.fn() };
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+    });
+
+    it('should email a reset code to a registered address', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ id: 'user-123', email: 'test@example.com', full_name: 'Test User' }],
+      });
+      (userTokenService.cooldownRemaining as jest.Mock).mockResolvedValueOnce(0);
+      (userTokenService.issue as jest.Mock).mockResolvedValueOnce('reset-token');
+
+      await authService.forgotPassword('test@example.com', '127.0.0.1');
+
+      expect(userTokenService.issue).toHaveBeenCalledWith(mockClient, 'user-123', 'password_reset', 1800);
+      expect(mailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'test@example.com', text: expect.stringContaining('reset-token') })
+      );
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'user-123', eventType: 'PASSWORD_RESET_REQUESTED' })
+      );
+    });
+
+    it('should quietly do nothing for an unknown address', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(authService.forgotPassword('nobody@example.com')).resolves.toBeUndefined();
+      expect(userTokenService.issue).not.toHaveBeenCalled();
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke every session', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 'user-123', email: 'test@example.com' }] }),
+      };
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+      (userTokenService.consume as jest.Mock).mockResolvedValueOnce('user-123');
+      (hashPassword as jest.Mock).mockResolvedValueOnce('new_hash');
+      (sessionService.revokeAllSessions as jest.Mock).mockResolvedValueOnce(2);
+
+      await authService.resetPassword('reset-token', 'NewSecurePass1!', '127.0.0.1');
+
+      expect(mockClient.query).toHaveBeenCalledWith(expect.stringContaining('UPDATE users SET password_hash'), [
+        'new_hash',
+        'user-123',
+      ]);
+      expect(userTokenService.revokeAll).toHaveBeenCalledWith(mockClient, 'user-123', 'password_reset');
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('user-123');
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'PASSWORD_RESET', eventData: { email: 'test@example.com', revokedSessions: 2 } })
+      );
+    });
+
+    it('should reject a used or expired token', async () => {
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback({ query: jest.fn() }));
+      (userTokenService.consume as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(authService.resetPassword('reset-token', 'NewSecurePass1!')).rejects.toThrow(
+        'Invalid or expired reset token'
+      );
+      expect(sessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    const storedUser = { id: 'user-123', email: 'test@example.com', password_hash: 'hashed_password', role: 'user' };
+
+    it('should require the current password', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [storedUser] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(
+        authService.changePassword('user-123', 'WrongPass1!', 'NewSecurePass1!')
+      ).rejects.toThrow('Current password is incorrect');
+      expect(sessionService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('should revoke existing sessions and start a new one', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [storedUser] }).mockResolvedValueOnce({ rows: [] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(true);
+      (hashPassword as jest.Mock).mockResolvedValueOnce('new_hash');
+      (generateToken as jest.Mock).mockReturnValueOnce('jwt-token');
+
+      const result = await authService.changePassword('user-123', 'SecurePass123!', 'NewSecurePass1!', '127.0.0.1');
+
+      expect(result).toEqual({ token: 'jwt-token', refresh_token: 'refresh-token' });
+      expect(db.query).toHaveBeenLastCalledWith('UPDATE users SET password_hash = $1 WHERE id = $2', [
+        'new_hash',
+        'user-123',
+      ]);
+      expect(sessionService.revokeAllSessions).toHaveBeenCalledWith('user-123');
+      expect(sessionService.createSession).toHaveBeenCalledWith('user-123', '127.0.0.1');
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'PASSWORD_CHANGED' }));
     });
   });
 
@@ -188,7 +467,7 @@ describe('AuthService', () => {
 
       expect(result).toEqual(mockUser);
       expect(db.query).toHaveBeenCalledWith(
-        'SELECT id, email, full_name, phone_number, is_verified, created_at FROM users WHERE id = $1',
+        'SELECT id, email, full_name, phone_number, is_verified, role, created_at FROM users WHERE id = $1',
         [userId]
       );
     });
@@ -208,5 +208,57 @@ describe('Database', () => {
       expect(mockPool.end).toHaveBeenCalled();
     });
   });
+
+  describe('iterate', () => {
+    let mockClient: any;
+
+    beforeEach(() => {
+      mockClient = {
+        query: jest.fn(),
+        release: jest.fn(),
+      };
+      mockPool.connect.mockResolvedValue(mockClient);
+    });
+
+    it('should fetch batches through a cursor until one comes back short', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({}) // BEGIN
+        .mockResolvedValueOnce({}) // DECLARE
+        .mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({}); // COMMIT
+
+      const rows = [];
+      for await (const row of db.iterate('SELECT id FROM transactions WHERE wallet_id = $1', ['wallet-123'], 2)) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        2,
+        'DECLARE row_cursor NO SCROLL CURSOR FOR SELECT id FROM transactions WHERE wallet_id = $1',
+        ['wallet-123']
+      );
+      expect(mockClient.query).toHaveBeenNthCalledWith(3, 'FETCH 2 FROM row_cursor');
+      expect(mockClient.query).toHaveBeenLastCalledWith('COMMIT');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should roll back and release the client when the caller stops early', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ rows: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({}); // ROLLBACK
+
+      for await (const row of db.iterate('SELECT id FROM transactions', [], 2)) {
+        expect(row).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+  });
 });
 
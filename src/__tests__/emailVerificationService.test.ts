@@ -0,0 +1,106 @@
+import { emailVerificationService } from '../services/emailVerificationService';
+import { db } from '../database/postgres';
+import { mailer } from '../mail';
+import { auditService } from '../services/auditService';
+import { hashToken } from '../utils/token';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    EMAIL_VERIFICATION_TTL_HOURS: 24,
+    EMAIL_VERIFICATION_RESEND_SECONDS: 60,
+  },
+}));
+
+jest.mock('../mail', () => ({
+  mailer: {
+    send: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('EmailVerificationService', () => {
+  const user = { id: 'user-123', email: 'test@example.com', full_name: 'Test User', is_verified: false };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should email a code whose hash is stored', async () => {
+      mockClient.query
+        // Lock user
+        .mockResolvedValueOnce({ rows: [user] })
+        // No earlier token
+        .mockResolvedValueOnce({ rows: [] })
+        // Insert token
+        .mockResolvedValueOnce({ rows: [] });
+
+      await emailVerificationService.sendVerificationEmail(user.id);
+
+      const message = (mailer.send as jest.Mock).mock.calls[0][0];
+      expect(message.to).toBe(user.email);
+      expect(message.subject).toBe('Verify your email address');
+
+      const [userId, purpose, tokenHash, ttlSeconds] = mockClient.query.mock.calls[2][1];
+      expect([userId, purpose, ttlSeconds]).toEqual([user.id, 'email_verification', 86400]);
+      const emailedToken = message.text.split('\n')[4];
+      expect(tokenHash).toBe(hashToken(emailedToken));
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'VERIFICATION_EMAIL_SENT' }));
+    });
+
+    it('should throttle repeated requests', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [user] }).mockResolvedValueOnce({ rows: [{ remaining: '42' }] });
+
+      await expect(emailVerificationService.sendVerificationEmail(user.id)).rejects.toThrow(
+        'Please wait 42 seconds before requesting another verification email'
+      );
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send anything to a verified user', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...user, is_verified: true }] });
+
+      await expect(emailVerificationService.sendVerificationEmail(user.id)).rejects.toThrow('Email is already verified');
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should spend the token and mark the user verified', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ user_id: user.id }] })
+        .mockResolvedValueOnce({ rows: [{ id: user.id, email: user.email, is_verified: true }] });
+
+      const result = await emailVerificationService.verifyEmail('verification-token');
+
+      expect(result).toEqual({ email: user.email, is_verified: true });
+      expect(mockClient.query.mock.calls[0][1]).toEqual([hashToken('verification-token'), 'email_verification']);
+      expect(mockClient.query.mock.calls[1][1]).toEqual([user.id]);
+    });
+
+    it('should reject an unknown, used or expired token', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(emailVerificationService.verifyEmail('verification-token')).rejects.toThrow(
+        'Invalid or expired verification token'
+      );
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
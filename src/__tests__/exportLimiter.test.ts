@@ -0,0 +1,38 @@
+import { ExportLimiter } from '../services/exportLimiter';
+
+describe('ExportLimiter', () => {
+  let limiter: ExportLimiter;
+
+  beforeEach(() => {
+    limiter = new ExportLimiter();
+  });
+
+  it('should limit how many exports one user runs at once', () => {
+    limiter.acquire('user-1');
+    const release = limiter.acquire('user-1');
+
+    expect(() => limiter.acquire('user-1')).toThrow(expect.objectContaining({ statusCode: 429, code: 'EXPORT_LIMIT' }));
+
+    release();
+    expect(() => limiter.acquire('user-1')).not.toThrow();
+  });
+
+  it('should limit how many exports run at once overall', () => {
+    const releases = ['user-1', 'user-2', 'user-3', 'user-4', 'user-5'].map((userId) => limiter.acquire(userId));
+
+    expect(() => limiter.acquire('user-6')).toThrow(expect.objectContaining({ statusCode: 503, code: 'EXPORTS_BUSY' }));
+
+    releases[0]();
+    expect(() => limiter.acquire('user-6')).not.toThrow();
+  });
+
+  it('should give a slot back only once', () => {
+    const releases = ['user-1', 'user-2', 'user-3', 'user-4', 'user-5'].map((userId) => limiter.acquire(userId));
+
+    releases[0]();
+    releases[0]();
+
+    limiter.acquire('user-6');
+    expect(() => limiter.acquire('user-7')).toThrow(expect.objectContaining({ code: 'EXPORTS_BUSY' }));
+  });
+});
@@ -0,0 +1,212 @@
+import { fxService } from '../services/fxService';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { auditService } from '../services/auditService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    FX_QUOTE_TTL_SECONDS: 60,
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('FxService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getPairRate', () => {
+    it('should use the direct pair when it exists', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ base_currency: 'USD', mid_rate: '1500.00000000', spread_bps: 50 }],
+      });
+
+      const result = await fxService.getPairRate('USD', 'NGN');
+
+      expect(result).toEqual({ midRate: 1500, spreadBps: 50 });
+    });
+
+    it('should invert the rate when only the opposite pair exists', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ base_currency: 'USD', mid_rate: '1500.00000000', spread_bps: 50 }],
+      });
+
+      const result = await fxService.getPairRate('NGN', 'USD');
+
+      expect(result.midRate).toBeCloseTo(1 / 1500, 10);
+      expect(result.spreadBps).toBe(50);
+    });
+
+    it('should throw error when no rate is available', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(fxService.getPairRate('EUR', 'GBP')).rejects.toThrow('No FX rate available for EUR/GBP');
+    });
+  });
+
+  describe('price', () => {
+    it('should deduct the spread from the customer amount and report it', () => {
+      const result = fxService.price('USD', 'NGN', 100, { midRate: 1500, spreadBps: 100 });
+
+      expect(result).toEqual({
+        from_currency: 'USD',
+        to_currency: 'NGN',
+        source_amount: '100.00',
+        target_amount: '148500.00',
+        mid_rate: '1500.00000000',
+        rate: '1485.00000000',
+        spread_amount: '1500.00',
+      });
+    });
+
+    it('should reject amounts that convert to nothing', () => {
+      expect(() => fxService.price('NGN', 'USD', 0.01, { midRate: 1 / 1500, spreadBps: 0 })).toThrow(AppError);
+    });
+  });
+
+  describe('setRate', () => {
+    it('should upsert the rate and audit the change', async () => {
+      const rate = {
+        base_currency: 'USD',
+        quote_currency: 'NGN',
+        mid_rate: '1500.00000000',
+        spread_bps: 50,
+        source: 'admin',
+        updated_by: 'admin-1',
+        updated_at: new Date(),
+      };
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [rate] });
+
+      const result = await fxService.setRate(
+        { base_currency: 'USD', quote_currency: 'NGN', mid_rate: 1500, spread_bps: 50 },
+        'admin',
+        'admin-1'
+      );
+
+      expect(result).toEqual(rate);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'admin-1', eventType: 'FX_RATE_UPDATED' })
+      );
+    });
+
+    it('should reject a pair with the same currency on both sides', async () => {
+      await expect(
+        fxService.setRate({ base_currency: 'USD', quote_currency: 'USD', mid_rate: 1 }, 'admin')
+      ).rejects.toThrow('Base and quote currencies must differ');
+    });
+
+    it('should reject an out of range spread', async () => {
+      await expect(
+        fxService.setRate({ base_currency: 'USD', quote_currency: 'NGN', mid_rate: 1500, spread_bps: 10000 }, 'admin')
+      ).rejects.toThrow(AppError);
+    });
+  });
+
+  describe('createQuote', () => {
+    it('should store a priced quote that expires after the configured TTL', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ base_currency: 'USD', mid_rate: '1500', spread_bps: 100 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'quote-1' }] });
+
+      const result = await fxService.createQuote('user-123', 'USD', 'NGN', 100);
+
+      expect(result).toEqual({ id: 'quote-1' });
+      expect(db.query).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO fx_quotes'), [
+        'user-123',
+        'USD',
+        'NGN',
+        '100.00',
+        '148500.00',
+        '1500.00000000',
+        '1485.00000000',
+        100,
+        '1500.00',
+        60,
+      ]);
+    });
+
+    it('should reject converting a currency to itself', async () => {
+      await expect(fxService.createQuote('user-123', 'NGN', 'NGN', 100)).rejects.toThrow(
+        'Cannot convert a currency to itself'
+      );
+    });
+  });
+
+  describe('consumeQuote', () => {
+    const quote = {
+      id: 'quote-1',
+      user_id: 'user-123',
+      from_currency: 'USD',
+      to_currency: 'NGN',
+      used_at: null,
+    };
+
+    it('should mark a valid quote as used', async () => {
+      const mockClient = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ ...quote, expired: false }] })
+          .mockResolvedValueOnce({ rows: [] }),
+      };
+
+      const result = await fxService.consumeQuote(mockClient as any, 'quote-1', 'user-123');
+
+      expect(result).toEqual(quote);
+      expect(mockClient.query).toHaveBeenLastCalledWith('UPDATE fx_quotes SET used_at = now() WHERE id = $1', [
+        'quote-1',
+      ]);
+    });
+
+    it('should reject an expired quote', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ ...quote, expired: true }] }),
+      };
+
+      await expect(fxService.consumeQuote(mockClient as any, 'quote-1', 'user-123')).rejects.toThrow(
+        'Quote has expired'
+      );
+    });
+
+    it('should reject a quote that was already used', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [{ ...quote, used_at: new Date(), expired: false }] }),
+      };
+
+      await expect(fxService.consumeQuote(mockClient as any, 'quote-1', 'user-123')).rejects.toThrow(
+        'Quote has already been used'
+      );
+    });
+  });
+
+  describe('conversionPostings', () => {
+    it('should balance each currency and book the spread as income', () => {
+      const postings = fxService.conversionPostings('wallet-usd', 'wallet-ngn', {
+        from_currency: 'USD',
+        to_currency: 'NGN',
+        source_amount: '100.00',
+        target_amount: '148500.00',
+        mid_rate: '1500.00000000',
+        rate: '1485.00000000',
+        spread_amount: '1500.00',
+      });
+
+      expect(postings).toEqual([
+        { accountCode: 'WALLET:wallet-usd', direction: 'debit', amount: 100 },
+        { accountCode: 'FX_POSITION:USD', direction: 'credit', amount: 100 },
+        { accountCode: 'FX_POSITION:NGN', direction: 'debit', amount: 150000 },
+        { accountCode: 'WALLET:wallet-ngn', direction: 'credit', amount: 148500 },
+        { accountCode: 'FX_SPREAD:NGN', direction: 'credit', amount: 1500 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,358 @@
+import { holdService } from '../services/holdService';
+import { db } from '../database/postgres';
+import { ledgerService } from '../services/ledgerService';
+import { walletService } from '../services/walletService';
+import { auditService } from '../services/auditService';
+import { outboxService } from '../services/outboxService';
+import { limitService } from '../services/limitService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    HOLD_TTL_SECONDS: 3600,
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+    recordTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/outboxService', () => ({
+  outboxService: {
+    addTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/webhookService', () => ({
+  webhookService: {
+    publish: jest.fn(),
+  },
+}));
+
+jest.mock('../services/ledgerService', () => ({
+  ledgerService: {
+    postEntry: jest.fn().mockResolvedValue({ id: 'journal-123' }),
+  },
+  walletAccountCode: (walletId: string) => `WALLET:${walletId}`,
+  systemAccountCode: (account: string, currency: string) => `${account}:${currency}`,
+}));
+
+jest.mock('../services/walletService', () => ({
+  TRANSACTION_COLUMNS: 'id',
+  LOCK_WALLET_SQL: 'LOCK WALLET',
+  availableBalance: (wallet: { balance: string; held_amount: string }) =>
+    parseFloat(wallet.balance) - parseFloat(wallet.held_amount),
+  walletService: {
+    moveMoney: jest.fn(),
+    recordTransaction: jest.fn(),
+    resolveCurrency: jest.fn((currency?: string) => currency || 'NGN'),
+    resolveRecipientId: jest.fn(),
+    assertCanTransfer: jest.fn(),
+    auditRejection: jest.fn(),
+  },
+}));
+
+jest.mock('../services/mfaService', () => ({
+  mfaService: {
+    assertStepUp: jest.fn(),
+  },
+}));
+
+jest.mock('../services/limitService', () => ({
+  limitService: {
+    assertOutflowAllowed: jest.fn(),
+    assertBalanceAllowed: jest.fn(),
+  },
+}));
+
+describe('HoldService', () => {
+  const userId = 'user-123';
+
+  const activeHold = {
+    id: 'hold-1',
+    wallet_id: 'wallet-123',
+    user_id: userId,
+    recipient_user_id: null,
+    amount: '300.00',
+    captured_amount: null,
+    reference: 'TXN-HOLD-001',
+    description: 'Card authorization',
+    status: 'active',
+    transaction_id: 'txn-pending',
+  };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (walletService.moveMoney as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('placeHold', () => {
+    it('should reserve the amount and record a pending debit', async () => {
+      (walletService.recordTransaction as jest.Mock).mockResolvedValueOnce({ id: 'txn-pending' });
+      mockClient.query
+        // Wallet lock
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-123', balance: '1000.00', held_amount: '200.00', currency: 'NGN' }] })
+        // Reserve funds
+        .mockResolvedValueOnce({ rows: [] })
+        // Insert hold
+        .mockResolvedValueOnce({ rows: [activeHold] });
+
+      const result = await holdService.placeHold(userId, 300, 'Card authorization', 'TXN-HOLD-001');
+
+      expect(result).toEqual(activeHold);
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE wallets SET held_amount = held_amount + $1 WHERE id = $2',
+        ['300.00', 'wallet-123']
+      );
+      expect(walletService.recordTransaction).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          type: 'debit',
+          status: 'pending',
+          reference: 'TXN-HOLD-001',
+          balanceBefore: 1000,
+          balanceAfter: 1000,
+          journalEntryId: null,
+        })
+      );
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'HOLD_PLACED' }));
+    });
+
+    it('should only hold what is available', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ id: 'wallet-123', balance: '1000.00', held_amount: '800.00', currency: 'NGN' }],
+      });
+
+      await expect(holdService.placeHold(userId, 300)).rejects.toThrow('Insufficient balance');
+      expect(walletService.recordTransaction).not.toHaveBeenCalled();
+      expect(walletService.auditRejection).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'INSUFFICIENT_BALANCE' }),
+        userId,
+        'hold',
+        expect.objectContaining({ amount: 300, currency: 'NGN' }),
+        undefined
+      );
+    });
+
+    it('should lock the recipient wallet before checking it can receive', async () => {
+      (walletService.resolveRecipientId as jest.Mock).mockResolvedValueOnce('recipient-456');
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-123', balance: '1000.00', held_amount: '0.00', currency: 'NGN' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-456', status: 'active', user_status: 'closed' }] });
+
+      await expect(
+        holdService.placeHold(userId, 300, undefined, undefined, undefined, { recipientUserId: 'recipient-456' })
+      ).rejects.toMatchObject({ code: 'RECIPIENT_UNAVAILABLE' });
+      expect(mockClient.query).toHaveBeenNthCalledWith(2, 'LOCK WALLET', ['recipient-456', 'NGN']);
+      expect(walletService.recordTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expiry beyond the configured maximum', async () => {
+      await expect(
+        holdService.placeHold(userId, 300, undefined, undefined, undefined, { expiresInSeconds: 7200 })
+      ).rejects.toThrow('expires_in_seconds must be between 1 and 3600');
+    });
+  });
+
+  describe('captureHold', () => {
+    it('should capture part of the hold and release the rest', async () => {
+      mockClient.query
+        // Lock hold
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, expired: false }] })
+        // Wallet lock
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-123', user_id: userId, balance: '1000.00', currency: 'NGN' }] })
+        // Release reservation
+        .mockResolvedValueOnce({ rows: [] })
+        // Settle pending row
+        .mockResolvedValueOnce({ rows: [{ id: 'txn-pending', type: 'debit', amount: '120.00', status: 'success' }] })
+        // Mark hold captured
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, status: 'captured', captured_amount: '120.00' }] });
+
+      const result = await holdService.captureHold(userId, 'hold-1', 120);
+
+      expect(result.new_balance).toBe('880.00');
+      expect(result.hold.status).toBe('captured');
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        3,
+        'UPDATE wallets SET held_amount = held_amount - $1 WHERE id = $2',
+        ['300.00', 'wallet-123']
+      );
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(mockClient, {
+        reference: 'TXN-HOLD-001',
+        entryType: 'debit',
+        description: 'Card authorization',
+        postings: [
+          { accountCode: 'WALLET:wallet-123', direction: 'debit', amount: 120 },
+          { accountCode: 'FUNDING:NGN', direction: 'credit', amount: 120 },
+        ],
+      });
+      expect(mockClient.query.mock.calls[3][1]).toEqual(['120.00', '1000.00', '880.00', 'journal-123', 'txn-pending']);
+      expect(mockClient.query.mock.calls[3][0]).toContain('created_at = now()');
+      expect(outboxService.addTransactions).toHaveBeenCalledWith(
+        mockClient,
+        [expect.objectContaining({ id: 'txn-pending', status: 'success' })],
+        undefined
+      );
+    });
+
+    it('should credit the recipient when capturing a transfer hold', async () => {
+      const transferHold = { ...activeHold, recipient_user_id: 'recipient-456' };
+      (walletService.recordTransaction as jest.Mock).mockResolvedValueOnce({
+        id: 'txn-in',
+        user_id: 'recipient-456',
+        amount: '300.00',
+      });
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...transferHold, expired: false }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'wallet-123', user_id: userId, balance: '1000.00', currency: 'NGN' },
+            { id: 'wallet-456', user_id: 'recipient-456', balance: '50.00', currency: 'NGN' },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 'txn-pending', type: 'transfer_out', amount: '300.00' }] })
+        .mockResolvedValueOnce({ rows: [{ ...transferHold, status: 'captured' }] });
+
+      const result = await holdService.captureHold(userId, 'hold-1');
+
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          entryType: 'transfer',
+          postings: [
+            { accountCode: 'WALLET:wallet-123', direction: 'debit', amount: 300 },
+            { accountCode: 'WALLET:wallet-456', direction: 'credit', amount: 300 },
+          ],
+        })
+      );
+      expect(walletService.recordTransaction).toHaveBeenCalledWith(
+        mockClient,
+        expect.objectContaining({
+          walletId: 'wallet-456',
+          type: 'transfer_in',
+          reference: 'TXN-HOLD-001-IN',
+          balanceBefore: 50,
+          balanceAfter: 350,
+        })
+      );
+      expect(limitService.assertBalanceAllowed).toHaveBeenCalledWith(mockClient, 'recipient-456', 'NGN', 350, 'recipient');
+      expect(result.recipient_transaction).toEqual(expect.objectContaining({ id: 'txn-in' }));
+      expect((outboxService.addTransactions as jest.Mock).mock.calls[0][1].map((txn: any) => txn.id)).toEqual([
+        'txn-pending',
+        'txn-in',
+      ]);
+    });
+
+    it('should not capture from a wallet frozen since the hold was placed', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, expired: false }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'wallet-123', user_id: userId, balance: '1000.00', currency: 'NGN', status: 'frozen', user_status: 'active' }],
+        });
+
+      await expect(holdService.captureHold(userId, 'hold-1')).rejects.toMatchObject({ code: 'WALLET_FROZEN' });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+      expect(walletService.auditRejection).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'WALLET_FROZEN' }),
+        userId,
+        'hold_capture',
+        { holdId: 'hold-1', amount: undefined },
+        undefined
+      );
+    });
+
+    it('should not credit a recipient suspended since the hold was placed', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, recipient_user_id: 'recipient-456', expired: false }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 'wallet-123', user_id: userId, balance: '1000.00', currency: 'NGN', status: 'active', user_status: 'active' },
+            { id: 'wallet-456', user_id: 'recipient-456', balance: '50.00', currency: 'NGN', status: 'active', user_status: 'suspended' },
+          ],
+        });
+
+      await expect(holdService.captureHold(userId, 'hold-1')).rejects.toMatchObject({ code: 'RECIPIENT_UNAVAILABLE' });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should not capture more than was held', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...activeHold, expired: false }] });
+
+      await expect(holdService.captureHold(userId, 'hold-1', 300.01)).rejects.toThrow(
+        'Capture amount exceeds the held amount'
+      );
+    });
+
+    it('should not capture a hold that was already voided', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...activeHold, status: 'voided', expired: false }] });
+
+      await expect(holdService.captureHold(userId, 'hold-1')).rejects.toThrow('Hold is already voided');
+    });
+
+    it('should not capture an expired hold', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...activeHold, expired: true }] });
+
+      await expect(holdService.captureHold(userId, 'hold-1')).rejects.toThrow('Hold has expired');
+    });
+  });
+
+  describe('voidHold', () => {
+    it('should release the reservation and fail the pending row', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, expired: false }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, status: 'voided' }] });
+
+      const result = await holdService.voidHold(userId, 'hold-1');
+
+      expect(result.status).toBe('voided');
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE wallets SET held_amount = held_amount - $1 WHERE id = $2',
+        ['300.00', 'wallet-123']
+      );
+      expect(mockClient.query).toHaveBeenNthCalledWith(3, "UPDATE transactions SET status = 'failed' WHERE id = $1", [
+        'txn-pending',
+      ]);
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'HOLD_VOIDED' }));
+    });
+  });
+
+  describe('releaseExpiredHolds', () => {
+    it('should expire every due hold in the batch', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [activeHold] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...activeHold, status: 'expired' }] });
+
+      const released = await holdService.releaseExpiredHolds();
+
+      expect(released).toBe(1);
+      expect(mockClient.query).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE holds SET status = $1'), [
+        'expired',
+        'hold-1',
+      ]);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: null, eventType: 'HOLD_EXPIRED' })
+      );
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotency } from '../middleware/idempotency';
+import { idempotencyService, hashRequest } from '../services/idempotencyService';
+import { db } from '../database/postgres';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    IDEMPOTENCY_KEY_TTL_HOURS: 24,
+    IDEMPOTENCY_LEASE_SECONDS: 300,
+  },
+}));
+
+describe('IdempotencyService', () => {
+  const userId = 'user-123';
+  const key = 'retry-key-1';
+  const requestHash = hashRequest('POST', '/api/v1/wallet/credit', { amount: 100 });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should hash the same request to the same value', () => {
+    expect(hashRequest('POST', '/api/v1/wallet/credit', { amount: 100 })).toBe(requestHash);
+    expect(hashRequest('POST', '/api/v1/wallet/credit', { amount: 101 })).not.toBe(requestHash);
+  });
+
+  it('should claim an unused key', async () => {
+    (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ user_id: userId }] });
+
+    const result = await idempotencyService.begin(userId, key, 'POST', '/api/v1/wallet/credit', requestHash);
+
+    expect(result).toEqual({ state: 'new' });
+    expect(db.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('should lease the claim so a retry can take over a key left processing by a dead request', async () => {
+    (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ user_id: userId }] });
+
+    await idempotencyService.begin(userId, key, 'POST', '/api/v1/wallet/credit', requestHash);
+
+    const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+    expect(sql).toContain("idempotency_keys.status = 'processing' AND idempotency_keys.locked_until <= now()");
+    expect(params.slice(5)).toEqual([24, 300]);
+  });
+
+  it('should replay the stored response for a completed key', async () => {
+    (db.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [{
+          request_method: 'POST',
+          request_path: '/api/v1/wallet/credit',
+          request_hash: requestHash,
+          status: 'completed',
+          response_status: 201,
+          response_body: '{"success":true}',
+        }],
+      });
+
+    const result = await idempotencyService.begin(userId, key, 'POST', '/api/v1/wallet/credit', requestHash);
+
+    expect(result).toEqual({ state: 'replay', status: 201, body: '{"success":true}' });
+  });
+
+  it('should flag a key reused with a different body', async () => {
+    (db.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [{
+          request_method: 'POST',
+          request_path: '/api/v1/wallet/credit',
+          request_hash: 'another-hash',
+          status: 'completed',
+        }],
+      });
+
+    const result = await idempotencyService.begin(userId, key, 'POST', '/api/v1/wallet/credit', requestHash);
+
+    expect(result).toEqual({ state: 'mismatch' });
+  });
+
+  it('should report a key whose first request is still running', async () => {
+    (db.query as jest.Mock)
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({
+        rows: [{
+          request_method: 'POST',
+          request_path: '/api/v1/wallet/credit',
+          request_hash: requestHash,
+          status: 'processing',
+        }],
+      });
+
+    const result = await idempotencyService.begin(userId, key, 'POST', '/api/v1/wallet/credit', requestHash);
+
+    expect(result).toEqual({ state: 'in_progress' });
+  });
+});
+
+describe('idempotency middleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: any;
+  let mockNext: NextFunction;
+  let originalSend: jest.Mock;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+
+    mockRequest = {
+      user: { userId: 'user-123', email: 'test@example.com', role: 'user' },
+      method: 'POST',
+      baseUrl: '/api/v1/wallet',
+      path: '/credit',
+      body: { amount: 100 },
+      get: jest.fn().mockReturnValue('retry-key-1') as any,
+    };
+
+    originalSend = jest.fn();
+    mockResponse = {
+      statusCode: 201,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      type: jest.fn().mockReturnThis(),
+      send: originalSend,
+    };
+    originalSend.mockReturnValue(mockResponse);
+
+    mockNext = jest.fn();
+  });
+
+  it('should pass through requests without the header', async () => {
+    (mockRequest.get as jest.Mock).mockReturnValue(undefined);
+    const beginSpy = jest.spyOn(idempotencyService, 'begin');
+
+    await idempotency(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalled();
+    expect(beginSpy).not.toHaveBeenCalled();
+  });
+
+  it('should replay a stored response without running the handler', async () => {
+    jest.spyOn(idempotencyService, 'begin').mockResolvedValueOnce({
+      state: 'replay',
+      status: 201,
+      body: '{"success":true}',
+    });
+
+    await idempotency(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(201);
+    expect(mockResponse.set).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(originalSend).toHaveBeenCalledWith('{"success":true}');
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    jest.spyOn(idempotencyService, 'begin').mockResolvedValueOnce({ state: 'mismatch' });
+
+    await idempotency(mockRequest as Request, mockResponse as Response, mockNext);
+
+    expect(mockNext).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(422);
+  });
+
+  it('should store the first response before sending it', async () => {
+    jest.spyOn(idempotencyService, 'begin').mockResolvedValueOnce({ state: 'new' });
+    const completeSpy = jest.spyOn(idempotencyService, 'complete').mockResolvedValueOnce();
+
+    await idempotency(mockRequest as Request, mockResponse as Response, mockNext);
+    expect(mockNext).toHaveBeenCalled();
+
+    mockResponse.send('{"success":true,"data":{"id":"txn-1"}}');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(completeSpy).toHaveBeenCalledWith('user-123', 'retry-key-1', 201, '{"success":true,"data":{"id":"txn-1"}}');
+    expect(originalSend).toHaveBeenCalledWith('{"success":true,"data":{"id":"txn-1"}}');
+  });
+
+  it('should release the key when the handler fails with a server error', async () => {
+    jest.spyOn(idempotencyService, 'begin').mockResolvedValueOnce({ state: 'new' });
+    const releaseSpy = jest.spyOn(idempotencyService, 'release').mockResolvedValueOnce();
+
+    await idempotency(mockRequest as Request, mockResponse as Response, mockNext);
+
+    mockResponse.statusCode = 500;
+    mockResponse.send('{"success":false}');
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(releaseSpy).toHaveBeenCalledWith('user-123', 'retry-key-1');
+  });
+});
@@ -0,0 +1,153 @@
+import { ledgerService, systemAccountCode, walletAccountCode } from '../services/ledgerService';
+import { db } from '../database/postgres';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+describe('LedgerService', () => {
+  const accounts = [
+    { id: 'acct-funding', code: 'FUNDING:NGN', type: 'asset', currency: 'NGN', wallet_id: null },
+    { id: 'acct-wallet', code: 'WALLET:wallet-123', type: 'liability', currency: 'NGN', wallet_id: 'wallet-123' },
+  ];
+
+  const journalEntry = {
+    id: 'journal-123',
+    reference: 'TXN-TEST-001',
+    entry_type: 'credit',
+    description: 'Test credit',
+    related_entry_id: null,
+    created_at: new Date(),
+  };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+  });
+
+  describe('account codes', () => {
+    it('should build wallet and system account codes', () => {
+      expect(walletAccountCode('wallet-123')).toBe('WALLET:wallet-123');
+      expect(systemAccountCode('FEES', 'USD')).toBe('FEES:USD');
+    });
+  });
+
+  describe('postEntry', () => {
+    it('should insert the entry, its postings and apply the wallet delta', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: accounts }) // Resolve accounts
+        .mockResolvedValueOnce({ rows: [journalEntry] }) // Insert journal entry
+        .mockResolvedValueOnce({ rows: [] }) // Insert postings
+        .mockResolvedValueOnce({ rows: [] }); // Update wallet balance
+
+      const result = await ledgerService.postEntry(mockClient as any, {
+        reference: 'TXN-TEST-001',
+        entryType: 'credit',
+        description: 'Test credit',
+        postings: [
+          { accountCode: 'FUNDING:NGN', direction: 'debit', amount: 500 },
+          { accountCode: 'WALLET:wallet-123', direction: 'credit', amount: 500 },
+        ],
+      });
+
+      expect(result).toEqual(journalEntry);
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        3,
+        expect.stringContaining('INSERT INTO postings'),
+        ['journal-123', 'acct-funding', 'debit', '500.00', 'NGN', 'journal-123', 'acct-wallet', 'credit', '500.00', 'NGN']
+      );
+      expect(mockClient.query).toHaveBeenNthCalledWith(
+        4,
+        'UPDATE wallets SET balance = balance + $1 WHERE id = $2',
+        ['500.00', 'wallet-123']
+      );
+    });
+
+    it('should lower the wallet balance when the wallet account is debited', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: accounts })
+        .mockResolvedValueOnce({ rows: [journalEntry] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await ledgerService.postEntry(mockClient as any, {
+        reference: 'TXN-TEST-002',
+        entryType: 'debit',
+        postings: [
+          { accountCode: 'WALLET:wallet-123', direction: 'debit', amount: 120.5 },
+          { accountCode: 'FUNDING:NGN', direction: 'credit', amount: 120.5 },
+        ],
+      });
+
+      expect(mockClient.query).toHaveBeenLastCalledWith(
+        'UPDATE wallets SET balance = balance + $1 WHERE id = $2',
+        ['-120.50', 'wallet-123']
+      );
+    });
+
+    it('should reject an unbalanced entry before writing anything', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: accounts });
+
+      await expect(
+        ledgerService.postEntry(mockClient as any, {
+          reference: 'TXN-TEST-003',
+          entryType: 'credit',
+          postings: [
+            { accountCode: 'FUNDING:NGN', direction: 'debit', amount: 500 },
+            { accountCode: 'WALLET:wallet-123', direction: 'credit', amount: 499.99 },
+          ],
+        })
+      ).rejects.toThrow('Journal entry TXN-TEST-003 is not balanced in NGN');
+
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject postings against unknown accounts', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [accounts[1]] });
+
+      await expect(
+        ledgerService.postEntry(mockClient as any, {
+          reference: 'TXN-TEST-004',
+          entryType: 'credit',
+          postings: [
+            { accountCode: 'FUNDING:XYZ', direction: 'debit', amount: 10 },
+            { accountCode: 'WALLET:wallet-123', direction: 'credit', amount: 10 },
+          ],
+        })
+      ).rejects.toThrow('Ledger account FUNDING:XYZ does not exist');
+    });
+
+    it('should require at least two postings', async () => {
+      await expect(
+        ledgerService.postEntry(mockClient as any, {
+          reference: 'TXN-TEST-005',
+          entryType: 'credit',
+          postings: [{ accountCode: 'WALLET:wallet-123', direction: 'credit', amount: 10 }],
+        })
+      ).rejects.toThrow('needs at least two postings');
+
+      expect(mockClient.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findWalletBalanceMismatches', () => {
+    it('should return wallets whose balance disagrees with their postings', async () => {
+      const mismatch = {
+        wallet_id: 'wallet-123',
+        user_id: 'user-123',
+        currency: 'NGN',
+        wallet_balance: '1000.00',
+        ledger_balance: '900.00',
+      };
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [mismatch] });
+
+      const result = await ledgerService.findWalletBalanceMismatches();
+
+      expect(result).toEqual([mismatch]);
+    });
+  });
+});
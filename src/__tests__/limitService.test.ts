@@ -0,0 +1,139 @@
+import { limitService } from '../services/limitService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('LimitService', () => {
+  const userId = 'user-123';
+  const basicLimits = {
+    tier: 'basic',
+    per_transaction_max: '50000.00',
+    daily_outflow_max: '200000.00',
+    monthly_outflow_max: '1000000.00',
+    max_balance: '300000.00',
+    own_per_transaction_max: null,
+    own_daily_outflow_max: null,
+    own_monthly_outflow_max: null,
+  };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+  });
+
+  describe('assertOutflowAllowed', () => {
+    it('should reject an amount above the per-transaction limit without summing outflow', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [basicLimits] });
+
+      await expect(
+        limitService.assertOutflowAllowed(mockClient as any, userId, 'wallet-123', 'NGN', 50000.01)
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'LIMIT_PER_TRANSACTION',
+        message: 'Amount exceeds the per-transaction limit of 50000.00 NGN',
+      });
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should say how much of the daily limit is left', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [basicLimits] })
+        .mockResolvedValueOnce({ rows: [{ daily: '180000.00', monthly: '400000.00' }] });
+
+      await expect(
+        limitService.assertOutflowAllowed(mockClient as any, userId, 'wallet-123', 'NGN', 20000.01)
+      ).rejects.toMatchObject({
+        code: 'LIMIT_DAILY',
+        message: 'Daily limit of 200000.00 NGN would be exceeded, 20000.00 NGN remaining',
+      });
+      expect(mockClient.query.mock.calls[1][1]).toEqual(['wallet-123', ['debit', 'transfer_out']]);
+    });
+
+    it('should apply a limit the user set lower than the tier', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...basicLimits, own_monthly_outflow_max: '5000.00' }] })
+        .mockResolvedValueOnce({ rows: [{ daily: '0', monthly: '4000.00' }] });
+
+      await expect(
+        limitService.assertOutflowAllowed(mockClient as any, userId, 'wallet-123', 'NGN', 1500)
+      ).rejects.toMatchObject({ code: 'LIMIT_MONTHLY' });
+    });
+
+    it('should allow an amount that fits every window', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [basicLimits] })
+        .mockResolvedValueOnce({ rows: [{ daily: '150000.00', monthly: '150000.00' }] });
+
+      await expect(
+        limitService.assertOutflowAllowed(mockClient as any, userId, 'wallet-123', 'NGN', 50000)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('assertBalanceAllowed', () => {
+    it('should hide the recipient limit behind a generic message', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [basicLimits] });
+
+      await expect(
+        limitService.assertBalanceAllowed(mockClient as any, 'recipient-456', 'NGN', 300000.01, 'recipient')
+      ).rejects.toMatchObject({ code: 'RECIPIENT_UNAVAILABLE' });
+    });
+
+    it('should not cap tiers without a maximum balance', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...basicLimits, tier: 'premium', max_balance: null }] });
+
+      await expect(
+        limitService.assertBalanceAllowed(mockClient as any, userId, 'NGN', 99999999)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('setOwnLimits', () => {
+    it('should not let users raise a limit above their tier', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [basicLimits] });
+
+      await expect(
+        limitService.setOwnLimits(userId, 'NGN', { daily_outflow_max: 250000 })
+      ).rejects.toThrow('daily_outflow_max cannot be higher than the tier limit of 200000.00 NGN');
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+
+    it('should store only the limits that were sent', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [basicLimits] })
+        .mockResolvedValueOnce({ rows: [] })
+        // Allowance after the update
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-123', currency: 'NGN', balance: '1000.00' }] })
+        .mockResolvedValueOnce({ rows: [{ ...basicLimits, own_daily_outflow_max: '10000.00' }] })
+        .mockResolvedValueOnce({ rows: [{ daily: '2500.00', monthly: '2500.00' }] });
+
+      const allowance = await limitService.setOwnLimits(userId, 'NGN', {
+        daily_outflow_max: 10000,
+        per_transaction_max: null,
+      });
+
+      expect((db.query as jest.Mock).mock.calls[1][1]).toEqual([userId, 'NGN', null, '10000.00']);
+      expect(allowance.limits.daily_outflow_max).toBe('10000.00');
+      expect(allowance.remaining).toEqual({ daily: '7500.00', monthly: '997500.00', balance: '299000.00' });
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'USER_LIMITS_UPDATED',
+          eventData: { currency: 'NGN', per_transaction_max: null, daily_outflow_max: '10000.00' },
+        })
+      );
+    });
+  });
+});
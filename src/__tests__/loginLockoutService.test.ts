@@ -0,0 +1,110 @@
+import { loginLockoutService } from '../services/loginLockoutService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { mailer } from '../mail';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    LOGIN_MAX_ATTEMPTS: 5,
+    LOGIN_LOCK_MINUTES: 30,
+    LOGIN_BACKOFF_BASE_SECONDS: 1,
+  },
+}));
+
+jest.mock('../mail', () => ({
+  mailer: {
+    send: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('LoginLockoutService', () => {
+  const user = { id: 'user-123', email: 'test@example.com', full_name: 'Test User' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordFailure', () => {
+    it('should count the attempt and back off without locking before the limit', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ locked: false }] });
+
+      await loginLockoutService.recordFailure(user, '127.0.0.1');
+
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('power(2, failed_login_attempts)'), [
+        user.id,
+        5,
+        30,
+        1,
+      ]);
+      expect(auditService.log).not.toHaveBeenCalled();
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+
+    it('should audit the lockout and email the account owner', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ locked: true }] });
+
+      await loginLockoutService.recordFailure(user, '127.0.0.1');
+
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: user.id,
+        eventType: 'USER_LOGIN_LOCKED',
+        eventData: { email: user.email, lockMinutes: 30 },
+        ipAddress: '127.0.0.1',
+      });
+      expect(mailer.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: user.email, subject: 'Sign-in to your account was locked' })
+      );
+    });
+
+    it('should not fail the login when the lockout email cannot be sent', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ locked: true }] });
+      (mailer.send as jest.Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+      await expect(loginLockoutService.recordFailure(user)).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('unlock', () => {
+    it('should clear the lock and audit the staff member', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ email: user.email, locked: true }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await loginLockoutService.unlock('admin-1', user.id, '10.0.0.1');
+
+      expect(db.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET failed_login_attempts = 0, login_locked_until = NULL WHERE id = $1',
+        [user.id]
+      );
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: 'admin-1',
+        eventType: 'USER_LOGIN_UNLOCKED',
+        eventData: { userId: user.id, email: user.email, wasLocked: true },
+        ipAddress: '10.0.0.1',
+      });
+    });
+
+    it('should throw error when the user does not exist', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(loginLockoutService.unlock('admin-1', 'missing')).rejects.toThrow('User not found');
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import { mfaService } from '../services/mfaService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { base32Encode, timeStep, totpCode } from '../utils/totp';
+import { hashToken } from '../utils/token';
+import { mailer } from '../mail';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    MFA_ISSUER: 'Wallet',
+    MFA_STEP_UP_THRESHOLD: 100000,
+    MFA_MAX_ATTEMPTS: 5,
+    MFA_LOCK_MINUTES: 15,
+  },
+}));
+
+jest.mock('../mail', () => ({
+  mailer: {
+    send: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/password', () => ({
+  comparePassword: jest.fn(),
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('MfaService', () => {
+  const userId = 'user-123';
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('setup', () => {
+    it('should store a new secret and return the provisioning URI', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ email: 'test@example.com', totp_enabled: false }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await mfaService.setup(userId);
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauth_url).toContain(`otpauth://totp/Wallet:test%40example.com?secret=${result.secret}`);
+      expect((db.query as jest.Mock).mock.calls[1][1]).toEqual([result.secret, userId]);
+    });
+  });
+
+  describe('confirm', () => {
+    it('should enable 2FA and store hashed recovery codes', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ totp_secret: secret, totp_enabled: false, totp_last_step: null }] });
+      mockClient.query.mockResolvedValue({ rows: [] });
+
+      const result = await mfaService.confirm(userId, totpCode(secret, timeStep()));
+
+      expect(result.recovery_codes).toHaveLength(10);
+      expect(result.recovery_codes[0]).toMatch(/^[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}$/);
+      const stored = mockClient.query.mock.calls[3][1];
+      expect(stored).toEqual([userId, hashToken(result.recovery_codes[0].replace(/-/g, ''))]);
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'MFA_ENABLED' }));
+    });
+
+    it('should audit and reject a wrong code', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ totp_secret: secret, totp_enabled: false, totp_last_step: null }] });
+
+      await expect(mfaService.confirm(userId, '000000')).rejects.toThrow('Invalid two-factor code');
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'MFA_CODE_FAILED', eventData: { context: 'confirm' } })
+      );
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should not accept the same code twice', async () => {
+      const step = timeStep();
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ totp_secret: secret, totp_enabled: true, totp_last_step: String(step) }],
+      });
+
+      await expect(mfaService.verifyCode(userId, totpCode(secret, step), 'login')).rejects.toThrow(
+        'Invalid two-factor code'
+      );
+    });
+
+    it('should count a wrong code against the account', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ totp_secret: secret, totp_enabled: true, totp_last_step: null, failed_mfa_attempts: 2 }],
+      });
+
+      await expect(mfaService.verifyCode(userId, '000000', 'step_up')).rejects.toMatchObject({
+        code: 'MFA_CODE_INVALID',
+      });
+      expect(mockClient.query).toHaveBeenLastCalledWith('UPDATE users SET failed_mfa_attempts = $1 WHERE id = $2', [
+        3,
+        userId,
+      ]);
+    });
+
+    it('should lock codes and email the owner after too many wrong ones', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              email: 'test@example.com',
+              full_name: 'Test User',
+              totp_secret: secret,
+              totp_enabled: true,
+              totp_last_step: null,
+              failed_mfa_attempts: 4,
+            },
+          ],
+        })
+        // Not a recovery code either
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(mfaService.verifyCode(userId, '000000', 'login')).rejects.toMatchObject({
+        statusCode: 423,
+        code: 'MFA_LOCKED',
+      });
+      expect(mockClient.query.mock.calls[2][1]).toEqual([15, userId]);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'MFA_LOCKED', eventData: { context: 'login', lockMinutes: 15 } })
+      );
+      expect(mailer.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'test@example.com' }));
+    });
+
+    it('should not check codes while locked', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ totp_secret: secret, totp_enabled: true, totp_last_step: null, failed_mfa_attempts: 0, mfa_locked: true }],
+      });
+
+      await expect(mfaService.verifyCode(userId, totpCode(secret, timeStep()), 'login')).rejects.toMatchObject({
+        code: 'MFA_LOCKED',
+      });
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clear the count after a correct code', async () => {
+      mockClient.query.mockResolvedValueOnce({
+        rows: [{ totp_secret: secret, totp_enabled: true, totp_last_step: null, failed_mfa_attempts: 3 }],
+      });
+
+      await mfaService.verifyCode(userId, totpCode(secret, timeStep()), 'step_up');
+
+      expect(mockClient.query).toHaveBeenLastCalledWith('UPDATE users SET failed_mfa_attempts = 0 WHERE id = $1', [
+        userId,
+      ]);
+    });
+
+    it('should accept an unused recovery code at login', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ totp_secret: secret, totp_enabled: true, totp_last_step: null }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'code-1' }] });
+
+      await mfaService.verifyCode(userId, '3F9A-04C1-B7E2-5D60', 'login');
+
+      expect(mockClient.query.mock.calls[1][1]).toEqual([userId, hashToken('3f9a04c1b7e25d60')]);
+    });
+  });
+
+  describe('assertStepUp', () => {
+    it('should skip the check at or below the threshold', async () => {
+      await mfaService.assertStepUp(userId, 100000);
+
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should require a code above the threshold when 2FA is enabled', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ totp_enabled: true }] });
+
+      await expect(mfaService.assertStepUp(userId, 100000.01)).rejects.toThrow(
+        'A TOTP code is required for amounts above 100000'
+      );
+    });
+
+    it('should not accept a recovery code for a payment', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ totp_enabled: true }] });
+      mockClient.query.mockResolvedValueOnce({ rows: [{ totp_secret: secret, totp_enabled: true, totp_last_step: null }] });
+
+      await expect(mfaService.assertStepUp(userId, 250000, '3f9a-04c1-b7e2-5d60')).rejects.toThrow(
+        'Invalid two-factor code'
+      );
+      // Only the user row is read and the failure counted; no recovery code is looked up
+      expect(mockClient.query).toHaveBeenCalledTimes(2);
+      expect(mockClient.query.mock.calls[1][0]).toBe('UPDATE users SET failed_mfa_attempts = $1 WHERE id = $2');
+    });
+  });
+});
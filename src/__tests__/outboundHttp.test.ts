@@ -0,0 +1,64 @@
+import { lookup } from 'dns';
+import { isPrivateAddress, isPrivateHost, postJson, publicOnlyLookup } from '../utils/outboundHttp';
+
+jest.mock('dns', () => ({
+  lookup: jest.fn(),
+}));
+
+const resolvesTo = (...addresses: string[]): void => {
+  (lookup as unknown as jest.Mock).mockImplementation((_hostname, _options, callback) =>
+    callback(null, addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })))
+  );
+};
+
+const lookUp = (hostname: string, all: boolean): Promise<{ error: Error | null; address: unknown }> =>
+  new Promise((resolve) => {
+    publicOnlyLookup(hostname, { all }, (error, address) => resolve({ error, address }));
+  });
+
+describe('outboundHttp', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isPrivateAddress', () => {
+    it('should flag loopback, private, link-local and mapped addresses', () => {
+      expect(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:10.0.0.1']
+        .every(isPrivateAddress)).toBe(true);
+      expect(['93.184.216.34', '2606:2800:220:1::1'].some(isPrivateAddress)).toBe(false);
+    });
+
+    it('should treat localhost names as private', () => {
+      expect(isPrivateHost('api.localhost')).toBe(true);
+      expect(isPrivateHost('hooks.example.com')).toBe(false);
+    });
+  });
+
+  describe('publicOnlyLookup', () => {
+    it('should refuse a name that resolves to a private address', async () => {
+      resolvesTo('93.184.216.34', '169.254.169.254');
+
+      const { error } = await lookUp('metadata.example.com', false);
+
+      expect(error?.message).toBe('metadata.example.com resolves to a private or local address');
+    });
+
+    it('should hand the socket the address it checked', async () => {
+      resolvesTo('93.184.216.34');
+
+      await expect(lookUp('hooks.example.com', false)).resolves.toEqual({ error: null, address: '93.184.216.34' });
+      await expect(lookUp('hooks.example.com', true)).resolves.toEqual({
+        error: null,
+        address: [{ address: '93.184.216.34', family: 4 }],
+      });
+    });
+  });
+
+  describe('postJson', () => {
+    it('should not connect to a private address written as the host', async () => {
+      await expect(
+        postJson('http://169.254.169.254/latest/meta-data', '{}', { headers: {}, timeoutMs: 1000, allowPrivate: false })
+      ).rejects.toThrow('169.254.169.254 is a private or local address');
+    });
+  });
+});
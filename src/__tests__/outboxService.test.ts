@@ -0,0 +1,223 @@
+import { OUTBOX_CHANNEL, OutboxService, outboxRetryDelaySeconds, outboxService } from '../services/outboxService';
+import { db } from '../database/postgres';
+import { webhookService } from '../services/webhookService';
+import { OutboxEvent, OutboxSink } from '../types';
+import { eventBus } from '../utils/eventBus';
+import { runWithRequestContext } from '../utils/requestContext';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    getClient: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    OUTBOX_RETENTION_DAYS: 7,
+  },
+}));
+
+jest.mock('../services/webhookService', () => ({
+  webhookService: {
+    enqueue: jest.fn(),
+  },
+}));
+
+const outboxEvent = (overrides: Partial<OutboxEvent> = {}): OutboxEvent => ({
+  id: '1',
+  event_id: 'event-1',
+  wallet_id: 'wallet-1',
+  user_id: 'user-1',
+  event_type: 'transaction.created',
+  payload: { transaction: { id: 'txn-1', type: 'credit', amount: '100.00' } },
+  ip_address: '127.0.0.1',
+  user_agent: 'Mozilla/5.0',
+  request_id: 'req-1',
+  delivered_sinks: [],
+  attempts: 0,
+  created_at: new Date('2025-01-05T09:30:00Z'),
+  ...overrides,
+});
+
+describe('OutboxService', () => {
+  let mockClient: { query: jest.Mock; release: jest.Mock };
+
+  // Lock, the due events, one update per dispatched event and the unlock
+  const relayWith = (events: OutboxEvent[], acquired = true): void => {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('pg_try_advisory_lock')) {
+        return { rows: [{ acquired }] };
+      }
+      if (sql.startsWith('SELECT id, event_id')) {
+        return { rows: events };
+      }
+      return { rows: [] };
+    });
+  };
+
+  const updates = (): any[][] =>
+    mockClient.query.mock.calls.filter(([sql]) => sql.includes('UPDATE outbox_events')).map(([, params]) => params);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn(), release: jest.fn() };
+    (db.getClient as jest.Mock).mockResolvedValue(mockClient);
+  });
+
+  describe('outboxRetryDelaySeconds', () => {
+    it('should double the delay up to five minutes', () => {
+      expect([1, 2, 3, 7, 20].map(outboxRetryDelaySeconds)).toEqual([5, 10, 20, 300, 300]);
+    });
+  });
+
+  describe('add', () => {
+    it('should insert every event with the caller\'s client and announce them on commit', async () => {
+      const client = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: '41' }] })
+          .mockResolvedValueOnce({ rows: [{ id: '42' }] })
+          .mockResolvedValueOnce({ rows: [] }),
+      };
+
+      await outboxService.add(client as any, [
+        { walletId: 'wallet-1', userId: 'user-1', eventType: 'transaction.created', payload: { a: 1 }, ipAddress: '::1' },
+        { walletId: 'wallet-1', userId: 'user-1', eventType: 'transfer.completed', payload: { b: 2 } },
+      ]);
+
+      expect(client.query.mock.calls.map(([, params]) => params)).toEqual([
+        ['wallet-1', 'user-1', 'transaction.created', '{"a":1}', '::1', null, null],
+        ['wallet-1', 'user-1', 'transfer.completed', '{"b":2}', null, null, null],
+        [OUTBOX_CHANNEL, '41,42'],
+      ]);
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should add one transaction.created event per transaction on its own wallet', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [{ id: '7' }] }) };
+      const transaction = { id: 'txn-1', wallet_id: 'wallet-9', user_id: 'user-9' } as any;
+
+      await outboxService.addTransactions(client as any, [transaction], '::1');
+
+      expect(client.query.mock.calls[0][1]).toEqual([
+        'wallet-9',
+        'user-9',
+        'transaction.created',
+        JSON.stringify({ transaction }),
+        '::1',
+        null,
+        null,
+      ]);
+    });
+
+    it('should keep the details of the request that added the events', async () => {
+      const client = { query: jest.fn().mockResolvedValue({ rows: [{ id: '7' }] }) };
+
+      await runWithRequestContext({ requestId: 'req-9', ipAddress: '10.0.0.1', userAgent: 'curl/8.0' }, () =>
+        outboxService.add(client as any, [
+          { walletId: 'wallet-1', userId: 'user-1', eventType: 'transaction.created', payload: {} },
+        ])
+      );
+
+      expect(client.query.mock.calls[0][1].slice(4)).toEqual(['10.0.0.1', 'curl/8.0', 'req-9']);
+    });
+  });
+
+  describe('relay', () => {
+    it('should do nothing while another instance holds the relay lock', async () => {
+      relayWith([outboxEvent()], false);
+
+      await expect(outboxService.relay()).resolves.toBe(0);
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+      expect(mockClient.release).toHaveBeenCalled();
+    });
+
+    it('should hand the event to every sink and mark it published', async () => {
+      const listener = jest.fn();
+      eventBus.on('transaction.created', listener);
+      relayWith([outboxEvent()]);
+
+      const published = await outboxService.relay();
+
+      eventBus.off('transaction.created', listener);
+      expect(published).toBe(1);
+      expect(webhookService.enqueue).toHaveBeenCalledWith({
+        id: 'event-1',
+        type: 'transaction.created',
+        created_at: '2025-01-05T09:30:00.000Z',
+        user_id: 'user-1',
+        data: outboxEvent().payload,
+      });
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ event_id: 'event-1' }));
+      expect(updates()).toEqual([[['webhooks', 'bus'], 1, '1']]);
+      expect(mockClient.query).toHaveBeenLastCalledWith(expect.stringContaining('pg_advisory_unlock'));
+    });
+
+    it('should retry a failed sink later and hold back the rest of that wallet', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const calls: string[] = [];
+      const flaky: OutboxSink = {
+        name: 'flaky',
+        handle: jest.fn(async (event: OutboxEvent) => {
+          calls.push(event.event_id);
+          if (event.event_id === 'event-1') {
+            throw new Error('broker unavailable');
+          }
+        }),
+      };
+      const steady: OutboxSink = { name: 'steady', handle: jest.fn() };
+      const service = new OutboxService([steady, flaky]);
+      relayWith([
+        outboxEvent({ id: '1', event_id: 'event-1', wallet_id: 'wallet-1', attempts: 2 }),
+        outboxEvent({ id: '2', event_id: 'event-2', wallet_id: 'wallet-1' }),
+        outboxEvent({ id: '3', event_id: 'event-3', wallet_id: 'wallet-2' }),
+      ]);
+
+      const published = await service.relay();
+
+      expect(published).toBe(1);
+      expect(calls).toEqual(['event-1', 'event-3']);
+      expect(updates()).toEqual([
+        [['steady'], 3, 'flaky: broker unavailable', 20, '1'],
+        [['steady', 'flaky'], 1, '3'],
+      ]);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should skip sinks that already accepted the event', async () => {
+      const first: OutboxSink = { name: 'first', handle: jest.fn() };
+      const second: OutboxSink = { name: 'second', handle: jest.fn() };
+      relayWith([outboxEvent({ delivered_sinks: ['first'], attempts: 1 })]);
+
+      await new OutboxService([first, second]).relay();
+
+      expect(first.handle).not.toHaveBeenCalled();
+      expect(second.handle).toHaveBeenCalled();
+      expect(updates()).toEqual([[['first', 'second'], 2, '1']]);
+    });
+  });
+
+  describe('deleteExpired', () => {
+    it('should record the highest deleted id along with the deletion', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ count: 3 }] });
+
+      await expect(outboxService.deleteExpired()).resolves.toBe(3);
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('GREATEST(deleted_through, (SELECT MAX(id) FROM deleted))');
+      expect(params).toEqual([7]);
+    });
+  });
+
+  describe('register', () => {
+    it('should refuse a second sink with the same name', () => {
+      const service = new OutboxService();
+      service.register({ name: 'metrics', handle: jest.fn() });
+
+      expect(() => service.register({ name: 'metrics', handle: jest.fn() })).toThrow(
+        'Outbox sink metrics is already registered'
+      );
+    });
+  });
+});
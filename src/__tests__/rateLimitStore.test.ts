@@ -0,0 +1,90 @@
+import { Options } from 'express-rate-limit';
+import { PostgresRateLimitStore, deleteExpiredRateLimits } from '../middleware/rateLimitStore';
+import { db } from '../database/postgres';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+  },
+}));
+
+describe('PostgresRateLimitStore', () => {
+  let store: PostgresRateLimitStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = new PostgresRateLimitStore('auth');
+    store.init({ windowMs: 900000 } as Options);
+  });
+
+  afterEach(() => {
+    store.shutdown();
+  });
+
+  describe('increment', () => {
+    it('should count the hit in one upsert under the limiter\'s prefix', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ hits: 3, reset_in_ms: '60000' }] });
+      const before = Date.now();
+
+      const info = await store.increment('127.0.0.1');
+
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT (key) DO UPDATE'), [
+        'auth:127.0.0.1',
+        900000,
+      ]);
+      expect(info.totalHits).toBe(3);
+      expect(info.resetTime!.getTime()).toBeGreaterThanOrEqual(before + 60000);
+    });
+
+    it('should count in memory while the database is unavailable, and go back once it returns', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation();
+      const consoleLog = jest.spyOn(console, 'log').mockImplementation();
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+      (db.query as jest.Mock).mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      expect((await store.increment('127.0.0.1')).totalHits).toBe(1);
+      // Left alone while it is down, instead of waiting for a timeout on every request
+      expect((await store.increment('127.0.0.1')).totalHits).toBe(2);
+      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(consoleError).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1000000 + 31000);
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ hits: 1, reset_in_ms: '900000' }] });
+
+      expect((await store.increment('127.0.0.1')).totalHits).toBe(1);
+      expect(db.query).toHaveBeenCalledTimes(2);
+
+      now.mockRestore();
+      consoleError.mockRestore();
+      consoleLog.mockRestore();
+    });
+  });
+
+  describe('get', () => {
+    it('should report nothing for a client without hits in the current window', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(store.get('127.0.0.1')).resolves.toBeUndefined();
+      expect((db.query as jest.Mock).mock.calls[0][1]).toEqual(['auth:127.0.0.1']);
+    });
+  });
+
+  describe('resetKey', () => {
+    it('should delete the counter', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await store.resetKey('127.0.0.1');
+
+      expect(db.query).toHaveBeenCalledWith('DELETE FROM rate_limits WHERE key = $1', ['auth:127.0.0.1']);
+    });
+  });
+
+  describe('deleteExpiredRateLimits', () => {
+    it('should delete counters whose window has passed', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rowCount: 4 });
+
+      await expect(deleteExpiredRateLimits()).resolves.toBe(4);
+      expect(db.query).toHaveBeenCalledWith('DELETE FROM rate_limits WHERE reset_at <= now()');
+    });
+  });
+});
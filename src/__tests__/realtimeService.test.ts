@@ -0,0 +1,210 @@
+import { EventEmitter } from 'events';
+import { RealtimeService, isStreamEventId, toServerSentEvents } from '../services/realtimeService';
+import { db } from '../database/postgres';
+import { OutboxEvent, RealtimeStream } from '../types';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    getClient: jest.fn(),
+  },
+}));
+
+jest.mock('../services/outboxService', () => ({
+  OUTBOX_CHANNEL: 'outbox_events',
+  OUTBOX_COLUMNS: 'id, event_id, wallet_id, user_id, event_type, payload',
+}));
+
+const outboxEvent = (id: string, userId = 'user-1'): OutboxEvent => ({
+  id,
+  event_id: `event-${id}`,
+  wallet_id: 'wallet-1',
+  user_id: userId,
+  event_type: 'transaction.created',
+  payload: { transaction: { id: `txn-${id}`, balance_after: '150.00' } },
+  ip_address: null,
+  user_agent: null,
+  request_id: null,
+  delivered_sinks: [],
+  attempts: 0,
+  created_at: new Date('2025-01-05T09:30:00Z'),
+});
+
+const streamOf = (): RealtimeStream & { sent: string[] } => {
+  const sent: string[] = [];
+  return {
+    sent,
+    send: jest.fn((event: OutboxEvent) => {
+      sent.push(event.id);
+    }),
+    reset: jest.fn(),
+    close: jest.fn(),
+  };
+};
+
+// Lets the notification handler's query resolve
+const flush = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+
+describe('RealtimeService', () => {
+  let listener: EventEmitter & { query: jest.Mock; release: jest.Mock };
+  let service: RealtimeService;
+
+  const notify = (ids: string): void => {
+    listener.emit('notification', { channel: 'outbox_events', payload: ids });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    listener = Object.assign(new EventEmitter(), { query: jest.fn().mockResolvedValue({}), release: jest.fn() });
+    (db.getClient as jest.Mock).mockResolvedValue(listener);
+    service = new RealtimeService();
+  });
+
+  describe('toServerSentEvents', () => {
+    it('should follow a new transaction with the wallet\'s balance', () => {
+      expect(toServerSentEvents(outboxEvent('42')).split('\n\n')).toEqual([
+        'id: 42\nevent: transaction.created\ndata: {"id":"event-42","type":"transaction.created",' +
+          '"created_at":"2025-01-05T09:30:00.000Z","data":{"transaction":{"id":"txn-42","balance_after":"150.00"}}}',
+        'id: 42\nevent: balance.updated\ndata: {"wallet_id":"wallet-1","balance":"150.00","transaction_id":"txn-42"}',
+        '',
+      ]);
+    });
+  });
+
+  describe('isStreamEventId', () => {
+    it('should only accept outbox ids', () => {
+      expect(['42', '0'].every(isStreamEventId)).toBe(true);
+      expect(['', '-1', '4e2', '1; DROP TABLE'].some(isStreamEventId)).toBe(false);
+    });
+  });
+
+  describe('open', () => {
+    it('should listen once and forward only the subscribed user\'s events', async () => {
+      const stream = streamOf();
+      await service.open('user-1', undefined, stream);
+      await service.open('user-1', undefined, streamOf());
+
+      expect(db.getClient).toHaveBeenCalledTimes(1);
+      expect(listener.query).toHaveBeenCalledWith('LISTEN outbox_events');
+
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [outboxEvent('7')] });
+      notify('7,8');
+      await flush();
+
+      expect((db.query as jest.Mock).mock.calls[0][1]).toEqual([['7', '8'], ['user-1']]);
+      expect(stream.sent).toEqual(['7']);
+    });
+
+    it('should replay missed events and send live ones that arrive meanwhile once', async () => {
+      const stream = streamOf();
+      let replay: (value: unknown) => void = () => undefined;
+      (db.query as jest.Mock)
+        .mockReturnValueOnce(new Promise((resolve) => (replay = resolve)))
+        .mockResolvedValueOnce({ rows: [outboxEvent('11'), outboxEvent('12')] })
+        .mockResolvedValueOnce({ rows: [{ deleted_through: '3' }] });
+
+      const opening = service.open('user-1', '10', stream);
+      await flush();
+      notify('11,12');
+      await flush();
+      replay({ rows: [outboxEvent('11')] });
+      await opening;
+
+      expect((db.query as jest.Mock).mock.calls[0][1]).toEqual(['user-1', '10', 501]);
+      expect(stream.sent).toEqual(['11', '12']);
+    });
+
+    it('should tell a client that is too far behind to reload', async () => {
+      const stream = streamOf();
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: Array.from({ length: 501 }, (_, index) => outboxEvent(String(index + 1))) })
+        .mockResolvedValueOnce({ rows: [{ deleted_through: '0' }] });
+
+      await service.open('user-1', '0', stream);
+
+      expect(stream.reset).toHaveBeenCalled();
+      expect(stream.send).not.toHaveBeenCalled();
+    });
+
+    it('should tell a client to reload when the events it missed were already deleted', async () => {
+      const stream = streamOf();
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [outboxEvent('45')] })
+        .mockResolvedValueOnce({ rows: [{ deleted_through: '40' }] });
+
+      await service.open('user-1', '10', stream);
+
+      expect(stream.reset).toHaveBeenCalled();
+      expect(stream.send).not.toHaveBeenCalled();
+    });
+
+    it('should not reload a client just because an old event is still unpublished', async () => {
+      const stream = streamOf();
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [outboxEvent('41')] })
+        .mockResolvedValueOnce({ rows: [{ deleted_through: '40' }] });
+
+      await service.open('user-1', '40', stream);
+
+      expect(stream.reset).not.toHaveBeenCalled();
+      expect(stream.sent).toEqual(['41']);
+    });
+
+    it('should forward notifications in the order they arrive', async () => {
+      const stream = streamOf();
+      await service.open('user-1', undefined, stream);
+
+      let first: (value: unknown) => void = () => undefined;
+      (db.query as jest.Mock)
+        .mockReturnValueOnce(new Promise((resolve) => (first = resolve)))
+        .mockResolvedValueOnce({ rows: [outboxEvent('8')] });
+
+      notify('7');
+      notify('8');
+      await flush();
+      expect(db.query).toHaveBeenCalledTimes(1);
+
+      first({ rows: [outboxEvent('7')] });
+      await flush();
+
+      expect(stream.sent).toEqual(['7', '8']);
+    });
+
+    it('should limit how many streams a user can open', async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.open('user-1', undefined, streamOf());
+      }
+
+      await expect(service.open('user-1', undefined, streamOf())).rejects.toThrow(
+        'No more than 5 event streams can be open at once'
+      );
+    });
+
+    it('should stop forwarding once unsubscribed', async () => {
+      const stream = streamOf();
+      const unsubscribe = await service.open('user-1', undefined, stream);
+
+      unsubscribe();
+      notify('7');
+      await flush();
+
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should close every stream when the listening connection fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const stream = streamOf();
+    await service.open('user-1', undefined, stream);
+
+    listener.emit('error', new Error('terminating connection'));
+
+    expect(stream.close).toHaveBeenCalled();
+    expect(listener.release).toHaveBeenCalledWith(expect.any(Error));
+
+    await service.open('user-1', undefined, streamOf());
+    expect(db.getClient).toHaveBeenCalledTimes(2);
+
+    consoleSpy.mockRestore();
+  });
+});
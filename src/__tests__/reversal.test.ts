@@ -0,0 +1,396 @@
+import { walletService } from '../services/walletService';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { ledgerService } from '../services/ledgerService';
+import { auditService } from '../services/auditService';
+import { outboxService } from '../services/outboxService';
+import { limitService } from '../services/limitService';
+
+// Mock the database
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+// Mock audit service
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+    recordTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/webhookService', () => ({
+  webhookService: {
+    publish: jest.fn(),
+  },
+}));
+
+jest.mock('../services/outboxService', () => ({
+  outboxService: {
+    add: jest.fn(),
+    addTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/ledgerService', () => ({
+  ledgerService: {
+    postEntry: jest.fn().mockResolvedValue({ id: 'journal-rev' }),
+    getPostings: jest.fn(),
+  },
+  walletAccountCode: (walletId: string) => `WALLET:${walletId}`,
+  systemAccountCode: (account: string, currency: string) => `${account}:${currency}`,
+}));
+
+jest.mock('../services/fxService', () => ({
+  fxService: {},
+}));
+
+jest.mock('../services/mfaService', () => ({
+  mfaService: {
+    assertStepUp: jest.fn(),
+  },
+}));
+
+jest.mock('../services/limitService', () => ({
+  limitService: {
+    assertOutflowAllowed: jest.fn(),
+    assertBalanceAllowed: jest.fn(),
+  },
+}));
+
+describe('WalletService - Reversals and refunds', () => {
+  const senderOut = {
+    id: 'txn-out',
+    wallet_id: 'wallet-sender',
+    user_id: 'sender-123',
+    type: 'transfer_out',
+    amount: '100.00',
+    reference: 'TXN-TEST-001-OUT',
+    balance_before: '500.00',
+    balance_after: '400.00',
+    journal_entry_id: 'journal-orig',
+    metadata: null,
+  };
+
+  const recipientIn = {
+    id: 'txn-in',
+    wallet_id: 'wallet-recipient',
+    user_id: 'recipient-456',
+    type: 'transfer_in',
+    amount: '100.00',
+    reference: 'TXN-TEST-001-IN',
+    balance_before: '200.00',
+    balance_after: '300.00',
+    journal_entry_id: 'journal-orig',
+    metadata: null,
+  };
+
+  const originalEntry = { id: 'journal-orig', reference: 'TXN-TEST-001', entry_type: 'transfer' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('reverseTransaction', () => {
+    it('should restore both sides of a transfer in one compensating entry', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ journal_entry_id: 'journal-orig', status: 'success' }],
+      });
+
+      (ledgerService.getPostings as jest.Mock).mockResolvedValueOnce([
+        { accountCode: 'WALLET:wallet-sender', direction: 'debit', amount: 100 },
+        { accountCode: 'WALLET:wallet-recipient', direction: 'credit', amount: 100 },
+      ]);
+
+      const mockClient = {
+        query: jest.fn()
+          // Lock original entry
+          .mockResolvedValueOnce({ rows: [originalEntry] })
+          // Existing reversals or refunds
+          .mockResolvedValueOnce({ rows: [] })
+          // Original transaction rows
+          .mockResolvedValueOnce({ rows: [senderOut, recipientIn] })
+          // Lock wallets
+          .mockResolvedValueOnce({
+            rows: [
+              { id: 'wallet-recipient', balance: '300.00', held_amount: '0.00', currency: 'NGN', status: 'active', user_status: 'active' },
+              { id: 'wallet-sender', balance: '400.00', held_amount: '0.00', currency: 'NGN', status: 'active', user_status: 'active' },
+            ],
+          })
+          // Insert reversal rows
+          .mockResolvedValueOnce({ rows: [{ id: 'rev-out', user_id: 'sender-123', amount: '100.00' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'rev-in', user_id: 'recipient-456', amount: '100.00' }] }),
+      };
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await walletService.reverseTransaction('TXN-TEST-001-OUT', 'admin-1', 'Sent in error');
+
+      expect(result.original_reference).toBe('TXN-TEST-001');
+      expect(result.reversal_transactions).toHaveLength(2);
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(mockClient, {
+        reference: 'TXN-TEST-001-REV',
+        entryType: 'reversal',
+        description: 'Sent in error',
+        relatedEntryId: 'journal-orig',
+        postings: [
+          { accountCode: 'WALLET:wallet-sender', direction: 'credit', amount: 100 },
+          { accountCode: 'WALLET:wallet-recipient', direction: 'debit', amount: 100 },
+        ],
+      });
+
+      const senderInsert = mockClient.query.mock.calls[4][1];
+      expect(senderInsert.slice(0, 8)).toEqual([
+        'wallet-sender',
+        'sender-123',
+        'reversal',
+        100,
+        'TXN-TEST-001-OUT-REV',
+        'Reversal of TXN-TEST-001-OUT',
+        '400.00',
+        '500.00',
+      ]);
+      expect(senderInsert[10]).toBe('txn-out');
+
+      const recipientInsert = mockClient.query.mock.calls[5][1];
+      expect(recipientInsert.slice(6, 8)).toEqual(['300.00', '200.00']);
+      expect(recipientInsert[10]).toBe('txn-in');
+
+      expect((outboxService.addTransactions as jest.Mock).mock.calls[0][1]).toHaveLength(2);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'admin-1', eventType: 'TRANSACTION_REVERSED' })
+      );
+    });
+
+    it('should refuse to reverse a transaction twice', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ journal_entry_id: 'journal-orig', status: 'success' }],
+      });
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn()
+            .mockResolvedValueOnce({ rows: [originalEntry] })
+            .mockResolvedValueOnce({ rows: [{ entry_type: 'reversal' }] }),
+        };
+        return callback(mockClient);
+      });
+
+      await expect(walletService.reverseTransaction('TXN-TEST-001-OUT', 'admin-1')).rejects.toThrow(
+        'Transaction has already been reversed'
+      );
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should not reverse when the recipient no longer holds the funds', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ journal_entry_id: 'journal-orig', status: 'success' }],
+      });
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn()
+            .mockResolvedValueOnce({ rows: [originalEntry] })
+            .mockResolvedValueOnce({ rows: [] })
+            .mockResolvedValueOnce({ rows: [senderOut, recipientIn] })
+            .mockResolvedValueOnce({
+              rows: [
+                { id: 'wallet-recipient', balance: '40.00', held_amount: '0.00' },
+                { id: 'wallet-sender', balance: '400.00', held_amount: '0.00' },
+              ],
+            }),
+        };
+        return callback(mockClient);
+      });
+
+      await expect(walletService.reverseTransaction('TXN-TEST-001-IN', 'admin-1')).rejects.toThrow(
+        'Insufficient balance to reverse transaction'
+      );
+    });
+
+    it('should throw error when transaction does not exist', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(walletService.reverseTransaction('TXN-MISSING', 'admin-1')).rejects.toThrow(AppError);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundTransfer', () => {
+    const lockedWallets = {
+      rows: [
+        { id: 'wallet-recipient', balance: '270.00', held_amount: '0.00', currency: 'NGN', status: 'active', user_status: 'active' },
+        { id: 'wallet-sender', balance: '430.00', held_amount: '0.00', currency: 'NGN', status: 'active', user_status: 'active' },
+      ],
+    };
+
+    const refundUpToWalletLock = (wallets: { rows: Record<string, string>[] }) => ({
+      query: jest.fn()
+        .mockResolvedValueOnce({ rows: [recipientIn] })
+        .mockResolvedValueOnce({ rows: [originalEntry] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ refunded: '30.00' }] })
+        .mockResolvedValueOnce({ rows: [senderOut] })
+        .mockResolvedValueOnce(wallets),
+    });
+
+    beforeEach(() => {
+      // Refunding user is verified
+      (db.query as jest.Mock).mockResolvedValue({ rows: [{ is_verified: true }] });
+    });
+
+    it('should refund part of a received transfer and report what is left', async () => {
+      const mockClient = {
+        query: jest.fn()
+          // Incoming transfer row
+          .mockResolvedValueOnce({ rows: [recipientIn] })
+          // Lock original entry
+          .mockResolvedValueOnce({ rows: [originalEntry] })
+          // Reversal check
+          .mockResolvedValueOnce({ rows: [] })
+          // Already refunded
+          .mockResolvedValueOnce({ rows: [{ refunded: '30.00' }] })
+          // Outgoing transfer row
+          .mockResolvedValueOnce({ rows: [senderOut] })
+          // Lock wallets
+          .mockResolvedValueOnce(lockedWallets)
+          // Insert refund rows
+          .mockResolvedValueOnce({ rows: [{ id: 'refund-out', user_id: 'recipient-456', amount: '50.00' }] })
+          .mockResolvedValueOnce({ rows: [{ id: 'refund-in', user_id: 'sender-123', amount: '50.00' }] }),
+      };
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 50, undefined, 'TXN-RF-001');
+
+      expect(result.new_balance).toBe('220.00');
+      expect(result.refunded_total).toBe('80.00');
+      expect(result.refundable_remaining).toBe('20.00');
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(mockClient, {
+        reference: 'TXN-RF-001',
+        entryType: 'refund',
+        description: 'Refund of TXN-TEST-001-IN',
+        relatedEntryId: 'journal-orig',
+        postings: [
+          { accountCode: 'WALLET:wallet-recipient', direction: 'debit', amount: 50 },
+          { accountCode: 'WALLET:wallet-sender', direction: 'credit', amount: 50 },
+        ],
+      });
+
+      const senderInsert = mockClient.query.mock.calls[7][1];
+      expect(senderInsert[4]).toBe('TXN-RF-001-IN');
+      expect(senderInsert.slice(6, 8)).toEqual(['430.00', '480.00']);
+      expect(senderInsert[10]).toBe('txn-out');
+      expect(outboxService.addTransactions).toHaveBeenCalledWith(
+        mockClient,
+        [expect.anything(), expect.anything()],
+        undefined
+      );
+      expect(limitService.assertOutflowAllowed).toHaveBeenCalledWith(mockClient, 'recipient-456', 'wallet-recipient', 'NGN', 50);
+      expect(limitService.assertBalanceAllowed).toHaveBeenCalledWith(mockClient, 'sender-123', 'NGN', 480, 'recipient');
+    });
+
+    it('should not let an unverified user refund', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ is_verified: false }] });
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 10)).rejects.toMatchObject({
+        code: 'EMAIL_NOT_VERIFIED',
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it('should not refund out of a frozen wallet', async () => {
+      const mockClient = refundUpToWalletLock({
+        rows: [{ ...lockedWallets.rows[0], status: 'frozen' }, lockedWallets.rows[1]],
+      });
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 10)).rejects.toMatchObject({
+        code: 'WALLET_FROZEN',
+      });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: 'recipient-456',
+          eventType: 'TRANSACTION_REJECTED',
+          eventData: expect.objectContaining({ operation: 'refund', reason: 'WALLET_FROZEN', transferReference: 'TXN-TEST-001-IN' }),
+        })
+      );
+    });
+
+    it('should not refund to a suspended sender', async () => {
+      const mockClient = refundUpToWalletLock({
+        rows: [lockedWallets.rows[0], { ...lockedWallets.rows[1], user_status: 'suspended' }],
+      });
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 10)).rejects.toMatchObject({
+        code: 'RECIPIENT_UNAVAILABLE',
+      });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should count the refund against the daily limit', async () => {
+      const mockClient = refundUpToWalletLock(lockedWallets);
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+      (limitService.assertOutflowAllowed as jest.Mock).mockRejectedValueOnce(
+        new AppError(403, 'Daily limit of 200000.00 NGN would be exceeded, 5.00 NGN remaining', 'LIMIT_DAILY')
+      );
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 10)).rejects.toMatchObject({
+        code: 'LIMIT_DAILY',
+      });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should not refund more than the original amount', async () => {
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn()
+            .mockResolvedValueOnce({ rows: [recipientIn] })
+            .mockResolvedValueOnce({ rows: [originalEntry] })
+            .mockResolvedValueOnce({ rows: [] })
+            .mockResolvedValueOnce({ rows: [{ refunded: '30.00' }] }),
+        };
+        return callback(mockClient);
+      });
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 70.01)).rejects.toThrow(
+        'Refund exceeds the refundable amount of 70.00'
+      );
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should only refund received transfers', async () => {
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn().mockResolvedValueOnce({ rows: [{ ...senderOut, user_id: 'recipient-456' }] }),
+        };
+        return callback(mockClient);
+      });
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-OUT', 10)).rejects.toThrow(
+        'Only received transfers can be refunded'
+      );
+    });
+
+    it('should not refund a reversed transfer', async () => {
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn()
+            .mockResolvedValueOnce({ rows: [recipientIn] })
+            .mockResolvedValueOnce({ rows: [originalEntry] })
+            .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] }),
+        };
+        return callback(mockClient);
+      });
+
+      await expect(walletService.refundTransfer('recipient-456', 'TXN-TEST-001-IN', 10)).rejects.toThrow(
+        'Transaction has already been reversed'
+      );
+    });
+  });
+});
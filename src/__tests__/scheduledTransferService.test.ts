@@ -0,0 +1,275 @@
+import { nextRunAt, scheduledTransferService } from '../services/scheduledTransferService';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { walletService } from '../services/walletService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+jest.mock('../services/walletService', () => ({
+  walletService: {
+    transfer: jest.fn(),
+    resolveCurrency: jest.fn((currency?: string) => currency || 'NGN'),
+    resolveRecipientId: jest.fn(),
+    assertCanTransfer: jest.fn(),
+  },
+}));
+
+jest.mock('../services/mfaService', () => ({
+  mfaService: {
+    assertStepUp: jest.fn(),
+  },
+}));
+
+describe('ScheduledTransferService', () => {
+  const userId = 'user-123';
+  const recipientId = 'recipient-456';
+
+  const schedule = {
+    id: 'schedule-1',
+    user_id: userId,
+    recipient_user_id: recipientId,
+    amount: '250.00',
+    currency: 'NGN',
+    description: 'Rent',
+    frequency: 'monthly',
+    start_at: new Date('2025-01-31T09:00:00Z'),
+    end_at: null,
+    max_runs: null,
+    next_occurrence: 0,
+    next_run_at: new Date('2025-01-31T09:00:00Z'),
+    run_count: 0,
+    status: 'active',
+  };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('nextRunAt', () => {
+    it('should keep the day of month and clamp it in shorter months', () => {
+      const start = new Date('2025-01-31T09:00:00Z');
+
+      expect(nextRunAt(start, 'monthly', 1).toISOString()).toBe('2025-02-28T09:00:00.000Z');
+      expect(nextRunAt(start, 'monthly', 2).toISOString()).toBe('2025-03-31T09:00:00.000Z');
+      expect(nextRunAt(start, 'monthly', 13).toISOString()).toBe('2026-02-28T09:00:00.000Z');
+    });
+
+    it('should step daily and weekly schedules by whole days', () => {
+      const start = new Date('2025-01-31T09:00:00Z');
+
+      expect(nextRunAt(start, 'daily', 3).toISOString()).toBe('2025-02-03T09:00:00.000Z');
+      expect(nextRunAt(start, 'weekly', 2).toISOString()).toBe('2025-02-14T09:00:00.000Z');
+    });
+  });
+
+  describe('createSchedule', () => {
+    it('should store the schedule with its first run at start_at', async () => {
+      const startAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+      (walletService.resolveRecipientId as jest.Mock).mockResolvedValueOnce(recipientId);
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ user_id: userId }, { user_id: recipientId }] })
+        .mockResolvedValueOnce({ rows: [schedule] });
+
+      const result = await scheduledTransferService.createSchedule(userId, {
+        recipient_user_id: recipientId,
+        amount: 250,
+        frequency: 'weekly',
+        start_at: startAt,
+        max_runs: 4,
+      });
+
+      expect(result).toEqual(schedule);
+      expect(db.query).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO scheduled_transfers'), [
+        userId,
+        recipientId,
+        '250.00',
+        'NGN',
+        null,
+        'weekly',
+        new Date(startAt),
+        null,
+        4,
+      ]);
+    });
+
+    it('should reject an unknown frequency', async () => {
+      await expect(
+        scheduledTransferService.createSchedule(userId, {
+          recipient_user_id: recipientId,
+          amount: 250,
+          frequency: 'hourly' as any,
+        })
+      ).rejects.toThrow('frequency must be one of once, daily, weekly, monthly');
+    });
+
+    it('should reject a start date in the past', async () => {
+      await expect(
+        scheduledTransferService.createSchedule(userId, {
+          recipient_user_id: recipientId,
+          amount: 250,
+          frequency: 'once',
+          start_at: '2020-01-01T00:00:00Z',
+        })
+      ).rejects.toThrow('start_at cannot be in the past');
+    });
+
+    it('should throw error when the recipient has no wallet in the currency', async () => {
+      (walletService.resolveRecipientId as jest.Mock).mockResolvedValueOnce(recipientId);
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ user_id: userId }] });
+
+      await expect(
+        scheduledTransferService.createSchedule(userId, {
+          recipient_user_id: recipientId,
+          amount: 250,
+          frequency: 'daily',
+          currency: 'USD',
+        })
+      ).rejects.toThrow('Recipient has no USD wallet');
+    });
+  });
+
+  describe('runDueTransfers', () => {
+    it('should transfer with a deterministic reference and schedule the next occurrence', async () => {
+      mockClient.query
+        // Due schedule
+        .mockResolvedValueOnce({ rows: [schedule] })
+        // Record run
+        .mockResolvedValueOnce({ rows: [] })
+        // Advance schedule
+        .mockResolvedValueOnce({ rows: [] })
+        // Nothing else is due
+        .mockResolvedValueOnce({ rows: [] });
+
+      const processed = await scheduledTransferService.runDueTransfers();
+
+      expect(processed).toBe(1);
+      expect(walletService.transfer).toHaveBeenCalledWith(
+        userId,
+        undefined,
+        recipientId,
+        250,
+        'Rent',
+        'SCH-schedule-1-0',
+        undefined,
+        { currency: 'NGN', skipStepUp: true }
+      );
+      expect(mockClient.query.mock.calls[1][1]).toEqual([
+        'schedule-1',
+        0,
+        'SCH-schedule-1-0',
+        'success',
+        null,
+        schedule.next_run_at,
+      ]);
+      expect(mockClient.query.mock.calls[2][1]).toEqual([
+        1,
+        new Date('2025-02-28T09:00:00Z'),
+        1,
+        'active',
+        'schedule-1',
+      ]);
+    });
+
+    it('should record a failed run when the sender cannot cover the transfer', async () => {
+      (walletService.transfer as jest.Mock).mockRejectedValueOnce(new AppError(400, 'Insufficient balance'));
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [schedule] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await scheduledTransferService.runDueTransfers();
+
+      expect(mockClient.query.mock.calls[1][1].slice(3, 5)).toEqual(['failed', 'Insufficient balance']);
+      expect(mockClient.query.mock.calls[2][1][3]).toBe('active');
+    });
+
+    it('should treat an already used reference as a run that succeeded earlier', async () => {
+      (walletService.transfer as jest.Mock).mockRejectedValueOnce(
+        new AppError(409, 'Transaction reference already exists', 'DUPLICATE_REFERENCE')
+      );
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [schedule] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await scheduledTransferService.runDueTransfers();
+
+      expect(mockClient.query.mock.calls[1][1][3]).toBe('success');
+    });
+
+    it('should complete the schedule once it reaches max_runs', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({
+          rows: [{ ...schedule, frequency: 'daily', max_runs: 3, run_count: 2, next_occurrence: 2 }],
+        })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await scheduledTransferService.runDueTransfers();
+
+      expect(mockClient.query.mock.calls[2][1]).toEqual([3, null, 3, 'completed', 'schedule-1']);
+    });
+
+    it('should roll back and stop when the transfer fails unexpectedly', async () => {
+      (walletService.transfer as jest.Mock).mockRejectedValueOnce(new Error('connection terminated'));
+      mockClient.query.mockResolvedValueOnce({ rows: [schedule] });
+
+      await expect(scheduledTransferService.runDueTransfers()).rejects.toThrow('connection terminated');
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resumeSchedule', () => {
+    it('should skip occurrences missed while paused', async () => {
+      const startAt = new Date(Date.now() - 3.5 * 24 * 60 * 60 * 1000);
+      mockClient.query
+        .mockResolvedValueOnce({
+          rows: [{ ...schedule, frequency: 'daily', start_at: startAt, next_occurrence: 1, status: 'paused' }],
+        })
+        .mockResolvedValueOnce({ rows: [{ ...schedule, status: 'active', next_occurrence: 4 }] });
+
+      await scheduledTransferService.resumeSchedule(userId, 'schedule-1');
+
+      const [status, occurrence, runAt] = mockClient.query.mock.calls[1][1];
+      expect(status).toBe('active');
+      expect(occurrence).toBe(4);
+      expect(runAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should only resume paused schedules', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...schedule, status: 'cancelled' }] });
+
+      await expect(scheduledTransferService.resumeSchedule(userId, 'schedule-1')).rejects.toThrow(
+        'Scheduled transfer is cancelled'
+      );
+    });
+  });
+
+  describe('cancelSchedule', () => {
+    it('should throw error when the schedule belongs to someone else', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(scheduledTransferService.cancelSchedule(userId, 'schedule-2')).rejects.toThrow(
+        'Scheduled transfer not found'
+      );
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { sessionService } from '../services/sessionService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    REFRESH_TOKEN_TTL_DAYS: 30,
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('SessionService', () => {
+  const userId = 'user-123';
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('createSession', () => {
+    it('should store only the hash of the refresh token', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      const session = await sessionService.createSession(userId, '127.0.0.1');
+
+      const params = (db.query as jest.Mock).mock.calls[0][1];
+      expect(params[0]).toBe(userId);
+      expect(params[1]).toBe(session.sessionId);
+      expect(params[2]).toMatch(/^[0-9a-f]{64}$/);
+      expect(params[2]).not.toBe(session.refreshToken);
+      expect(params.slice(3)).toEqual(['127.0.0.1', 30]);
+    });
+  });
+
+  describe('rotate', () => {
+    const current = {
+      id: 'token-1',
+      user_id: userId,
+      family_id: 'family-1',
+      replaced_by: null,
+      revoked_at: null,
+      expired: false,
+    };
+
+    it('should issue a new token in the same family and retire the old one', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [current] })
+        .mockResolvedValueOnce({ rows: [{ id: 'token-2' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const session = await sessionService.rotate('refresh-token');
+
+      expect(session.userId).toBe(userId);
+      expect(session.sessionId).toBe('family-1');
+      expect(session.refreshToken).not.toBe('refresh-token');
+      expect(mockClient.query.mock.calls[1][1][1]).toBe('family-1');
+      expect(mockClient.query).toHaveBeenLastCalledWith('UPDATE sessions SET replaced_by = $1 WHERE id = $2', [
+        'token-2',
+        'token-1',
+      ]);
+    });
+
+    it('should revoke the whole family when a replaced token is presented again', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...current, replaced_by: 'token-2' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(sessionService.rotate('refresh-token', '127.0.0.1')).rejects.toThrow(
+        'Refresh token has already been used'
+      );
+      expect(mockClient.query).toHaveBeenLastCalledWith(
+        'UPDATE sessions SET revoked_at = now() WHERE family_id = $1 AND revoked_at IS NULL',
+        ['family-1']
+      );
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: userId, eventType: 'REFRESH_TOKEN_REUSED' })
+      );
+    });
+
+    it('should refuse a token from a revoked session', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...current, revoked_at: new Date() }] });
+
+      await expect(sessionService.rotate('refresh-token')).rejects.toThrow('Session has been revoked');
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse an expired token', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...current, expired: true }] });
+
+      await expect(sessionService.rotate('refresh-token')).rejects.toThrow('Refresh token has expired');
+    });
+
+    it('should refuse an unknown token', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+      await expect(sessionService.rotate('refresh-token')).rejects.toThrow('Invalid refresh token');
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should count sessions rather than token rows', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [{ family_id: 'family-1' }, { family_id: 'family-1' }, { family_id: 'family-2' }],
+      });
+
+      await expect(sessionService.revokeAllSessions(userId)).resolves.toBe(2);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Writable } from 'stream';
+import { statementService } from '../services/statementService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { StatementDetails } from '../types';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    iterate: jest.fn(),
+  },
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+jest.mock('../services/walletService', () => ({
+  walletService: {
+    resolveCurrency: jest.fn((currency?: string) => currency || 'NGN'),
+  },
+}));
+
+const collect = (): { output: Writable; text: () => string } => {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+
+  return { output, text: () => Buffer.concat(chunks).toString('latin1') };
+};
+
+const rowsOf = (rows: any[]) =>
+  async function* () {
+    yield* rows;
+  };
+
+describe('StatementService', () => {
+  const userId = 'user-123';
+
+  const statement: StatementDetails = {
+    userId,
+    holderName: 'Ada Obi',
+    walletId: 'wallet-123',
+    currency: 'NGN',
+    from: '2025-01-01',
+    to: '2025-01-31',
+    format: 'csv',
+    openingBalance: '1000.00',
+  };
+
+  const rows = [
+    {
+      created_at: new Date('2025-01-05T09:30:00Z'),
+      reference: 'TXN-001',
+      type: 'credit',
+      description: 'Salary, January',
+      balance_before: '1000.00',
+      balance_after: '1500.00',
+    },
+    {
+      created_at: new Date('2025-01-06T12:00:00Z'),
+      reference: 'TXN-002',
+      type: 'transfer_out',
+      description: '=HYPERLINK("http://evil")',
+      balance_before: '1500.00',
+      balance_after: '1250.50',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('prepare', () => {
+    it('should load the holder name and the balance before the first day', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-123', full_name: 'Ada Obi' }] })
+        .mockResolvedValueOnce({ rows: [{ balance_after: '1000.00' }] });
+
+      const result = await statementService.prepare(userId, { from: '2025-01-01', to: '2025-01-31' });
+
+      expect(result).toEqual(statement);
+      expect((db.query as jest.Mock).mock.calls[1][1]).toEqual(['wallet-123', '2025-01-01']);
+    });
+
+    it('should open at zero when nothing happened before the range', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 'wallet-123', full_name: 'Ada Obi' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await statementService.prepare(userId, { from: '2025-01-01', to: '2025-01-01', format: 'pdf' });
+
+      expect(result.openingBalance).toBe('0.00');
+      expect(result.format).toBe('pdf');
+    });
+
+    it('should reject dates that are not calendar days', async () => {
+      await expect(statementService.prepare(userId, { from: '2025-02-30', to: '2025-03-01' })).rejects.toThrow(
+        'from and to are required as YYYY-MM-DD dates'
+      );
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(statementService.prepare(userId, { from: '2025-02-01', to: '2025-01-01' })).rejects.toThrow(
+        'from cannot be later than to'
+      );
+    });
+
+    it('should reject an unknown format', async () => {
+      await expect(
+        statementService.prepare(userId, { from: '2025-01-01', to: '2025-01-31', format: 'xlsx' })
+      ).rejects.toThrow('format must be one of csv, pdf');
+    });
+  });
+
+  describe('export', () => {
+    it('should write a CSV with running balances and totals', async () => {
+      (db.iterate as jest.Mock).mockImplementationOnce(rowsOf(rows));
+      const { output, text } = collect();
+
+      const summary = await statementService.export(userId, statement, output);
+
+      expect(text().split('\r\n')).toEqual([
+        'Account holder,Ada Obi',
+        'Currency,NGN',
+        'Period,2025-01-01 to 2025-01-31',
+        'Opening balance,1000.00',
+        '',
+        'Date,Reference,Type,Description,Money in,Money out,Balance',
+        '2025-01-05 09:30:00,TXN-001,credit,"Salary, January",500.00,,1500.00',
+        '2025-01-06 12:00:00,TXN-002,transfer_out,"\'=HYPERLINK(""http://evil"")",,249.50,1250.50',
+        '',
+        'Total in,500.00',
+        'Total out,249.50',
+        'Closing balance,1250.50',
+        '',
+      ]);
+      expect(summary).toEqual({
+        opening_balance: '1000.00',
+        total_in: '500.00',
+        total_out: '249.50',
+        closing_balance: '1250.50',
+        transaction_count: 2,
+      });
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: userId, eventType: 'STATEMENT_EXPORTED' })
+      );
+    });
+
+    it('should write a PDF whose cross-reference table points at every object', async () => {
+      (db.iterate as jest.Mock).mockImplementationOnce(rowsOf(rows));
+      const { output, text } = collect();
+
+      await statementService.export('staff-1', { ...statement, format: 'pdf' }, output);
+
+      const pdf = text();
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Account holder: Ada Obi)');
+      expect(pdf).toContain('/Count 1');
+
+      const startxref = parseInt(pdf.slice(pdf.lastIndexOf('startxref') + 10), 10);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+      const offsets = pdf
+        .slice(startxref)
+        .split('\n')
+        .filter((line) => / 00000 n $/.test(line))
+        .map((line) => parseInt(line, 10));
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: 'staff-1', eventType: 'ADMIN_STATEMENT_EXPORTED' })
+      );
+    });
+
+    it('should start a new page when the rows no longer fit', async () => {
+      const many = Array.from({ length: 80 }, (_, index) => ({
+        ...rows[0],
+        reference: `TXN-${index}`,
+        balance_before: `${1000 + index}.00`,
+        balance_after: `${1001 + index}.00`,
+      }));
+      (db.iterate as jest.Mock).mockImplementationOnce(rowsOf(many));
+      const { output, text } = collect();
+
+      await statementService.export(userId, { ...statement, format: 'pdf' }, output);
+
+      expect(text()).toContain('/Count 3');
+      expect(text()).toContain('(Page 3)');
+    });
+
+    it('should free the export slot when a download fails part way', async () => {
+      (db.iterate as jest.Mock).mockImplementation(async function* () {
+        yield rows[0];
+        throw new Error('connection lost');
+      });
+
+      for (let attempt = 0; attempt < 3; attempt++) {
+        await expect(statementService.export(userId, statement, collect().output)).rejects.toThrow('connection lost');
+      }
+    });
+
+    it('should refuse a third export running at the same time, before writing anything', async () => {
+      const stalled = new Promise<void>(() => undefined);
+      (db.iterate as jest.Mock).mockImplementation(async function* () {
+        await stalled;
+      });
+      statementService.export('busy-user', statement, collect().output);
+      statementService.export('busy-user', statement, collect().output);
+      const { output, text } = collect();
+
+      await expect(statementService.export('busy-user', statement, output)).rejects.toMatchObject({ code: 'EXPORT_LIMIT' });
+      expect(text()).toBe('');
+    });
+  });
+});
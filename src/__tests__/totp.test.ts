@@ -0,0 +1,37 @@
+import { base32Decode, base32Encode, matchTotp, provisioningUri, totpCode, timeStep } from '../utils/totp';
+
+describe('TOTP', () => {
+  // RFC 6238 appendix B uses this ASCII seed for the SHA-1 vectors
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    expect(totpCode(secret, timeStep(59 * 1000))).toBe('287082');
+    expect(totpCode(secret, timeStep(1111111109 * 1000))).toBe('081804');
+    expect(totpCode(secret, timeStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept a code from the previous step but not older ones', () => {
+    const now = 1234567890 * 1000;
+    const previous = totpCode(secret, timeStep(now) - 1);
+    const older = totpCode(secret, timeStep(now) - 2);
+
+    expect(matchTotp(secret, previous, now)).toBe(timeStep(now) - 1);
+    expect(matchTotp(secret, older, now)).toBeNull();
+  });
+
+  it('should reject anything that is not six digits', () => {
+    expect(matchTotp(secret, '12345', Date.now())).toBeNull();
+    expect(matchTotp(secret, 'abcdef', Date.now())).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    expect(provisioningUri(secret, 'user@example.com', 'Wallet')).toBe(
+      `otpauth://totp/Wallet:user%40example.com?secret=${secret}&issuer=Wallet&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
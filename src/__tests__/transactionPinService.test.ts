@@ -0,0 +1,156 @@
+import { transactionPinService } from '../services/transactionPinService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { comparePassword, hashPassword } from '../utils/password';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    PIN_MAX_ATTEMPTS: 3,
+    PIN_LOCK_MINUTES: 30,
+  },
+}));
+
+jest.mock('../utils/password', () => ({
+  hashPassword: jest.fn(),
+  comparePassword: jest.fn(),
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('TransactionPinService', () => {
+  const userId = 'user-123';
+  const pinUser = { pin_hash: 'hashed-pin', pin_failed_attempts: 0, locked: false };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('setPin', () => {
+    it('should store the hashed PIN once the password checks out', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ password_hash: 'hashed-password', pin_hash: null }] })
+        .mockResolvedValueOnce({ rows: [] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(true);
+      (hashPassword as jest.Mock).mockResolvedValueOnce('hashed-pin');
+
+      await transactionPinService.setPin(userId, '4821', 'password123', '127.0.0.1');
+
+      expect(hashPassword).toHaveBeenCalledWith('4821');
+      expect(db.query).toHaveBeenLastCalledWith(expect.stringContaining('UPDATE users SET pin_hash = $1'), [
+        'hashed-pin',
+        userId,
+      ]);
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'TRANSACTION_PIN_SET' }));
+    });
+
+    it('should reject a PIN that is not 4 to 6 digits', async () => {
+      await expect(transactionPinService.setPin(userId, '12ab', 'password123')).rejects.toThrow(
+        'PIN must be 4 to 6 digits'
+      );
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite an existing PIN', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ password_hash: 'hashed-password', pin_hash: 'hashed-pin' }] });
+
+      await expect(transactionPinService.setPin(userId, '4821', 'password123')).rejects.toThrow(
+        'Transaction PIN is already set'
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept the right PIN and clear earlier failures', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...pinUser, pin_failed_attempts: 2 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(true);
+
+      await transactionPinService.verify(userId, '4821');
+
+      expect(mockClient.query).toHaveBeenLastCalledWith('UPDATE users SET pin_failed_attempts = 0 WHERE id = $1', [
+        userId,
+      ]);
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+
+    it('should count a wrong PIN and say how many attempts are left', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [pinUser] }).mockResolvedValueOnce({ rows: [] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(transactionPinService.verify(userId, '0000')).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'PIN_INVALID',
+        message: 'Incorrect transaction PIN, 2 attempts remaining',
+      });
+      expect(mockClient.query).toHaveBeenLastCalledWith('UPDATE users SET pin_failed_attempts = $1 WHERE id = $2', [
+        1,
+        userId,
+      ]);
+    });
+
+    it('should lock the PIN on the last allowed failure', async () => {
+      mockClient.query
+        .mockResolvedValueOnce({ rows: [{ ...pinUser, pin_failed_attempts: 2 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(false);
+
+      await expect(transactionPinService.verify(userId, '0000')).rejects.toMatchObject({
+        statusCode: 423,
+        code: 'PIN_LOCKED',
+      });
+      expect(mockClient.query.mock.calls[1][1]).toEqual([30, userId]);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'TRANSACTION_PIN_LOCKED', eventData: { attempts: 3 } })
+      );
+    });
+
+    it('should refuse even the right PIN while locked', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...pinUser, locked: true }] });
+
+      await expect(transactionPinService.verify(userId, '4821')).rejects.toMatchObject({ code: 'PIN_LOCKED' });
+      expect(comparePassword).not.toHaveBeenCalled();
+    });
+
+    it('should tell a missing PIN apart from a PIN that was never set', async () => {
+      mockClient.query.mockResolvedValueOnce({ rows: [pinUser] });
+      await expect(transactionPinService.verify(userId, undefined)).rejects.toMatchObject({ code: 'PIN_REQUIRED' });
+
+      mockClient.query.mockResolvedValueOnce({ rows: [{ ...pinUser, pin_hash: null }] });
+      await expect(transactionPinService.verify(userId, '4821')).rejects.toMatchObject({ code: 'PIN_NOT_SET' });
+    });
+  });
+
+  describe('resetPin', () => {
+    it('should replace the PIN and lift the lock with the account password', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ password_hash: 'hashed-password', pin_hash: 'hashed-pin' }] })
+        .mockResolvedValueOnce({ rows: [] });
+      (comparePassword as jest.Mock).mockResolvedValueOnce(true);
+      (hashPassword as jest.Mock).mockResolvedValueOnce('new-hashed-pin');
+
+      await transactionPinService.resetPin(userId, 'password123', '902114');
+
+      expect(db.query).toHaveBeenLastCalledWith(
+        'UPDATE users SET pin_hash = $1, pin_failed_attempts = 0, pin_locked_until = NULL WHERE id = $2',
+        ['new-hashed-pin', userId]
+      );
+      expect(auditService.log).toHaveBeenCalledWith(expect.objectContaining({ eventType: 'TRANSACTION_PIN_RESET' }));
+    });
+  });
+});
@@ -1,6 +1,10 @@
 import { walletService } from '../services/walletService';
 import { db } from '../database/postgres';
 import { AppError } from '../middleware/errorHandler';
+import { auditService } from '../services/auditService';
+import { ledgerService } from '../services/ledgerService';
+import { fxService } from '../services/fxService';
+import { outboxService } from '../services/outboxService';
 
 // Mock the database
 jest.mock('../database/postgres', () => ({
@@ -13,7 +17,51 @@ jest.mock('../database/postgres', () => ({
 // Mock audit service
 jest.mock('../services/auditService', () => ({
   auditService: {
-    logTransaction: jest.fn(),
+    log: jest.fn(),
+    recordTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/webhookService', () => ({
+  webhookService: {
+    publish: jest.fn(),
+  },
+}));
+
+jest.mock('../services/outboxService', () => ({
+  outboxService: {
+    add: jest.fn(),
+    addTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/ledgerService', () => ({
+  ledgerService: {
+    postEntry: jest.fn().mockResolvedValue({ id: 'journal-123' }),
+  },
+  walletAccountCode: (walletId: string) => `WALLET:${walletId}`,
+  systemAccountCode: (account: string, currency: string) => `${account}:${currency}`,
+}));
+
+jest.mock('../services/fxService', () => ({
+  fxService: {
+    getPairRate: jest.fn(),
+    price: jest.fn(),
+    consumeQuote: jest.fn(),
+    conversionPostings: jest.fn().mockReturnValue([]),
+  },
+}));
+
+jest.mock('../services/mfaService', () => ({
+  mfaService: {
+    assertStepUp: jest.fn(),
+  },
+}));
+
+jest.mock('../services/limitService', () => ({
+  limitService: {
+    assertOutflowAllowed: jest.fn(),
+    assertBalanceAllowed: jest.fn(),
   },
 }));
 
@@ -31,13 +79,10 @@ describe('WalletService - Transfer', () => {
     const reference = 'TXN-TEST-001';
 
     it('should successfully transfer funds between users using recipient email', async () => {
-      // Mock reference check (no existing transaction)
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient lookup by email
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: recipientUserId }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
 
       // Mock transaction
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
@@ -45,16 +90,12 @@ describe('WalletService - Transfer', () => {
           query: jest.fn()
             // Sender wallet lock
             .mockResolvedValueOnce({
-              rows: [{ id: 'wallet-sender', balance: '500.00' }],
+              rows: [{ id: 'wallet-sender', balance: '500.00', held_amount: '0.00', currency: 'NGN' }],
             })
             // Recipient wallet lock
             .mockResolvedValueOnce({
-              rows: [{ id: 'wallet-recipient', balance: '200.00' }],
+              rows: [{ id: 'wallet-recipient', balance: '200.00', held_amount: '0.00', currency: 'NGN' }],
             })
-            // Update sender balance
-            .mockResolvedValueOnce({ rows: [] })
-            // Update recipient balance
-            .mockResolvedValueOnce({ rows: [] })
             // Insert sender transaction
             .mockResolvedValueOnce({
               rows: [
@@ -109,16 +150,43 @@ describe('WalletService - Transfer', () => {
       expect(result.recipient_transaction.type).toBe('transfer_in');
       expect(result.sender_new_balance).toBe('400.00');
       expect(result.recipient_new_balance).toBe('300.00');
+      expect(ledgerService.postEntry).toHaveBeenCalledTimes(1);
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(expect.anything(), {
+        reference,
+        entryType: 'transfer',
+        description,
+        postings: [
+          { accountCode: 'WALLET:wallet-sender', direction: 'debit', amount },
+          { accountCode: 'WALLET:wallet-recipient', direction: 'credit', amount },
+        ],
+      });
+      // Written with the balance change, each wallet's events in order
+      const events = (outboxService.add as jest.Mock).mock.calls[0][1];
+      expect(events.map((event: any) => [event.walletId, event.eventType])).toEqual([
+        ['wallet-sender', 'transaction.created'],
+        ['wallet-recipient', 'transaction.created'],
+        ['wallet-sender', 'transfer.completed'],
+        ['wallet-recipient', 'transfer.completed'],
+      ]);
+      expect(events[2]).toEqual(
+        expect.objectContaining({
+          userId: senderUserId,
+          payload: expect.objectContaining({ direction: 'sent', new_balance: '400.00' }),
+        })
+      );
+      expect(events[3]).toEqual(
+        expect.objectContaining({
+          userId: recipientUserId,
+          payload: expect.objectContaining({ direction: 'received', new_balance: '300.00' }),
+        })
+      );
     });
 
     it('should successfully transfer funds using recipient user ID', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient lookup by ID
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: recipientUserId }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
 
       // Mock transaction (simplified)
       (db.transaction as jest.Mock).mockResolvedValue({
@@ -161,6 +229,62 @@ describe('WalletService - Transfer', () => {
       ).rejects.toThrow(AppError);
     });
 
+    it('should reject a currency mismatch unless conversion is requested', async () => {
+      await expect(
+        walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference, undefined, {
+          currency: 'NGN',
+          recipientCurrency: 'USD',
+        })
+      ).rejects.toThrow('Currency mismatch');
+
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should convert at the current rate when conversion is requested', async () => {
+      const conversion = {
+        from_currency: 'USD',
+        to_currency: 'NGN',
+        source_amount: '100.00',
+        target_amount: '148500.00',
+        mid_rate: '1500.00000000',
+        rate: '1485.00000000',
+        spread_amount: '1500.00',
+      };
+
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] }); // Recipient lookup
+      (fxService.getPairRate as jest.Mock).mockResolvedValueOnce({ midRate: 1500, spreadBps: 100 });
+      (fxService.price as jest.Mock).mockReturnValueOnce(conversion);
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn()
+            .mockResolvedValueOnce({ rows: [{ id: 'wallet-sender', balance: '500.00', held_amount: '0.00', currency: 'USD' }] })
+            .mockResolvedValueOnce({ rows: [{ id: 'wallet-recipient', balance: '0.00', held_amount: '0.00', currency: 'NGN' }] })
+            .mockResolvedValueOnce({ rows: [{ id: 'txn-sender', type: 'transfer_out', amount: '100.00' }] })
+            .mockResolvedValueOnce({ rows: [{ id: 'txn-recipient', type: 'transfer_in', amount: '148500.00' }] }),
+        };
+        return callback(mockClient);
+      });
+
+      const result = await walletService.transfer(
+        senderUserId,
+        recipientEmail,
+        undefined,
+        amount,
+        description,
+        reference,
+        undefined,
+        { currency: 'USD', recipientCurrency: 'NGN', convert: true }
+      );
+
+      expect(result.sender_new_balance).toBe('400.00');
+      expect(result.recipient_new_balance).toBe('148500.00');
+      expect(result.conversion).toEqual(conversion);
+      expect(fxService.conversionPostings).toHaveBeenCalledWith('wallet-sender', 'wallet-recipient', conversion);
+    });
+
     it('should throw error when neither recipient email nor ID is provided', async () => {
       await expect(
         walletService.transfer(senderUserId, undefined, undefined, amount, description, reference)
@@ -168,22 +292,33 @@ describe('WalletService - Transfer', () => {
     });
 
     it('should throw error for duplicate transaction reference', async () => {
-      // Mock existing transaction with same reference
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: 'existing-txn' }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
+      (db.transaction as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key value'), { code: '23505', constraint: 'journal_entries_reference_key' })
+      );
 
       await expect(
         walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
       ).rejects.toThrow(AppError);
     });
 
-    it('should throw error when recipient user not found by email', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+    it('should not let an unverified user send a transfer', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ is_verified: false }] });
+
+      await expect(
+        walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
+      ).rejects.toThrow('Verify your email address before sending transfers');
+      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
 
+    it('should throw error when recipient user not found by email', async () => {
       // Mock recipient not found
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [] });
 
       await expect(
         walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
@@ -191,11 +326,10 @@ describe('WalletService - Transfer', () => {
     });
 
     it('should throw error when recipient user not found by ID', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient not found
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [] });
 
       await expect(
         walletService.transfer(senderUserId, undefined, recipientUserId, amount, description, reference)
@@ -203,27 +337,28 @@ describe('WalletService - Transfer', () => {
     });
 
     it('should throw error for self-transfer', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient lookup returns same user
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: senderUserId }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: senderUserId }] });
 
       await expect(
         walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
       ).rejects.toThrow(AppError);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: senderUserId,
+          eventType: 'TRANSACTION_REJECTED',
+          eventData: expect.objectContaining({ operation: 'transfer', reason: 'SELF_TRANSFER', recipientEmail }),
+        })
+      );
     });
 
     it('should throw error when sender has insufficient balance', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient lookup
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: recipientUserId }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
 
       // Mock transaction with insufficient balance
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
@@ -231,7 +366,7 @@ describe('WalletService - Transfer', () => {
           query: jest.fn()
             // Sender wallet with low balance
             .mockResolvedValueOnce({
-              rows: [{ id: 'wallet-sender', balance: '50.00' }],
+              rows: [{ id: 'wallet-sender', balance: '50.00', held_amount: '0.00', currency: 'NGN' }],
             }),
         };
         return callback(mockClient);
@@ -243,13 +378,10 @@ describe('WalletService - Transfer', () => {
     });
 
     it('should throw error when sender wallet not found', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient lookup
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: recipientUserId }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
 
       // Mock transaction with no sender wallet
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
@@ -265,13 +397,10 @@ describe('WalletService - Transfer', () => {
     });
 
     it('should throw error when recipient wallet not found', async () => {
-      // Mock reference check
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock recipient lookup
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{ id: recipientUserId }],
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
 
       // Mock transaction
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
@@ -279,7 +408,7 @@ describe('WalletService - Transfer', () => {
           query: jest.fn()
             // Sender wallet found
             .mockResolvedValueOnce({
-              rows: [{ id: 'wallet-sender', balance: '500.00' }],
+              rows: [{ id: 'wallet-sender', balance: '500.00', held_amount: '0.00', currency: 'NGN' }],
             })
             // Recipient wallet not found
             .mockResolvedValueOnce({ rows: [] }),
@@ -291,6 +420,57 @@ describe('WalletService - Transfer', () => {
         walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
       ).rejects.toThrow(AppError);
     });
+
+    it('should not send from a frozen account', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
+
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({
+          rows: [
+            {
+              id: 'wallet-sender',
+              balance: '500.00',
+              held_amount: '0.00',
+              currency: 'NGN',
+              status: 'active',
+              user_status: 'frozen',
+            },
+          ],
+        }),
+      };
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+
+      await expect(
+        walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
+      ).rejects.toMatchObject({ statusCode: 403, code: 'ACCOUNT_FROZEN', message: 'Your account is frozen' });
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not credit a suspended recipient wallet', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ is_verified: true }] }) // Sender is verified
+        .mockResolvedValueOnce({ rows: [{ id: recipientUserId }] });
+
+      const mockClient = {
+        query: jest
+          .fn()
+          .mockResolvedValueOnce({
+            rows: [{ id: 'wallet-sender', balance: '500.00', held_amount: '0.00', currency: 'NGN', status: 'active' }],
+          })
+          .mockResolvedValueOnce({
+            rows: [
+              { id: 'wallet-recipient', balance: '200.00', held_amount: '0.00', currency: 'NGN', status: 'suspended' },
+            ],
+          }),
+      };
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+
+      await expect(
+        walletService.transfer(senderUserId, recipientEmail, undefined, amount, description, reference)
+      ).rejects.toMatchObject({ code: 'RECIPIENT_UNAVAILABLE', message: 'Recipient account cannot receive funds' });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
   });
 });
-
@@ -1,4 +1,4 @@
-import { isValidEmail, isValidPassword, isValidPhoneNumber, isValidAmount } from '../utils/validators';
+import { isValidEmail, isValidPassword, isValidPin, isValidPhoneNumber, isValidAmount } from '../utils/validators';
 
 describe('Validators', () => {
   describe('isValidEmail', () => {
@@ -26,6 +26,19 @@ describe('Validators', () => {
     });
   });
 
+  describe('isValidPin', () => {
+    it('should return true for 4 to 6 digits', () => {
+      expect(isValidPin('0000')).toBe(true);
+      expect(isValidPin('123456')).toBe(true);
+    });
+
+    it('should return false for anything else', () => {
+      expect(isValidPin('123')).toBe(false);
+      expect(isValidPin('1234567')).toBe(false);
+      expect(isValidPin('12a4')).toBe(false);
+    });
+  });
+
   describe('isValidPhoneNumber', () => {
     it('should return true for valid phone number', () => {
       expect(isValidPhoneNumber('+2348012345678')).toBe(true);
@@ -49,6 +62,13 @@ describe('Validators', () => {
       expect(isValidAmount(-100)).toBe(false);
       expect(isValidAmount(Infinity)).toBe(false);
     });
+
+    it('should return false for fractions of a cent', () => {
+      expect(isValidAmount(1.005)).toBe(false);
+      expect(isValidAmount(0.001)).toBe(false);
+      expect(isValidAmount(0.1 + 0.2)).toBe(true);
+      expect(isValidAmount(19.99)).toBe(true);
+    });
   });
 });
 
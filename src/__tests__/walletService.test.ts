@@ -1,7 +1,12 @@
-import { walletService } from '../services/walletService';
+import { walletService, LOCK_WALLET_SQL } from '../services/walletService';
 import { db } from '../database/postgres';
+import { mfaService } from '../services/mfaService';
 import { AppError } from '../middleware/errorHandler';
 import { auditService } from '../services/auditService';
+import { ledgerService } from '../services/ledgerService';
+import { fxService } from '../services/fxService';
+import { limitService } from '../services/limitService';
+import { outboxService } from '../services/outboxService';
 
 // Mock dependencies
 jest.mock('../database/postgres', () => ({
@@ -13,7 +18,51 @@ jest.mock('../database/postgres', () => ({
 
 jest.mock('../services/auditService', () => ({
   auditService: {
-    logTransaction: jest.fn(),
+    log: jest.fn(),
+    recordTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/webhookService', () => ({
+  webhookService: {
+    publish: jest.fn(),
+  },
+}));
+
+jest.mock('../services/outboxService', () => ({
+  outboxService: {
+    add: jest.fn(),
+    addTransactions: jest.fn(),
+  },
+}));
+
+jest.mock('../services/ledgerService', () => ({
+  ledgerService: {
+    postEntry: jest.fn().mockResolvedValue({ id: 'journal-123' }),
+  },
+  walletAccountCode: (walletId: string) => `WALLET:${walletId}`,
+  systemAccountCode: (account: string, currency: string) => `${account}:${currency}`,
+}));
+
+jest.mock('../services/fxService', () => ({
+  fxService: {
+    getPairRate: jest.fn(),
+    price: jest.fn(),
+    consumeQuote: jest.fn(),
+    conversionPostings: jest.fn().mockReturnValue([]),
+  },
+}));
+
+jest.mock('../services/mfaService', () => ({
+  mfaService: {
+    assertStepUp: jest.fn(),
+  },
+}));
+
+jest.mock('../services/limitService', () => ({
+  limitService: {
+    assertOutflowAllowed: jest.fn(),
+    assertBalanceAllowed: jest.fn(),
   },
 }));
 
@@ -29,6 +78,7 @@ describe('WalletService', () => {
       user_id: userId,
       currency: 'NGN',
       balance: '1000.00',
+      held_amount: '0.00',
       created_at: new Date(),
       updated_at: new Date(),
     };
@@ -40,11 +90,19 @@ describe('WalletService', () => {
 
       expect(result).toEqual(mockWallet);
       expect(db.query).toHaveBeenCalledWith(
-        'SELECT id, user_id, currency, balance, created_at, updated_at FROM wallets WHERE user_id = $1',
-        [userId]
+        'SELECT id, user_id, currency, balance, held_amount, status, created_at, updated_at FROM wallets WHERE user_id = $1 AND currency = $2',
+        [userId, 'NGN']
       );
     });
 
+    it('should look up the wallet in the requested currency', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await walletService.getWalletByUserId(userId, 'USD');
+
+      expect(db.query).toHaveBeenCalledWith(expect.any(String), [userId, 'USD']);
+    });
+
     it('should return null when wallet does not exist', async () => {
       (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
 
@@ -61,10 +119,18 @@ describe('WalletService', () => {
       user_id: userId,
       currency: 'NGN',
       balance: '1000.00',
+      held_amount: '0.00',
       created_at: new Date(),
       updated_at: new Date(),
     };
 
+    const mockUsdWallet = {
+      ...mockWallet,
+      id: 'wallet-456',
+      currency: 'USD',
+      balance: '25.00',
+    };
+
     it('should return balance and currency when wallet exists', async () => {
       (db.query as jest.Mock).mockResolvedValueOnce({ rows: [mockWallet] });
 
@@ -72,10 +138,46 @@ describe('WalletService', () => {
 
       expect(result).toEqual({
         balance: '1000.00',
+        ledger_balance: '1000.00',
+        available_balance: '1000.00',
         currency: 'NGN',
+        balances: [
+          {
+            wallet_id: 'wallet-123',
+            currency: 'NGN',
+            balance: '1000.00',
+            held_amount: '0.00',
+            available_balance: '1000.00',
+          },
+        ],
       });
     });
 
+    it('should exclude held funds from the available balance', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...mockWallet, held_amount: '250.50' }] });
+
+      const result = await walletService.getBalance(userId);
+
+      expect(result.ledger_balance).toBe('1000.00');
+      expect(result.available_balance).toBe('749.50');
+    });
+
+    it('should return every wallet balance with the requested currency on top', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [mockWallet, mockUsdWallet] });
+
+      const result = await walletService.getBalance(userId, 'USD');
+
+      expect(result.balance).toBe('25.00');
+      expect(result.currency).toBe('USD');
+      expect(result.balances).toHaveLength(2);
+    });
+
+    it('should throw error when the user has no wallet in the requested currency', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [mockWallet] });
+
+      await expect(walletService.getBalance(userId, 'GBP')).rejects.toThrow('GBP wallet not found');
+    });
+
     it('should throw error when wallet does not exist', async () => {
       (db.query as jest.Mock).mockResolvedValue({ rows: [] });
 
@@ -83,6 +185,37 @@ describe('WalletService', () => {
     });
   });
 
+  describe('openWallet', () => {
+    const userId = 'user-123';
+
+    it('should open a wallet in a supported currency', async () => {
+      const mockWallet = {
+        id: 'wallet-456',
+        user_id: userId,
+        currency: 'USD',
+        balance: '0.00',
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [mockWallet] });
+
+      const result = await walletService.openWallet(userId, 'USD');
+
+      expect(result).toEqual(mockWallet);
+    });
+
+    it('should reject unsupported currencies', async () => {
+      await expect(walletService.openWallet(userId, 'JPY')).rejects.toThrow('Unsupported currency');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should throw error when the wallet already exists', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(walletService.openWallet(userId, 'NGN')).rejects.toThrow('A NGN wallet already exists');
+    });
+  });
+
   describe('credit', () => {
     const userId = 'user-123';
     const amount = 500;
@@ -90,7 +223,7 @@ describe('WalletService', () => {
     const reference = 'TXN-TEST-001';
 
     it('should successfully credit wallet', async () => {
-      const mockWallet = { id: 'wallet-123', balance: '1000.00' };
+      const mockWallet = { id: 'wallet-123', balance: '1000.00', held_amount: '0.00', currency: 'NGN' };
       const mockTransaction = {
         id: 'txn-123',
         wallet_id: mockWallet.id,
@@ -102,18 +235,15 @@ describe('WalletService', () => {
         balance_before: '1000.00',
         balance_after: '1500.00',
         status: 'success',
+        journal_entry_id: 'journal-123',
         created_at: new Date(),
       };
 
-      // Mock reference check (no existing transaction)
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock transaction
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
         const mockClient = {
           query: jest.fn()
             .mockResolvedValueOnce({ rows: [mockWallet] }) // Wallet lock
-            .mockResolvedValueOnce({ rows: [] }) // Update balance
             .mockResolvedValueOnce({ rows: [mockTransaction] }), // Insert transaction
         };
         return callback(mockClient as any);
@@ -122,7 +252,31 @@ describe('WalletService', () => {
       const result = await walletService.credit(userId, amount, description, reference, '127.0.0.1');
 
       expect(result).toEqual(mockTransaction);
-      expect(auditService.logTransaction).toHaveBeenCalledWith(userId, mockTransaction.id, 'credit', mockTransaction.amount, '127.0.0.1');
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(expect.anything(), {
+        reference,
+        entryType: 'credit',
+        description,
+        postings: [
+          { accountCode: 'FUNDING:NGN', direction: 'debit', amount },
+          { accountCode: 'WALLET:wallet-123', direction: 'credit', amount },
+        ],
+      });
+      expect(outboxService.addTransactions).toHaveBeenCalledWith(expect.anything(), [mockTransaction], '127.0.0.1');
+      expect(auditService.recordTransactions).toHaveBeenCalledWith(expect.anything(), [mockTransaction], '127.0.0.1');
+    });
+
+    it('should credit the wallet in the requested currency', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [] }), // Wallet lock
+      };
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient as any));
+
+      await expect(
+        walletService.credit(userId, amount, description, reference, undefined, { currency: 'USD' })
+      ).rejects.toThrow('USD wallet not found');
+
+      expect(mockClient.query).toHaveBeenCalledWith(LOCK_WALLET_SQL, [userId, 'USD']);
     });
 
     it('should throw error for invalid amount', async () => {
@@ -130,15 +284,21 @@ describe('WalletService', () => {
       await expect(walletService.credit(userId, 0, description, reference)).rejects.toThrow('Invalid amount');
     });
 
-    it('should throw error for duplicate reference', async () => {
-      (db.query as jest.Mock).mockResolvedValue({ rows: [{ id: 'existing-txn' }] });
+    it('should throw error when the reference is already taken by a committed transaction', async () => {
+      (db.transaction as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key value'), { code: '23505', constraint: 'journal_entries_reference_key' })
+      );
 
       await expect(walletService.credit(userId, amount, description, reference)).rejects.toThrow(AppError);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'TRANSACTION_REJECTED',
+          eventData: expect.objectContaining({ operation: 'credit', reason: 'DUPLICATE_REFERENCE', reference }),
+        })
+      );
     });
 
     it('should throw error when wallet not found', async () => {
-      (db.query as jest.Mock).mockResolvedValue({ rows: [] }); // Reference check
-
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
         const mockClient = {
           query: jest.fn().mockResolvedValue({ rows: [] }), // Wallet not found
@@ -156,8 +316,53 @@ describe('WalletService', () => {
     const description = 'Test debit';
     const reference = 'TXN-TEST-002';
 
+    it('should not debit a frozen wallet', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({
+          rows: [{ id: 'wallet-123', balance: '1000.00', held_amount: '0.00', currency: 'NGN', status: 'frozen' }],
+        }),
+      };
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient as any));
+
+      await expect(walletService.debit(userId, 100, description, reference)).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'WALLET_FROZEN',
+      });
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should not debit past the daily limit', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({
+          rows: [{ id: 'wallet-123', balance: '1000.00', held_amount: '0.00', currency: 'NGN' }],
+        }),
+      };
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient as any));
+      (limitService.assertOutflowAllowed as jest.Mock).mockRejectedValueOnce(
+        new AppError(403, 'Daily limit of 200000.00 NGN would be exceeded, 50.00 NGN remaining', 'LIMIT_DAILY')
+      );
+
+      await expect(walletService.debit(userId, 100, description, reference)).rejects.toMatchObject({
+        code: 'LIMIT_DAILY',
+      });
+      expect(limitService.assertOutflowAllowed).toHaveBeenCalledWith(mockClient, userId, 'wallet-123', 'NGN', 100);
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
+    });
+
+    it('should not debit when the step-up check fails', async () => {
+      (mfaService.assertStepUp as jest.Mock).mockRejectedValueOnce(
+        new AppError(403, 'A TOTP code is required for amounts above 100000')
+      );
+
+      await expect(
+        walletService.debit(userId, 250000, description, reference, '127.0.0.1', { totpCode: undefined })
+      ).rejects.toThrow('A TOTP code is required');
+      expect(mfaService.assertStepUp).toHaveBeenCalledWith(userId, 250000, undefined, '127.0.0.1');
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
     it('should successfully debit wallet', async () => {
-      const mockWallet = { id: 'wallet-123', balance: '1000.00' };
+      const mockWallet = { id: 'wallet-123', balance: '1000.00', held_amount: '0.00', currency: 'NGN' };
       const mockTransaction = {
         id: 'txn-124',
         wallet_id: mockWallet.id,
@@ -169,18 +374,15 @@ describe('WalletService', () => {
         balance_before: '1000.00',
         balance_after: '500.00',
         status: 'success',
+        journal_entry_id: 'journal-123',
         created_at: new Date(),
       };
 
-      // Mock reference check (no existing transaction)
-      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
-
       // Mock transaction
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
         const mockClient = {
           query: jest.fn()
             .mockResolvedValueOnce({ rows: [mockWallet] }) // Wallet lock
-            .mockResolvedValueOnce({ rows: [] }) // Update balance
             .mockResolvedValueOnce({ rows: [mockTransaction] }), // Insert transaction
         };
         return callback(mockClient as any);
@@ -189,7 +391,16 @@ describe('WalletService', () => {
       const result = await walletService.debit(userId, amount, description, reference, '127.0.0.1');
 
       expect(result).toEqual(mockTransaction);
-      expect(auditService.logTransaction).toHaveBeenCalledWith(userId, mockTransaction.id, 'debit', mockTransaction.amount, '127.0.0.1');
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(expect.anything(), {
+        reference,
+        entryType: 'debit',
+        description,
+        postings: [
+          { accountCode: 'WALLET:wallet-123', direction: 'debit', amount },
+          { accountCode: 'FUNDING:NGN', direction: 'credit', amount },
+        ],
+      });
+      expect(outboxService.addTransactions).toHaveBeenCalledWith(expect.anything(), [mockTransaction], '127.0.0.1');
     });
 
     it('should throw error for invalid amount', async () => {
@@ -198,9 +409,7 @@ describe('WalletService', () => {
     });
 
     it('should throw error for insufficient balance', async () => {
-      const mockWallet = { id: 'wallet-123', balance: '100.00' };
-
-      (db.query as jest.Mock).mockResolvedValue({ rows: [] }); // Reference check
+      const mockWallet = { id: 'wallet-123', balance: '100.00', held_amount: '0.00', currency: 'NGN' };
 
       (db.transaction as jest.Mock).mockImplementation(async (callback) => {
         const mockClient = {
@@ -209,11 +418,47 @@ describe('WalletService', () => {
         return callback(mockClient as any);
       });
 
-      await expect(walletService.debit(userId, 500, description, reference)).rejects.toThrow(AppError);
+      await expect(walletService.debit(userId, 500, description, reference, '127.0.0.1')).rejects.toThrow(AppError);
+      expect(auditService.log).toHaveBeenCalledWith({
+        actorId: userId,
+        eventType: 'TRANSACTION_REJECTED',
+        eventData: {
+          operation: 'debit',
+          reason: 'INSUFFICIENT_BALANCE',
+          message: 'Insufficient balance',
+          amount: 500,
+          currency: 'NGN',
+          reference,
+        },
+        ipAddress: '127.0.0.1',
+      });
+    });
+
+    it('should not audit unexpected failures as rejections', async () => {
+      (db.transaction as jest.Mock).mockRejectedValueOnce(new Error('connection terminated'));
+
+      await expect(walletService.debit(userId, 500, description, reference)).rejects.toThrow('connection terminated');
+      expect(auditService.log).not.toHaveBeenCalled();
+    });
+
+    it('should not spend money reserved by a hold', async () => {
+      const mockWallet = { id: 'wallet-123', balance: '1000.00', held_amount: '950.00', currency: 'NGN' };
+
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn().mockResolvedValueOnce({ rows: [mockWallet] }),
+        };
+        return callback(mockClient as any);
+      });
+
+      await expect(walletService.debit(userId, 100, description, reference)).rejects.toThrow('Insufficient balance');
+      expect(ledgerService.postEntry).not.toHaveBeenCalled();
     });
 
-    it('should throw error for duplicate reference', async () => {
-      (db.query as jest.Mock).mockResolvedValue({ rows: [{ id: 'existing-txn' }] });
+    it('should throw error when the reference is already taken by a committed transaction', async () => {
+      (db.transaction as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('duplicate key value'), { code: '23505', constraint: 'journal_entries_reference_key' })
+      );
 
       await expect(walletService.debit(userId, amount, description, reference)).rejects.toThrow(AppError);
     });
@@ -250,6 +495,170 @@ describe('WalletService', () => {
       expect(result.page).toBe(1);
       expect(result.totalPages).toBe(1);
     });
+
+    it('should turn filters into bound parameters', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await walletService.getTransactionHistory(userId, 1, 10, 'USD', {
+        type: 'debit, transfer_out',
+        status: 'success',
+        from: '2025-01-01',
+        min_amount: '100',
+        search: '50%_off',
+        counterparty: 'friend@example.com',
+      });
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('type = ANY($3)');
+      expect(sql).toContain('(description ILIKE $7 OR reference ILIKE $7)');
+      expect(sql).toContain('user_id IN (SELECT id FROM users WHERE email = $8) AND user_id <> $1');
+      expect(params).toEqual([
+        userId,
+        'USD',
+        ['debit', 'transfer_out'],
+        ['success'],
+        new Date('2025-01-01'),
+        '100.00',
+        '%50\\%\\_off%',
+        'friend@example.com',
+      ]);
+    });
+
+    it('should reject an unknown transaction type', async () => {
+      await expect(walletService.getTransactionHistory(userId, 1, 10, undefined, { type: 'withdrawal' })).rejects.toThrow(
+        'type must be one of credit, debit'
+      );
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject an amount range that is upside down', async () => {
+      await expect(
+        walletService.getTransactionHistory(userId, 1, 10, undefined, { min_amount: '500', max_amount: '100' })
+      ).rejects.toThrow('min_amount cannot be greater than max_amount');
+    });
   });
-});
 
+  describe('getTransactionHistoryByCursor', () => {
+    const userId = 'user-123';
+    const row = (id: string, at: string) => ({ id, type: 'credit', amount: '10.00', cursor_created_at: at });
+
+    it('should return a cursor for the next page when more rows exist', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [
+          row('00000000-0000-4000-8000-000000000003', '2025-03-01 10:00:00.000003'),
+          row('00000000-0000-4000-8000-000000000002', '2025-03-01 10:00:00.000002'),
+          row('00000000-0000-4000-8000-000000000001', '2025-03-01 10:00:00.000001'),
+        ],
+      });
+
+      const result = await walletService.getTransactionHistoryByCursor(userId, undefined, 2);
+
+      expect(result.transactions).toEqual([
+        { id: '00000000-0000-4000-8000-000000000003', type: 'credit', amount: '10.00' },
+        { id: '00000000-0000-4000-8000-000000000002', type: 'credit', amount: '10.00' },
+      ]);
+      expect(result.next_cursor).not.toBeNull();
+      expect((db.query as jest.Mock).mock.calls[0][1]).toEqual([userId, 3]);
+
+      (db.query as jest.Mock).mockResolvedValueOnce({
+        rows: [row('00000000-0000-4000-8000-000000000001', '2025-03-01 10:00:00.000001')],
+      });
+
+      const next = await walletService.getTransactionHistoryByCursor(userId, result.next_cursor!, 2);
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[1];
+      expect(sql).toContain('(created_at, id) < ($2::timestamp, $3::uuid)');
+      expect(params).toEqual([userId, '2025-03-01 10:00:00.000002', '00000000-0000-4000-8000-000000000002', 3]);
+      expect(next.next_cursor).toBeNull();
+    });
+
+    it('should reject a cursor it did not issue', async () => {
+      await expect(walletService.getTransactionHistoryByCursor(userId, 'not-a-cursor')).rejects.toThrow('Invalid cursor');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('convert', () => {
+    const userId = 'user-123';
+    const quote = {
+      id: 'quote-1',
+      user_id: userId,
+      from_currency: 'USD',
+      to_currency: 'NGN',
+      source_amount: '100.00',
+      target_amount: '148500.00',
+      mid_rate: '1500.00000000',
+      rate: '1485.00000000',
+      spread_bps: 100,
+      spread_amount: '1500.00',
+    };
+
+    it('should move money between the user\'s wallets at the quoted rate', async () => {
+      const outTxn = { id: 'txn-out', type: 'conversion_out', amount: '100.00', journal_entry_id: 'journal-123' };
+      const inTxn = { id: 'txn-in', type: 'conversion_in', amount: '148500.00', journal_entry_id: 'journal-123' };
+
+      (fxService.consumeQuote as jest.Mock).mockResolvedValueOnce(quote);
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn()
+            .mockResolvedValueOnce({
+              rows: [
+                { id: 'wallet-ngn', balance: '0.00', held_amount: '0.00', currency: 'NGN' },
+                { id: 'wallet-usd', balance: '250.00', held_amount: '0.00', currency: 'USD' },
+              ],
+            })
+            .mockResolvedValueOnce({ rows: [outTxn] })
+            .mockResolvedValueOnce({ rows: [inTxn] }),
+        };
+        return callback(mockClient as any);
+      });
+
+      const result = await walletService.convert(userId, 'quote-1', 'TXN-FX-001');
+
+      expect(result.source_new_balance).toBe('150.00');
+      expect(result.target_new_balance).toBe('148500.00');
+      expect(result.conversion.rate).toBe('1485.00000000');
+      expect(fxService.conversionPostings).toHaveBeenCalledWith('wallet-usd', 'wallet-ngn', result.conversion);
+      expect(ledgerService.postEntry).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ reference: 'TXN-FX-001', entryType: 'conversion' })
+      );
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: userId, eventType: 'FX_CONVERSION' })
+      );
+    });
+
+    it('should throw error when the source wallet cannot cover the quote', async () => {
+      (fxService.consumeQuote as jest.Mock).mockResolvedValueOnce(quote);
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn().mockResolvedValueOnce({
+            rows: [
+              { id: 'wallet-ngn', balance: '0.00', held_amount: '0.00', currency: 'NGN' },
+              { id: 'wallet-usd', balance: '50.00', held_amount: '0.00', currency: 'USD' },
+            ],
+          }),
+        };
+        return callback(mockClient as any);
+      });
+
+      await expect(walletService.convert(userId, 'quote-1')).rejects.toThrow('Insufficient balance');
+    });
+
+    it('should throw error when the user has no wallet in the target currency', async () => {
+      (fxService.consumeQuote as jest.Mock).mockResolvedValueOnce(quote);
+      (db.transaction as jest.Mock).mockImplementation(async (callback) => {
+        const mockClient = {
+          query: jest.fn().mockResolvedValueOnce({
+            rows: [{ id: 'wallet-usd', balance: '250.00', held_amount: '0.00', currency: 'USD' }],
+          }),
+        };
+        return callback(mockClient as any);
+      });
+
+      await expect(walletService.convert(userId, 'quote-1')).rejects.toThrow('NGN wallet not found');
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { createHmac } from 'crypto';
+import { retryDelaySeconds, signPayload, webhookService } from '../services/webhookService';
+import { db } from '../database/postgres';
+import { auditService } from '../services/auditService';
+import { AuthPayload } from '../types';
+import { postJson } from '../utils/outboundHttp';
+
+jest.mock('../database/postgres', () => ({
+  db: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../config/env', () => ({
+  config: {
+    WEBHOOK_TIMEOUT_MS: 1000,
+    WEBHOOK_MAX_ATTEMPTS: 3,
+    WEBHOOK_RETRY_BASE_SECONDS: 30,
+    WEBHOOK_ALLOW_PRIVATE_URLS: false,
+  },
+}));
+
+jest.mock('../utils/outboundHttp', () => ({
+  ...jest.requireActual('../utils/outboundHttp'),
+  postJson: jest.fn(),
+}));
+
+jest.mock('../services/auditService', () => ({
+  auditService: {
+    log: jest.fn(),
+  },
+}));
+
+describe('WebhookService', () => {
+  const user: AuthPayload = { userId: 'user-123', email: 'user@example.com', role: 'user' };
+  const admin: AuthPayload = { userId: 'admin-1', email: 'admin@example.com', role: 'admin' };
+
+  const endpoint = {
+    id: 'endpoint-1',
+    user_id: user.userId,
+    url: 'https://hooks.example.com/wallet',
+    event_types: ['transaction.created'],
+    description: null,
+    is_active: true,
+    created_by: user.userId,
+  };
+
+  let mockClient: { query: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient = { query: jest.fn() };
+    (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockClient));
+  });
+
+  describe('signPayload', () => {
+    it('should sign the timestamp and body with the endpoint secret', () => {
+      const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+
+      expect(signPayload('whsec_test', 1700000000, '{"a":1}')).toBe(expected);
+    });
+  });
+
+  describe('retryDelaySeconds', () => {
+    it('should double the delay after every failed attempt', () => {
+      expect([1, 2, 3, 4].map(retryDelaySeconds)).toEqual([30, 60, 120, 240]);
+    });
+  });
+
+  describe('createEndpoint', () => {
+    it('should store the endpoint with a fresh secret and return it once', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...endpoint, secret: 'whsec_abc' }] });
+
+      const result = await webhookService.createEndpoint(user, {
+        url: endpoint.url,
+        events: ['transaction.created', 'transaction.created'],
+      });
+
+      expect(result.secret).toBe('whsec_abc');
+      const params = (db.query as jest.Mock).mock.calls[0][1];
+      expect(params[0]).toBe(user.userId);
+      expect(params[2]).toMatch(/^whsec_/);
+      expect(params[3]).toEqual(['transaction.created']);
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: user.userId, eventType: 'WEBHOOK_ENDPOINT_CREATED' })
+      );
+    });
+
+    it('should let only admins register a global endpoint', async () => {
+      await expect(
+        webhookService.createEndpoint(user, { url: endpoint.url, events: ['wallet.frozen'], global: true })
+      ).rejects.toThrow('Only admins can register global webhooks');
+
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...endpoint, user_id: null, secret: 'whsec_abc' }] });
+      await webhookService.createEndpoint(admin, { url: endpoint.url, events: ['wallet.frozen'], global: true });
+
+      expect((db.query as jest.Mock).mock.calls[0][1][0]).toBeNull();
+    });
+
+    it('should refuse private addresses when they are not allowed', async () => {
+      for (const url of ['http://localhost:4000/hook', 'http://169.254.169.254/latest', 'http://[::1]/hook']) {
+        await expect(webhookService.createEndpoint(user, { url, events: ['transaction.created'] })).rejects.toThrow(
+          'url must not point at a private or local address'
+        );
+      }
+    });
+
+    it('should reject unknown event types', async () => {
+      await expect(
+        webhookService.createEndpoint(user, { url: endpoint.url, events: ['wallet.deleted' as any] })
+      ).rejects.toThrow('Unknown event type wallet.deleted');
+    });
+  });
+
+  describe('publish', () => {
+    it('should queue one delivery per subscribed endpoint of the user or global', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await webhookService.publish(user.userId, 'transfer.completed', { direction: 'sent' });
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('(user_id = $4 OR user_id IS NULL)');
+      expect(params[1]).toBe('transfer.completed');
+      expect(JSON.parse(params[2])).toEqual(
+        expect.objectContaining({ id: params[0], type: 'transfer.completed', user_id: user.userId, data: { direction: 'sent' } })
+      );
+    });
+
+    it('should not queue an event twice for the same endpoint', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await webhookService.enqueue({
+        id: 'event-1',
+        type: 'transaction.created',
+        created_at: '2025-01-05T09:30:00.000Z',
+        user_id: user.userId,
+        data: {},
+      });
+
+      const [sql, params] = (db.query as jest.Mock).mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (endpoint_id, event_id) DO NOTHING');
+      expect(params[0]).toBe('event-1');
+    });
+
+    it('should not fail the caller when the event cannot be queued', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      (db.query as jest.Mock).mockRejectedValueOnce(new Error('connection terminated'));
+
+      await expect(webhookService.publish(user.userId, 'wallet.frozen', {})).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('deliverDue', () => {
+    const claimed = {
+      id: 'delivery-1',
+      event_id: 'event-1',
+      event_type: 'transaction.created',
+      payload: { id: 'event-1', type: 'transaction.created', user_id: user.userId, data: {} },
+      attempt_count: 0,
+      url: endpoint.url,
+      secret: 'whsec_abc',
+    };
+
+    it('should send a signed request and mark the delivery delivered', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [claimed] });
+      (postJson as jest.Mock).mockResolvedValueOnce(200);
+
+      const attempted = await webhookService.deliverDue();
+
+      expect(attempted).toBe(1);
+      const [url, body, options] = (postJson as jest.Mock).mock.calls[0];
+      expect(url).toBe(endpoint.url);
+      const [, timestamp, signature] = options.headers['X-Webhook-Signature'].match(/^t=(\d+),v1=([0-9a-f]+)$/);
+      expect(signature).toBe(signPayload('whsec_abc', Number(timestamp), body));
+      expect(options.headers['X-Webhook-Id']).toBe('event-1');
+      expect(options.allowPrivate).toBe(false);
+
+      expect(mockClient.query.mock.calls[0][1]).toEqual(['delivery-1', 1, 200, null, expect.any(Number)]);
+      expect(mockClient.query.mock.calls[1][1]).toEqual(['delivered', 1, 200, null, 30, 'delivery-1']);
+    });
+
+    it('should keep a failed delivery pending for a later retry', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...claimed, attempt_count: 1 }] });
+      (postJson as jest.Mock).mockResolvedValueOnce(503);
+
+      await webhookService.deliverDue();
+
+      expect(mockClient.query.mock.calls[1][1]).toEqual([
+        'pending',
+        2,
+        503,
+        'Endpoint responded with HTTP 503',
+        60,
+        'delivery-1',
+      ]);
+    });
+
+    it('should dead-letter the delivery once it runs out of attempts', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...claimed, attempt_count: 2 }] });
+      (postJson as jest.Mock).mockRejectedValueOnce(new Error('hooks.example.com resolves to a private or local address'));
+
+      await webhookService.deliverDue();
+
+      expect(mockClient.query.mock.calls[0][1].slice(2, 4)).toEqual([
+        null,
+        'hooks.example.com resolves to a private or local address',
+      ]);
+      expect(mockClient.query.mock.calls[1][1].slice(0, 2)).toEqual(['dead', 3]);
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should queue a dead delivery again with fresh attempts', async () => {
+      const delivery = { id: 'delivery-1', endpoint_id: 'endpoint-1', event_id: 'event-1', status: 'dead' };
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [delivery] })
+        .mockResolvedValueOnce({ rows: [{ ...delivery, status: 'pending', attempt_count: 0 }] });
+
+      const result = await webhookService.redeliver(user, 'delivery-1');
+
+      expect(result.status).toBe('pending');
+      expect(auditService.log).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'WEBHOOK_REDELIVERY_REQUESTED' })
+      );
+    });
+
+    it('should not reveal deliveries of someone else\'s endpoint', async () => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      await expect(webhookService.redeliver(user, 'delivery-2')).rejects.toThrow('Webhook delivery not found');
+    });
+  });
+});
@@ -12,8 +12,49 @@ interface EnvConfig {
   DB_PASSWORD: string;
   JWT_SECRET: string;
   JWT_EXPIRES_IN: string;
+  REFRESH_TOKEN_TTL_DAYS: number;
   RATE_LIMIT_WINDOW_MS: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  AUTH_RATE_LIMIT_WINDOW_MS: number;
+  AUTH_RATE_LIMIT_MAX_REQUESTS: number;
+  TRANSFER_RATE_LIMIT_WINDOW_MS: number;
+  TRANSFER_RATE_LIMIT_MAX_REQUESTS: number;
+  RATE_LIMIT_STORE: string;
+  FX_QUOTE_TTL_SECONDS: number;
+  FX_RATES_FILE: string;
+  FX_FEED_INTERVAL_MS: number;
+  IDEMPOTENCY_KEY_TTL_HOURS: number;
+  IDEMPOTENCY_LEASE_SECONDS: number;
+  HOLD_TTL_SECONDS: number;
+  HOLD_EXPIRY_INTERVAL_MS: number;
+  SCHEDULER_INTERVAL_MS: number;
+  MAIL_TRANSPORT: string;
+  MAIL_FROM: string;
+  MAIL_OUTBOX_DIR: string;
+  EMAIL_VERIFICATION_TTL_HOURS: number;
+  EMAIL_VERIFICATION_RESEND_SECONDS: number;
+  PASSWORD_RESET_TTL_MINUTES: number;
+  PASSWORD_RESET_RESEND_SECONDS: number;
+  MFA_ISSUER: string;
+  MFA_TOKEN_TTL_SECONDS: number;
+  MFA_STEP_UP_THRESHOLD: number;
+  MFA_MAX_ATTEMPTS: number;
+  MFA_LOCK_MINUTES: number;
+  PIN_MAX_ATTEMPTS: number;
+  PIN_LOCK_MINUTES: number;
+  LOGIN_MAX_ATTEMPTS: number;
+  LOGIN_LOCK_MINUTES: number;
+  LOGIN_BACKOFF_BASE_SECONDS: number;
+  WEBHOOK_DELIVERY_INTERVAL_MS: number;
+  WEBHOOK_TIMEOUT_MS: number;
+  WEBHOOK_MAX_ATTEMPTS: number;
+  WEBHOOK_RETRY_BASE_SECONDS: number;
+  WEBHOOK_ALLOW_PRIVATE_URLS: boolean;
+  OUTBOX_RELAY_INTERVAL_MS: number;
+  OUTBOX_RETENTION_DAYS: number;
+  AUDIT_CHECKPOINT_SECRET: string;
+  AUDIT_CHECKPOINT_INTERVAL_MS: number;
+  AUTH_FAILURE_FLUSH_INTERVAL_MS: number;
 }
 
 const getEnvVariable = (key: string, defaultValue?: string): string => {
@@ -33,8 +74,68 @@ export const config: EnvConfig = {
   DB_USER: getEnvVariable('DB_USER', 'postgres'),
   DB_PASSWORD: getEnvVariable('DB_PASSWORD'),
   JWT_SECRET: getEnvVariable('JWT_SECRET'),
-  JWT_EXPIRES_IN: getEnvVariable('JWT_EXPIRES_IN', '24h'),
+  // Access tokens are short-lived; clients renew them with a refresh token
+  JWT_EXPIRES_IN: getEnvVariable('JWT_EXPIRES_IN', '15m'),
+  REFRESH_TOKEN_TTL_DAYS: parseInt(getEnvVariable('REFRESH_TOKEN_TTL_DAYS', '30'), 10),
   RATE_LIMIT_WINDOW_MS: parseInt(getEnvVariable('RATE_LIMIT_WINDOW_MS', '900000'), 10),
   RATE_LIMIT_MAX_REQUESTS: parseInt(getEnvVariable('RATE_LIMIT_MAX_REQUESTS', '100'), 10),
+  AUTH_RATE_LIMIT_WINDOW_MS: parseInt(getEnvVariable('AUTH_RATE_LIMIT_WINDOW_MS', '900000'), 10),
+  AUTH_RATE_LIMIT_MAX_REQUESTS: parseInt(getEnvVariable('AUTH_RATE_LIMIT_MAX_REQUESTS', '5'), 10),
+  TRANSFER_RATE_LIMIT_WINDOW_MS: parseInt(getEnvVariable('TRANSFER_RATE_LIMIT_WINDOW_MS', '900000'), 10),
+  TRANSFER_RATE_LIMIT_MAX_REQUESTS: parseInt(getEnvVariable('TRANSFER_RATE_LIMIT_MAX_REQUESTS', '10'), 10),
+  // postgres shares the counters between app instances; memory keeps them per instance
+  RATE_LIMIT_STORE: getEnvVariable('RATE_LIMIT_STORE', 'postgres'),
+  FX_QUOTE_TTL_SECONDS: parseInt(getEnvVariable('FX_QUOTE_TTL_SECONDS', '60'), 10),
+  // Optional: JSON file of rates polled by the FX feed worker, left empty to disable the feed
+  FX_RATES_FILE: process.env.FX_RATES_FILE || '',
+  FX_FEED_INTERVAL_MS: parseInt(getEnvVariable('FX_FEED_INTERVAL_MS', '60000'), 10),
+  IDEMPOTENCY_KEY_TTL_HOURS: parseInt(getEnvVariable('IDEMPOTENCY_KEY_TTL_HOURS', '24'), 10),
+  // How long a request holds its key before a retry of it may take over, must outlast the slowest request
+  IDEMPOTENCY_LEASE_SECONDS: parseInt(getEnvVariable('IDEMPOTENCY_LEASE_SECONDS', '300'), 10),
+  // Default and maximum lifetime of an authorization hold
+  HOLD_TTL_SECONDS: parseInt(getEnvVariable('HOLD_TTL_SECONDS', '604800'), 10),
+  HOLD_EXPIRY_INTERVAL_MS: parseInt(getEnvVariable('HOLD_EXPIRY_INTERVAL_MS', '60000'), 10),
+  SCHEDULER_INTERVAL_MS: parseInt(getEnvVariable('SCHEDULER_INTERVAL_MS', '60000'), 10),
+  // 'console' logs outgoing mail, 'file' writes each message to MAIL_OUTBOX_DIR
+  MAIL_TRANSPORT: getEnvVariable('MAIL_TRANSPORT', 'console'),
+  MAIL_FROM: getEnvVariable('MAIL_FROM', 'no-reply@wallet.local'),
+  MAIL_OUTBOX_DIR: getEnvVariable('MAIL_OUTBOX_DIR', 'tmp/mail'),
+  EMAIL_VERIFICATION_TTL_HOURS: parseInt(getEnvVariable('EMAIL_VERIFICATION_TTL_HOURS', '24'), 10),
+  EMAIL_VERIFICATION_RESEND_SECONDS: parseInt(getEnvVariable('EMAIL_VERIFICATION_RESEND_SECONDS', '60'), 10),
+  PASSWORD_RESET_TTL_MINUTES: parseInt(getEnvVariable('PASSWORD_RESET_TTL_MINUTES', '30'), 10),
+  PASSWORD_RESET_RESEND_SECONDS: parseInt(getEnvVariable('PASSWORD_RESET_RESEND_SECONDS', '60'), 10),
+  // Name shown next to the account in authenticator apps
+  MFA_ISSUER: getEnvVariable('MFA_ISSUER', 'Financial Wallet'),
+  // How long a password-verified login waits for its TOTP code
+  MFA_TOKEN_TTL_SECONDS: parseInt(getEnvVariable('MFA_TOKEN_TTL_SECONDS', '300'), 10),
+  // Debits and transfers above this amount need a fresh TOTP code from users who enabled 2FA
+  MFA_STEP_UP_THRESHOLD: parseFloat(getEnvVariable('MFA_STEP_UP_THRESHOLD', '100000')),
+  // Wrong two-factor codes in a row, at login or for a payment, before code checks lock for MFA_LOCK_MINUTES
+  MFA_MAX_ATTEMPTS: parseInt(getEnvVariable('MFA_MAX_ATTEMPTS', '5'), 10),
+  MFA_LOCK_MINUTES: parseInt(getEnvVariable('MFA_LOCK_MINUTES', '15'), 10),
+  // Wrong transaction PINs allowed in a row before the PIN locks for PIN_LOCK_MINUTES
+  PIN_MAX_ATTEMPTS: parseInt(getEnvVariable('PIN_MAX_ATTEMPTS', '5'), 10),
+  PIN_LOCK_MINUTES: parseInt(getEnvVariable('PIN_LOCK_MINUTES', '30'), 10),
+  // Wrong passwords for one account, from any IP, before its login locks for LOGIN_LOCK_MINUTES
+  LOGIN_MAX_ATTEMPTS: parseInt(getEnvVariable('LOGIN_MAX_ATTEMPTS', '10'), 10),
+  LOGIN_LOCK_MINUTES: parseInt(getEnvVariable('LOGIN_LOCK_MINUTES', '30'), 10),
+  // Until then each wrong password delays the next attempt by 1, 2, 4... x this many seconds
+  LOGIN_BACKOFF_BASE_SECONDS: parseInt(getEnvVariable('LOGIN_BACKOFF_BASE_SECONDS', '1'), 10),
+  WEBHOOK_DELIVERY_INTERVAL_MS: parseInt(getEnvVariable('WEBHOOK_DELIVERY_INTERVAL_MS', '5000'), 10),
+  WEBHOOK_TIMEOUT_MS: parseInt(getEnvVariable('WEBHOOK_TIMEOUT_MS', '10000'), 10),
+  // A delivery is dead-lettered after this many failed attempts, retried after 1, 2, 4... x the base delay
+  WEBHOOK_MAX_ATTEMPTS: parseInt(getEnvVariable('WEBHOOK_MAX_ATTEMPTS', '8'), 10),
+  WEBHOOK_RETRY_BASE_SECONDS: parseInt(getEnvVariable('WEBHOOK_RETRY_BASE_SECONDS', '30'), 10),
+  // Endpoints on localhost or private networks; off in production so webhooks cannot probe internal services
+  WEBHOOK_ALLOW_PRIVATE_URLS:
+    getEnvVariable('WEBHOOK_ALLOW_PRIVATE_URLS', process.env.NODE_ENV === 'production' ? 'false' : 'true') === 'true',
+  OUTBOX_RELAY_INTERVAL_MS: parseInt(getEnvVariable('OUTBOX_RELAY_INTERVAL_MS', '1000'), 10),
+  // Published outbox events are deleted after this many days
+  OUTBOX_RETENTION_DAYS: parseInt(getEnvVariable('OUTBOX_RETENTION_DAYS', '7'), 10),
+  // Signs audit chain checkpoints; keep it out of the database and away from anyone with DB access
+  AUDIT_CHECKPOINT_SECRET: getEnvVariable('AUDIT_CHECKPOINT_SECRET'),
+  AUDIT_CHECKPOINT_INTERVAL_MS: parseInt(getEnvVariable('AUDIT_CHECKPOINT_INTERVAL_MS', '3600000'), 10),
+  // Requests refused without a valid token are audited as one record per IP and reason per interval
+  AUTH_FAILURE_FLUSH_INTERVAL_MS: parseInt(getEnvVariable('AUTH_FAILURE_FLUSH_INTERVAL_MS', '60000'), 10),
 };
 
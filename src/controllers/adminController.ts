@@ -0,0 +1,341 @@
+import { Request, Response, NextFunction } from 'express';
+import { adminService } from '../services/adminService';
+import { accountStatusService } from '../services/accountStatusService';
+import { loginLockoutService } from '../services/loginLockoutService';
+import { statementService, STATEMENT_CONTENT_TYPES } from '../services/statementService';
+import {
+  StatementRequest,
+  TransactionHistoryFilters,
+  UpdateLimitTierRequest,
+  UpdateRoleRequest,
+  UpdateStatusRequest,
+} from '../types';
+
+export class AdminController {
+  async searchUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      const result = await adminService.searchUsers(req.user.userId, query, page, limit, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Users retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getUser(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const user = await adminService.getUser(req.user.userId, req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'User retrieved successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getUserWallets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const wallets = await adminService.getUserWallets(req.user.userId, req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Wallets retrieved successfully',
+        data: wallets,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getUserTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const currency = req.query.currency as string | undefined;
+      const { type, status, from, to, min_amount, max_amount, search, counterparty } = req.query as TransactionHistoryFilters;
+      const filters: TransactionHistoryFilters = { type, status, from, to, min_amount, max_amount, search, counterparty };
+
+      const result = await adminService.getUserTransactions(
+        req.user.userId,
+        req.params.id,
+        page,
+        limit,
+        currency,
+        filters,
+        req.ip
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Transaction history retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async downloadUserStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const statement = await statementService.prepare(req.params.id, req.query as StatementRequest);
+
+      res.status(200);
+      res.setHeader('Content-Type', STATEMENT_CONTENT_TYPES[statement.format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${statementService.fileName(statement)}"`);
+
+      await statementService.export(req.user.userId, statement, res, req.ip);
+      res.end();
+    } catch (error) {
+      // Once rows are on the wire the status cannot change, so a cut-off download is the only signal left
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+
+      res.removeHeader('Content-Disposition');
+      next(error);
+    }
+  }
+
+  async getWallet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const wallet = await adminService.getWallet(req.user.userId, req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Wallet retrieved successfully',
+        data: wallet,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { role }: UpdateRoleRequest = req.body;
+
+      const user = await adminService.setRole(req.user.userId, req.params.id, role, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role updated successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setUserStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { status, reason }: UpdateStatusRequest = req.body;
+
+      const change = await accountStatusService.setUserStatus(req.user.userId, req.params.id, status, reason, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Account status updated successfully',
+        data: change,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async unlockLogin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      await loginLockoutService.unlock(req.user.userId, req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Login unlocked successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setWalletStatus(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { status, reason }: UpdateStatusRequest = req.body;
+
+      const change = await accountStatusService.setWalletStatus(
+        req.user.userId,
+        req.params.id,
+        status,
+        reason,
+        req.ip
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Wallet status updated successfully',
+        data: change,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getUserStatusHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const history = await accountStatusService.getHistory(req.user.userId, 'user', req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Status history retrieved successfully',
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getWalletStatusHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const history = await accountStatusService.getHistory(req.user.userId, 'wallet', req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Status history retrieved successfully',
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setLimitTier(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { tier }: UpdateLimitTierRequest = req.body;
+
+      const user = await adminService.setLimitTier(req.user.userId, req.params.id, tier, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Limit tier updated successfully',
+        data: user,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const adminController = new AdminController();
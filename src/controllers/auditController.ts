@@ -0,0 +1,107 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { auditChainService } from '../services/auditChainService';
+import { auditService } from '../services/auditService';
+import { AuditLogFilters } from '../types';
+
+const DATA_FILTER_PREFIX = 'data.';
+
+// Fields inside event_data come in as data.<path>=value, e.g. data.transactionId=...
+const auditLogFilters = (req: Request): AuditLogFilters => {
+  const { actor_id, event_type, request_id, from, to } = req.query as Record<string, string | undefined>;
+  const data: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(req.query)) {
+    if (!key.startsWith(DATA_FILTER_PREFIX)) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new AppError(400, `${key} can only be given once`);
+    }
+    data[key.slice(DATA_FILTER_PREFIX.length)] = value;
+  }
+
+  return { actor_id, event_type, request_id, from, to, data };
+};
+
+export class AuditController {
+  async searchLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const cursor = (req.query.cursor as string) || undefined;
+
+      const result = await auditService.search(req.user.userId, auditLogFilters(req), cursor, limit, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Audit logs retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async exportLogs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const filters = auditLogFilters(req);
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${date}.csv"`);
+
+      await auditService.export(req.user.userId, filters, res, req.ip);
+      res.end();
+    } catch (error) {
+      // Once rows are on the wire the status cannot change, so a cut-off download is the only signal left
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+
+      res.removeHeader('Content-Disposition');
+      next(error);
+    }
+  }
+
+  async verifyChain(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const report = await auditChainService.verify(req.user.userId, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: report.valid ? 'Audit chain is intact' : 'Audit chain is broken',
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const auditController = new AuditController();
@@ -1,6 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { authService } from '../services/authService';
-import { RegisterRequest, LoginRequest } from '../types';
+import { auditService } from '../services/auditService';
+import { emailVerificationService } from '../services/emailVerificationService';
+import {
+  RegisterRequest,
+  LoginRequest,
+  RefreshTokenRequest,
+  VerifyEmailRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  ChangePasswordRequest,
+  MfaLoginRequest,
+} from '../types';
 
 export class AuthController {
   async register(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -27,6 +38,22 @@ export class AuthController {
 
       const result = await authService.login(data, ipAddress);
 
+      res.status(200).json({
+        success: true,
+        message: 'mfa_required' in result ? 'Two-factor authentication required' : 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async loginMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { mfa_token, code }: MfaLoginRequest = req.body;
+
+      const result = await authService.completeMfaLogin(mfa_token, code, req.ip);
+
       res.status(200).json({
         success: true,
         message: 'Login successful',
@@ -37,6 +64,157 @@ export class AuthController {
     }
   }
 
+  async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refresh_token }: RefreshTokenRequest = req.body;
+
+      const result = await authService.refresh(refresh_token, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Token refreshed successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user || !req.user.sessionId) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      await authService.logout(req.user.userId, req.user.sessionId, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async logoutAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await authService.logoutAll(req.user.userId, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Logged out of all sessions',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token }: VerifyEmailRequest = req.body;
+
+      const result = await emailVerificationService.verifyEmail(token, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resendVerification(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      await emailVerificationService.sendVerificationEmail(req.user.userId, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async forgotPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email }: ForgotPasswordRequest = req.body;
+
+      await authService.forgotPassword(email, req.ip);
+
+      // Same answer whether or not the email is registered
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for that email, a password reset code has been sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resetPassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { token, new_password }: ResetPasswordRequest = req.body;
+
+      await authService.resetPassword(token, new_password, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password has been reset, please log in again',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async changePassword(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { current_password, new_password }: ChangePasswordRequest = req.body;
+
+      const result = await authService.changePassword(req.user.userId, current_password, new_password, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Password changed successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getProfile(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       if (!req.user) {
@@ -66,6 +244,31 @@ export class AuthController {
       next(error);
     }
   }
+
+  async getSecurityActivity(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const limit = parseInt(req.query.limit as string) || 20;
+      const cursor = (req.query.cursor as string) || undefined;
+
+      const result = await auditService.getSecurityActivity(req.user.userId, cursor, limit);
+
+      res.status(200).json({
+        success: true,
+        message: 'Security activity retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const authController = new AuthController();
@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { isStreamEventId, realtimeService, toServerSentEvents } from '../services/realtimeService';
+
+// A comment line often enough that proxies do not close an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// How long EventSource clients wait before reconnecting after the stream ends
+const RECONNECT_DELAY_MS = 3000;
+
+export class EventStreamController {
+  /**
+   * Server-sent events for the signed-in user's wallets. The stream ends when the access token
+   * expires, so a revoked session cannot keep listening; the client reconnects with a fresh
+   * token and its Last-Event-ID to pick up where it left off.
+   */
+  async stream(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const lastEventId = req.get('Last-Event-ID') ?? (req.query.last_event_id as string | undefined);
+      if (lastEventId !== undefined && !isStreamEventId(lastEventId)) {
+        throw new AppError(400, 'Last-Event-ID must be the id of an event from this stream');
+      }
+
+      // Headers go out with the first event, so a failure while loading the replay still gets a JSON error
+      const write = (text: string): void => {
+        if (!res.headersSent) {
+          res.status(200).set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+          });
+        }
+        res.write(text);
+      };
+
+      const unsubscribe = await realtimeService.open(req.user.userId, lastEventId, {
+        send: (event) => write(toServerSentEvents(event)),
+        reset: () => write('event: reset\ndata: {}\n\n'),
+        close: () => res.end(),
+      });
+
+      if (res.destroyed) {
+        unsubscribe();
+        return;
+      }
+
+      write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+      const expiry = req.user.exp
+        ? setTimeout(() => res.end(), Math.max(req.user.exp * 1000 - Date.now(), 0))
+        : undefined;
+
+      res.on('close', () => {
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        unsubscribe();
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const eventStreamController = new EventStreamController();
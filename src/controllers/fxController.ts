@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { fxService } from '../services/fxService';
+import { FxQuoteRequest, FxRateUpdate } from '../types';
+
+export class FxController {
+  async getRates(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rates = await fxService.getRates();
+
+      res.status(200).json({
+        success: true,
+        message: 'FX rates retrieved successfully',
+        data: rates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setRate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: FxRateUpdate = req.body;
+      const ipAddress = req.ip;
+
+      const rate = await fxService.setRate(data, 'admin', req.user.userId, ipAddress);
+
+      res.status(200).json({
+        success: true,
+        message: 'FX rate updated successfully',
+        data: rate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: FxQuoteRequest = req.body;
+
+      const quote = await fxService.createQuote(req.user.userId, data.from_currency, data.to_currency, data.amount);
+
+      res.status(201).json({
+        success: true,
+        message: 'Quote created successfully',
+        data: quote,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const fxController = new FxController();
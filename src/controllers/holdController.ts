@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import { holdService } from '../services/holdService';
+import { CaptureHoldRequest, HoldStatus, PlaceHoldRequest } from '../types';
+
+export class HoldController {
+  async placeHold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: PlaceHoldRequest = req.body;
+      const ipAddress = req.ip;
+
+      const hold = await holdService.placeHold(
+        req.user.userId,
+        data.amount,
+        data.description,
+        data.reference,
+        ipAddress,
+        {
+          currency: data.currency,
+          recipientEmail: data.recipient_email,
+          recipientUserId: data.recipient_user_id,
+          expiresInSeconds: data.expires_in_seconds,
+          totpCode: req.get('X-TOTP-Code'),
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Hold placed successfully',
+        data: hold,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getHolds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const status = req.query.status as HoldStatus | undefined;
+
+      const holds = await holdService.getHolds(req.user.userId, status);
+
+      res.status(200).json({
+        success: true,
+        message: 'Holds retrieved successfully',
+        data: holds,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async captureHold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const data: CaptureHoldRequest = req.body || {};
+      const ipAddress = req.ip;
+
+      const result = await holdService.captureHold(req.user.userId, id, data.amount, ipAddress);
+
+      res.status(201).json({
+        success: true,
+        message: 'Hold captured successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async voidHold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { id } = req.params;
+      const ipAddress = req.ip;
+
+      const hold = await holdService.voidHold(req.user.userId, id, ipAddress);
+
+      res.status(200).json({
+        success: true,
+        message: 'Hold voided successfully',
+        data: hold,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const holdController = new HoldController();
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { mfaService } from '../services/mfaService';
+import { MfaCodeRequest, MfaDisableRequest } from '../types';
+
+export class MfaController {
+  async setup(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const result = await mfaService.setup(req.user.userId, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scan the otpauth URL with an authenticator app, then confirm a code',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async confirm(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { code }: MfaCodeRequest = req.body;
+
+      const result = await mfaService.confirm(req.user.userId, code, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async disable(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { password, code }: MfaDisableRequest = req.body;
+
+      await mfaService.disable(req.user.userId, password, code, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const mfaController = new MfaController();
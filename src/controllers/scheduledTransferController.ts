@@ -0,0 +1,155 @@
+import { Request, Response, NextFunction } from 'express';
+import { scheduledTransferService } from '../services/scheduledTransferService';
+import { CreateScheduledTransferRequest } from '../types';
+
+export class ScheduledTransferController {
+  async createSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: CreateScheduledTransferRequest = req.body;
+      const ipAddress = req.ip;
+
+      const schedule = await scheduledTransferService.createSchedule(
+        req.user.userId,
+        data,
+        ipAddress,
+        req.get('X-TOTP-Code')
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Scheduled transfer created successfully',
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const schedules = await scheduledTransferService.getSchedules(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled transfers retrieved successfully',
+        data: schedules,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getRuns(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const runs = await scheduledTransferService.getRuns(req.user.userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled transfer runs retrieved successfully',
+        data: runs,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async pauseSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const schedule = await scheduledTransferService.pauseSchedule(req.user.userId, id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled transfer paused',
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resumeSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const schedule = await scheduledTransferService.resumeSchedule(req.user.userId, id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled transfer resumed',
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancelSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { id } = req.params;
+
+      const schedule = await scheduledTransferService.cancelSchedule(req.user.userId, id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Scheduled transfer cancelled',
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const scheduledTransferController = new ScheduledTransferController();
@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { transactionPinService } from '../services/transactionPinService';
+import { ChangePinRequest, ResetPinRequest, SetPinRequest } from '../types';
+
+export class TransactionPinController {
+  async setPin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { pin, password }: SetPinRequest = req.body;
+
+      await transactionPinService.setPin(req.user.userId, pin, password, req.ip);
+
+      res.status(201).json({
+        success: true,
+        message: 'Transaction PIN set successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async changePin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { current_pin, new_pin }: ChangePinRequest = req.body;
+
+      await transactionPinService.changePin(req.user.userId, current_pin, new_pin, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Transaction PIN changed successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resetPin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { password, new_pin }: ResetPinRequest = req.body;
+
+      await transactionPinService.resetPin(req.user.userId, password, new_pin, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Transaction PIN reset successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const transactionPinController = new TransactionPinController();
@@ -1,6 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { walletService } from '../services/walletService';
-import { TransactionRequest, TransferRequest } from '../types';
+import { limitService } from '../services/limitService';
+import { statementService, STATEMENT_CONTENT_TYPES } from '../services/statementService';
+import {
+  TransactionRequest,
+  TransferRequest,
+  OpenWalletRequest,
+  ConvertRequest,
+  ReversalRequest,
+  RefundRequest,
+  UpdateLimitsRequest,
+  TransactionHistoryFilters,
+  StatementRequest,
+} from '../types';
 
 export class WalletController {
   async getBalance(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -13,7 +25,9 @@ export class WalletController {
         return;
       }
 
-      const balance = await walletService.getBalance(req.user.userId);
+      const currency = req.query.currency as string | undefined;
+
+      const balance = await walletService.getBalance(req.user.userId, currency);
 
       res.status(200).json({
         success: true,
@@ -25,6 +39,52 @@ export class WalletController {
     }
   }
 
+  async getWallets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const wallets = await walletService.getWallets(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Wallets retrieved successfully',
+        data: wallets,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async openWallet(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: OpenWalletRequest = req.body;
+
+      const wallet = await walletService.openWallet(req.user.userId, data.currency);
+
+      res.status(201).json({
+        success: true,
+        message: 'Wallet opened successfully',
+        data: wallet,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async credit(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       if (!req.user) {
@@ -43,7 +103,8 @@ export class WalletController {
         data.amount,
         data.description,
         data.reference,
-        ipAddress
+        ipAddress,
+        { currency: data.currency }
       );
 
       res.status(201).json({
@@ -74,7 +135,8 @@ export class WalletController {
         data.amount,
         data.description,
         data.reference,
-        ipAddress
+        ipAddress,
+        { currency: data.currency, totpCode: req.get('X-TOTP-Code') }
       );
 
       res.status(201).json({
@@ -87,6 +149,62 @@ export class WalletController {
     }
   }
 
+  async getLimits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const currency = req.query.currency as string | undefined;
+
+      const limits = await limitService.getAllowance(
+        req.user.userId,
+        currency ? walletService.resolveCurrency(currency) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Limits retrieved successfully',
+        data: limits,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateLimits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: UpdateLimitsRequest = req.body;
+
+      const limits = await limitService.setOwnLimits(
+        req.user.userId,
+        walletService.resolveCurrency(data.currency),
+        data,
+        req.ip
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Limits updated successfully',
+        data: limits,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getTransactionHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       if (!req.user) {
@@ -99,8 +217,21 @@ export class WalletController {
 
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
+      const currency = req.query.currency as string | undefined;
+      const { type, status, from, to, min_amount, max_amount, search, counterparty } = req.query as TransactionHistoryFilters;
+      const filters: TransactionHistoryFilters = { type, status, from, to, min_amount, max_amount, search, counterparty };
 
-      const result = await walletService.getTransactionHistory(req.user.userId, page, limit);
+      // Any cursor parameter, even an empty one for the first page, switches to keyset pagination
+      const result =
+        req.query.cursor !== undefined
+          ? await walletService.getTransactionHistoryByCursor(
+              req.user.userId,
+              req.query.cursor as string,
+              limit,
+              currency,
+              filters
+            )
+          : await walletService.getTransactionHistory(req.user.userId, page, limit, currency, filters);
 
       res.status(200).json({
         success: true,
@@ -112,6 +243,36 @@ export class WalletController {
     }
   }
 
+  async downloadStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const statement = await statementService.prepare(req.user.userId, req.query as StatementRequest);
+
+      res.status(200);
+      res.setHeader('Content-Type', STATEMENT_CONTENT_TYPES[statement.format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${statementService.fileName(statement)}"`);
+
+      await statementService.export(req.user.userId, statement, res, req.ip);
+      res.end();
+    } catch (error) {
+      // Once rows are on the wire the status cannot change, so a cut-off download is the only signal left
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+
+      res.removeHeader('Content-Disposition');
+      next(error);
+    }
+  }
+
   async getTransactionByReference(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       if (!req.user) {
@@ -180,7 +341,13 @@ export class WalletController {
         data.amount,
         data.description,
         data.reference,
-        ipAddress
+        ipAddress,
+        {
+          currency: data.currency,
+          recipientCurrency: data.recipient_currency,
+          convert: data.convert === true,
+          totpCode: req.get('X-TOTP-Code'),
+        }
       );
 
       res.status(201).json({
@@ -192,7 +359,98 @@ export class WalletController {
       next(error);
     }
   }
+
+  async convert(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: ConvertRequest = req.body;
+      const ipAddress = req.ip;
+
+      const result = await walletService.convert(req.user.userId, data.quote_id, data.reference, ipAddress);
+
+      res.status(201).json({
+        success: true,
+        message: 'Conversion successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async reverseTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { reference } = req.params;
+      const data: ReversalRequest = req.body || {};
+      const ipAddress = req.ip;
+
+      const result = await walletService.reverseTransaction(reference, req.user.userId, data.reason, ipAddress);
+
+      res.status(201).json({
+        success: true,
+        message: 'Transaction reversed successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async refundTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const { reference } = req.params;
+      const data: RefundRequest = req.body;
+      const ipAddress = req.ip;
+
+      if (!data.amount || data.amount <= 0) {
+        res.status(400).json({
+          success: false,
+          message: 'Valid amount is required',
+        });
+        return;
+      }
+
+      const result = await walletService.refundTransfer(
+        req.user.userId,
+        reference,
+        data.amount,
+        data.reason,
+        data.reference,
+        ipAddress
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Refund successful',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const walletController = new WalletController();
-
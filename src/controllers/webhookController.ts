@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from 'express';
+import { webhookService } from '../services/webhookService';
+import { CreateWebhookRequest, UpdateWebhookRequest } from '../types';
+
+export class WebhookController {
+  async createEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: CreateWebhookRequest = req.body;
+
+      const endpoint = await webhookService.createEndpoint(req.user, data, req.ip);
+
+      res.status(201).json({
+        success: true,
+        message: 'Webhook endpoint created successfully',
+        data: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listEndpoints(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const endpoints = await webhookService.listEndpoints(req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook endpoints retrieved successfully',
+        data: endpoints,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const endpoint = await webhookService.getEndpoint(req.user, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook endpoint retrieved successfully',
+        data: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const data: UpdateWebhookRequest = req.body;
+
+      const endpoint = await webhookService.updateEndpoint(req.user, req.params.id, data, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook endpoint updated successfully',
+        data: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteEndpoint(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      await webhookService.deleteEndpoint(req.user, req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook endpoint deleted successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async rotateSecret(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const endpoint = await webhookService.rotateSecret(req.user, req.params.id, req.ip);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook secret rotated successfully',
+        data: endpoint,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = req.query.status as string | undefined;
+
+      const result = await webhookService.listDeliveries(req.user, req.params.id, status, page, limit);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook deliveries retrieved successfully',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const delivery = await webhookService.getDelivery(req.user, req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook delivery retrieved successfully',
+        data: delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async redeliver(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          message: 'Unauthorized',
+        });
+        return;
+      }
+
+      const delivery = await webhookService.redeliver(req.user, req.params.id, req.ip);
+
+      res.status(202).json({
+        success: true,
+        message: 'Webhook delivery queued for redelivery',
+        data: delivery,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const webhookController = new WebhookController();
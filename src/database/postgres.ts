@@ -54,6 +54,39 @@ class Database {
     }
   }
 
+  /**
+   * Yields rows through a server-side cursor, batchSize at a time, so a large result is never
+   * held in memory. The cursor runs in its own read-only transaction, which is rolled back if
+   * the caller stops early.
+   */
+  async *iterate(text: string, params: any[] = [], batchSize: number = 500): AsyncGenerator<any> {
+    const client = await this.getClient();
+    let open = false;
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      open = true;
+      await client.query(`DECLARE row_cursor NO SCROLL CURSOR FOR ${text}`, params);
+
+      while (true) {
+        const result = await client.query(`FETCH ${batchSize} FROM row_cursor`);
+        yield* result.rows;
+
+        if (result.rows.length < batchSize) {
+          break;
+        }
+      }
+
+      await client.query('COMMIT');
+      open = false;
+    } finally {
+      if (open) {
+        await client.query('ROLLBACK').catch(() => undefined);
+      }
+      client.release();
+    }
+  }
+
   async close(): Promise<void> {
     await this.pool.end();
   }
@@ -1,6 +1,9 @@
 import app from './app';
 import { config } from './config/env';
 import { db } from './database/postgres';
+import { startWorkers } from './workers';
+import { realtimeService } from './services/realtimeService';
+import { authFailureService } from './services/authFailureService';
 
 const startServer = async () => {
   try {
@@ -12,9 +15,15 @@ const startServer = async () => {
       console.log(`Environment: ${config.NODE_ENV}`);
     });
 
+    const stopWorkers = startWorkers();
+
     const gracefulShutdown = async () => {
       console.log('Shutting down gracefully...');
+      stopWorkers();
+      // Open event streams would otherwise keep the server from closing
+      await realtimeService.close();
       server.close(async () => {
+        await authFailureService.flush();
         await db.close();
         console.log('Server closed');
         process.exit(0);
@@ -0,0 +1,8 @@
+import { MailMessage, MailTransport } from '../types';
+
+// Local development: the message, including any code in it, is printed to the server log
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
@@ -0,0 +1,19 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { MailMessage, MailTransport } from '../types';
+
+// Writes every message to its own JSON file, so tests and scripts can read what was sent
+export class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomBytes(4).toString('hex')}.json`;
+    await writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sent_at: new Date().toISOString() }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { config } from '../config/env';
+import { MailMessage, MailTransport } from '../types';
+import { ConsoleTransport } from './consoleTransport';
+import { FileTransport } from './fileTransport';
+
+const createTransport = (): MailTransport => {
+  switch (config.MAIL_TRANSPORT) {
+    case 'console':
+      return new ConsoleTransport();
+    case 'file':
+      return new FileTransport(config.MAIL_OUTBOX_DIR);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${config.MAIL_TRANSPORT}`);
+  }
+};
+
+export class Mailer {
+  private transport: MailTransport | null = null;
+
+  // Plugs in another transport (SMTP, a provider SDK) in place of the configured one
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: Omit<MailMessage, 'from'>): Promise<void> {
+    if (!this.transport) {
+      this.transport = createTransport();
+    }
+
+    await this.transport.send({ from: config.MAIL_FROM, ...message });
+  }
+}
+
+export const mailer = new Mailer();
+export { ConsoleTransport, FileTransport };
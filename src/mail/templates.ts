@@ -0,0 +1,54 @@
+interface MailContent {
+  subject: string;
+  text: string;
+}
+
+export const verificationEmail = (fullName: string, token: string, ttlHours: number): MailContent => ({
+  subject: 'Verify your email address',
+  text: [
+    `Hi ${fullName},`,
+    '',
+    'Use the code below to verify your email address:',
+    '',
+    token,
+    '',
+    `The code expires in ${ttlHours} hour(s). If you did not create an account, you can ignore this email.`,
+  ].join('\n'),
+});
+
+export const passwordResetEmail = (fullName: string, token: string, ttlMinutes: number): MailContent => ({
+  subject: 'Reset your password',
+  text: [
+    `Hi ${fullName},`,
+    '',
+    'Use the code below to choose a new password:',
+    '',
+    token,
+    '',
+    `The code expires in ${ttlMinutes} minute(s). If you did not ask to reset your password, you can ignore this email.`,
+  ].join('\n'),
+});
+
+export const loginLockedEmail = (fullName: string, lockMinutes: number): MailContent => ({
+  subject: 'Sign-in to your account was locked',
+  text: [
+    `Hi ${fullName},`,
+    '',
+    `There were too many sign-in attempts with a wrong password, so sign-in is locked for ${lockMinutes} minute(s).`,
+    '',
+    'If this was you, wait and try again, or reset your password to sign in right away.',
+    'If it was not, someone may know your email address: reset your password and turn on two-factor authentication.',
+  ].join('\n'),
+});
+
+export const mfaLockedEmail = (fullName: string, lockMinutes: number): MailContent => ({
+  subject: 'Two-factor codes for your account were locked',
+  text: [
+    `Hi ${fullName},`,
+    '',
+    `Too many wrong two-factor codes were entered, so codes will not be accepted for ${lockMinutes} minute(s).`,
+    '',
+    'If this was you, wait and try again with a fresh code from your authenticator app.',
+    'If it was not, someone knows your password or is using a signed-in session: change your password and sign out everywhere.',
+  ].join('\n'),
+});
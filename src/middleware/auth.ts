@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
-import { AuthPayload } from '../types';
+import { AuthPayload, UserRole } from '../types';
+import { auditService } from '../services/auditService';
+import { authFailureService } from '../services/authFailureService';
+import { sessionService } from '../services/sessionService';
 
 declare global {
   namespace Express {
@@ -10,29 +13,85 @@ declare global {
   }
 }
 
-export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    const authHeader = req.headers.authorization;
+// Refused requests are audited for fraud review; the request context supplies the IP, user agent and request id
+const auditFailure = (req: Request, reason: string, actorId: string | null = null): Promise<void> =>
+  auditService.log({
+    actorId,
+    eventType: 'AUTHENTICATION_FAILED',
+    eventData: { reason, method: req.method, path: req.originalUrl.split('?')[0] },
+  });
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      res.status(401).json({
-        success: false,
-        message: 'Authentication required',
-        error: 'No token provided',
-      });
-      return;
-    }
+// Anyone can be refused before they are identified, so those refusals are counted and written in batches
+const countAnonymousFailure = (req: Request, reason: string): void =>
+  authFailureService.note(reason, req.method, req.originalUrl.split('?')[0]);
 
-    const token = authHeader.substring(7);
-    const payload = verifyToken(token);
-    req.user = payload;
-    next();
+export const authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    countAnonymousFailure(req, 'NO_TOKEN');
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+      error: 'No token provided',
+    });
+    return;
+  }
+
+  let payload: AuthPayload;
+  try {
+    payload = verifyToken(authHeader.substring(7));
   } catch (error) {
+    countAnonymousFailure(req, 'INVALID_TOKEN');
     res.status(401).json({
       success: false,
       message: 'Authentication failed',
       error: error instanceof Error ? error.message : 'Invalid token',
     });
+    return;
+  }
+
+  try {
+    // Tokens issued before sessions existed carry no session id and cannot be revoked, so they are refused
+    if (!payload.sessionId || !(await sessionService.isActive(payload.sessionId, payload.userId))) {
+      await auditFailure(req, 'SESSION_REVOKED', payload.userId);
+      res.status(401).json({
+        success: false,
+        message: 'Authentication failed',
+        error: 'Session has been revoked',
+      });
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
   }
+
+  req.user = payload;
+  next();
 };
 
+
+// Must run after authenticate; the role comes from the token, which is re-issued from the database on refresh
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        message: 'Forbidden',
+        error: 'Insufficient permissions',
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -4,6 +4,8 @@ export class AppError extends Error {
   constructor(
     public statusCode: number,
     public message: string,
+    // Machine-readable reason for clients that need to tell similar errors apart
+    public code?: string,
     public isOperational = true
   ) {
     super(message);
@@ -22,6 +24,7 @@ export const errorHandler = (
       success: false,
       message: err.message,
       error: err.message,
+      ...(err.code && { code: err.code }),
     });
     return;
   }
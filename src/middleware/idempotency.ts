@@ -0,0 +1,88 @@
+import { Request, Response, NextFunction } from 'express';
+import { idempotencyService, hashRequest } from '../services/idempotencyService';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honours the optional Idempotency-Key header on money-moving endpoints. The first response
+ * for a key is stored and replayed byte-for-byte on retries; server errors release the key
+ * so the client can try again. Must run after authenticate, keys are scoped per user.
+ */
+export const idempotency = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const key = req.get('Idempotency-Key');
+
+  if (key === undefined) {
+    next();
+    return;
+  }
+
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  if (key.trim() === '' || key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({
+      success: false,
+      message: `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    });
+    return;
+  }
+
+  const userId = req.user.userId;
+  const path = req.baseUrl + req.path;
+
+  try {
+    const outcome = await idempotencyService.begin(userId, key, req.method, path, hashRequest(req.method, path, req.body));
+
+    if (outcome.state === 'replay') {
+      res.status(outcome.status).set('Idempotent-Replayed', 'true').type('application/json').send(outcome.body);
+      return;
+    }
+
+    if (outcome.state === 'mismatch') {
+      res.status(422).json({
+        success: false,
+        message: 'Idempotency-Key has already been used with a different request',
+        error: 'Idempotency key reuse',
+      });
+      return;
+    }
+
+    if (outcome.state === 'in_progress') {
+      res.status(409).json({
+        success: false,
+        message: 'A request with this Idempotency-Key is still being processed',
+        error: 'Idempotency key in use',
+      });
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  const originalSend = res.send.bind(res);
+
+  // res.json serialises and calls res.send, so this sees the exact bytes written to the client
+  res.send = ((body?: any) => {
+    res.send = originalSend;
+
+    const payload = Buffer.isBuffer(body) ? body.toString('utf8') : typeof body === 'string' ? body : JSON.stringify(body);
+    const persist =
+      res.statusCode >= 500
+        ? idempotencyService.release(userId, key)
+        : idempotencyService.complete(userId, key, res.statusCode, payload);
+
+    persist
+      .catch((error) => console.error('Failed to persist idempotency key:', error))
+      .finally(() => originalSend(body));
+
+    return res;
+  }) as Response['send'];
+
+  next();
+};
@@ -0,0 +1,128 @@
+import { MemoryStore, Options, Store, ClientRateLimitInfo } from 'express-rate-limit';
+import { db } from '../database/postgres';
+
+// After a failed query the database is left alone this long, so requests do not each wait for a connection timeout
+const RETRY_AFTER_MS = 30 * 1000;
+
+// Starts a new window once the old one has passed; the remaining time comes back relative to the
+// database clock, so a clock difference with the app cannot shift the reset
+const INCREMENT_SQL = `INSERT INTO rate_limits (key, hits, reset_at)
+  VALUES ($1, 1, now() + make_interval(secs => $2 / 1000.0))
+  ON CONFLICT (key) DO UPDATE SET
+    hits = CASE WHEN rate_limits.reset_at <= now() THEN 1 ELSE rate_limits.hits + 1 END,
+    reset_at = CASE WHEN rate_limits.reset_at <= now() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+  RETURNING hits, EXTRACT(EPOCH FROM reset_at - now()) * 1000 AS reset_in_ms`;
+
+const toClientInfo = (row: { hits: number; reset_in_ms: string }): ClientRateLimitInfo => ({
+  totalHits: Number(row.hits),
+  resetTime: new Date(Date.now() + Math.max(Number(row.reset_in_ms), 0)),
+});
+
+/**
+ * express-rate-limit store that keeps the counters in Postgres, so a limit holds across every
+ * app instance instead of being multiplied by the number of replicas. Each hit is a single
+ * upsert. When the database cannot be reached the store counts in memory instead: limits are
+ * then enforced per instance, which is looser but never lets traffic through unchecked.
+ */
+export class PostgresRateLimitStore implements Store {
+  localKeys = false;
+  prefix: string;
+
+  private windowMs = 60 * 1000;
+  private fallback = new MemoryStore();
+  private unavailableUntil = 0;
+
+  constructor(name: string) {
+    this.prefix = `${name}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+    this.fallback.init(options);
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    if (this.available()) {
+      try {
+        const result = await db.query(
+          `SELECT hits, EXTRACT(EPOCH FROM reset_at - now()) * 1000 AS reset_in_ms
+           FROM rate_limits WHERE key = $1 AND reset_at > now()`,
+          [this.prefix + key]
+        );
+        this.recovered();
+        return result.rows.length > 0 ? toClientInfo(result.rows[0]) : undefined;
+      } catch (error) {
+        this.failed(error);
+      }
+    }
+
+    return this.fallback.get(key);
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    if (this.available()) {
+      try {
+        const result = await db.query(INCREMENT_SQL, [this.prefix + key, this.windowMs]);
+        this.recovered();
+        return toClientInfo(result.rows[0]);
+      } catch (error) {
+        this.failed(error);
+      }
+    }
+
+    return this.fallback.increment(key);
+  }
+
+  // Undoes a hit for requests the limiter is told to skip; the hit may have been counted in either place
+  async decrement(key: string): Promise<void> {
+    await this.fallback.decrement(key);
+
+    if (this.available()) {
+      try {
+        await db.query('UPDATE rate_limits SET hits = GREATEST(hits - 1, 0) WHERE key = $1', [this.prefix + key]);
+      } catch (error) {
+        this.failed(error);
+      }
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.fallback.resetKey(key);
+
+    if (this.available()) {
+      try {
+        await db.query('DELETE FROM rate_limits WHERE key = $1', [this.prefix + key]);
+      } catch (error) {
+        this.failed(error);
+      }
+    }
+  }
+
+  shutdown(): void {
+    this.fallback.shutdown();
+  }
+
+  private available(): boolean {
+    return Date.now() >= this.unavailableUntil;
+  }
+
+  private failed(error: unknown): void {
+    if (this.unavailableUntil === 0) {
+      console.error(`Rate limit store unavailable, counting ${this.prefix} limits in memory:`, error);
+    }
+    this.unavailableUntil = Date.now() + RETRY_AFTER_MS;
+  }
+
+  private recovered(): void {
+    if (this.unavailableUntil !== 0) {
+      console.log(`Rate limit store is back, counting ${this.prefix} limits in Postgres`);
+      this.unavailableUntil = 0;
+    }
+  }
+}
+
+// Windows that have passed are already ignored; this only keeps the table small
+export const deleteExpiredRateLimits = async (): Promise<number> => {
+  const result = await db.query('DELETE FROM rate_limits WHERE reset_at <= now()');
+  return result.rowCount || 0;
+};
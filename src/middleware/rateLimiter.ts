@@ -1,9 +1,23 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { Store } from 'express-rate-limit';
 import { config } from '../config/env';
+import { PostgresRateLimitStore } from './rateLimitStore';
+
+// Each limiter counts under its own name, so hits on one never use up another's allowance
+const storeFor = (name: string): Store | undefined => {
+  switch (config.RATE_LIMIT_STORE) {
+    case 'postgres':
+      return new PostgresRateLimitStore(name);
+    case 'memory':
+      return undefined;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${config.RATE_LIMIT_STORE}`);
+  }
+};
 
 export const rateLimiter = rateLimit({
   windowMs: config.RATE_LIMIT_WINDOW_MS,
   max: config.RATE_LIMIT_MAX_REQUESTS,
+  store: storeFor('api'),
   message: {
     success: false,
     message: 'Too many requests from this IP, please try again later',
@@ -14,8 +28,9 @@ export const rateLimiter = rateLimit({
 });
 
 export const authRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 5,
+  windowMs: config.AUTH_RATE_LIMIT_WINDOW_MS,
+  max: config.AUTH_RATE_LIMIT_MAX_REQUESTS,
+  store: storeFor('auth'),
   message: {
     success: false,
     message: 'Too many authentication attempts, please try again later',
@@ -26,8 +41,9 @@ export const authRateLimiter = rateLimit({
 });
 
 export const transferRateLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 10,
+  windowMs: config.TRANSFER_RATE_LIMIT_WINDOW_MS,
+  max: config.TRANSFER_RATE_LIMIT_MAX_REQUESTS,
+  store: storeFor('transfer'),
   message: {
     success: false,
     message: 'Too many transfer requests, please try again later',
@@ -36,4 +52,3 @@ export const transferRateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
-
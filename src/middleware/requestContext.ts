@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/requestContext';
+
+// Ids from a gateway or client are kept so one request can be traced across services
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+/**
+ * Gives every request an id, echoed in the X-Request-ID response header, and makes it
+ * available with the caller's IP and user agent to everything the request runs, so audit
+ * records carry them without each caller passing them along. Mounted after the body parsers,
+ * which would otherwise lose the context.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-ID');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+
+  res.setHeader('X-Request-ID', requestId);
+
+  runWithRequestContext({ requestId, ipAddress: req.ip, userAgent: req.get('User-Agent') }, next);
+};
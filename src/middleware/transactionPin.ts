@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { transactionPinService } from '../services/transactionPinService';
+
+/**
+ * Requires the X-Transaction-PIN header. Must run after authenticate and before idempotency,
+ * so a wrong PIN is never stored as the response for an Idempotency-Key.
+ */
+export const requireTransactionPin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: 'Authentication required',
+    });
+    return;
+  }
+
+  try {
+    await transactionPinService.verify(req.user.userId, req.get('X-Transaction-PIN'), req.ip);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  next();
+};
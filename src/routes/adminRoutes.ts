@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/adminController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('support', 'admin'));
+
+router.get('/users', adminController.searchUsers.bind(adminController));
+router.get('/users/:id', adminController.getUser.bind(adminController));
+router.get('/users/:id/wallets', adminController.getUserWallets.bind(adminController));
+router.get('/users/:id/transactions', adminController.getUserTransactions.bind(adminController));
+router.get('/users/:id/statements', adminController.downloadUserStatement.bind(adminController));
+router.put('/users/:id/role', authorize('admin'), adminController.setRole.bind(adminController));
+router.put('/users/:id/limit-tier', authorize('admin'), adminController.setLimitTier.bind(adminController));
+router.get('/users/:id/status-history', adminController.getUserStatusHistory.bind(adminController));
+router.put('/users/:id/status', authorize('admin'), adminController.setUserStatus.bind(adminController));
+router.post('/users/:id/unlock', authorize('admin'), adminController.unlockLogin.bind(adminController));
+router.get('/wallets/:id', adminController.getWallet.bind(adminController));
+router.get('/wallets/:id/status-history', adminController.getWalletStatusHistory.bind(adminController));
+router.put('/wallets/:id/status', authorize('admin'), adminController.setWalletStatus.bind(adminController));
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { auditController } from '../controllers/auditController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticate);
+router.use(authorize('auditor', 'admin'));
+
+router.get('/logs', auditController.searchLogs.bind(auditController));
+router.get('/logs/export', auditController.exportLogs.bind(auditController));
+router.get('/verify', auditController.verifyChain.bind(auditController));
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authController } from '../controllers/authController';
+import { mfaController } from '../controllers/mfaController';
 import { authenticate } from '../middleware/auth';
 import { authRateLimiter } from '../middleware/rateLimiter';
 
@@ -7,7 +8,30 @@ const router = Router();
 
 router.post('/register', authRateLimiter, authController.register.bind(authController));
 router.post('/login', authRateLimiter, authController.login.bind(authController));
+router.post('/login/mfa', authRateLimiter, authController.loginMfa.bind(authController));
+router.post('/refresh', authRateLimiter, authController.refresh.bind(authController));
+router.post('/logout', authenticate, authController.logout.bind(authController));
+router.post('/logout-all', authenticate, authController.logoutAll.bind(authController));
+router.post('/verify-email', authRateLimiter, authController.verifyEmail.bind(authController));
+router.post(
+  '/resend-verification',
+  authRateLimiter,
+  authenticate,
+  authController.resendVerification.bind(authController)
+);
+router.post('/forgot-password', authRateLimiter, authController.forgotPassword.bind(authController));
+router.post('/reset-password', authRateLimiter, authController.resetPassword.bind(authController));
+router.post(
+  '/change-password',
+  authRateLimiter,
+  authenticate,
+  authController.changePassword.bind(authController)
+);
+router.post('/2fa/setup', authenticate, mfaController.setup.bind(mfaController));
+router.post('/2fa/confirm', authRateLimiter, authenticate, mfaController.confirm.bind(mfaController));
+router.post('/2fa/disable', authRateLimiter, authenticate, mfaController.disable.bind(mfaController));
 router.get('/profile', authenticate, authController.getProfile.bind(authController));
+router.get('/activity', authenticate, authController.getSecurityActivity.bind(authController));
 
 export default router;
 
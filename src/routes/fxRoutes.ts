@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { fxController } from '../controllers/fxController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/rates', fxController.getRates.bind(fxController));
+router.put('/rates', authorize('admin'), fxController.setRate.bind(fxController));
+router.post('/quotes', fxController.createQuote.bind(fxController));
+
+export default router;
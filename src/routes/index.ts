@@ -1,11 +1,19 @@
 import { Router } from 'express';
 import authRoutes from './authRoutes';
 import walletRoutes from './walletRoutes';
+import fxRoutes from './fxRoutes';
+import adminRoutes from './adminRoutes';
+import webhookRoutes from './webhookRoutes';
+import auditRoutes from './auditRoutes';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/wallet', walletRoutes);
+router.use('/fx', fxRoutes);
+router.use('/admin', adminRoutes);
+router.use('/webhooks', webhookRoutes);
+router.use('/audit', auditRoutes);
 
 export default router;
 
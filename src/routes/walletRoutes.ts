@@ -1,18 +1,73 @@
 import { Router } from 'express';
 import { walletController } from '../controllers/walletController';
-import { authenticate } from '../middleware/auth';
-import { transferRateLimiter } from '../middleware/rateLimiter';
+import { holdController } from '../controllers/holdController';
+import { scheduledTransferController } from '../controllers/scheduledTransferController';
+import { transactionPinController } from '../controllers/transactionPinController';
+import { eventStreamController } from '../controllers/eventStreamController';
+import { authenticate, authorize } from '../middleware/auth';
+import { authRateLimiter, transferRateLimiter } from '../middleware/rateLimiter';
+import { idempotency } from '../middleware/idempotency';
+import { requireTransactionPin } from '../middleware/transactionPin';
 
 const router = Router();
 
 router.use(authenticate);
 
 router.get('/balance', walletController.getBalance.bind(walletController));
-router.post('/credit', walletController.credit.bind(walletController));
-router.post('/debit', walletController.debit.bind(walletController));
-router.post('/transfer', transferRateLimiter, walletController.transfer.bind(walletController));
+router.get('/wallets', walletController.getWallets.bind(walletController));
+router.get('/events', eventStreamController.stream.bind(eventStreamController));
+router.post('/wallets', walletController.openWallet.bind(walletController));
+router.get('/limits', walletController.getLimits.bind(walletController));
+router.put('/limits', walletController.updateLimits.bind(walletController));
+router.post('/credit', idempotency, walletController.credit.bind(walletController));
+router.post('/debit', requireTransactionPin, idempotency, walletController.debit.bind(walletController));
+router.post(
+  '/transfer',
+  transferRateLimiter,
+  requireTransactionPin,
+  idempotency,
+  walletController.transfer.bind(walletController)
+);
+router.post('/convert', transferRateLimiter, idempotency, walletController.convert.bind(walletController));
+router.post('/pin', authRateLimiter, transactionPinController.setPin.bind(transactionPinController));
+router.post('/pin/change', authRateLimiter, transactionPinController.changePin.bind(transactionPinController));
+router.post('/pin/reset', authRateLimiter, transactionPinController.resetPin.bind(transactionPinController));
+router.get('/holds', holdController.getHolds.bind(holdController));
+router.post('/holds', requireTransactionPin, idempotency, holdController.placeHold.bind(holdController));
+router.post(
+  '/holds/:id/capture',
+  requireTransactionPin,
+  idempotency,
+  holdController.captureHold.bind(holdController)
+);
+router.post('/holds/:id/void', idempotency, holdController.voidHold.bind(holdController));
+router.get('/schedules', scheduledTransferController.getSchedules.bind(scheduledTransferController));
+router.post(
+  '/schedules',
+  requireTransactionPin,
+  idempotency,
+  scheduledTransferController.createSchedule.bind(scheduledTransferController)
+);
+router.get('/schedules/:id/runs', scheduledTransferController.getRuns.bind(scheduledTransferController));
+router.post('/schedules/:id/pause', scheduledTransferController.pauseSchedule.bind(scheduledTransferController));
+router.post('/schedules/:id/resume', scheduledTransferController.resumeSchedule.bind(scheduledTransferController));
+router.post('/schedules/:id/cancel', scheduledTransferController.cancelSchedule.bind(scheduledTransferController));
+router.get('/statements', walletController.downloadStatement.bind(walletController));
 router.get('/transactions', walletController.getTransactionHistory.bind(walletController));
 router.get('/transactions/:reference', walletController.getTransactionByReference.bind(walletController));
+router.post(
+  '/transactions/:reference/reverse',
+  authorize('admin'),
+  idempotency,
+  walletController.reverseTransaction.bind(walletController)
+);
+router.post(
+  '/transactions/:reference/refund',
+  transferRateLimiter,
+  requireTransactionPin,
+  idempotency,
+  walletController.refundTransfer.bind(walletController)
+);
 
 export default router;
 
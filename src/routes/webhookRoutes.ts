@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { webhookController } from '../controllers/webhookController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.get('/', webhookController.listEndpoints.bind(webhookController));
+router.post('/', webhookController.createEndpoint.bind(webhookController));
+router.get('/deliveries/:id', webhookController.getDelivery.bind(webhookController));
+router.post('/deliveries/:id/redeliver', webhookController.redeliver.bind(webhookController));
+router.get('/:id', webhookController.getEndpoint.bind(webhookController));
+router.put('/:id', webhookController.updateEndpoint.bind(webhookController));
+router.delete('/:id', webhookController.deleteEndpoint.bind(webhookController));
+router.post('/:id/rotate-secret', webhookController.rotateSecret.bind(webhookController));
+router.get('/:id/deliveries', webhookController.listDeliveries.bind(webhookController));
+
+export default router;
@@ -0,0 +1,18 @@
+import { db } from '../database/postgres';
+import { auditChainService } from '../services/auditChainService';
+
+// Walks the audit chain and prints the report; exits with 1 when the chain is broken
+const main = async (): Promise<void> => {
+  try {
+    const report = await auditChainService.verify();
+    console.log(JSON.stringify(report, null, 2));
+    process.exitCode = report.valid ? 0 : 1;
+  } finally {
+    await db.close();
+  }
+};
+
+main().catch((error) => {
+  console.error('Audit chain verification failed:', error);
+  process.exit(2);
+});
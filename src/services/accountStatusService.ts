@@ -0,0 +1,211 @@
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { AccountStatus, StatusChange, StatusSubject, WebhookEventType } from '../types';
+import { auditService } from './auditService';
+import { webhookService } from './webhookService';
+
+const STATUSES: AccountStatus[] = ['active', 'frozen', 'suspended', 'closed'];
+
+// Statuses that stop money leaving a wallet, and those that also stop it arriving
+const BLOCKED: Record<'in' | 'out', AccountStatus[]> = {
+  out: ['frozen', 'suspended', 'closed'],
+  in: ['suspended', 'closed'],
+};
+
+// Webhook event suffix for each status a subject moves to, e.g. wallet.frozen
+const STATUS_EVENTS: Record<AccountStatus, string> = {
+  active: 'activated',
+  frozen: 'frozen',
+  suspended: 'suspended',
+  closed: 'closed',
+};
+
+const STATUS_CHANGE_COLUMNS = 'id, subject_type, subject_id, from_status, to_status, reason, changed_by, created_at';
+
+/**
+ * Throws when a wallet, or the user who owns it, may not move money in the given direction.
+ * Takes a row from a wallet lock that selected both status and user_status. Recipients get
+ * one generic message so a sender cannot learn why someone else's account is blocked.
+ */
+export const assertStatusAllows = (
+  wallet: { status?: AccountStatus; user_status?: AccountStatus },
+  direction: 'in' | 'out',
+  owner: 'self' | 'recipient' = 'self'
+): void => {
+  const blocked = BLOCKED[direction];
+  const userBlocked = !!wallet.user_status && blocked.includes(wallet.user_status);
+  const walletBlocked = !!wallet.status && blocked.includes(wallet.status);
+
+  if (!userBlocked && !walletBlocked) {
+    return;
+  }
+
+  if (owner === 'recipient') {
+    throw new AppError(403, 'Recipient account cannot receive funds', 'RECIPIENT_UNAVAILABLE');
+  }
+
+  if (userBlocked) {
+    throw new AppError(403, `Your account is ${wallet.user_status}`, `ACCOUNT_${wallet.user_status!.toUpperCase()}`);
+  }
+
+  throw new AppError(403, `This wallet is ${wallet.status}`, `WALLET_${wallet.status!.toUpperCase()}`);
+};
+
+export class AccountStatusService {
+  async setUserStatus(
+    staffId: string,
+    userId: string,
+    status: AccountStatus,
+    reason: string,
+    ipAddress?: string
+  ): Promise<StatusChange> {
+    if (staffId === userId) {
+      throw new AppError(400, 'You cannot change your own status');
+    }
+
+    return this.changeStatus(staffId, 'user', userId, status, reason, ipAddress);
+  }
+
+  async setWalletStatus(
+    staffId: string,
+    walletId: string,
+    status: AccountStatus,
+    reason: string,
+    ipAddress?: string
+  ): Promise<StatusChange> {
+    return this.changeStatus(staffId, 'wallet', walletId, status, reason, ipAddress);
+  }
+
+  async getHistory(
+    staffId: string,
+    subjectType: StatusSubject,
+    subjectId: string,
+    ipAddress?: string
+  ): Promise<StatusChange[]> {
+    const result = await db.query(
+      `SELECT ${STATUS_CHANGE_COLUMNS}
+       FROM status_changes
+       WHERE subject_type = $1 AND subject_id = $2
+       ORDER BY created_at DESC`,
+      [subjectType, subjectId]
+    );
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_STATUS_HISTORY_VIEWED',
+      eventData: { subjectType, subjectId },
+      ipAddress,
+    });
+
+    return result.rows;
+  }
+
+  private async changeStatus(
+    staffId: string,
+    subjectType: StatusSubject,
+    subjectId: string,
+    status: AccountStatus,
+    reason: string,
+    ipAddress?: string
+  ): Promise<StatusChange> {
+    if (!STATUSES.includes(status)) {
+      throw new AppError(400, `status must be one of ${STATUSES.join(', ')}`);
+    }
+
+    if (typeof reason !== 'string' || reason.trim() === '') {
+      throw new AppError(400, 'A reason is required');
+    }
+
+    const subject = subjectType === 'user' ? 'Account' : 'Wallet';
+
+    const outcome = await db.transaction(async (client) => {
+      const current = await client.query(
+        subjectType === 'user'
+          ? 'SELECT status FROM users WHERE id = $1 FOR UPDATE'
+          : 'SELECT status, balance, held_amount, user_id, currency FROM wallets WHERE id = $1 FOR UPDATE',
+        [subjectId]
+      );
+
+      if (current.rows.length === 0) {
+        throw new AppError(404, subjectType === 'user' ? 'User not found' : 'Wallet not found');
+      }
+
+      const fromStatus: AccountStatus = current.rows[0].status;
+
+      if (fromStatus === status) {
+        throw new AppError(409, `${subject} is already ${status}`);
+      }
+
+      if (fromStatus === 'closed') {
+        throw new AppError(409, `${subject} is closed and cannot be reopened`);
+      }
+
+      // Closing is final, so no money may be left behind in it. Money movements lock wallets, not the
+      // user row, so a user's wallets are locked too before their balances are trusted
+      if (status === 'closed') {
+        const wallets =
+          subjectType === 'user'
+            ? (
+                await client.query(
+                  'SELECT balance, held_amount FROM wallets WHERE user_id = $1 ORDER BY id FOR UPDATE',
+                  [subjectId]
+                )
+              ).rows
+            : current.rows;
+        const funded = wallets.some(
+          (wallet) => parseFloat(wallet.balance) !== 0 || parseFloat(wallet.held_amount) !== 0
+        );
+
+        if (funded) {
+          throw new AppError(409, `${subject} must have no balance or holds before it is closed`);
+        }
+      }
+
+      await client.query(`UPDATE ${subjectType === 'user' ? 'users' : 'wallets'} SET status = $1 WHERE id = $2`, [
+        status,
+        subjectId,
+      ]);
+
+      const inserted = await client.query(
+        `INSERT INTO status_changes (subject_type, subject_id, from_status, to_status, reason, changed_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING ${STATUS_CHANGE_COLUMNS}`,
+        [subjectType, subjectId, fromStatus, status, reason.trim(), staffId]
+      );
+
+      const wallet = subjectType === 'wallet' ? current.rows[0] : null;
+
+      return {
+        change: inserted.rows[0] as StatusChange,
+        ownerId: wallet ? (wallet.user_id as string) : subjectId,
+        currency: wallet ? (wallet.currency as string).trim() : null,
+      };
+    });
+
+    const { change } = outcome;
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: subjectType === 'user' ? 'USER_STATUS_CHANGED' : 'WALLET_STATUS_CHANGED',
+      eventData: {
+        [subjectType === 'user' ? 'userId' : 'walletId']: subjectId,
+        from: change.from_status,
+        to: change.to_status,
+        reason: change.reason,
+      },
+      ipAddress,
+    });
+
+    // The reason is staff-only, so it is left out of what the user's endpoints receive
+    const webhookEvent = `${subjectType === 'user' ? 'account' : 'wallet'}.${STATUS_EVENTS[status]}` as WebhookEventType;
+    await webhookService.publish(outcome.ownerId, webhookEvent, {
+      ...(subjectType === 'wallet' && { wallet_id: subjectId, currency: outcome.currency }),
+      from_status: change.from_status,
+      to_status: change.to_status,
+    });
+
+    return change;
+  }
+}
+
+export const accountStatusService = new AccountStatusService();
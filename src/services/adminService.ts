@@ -0,0 +1,212 @@
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import {
+  LimitTier,
+  StaffUserView,
+  TransactionHistoryFilters,
+  TransactionHistoryPage,
+  UserRole,
+  UserSearchResult,
+  Wallet,
+} from '../types';
+import { auditService } from './auditService';
+import { sessionService } from './sessionService';
+import { walletService } from './walletService';
+
+const ROLES: UserRole[] = ['user', 'support', 'admin', 'auditor'];
+
+const LIMIT_TIERS: LimitTier[] = ['basic', 'standard', 'premium'];
+
+const PROFILE_COLUMNS = 'id, email, full_name, phone_number, is_verified, role, status, limit_tier, created_at';
+
+/**
+ * Lookups for support and admin staff. Every call is audited with the staff member as the actor,
+ * including read-only ones, so there is a record of who looked at which customer.
+ */
+export class AdminService {
+  async searchUsers(
+    staffId: string,
+    query: string = '',
+    page: number = 1,
+    limit: number = 20,
+    ipAddress?: string
+  ): Promise<UserSearchResult> {
+    if (page < 1) page = 1;
+    if (limit < 1 || limit > 100) limit = 20;
+
+    const offset = (page - 1) * limit;
+    const term = query.trim();
+
+    // Escaped so a search for "a_b" does not match every four-character name
+    const pattern = `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    const filter = term ? ' WHERE email ILIKE $1 OR full_name ILIKE $1 OR phone_number ILIKE $1' : '';
+    const params: any[] = term ? [pattern] : [];
+
+    const countResult = await db.query(`SELECT COUNT(*) FROM users${filter}`, params);
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const result = await db.query(
+      `SELECT ${PROFILE_COLUMNS}
+       FROM users${filter}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_USERS_SEARCHED',
+      eventData: { query: term, page, results: result.rows.length },
+      ipAddress,
+    });
+
+    return {
+      users: result.rows,
+      total,
+      page,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async getUser(staffId: string, userId: string, ipAddress?: string): Promise<StaffUserView> {
+    const user = await this.findUser(userId);
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_USER_VIEWED',
+      eventData: { userId },
+      ipAddress,
+    });
+
+    return user;
+  }
+
+  async getUserWallets(staffId: string, userId: string, ipAddress?: string): Promise<Wallet[]> {
+    await this.findUser(userId);
+
+    const wallets = await walletService.getWallets(userId);
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_WALLETS_VIEWED',
+      eventData: { userId },
+      ipAddress,
+    });
+
+    return wallets;
+  }
+
+  async getWallet(staffId: string, walletId: string, ipAddress?: string): Promise<Wallet> {
+    const result = await db.query(
+      'SELECT id, user_id, currency, balance, held_amount, status, created_at, updated_at FROM wallets WHERE id = $1',
+      [walletId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Wallet not found');
+    }
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_WALLET_VIEWED',
+      eventData: { walletId, userId: result.rows[0].user_id },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  async getUserTransactions(
+    staffId: string,
+    userId: string,
+    page?: number,
+    limit?: number,
+    currency?: string,
+    filters: TransactionHistoryFilters = {},
+    ipAddress?: string
+  ): Promise<TransactionHistoryPage> {
+    await this.findUser(userId);
+
+    const history = await walletService.getTransactionHistory(userId, page, limit, currency, filters);
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_TRANSACTIONS_VIEWED',
+      eventData: { userId, currency: currency || null, page: history.page, filters },
+      ipAddress,
+    });
+
+    return history;
+  }
+
+  // The user's sessions are revoked so a demoted staff member loses access straight away
+  async setRole(staffId: string, userId: string, role: UserRole, ipAddress?: string): Promise<StaffUserView> {
+    if (!ROLES.includes(role)) {
+      throw new AppError(400, `role must be one of ${ROLES.join(', ')}`);
+    }
+
+    if (staffId === userId) {
+      throw new AppError(400, 'You cannot change your own role');
+    }
+
+    const current = await this.findUser(userId);
+
+    if (current.role === role) {
+      return current;
+    }
+
+    const result = await db.query(`UPDATE users SET role = $1 WHERE id = $2 RETURNING ${PROFILE_COLUMNS}`, [
+      role,
+      userId,
+    ]);
+
+    const revoked = await sessionService.revokeAllSessions(userId);
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_ROLE_CHANGED',
+      eventData: { userId, from: current.role, to: role, revokedSessions: revoked },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  async setLimitTier(staffId: string, userId: string, tier: LimitTier, ipAddress?: string): Promise<StaffUserView> {
+    if (!LIMIT_TIERS.includes(tier)) {
+      throw new AppError(400, `tier must be one of ${LIMIT_TIERS.join(', ')}`);
+    }
+
+    const current = await this.findUser(userId);
+
+    if (current.limit_tier === tier) {
+      return current;
+    }
+
+    const result = await db.query(`UPDATE users SET limit_tier = $1 WHERE id = $2 RETURNING ${PROFILE_COLUMNS}`, [
+      tier,
+      userId,
+    ]);
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'ADMIN_LIMIT_TIER_CHANGED',
+      eventData: { userId, from: current.limit_tier, to: tier },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  private async findUser(userId: string): Promise<StaffUserView> {
+    const result = await db.query(`SELECT ${PROFILE_COLUMNS} FROM users WHERE id = $1`, [userId]);
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    return result.rows[0];
+  }
+}
+
+export const adminService = new AdminService();
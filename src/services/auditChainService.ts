@@ -0,0 +1,160 @@
+import { timingSafeEqual } from 'crypto';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AuditChainEntry, AuditChainReport, AuditCheckpoint } from '../types';
+import { auditEntryHash, signCheckpoint } from '../utils/auditChain';
+import { auditService } from './auditService';
+
+const CHAIN_COLUMNS = `seq, prev_hash, hash, actor_id, event_type, event_data, ip_address, user_agent, request_id,
+  to_char(created_at, 'YYYY-MM-DD HH24:MI:SS.US') AS created_at`;
+
+const CHECKPOINT_COLUMNS = 'id, seq, hash, signature, created_at';
+
+// Longest list of problems a report holds; the chain is broken either way
+const MAX_REPORTED = 100;
+
+const isSignedBy = (checkpoint: AuditCheckpoint): boolean => {
+  const expected = Buffer.from(signCheckpoint(config.AUDIT_CHECKPOINT_SECRET, checkpoint.seq, checkpoint.hash));
+  const actual = Buffer.from(checkpoint.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Checkpoints and verification of the hash-chained audit log. A checkpoint signs the head of
+ * the chain with AUDIT_CHECKPOINT_SECRET, which the database never sees: someone who edits a
+ * record and recomputes every hash after it still cannot produce checkpoints that match.
+ */
+export class AuditChainService {
+  // Signs the current head; returns null when nothing was written since the last checkpoint
+  async checkpoint(): Promise<AuditCheckpoint | null> {
+    const head = await db.query('SELECT seq, hash FROM audit_chain_head');
+    if (head.rows.length === 0 || !head.rows[0].hash) {
+      return null;
+    }
+
+    const { seq, hash } = head.rows[0];
+    const result = await db.query(
+      `INSERT INTO audit_checkpoints (seq, hash, signature)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (seq) DO NOTHING
+       RETURNING ${CHECKPOINT_COLUMNS}`,
+      [seq, hash, signCheckpoint(config.AUDIT_CHECKPOINT_SECRET, seq, hash)]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Walks the chain from its first record and reports what no longer adds up: records whose
+   * content or hash changed, sequence numbers that are gone, checkpoints that are forged or no
+   * longer match, and records added without joining the chain. The rows stream through a
+   * cursor, so a long chain is checked in constant memory. The run itself is audited.
+   */
+  async verify(actorId: string | null = null, ipAddress?: string): Promise<AuditChainReport> {
+    const report: AuditChainReport = {
+      valid: true,
+      checked: 0,
+      head_seq: '0',
+      first_broken_seq: null,
+      changed: [],
+      missing: [],
+      invalid_checkpoints: [],
+      unchained: 0,
+    };
+
+    const broken = (seq: number): void => {
+      report.valid = false;
+      if (report.first_broken_seq === null || seq < Number(report.first_broken_seq)) {
+        report.first_broken_seq = String(seq);
+      }
+    };
+    const changed = (seq: number): void => {
+      broken(seq);
+      if (report.changed.length < MAX_REPORTED && report.changed[report.changed.length - 1] !== String(seq)) {
+        report.changed.push(String(seq));
+      }
+    };
+    const missing = (from: number, to: number): void => {
+      broken(from);
+      if (report.missing.length < MAX_REPORTED) {
+        report.missing.push({ from: String(from), to: String(to) });
+      }
+    };
+
+    const headResult = await db.query('SELECT seq, hash FROM audit_chain_head');
+    const head = headResult.rows[0] || { seq: '0', hash: null };
+    report.head_seq = String(head.seq);
+
+    // Only checkpoints with a valid signature are trusted to say what the chain looked like
+    const signed = new Map<number, string>();
+    let lastSigned = 0;
+    const checkpoints = await db.query(`SELECT ${CHECKPOINT_COLUMNS} FROM audit_checkpoints ORDER BY seq`);
+    for (const checkpoint of checkpoints.rows as AuditCheckpoint[]) {
+      if (isSignedBy(checkpoint)) {
+        signed.set(Number(checkpoint.seq), checkpoint.hash);
+        lastSigned = Math.max(lastSigned, Number(checkpoint.seq));
+      } else {
+        broken(Number(checkpoint.seq));
+        if (report.invalid_checkpoints.length < MAX_REPORTED) {
+          report.invalid_checkpoints.push(String(checkpoint.id));
+        }
+      }
+    }
+
+    let previous: { seq: number; hash: string } | null = null;
+    const rows = db.iterate(`SELECT ${CHAIN_COLUMNS} FROM audit_logs WHERE seq IS NOT NULL ORDER BY seq`);
+
+    for await (const row of rows as AsyncIterable<AuditChainEntry & { hash: string }>) {
+      const seq = Number(row.seq);
+      const expected = previous ? previous.seq + 1 : 1;
+      report.checked += 1;
+
+      if (seq > expected) {
+        missing(expected, seq - 1);
+      } else if (row.prev_hash !== (previous ? previous.hash : null)) {
+        // The record before was rewritten along with its hash
+        changed(previous ? previous.seq : seq);
+      }
+
+      if (auditEntryHash(row) !== row.hash || (signed.has(seq) && signed.get(seq) !== row.hash)) {
+        changed(seq);
+      }
+
+      // Records past the head were not written through the chain
+      if (seq > Number(head.seq)) {
+        changed(seq);
+      }
+
+      previous = { seq, hash: row.hash };
+    }
+
+    // Records cut from the end still show against the head and the latest checkpoint
+    const last = previous ? previous.seq : 0;
+    const end = Math.max(Number(head.seq), lastSigned);
+    if (end > last) {
+      missing(last + 1, end);
+    } else if (previous && Number(head.seq) === last && head.hash !== previous.hash) {
+      changed(last);
+    }
+
+    const unchained = await db.query(
+      `SELECT COUNT(*) FROM audit_logs
+       WHERE seq IS NULL AND id > (SELECT MIN(id) FROM audit_logs WHERE seq IS NOT NULL)`
+    );
+    report.unchained = parseInt(unchained.rows[0].count, 10);
+    if (report.unchained > 0) {
+      report.valid = false;
+    }
+
+    await auditService.log({
+      actorId,
+      eventType: 'AUDIT_CHAIN_VERIFIED',
+      eventData: { valid: report.valid, checked: report.checked, firstBrokenSeq: report.first_broken_seq },
+      ipAddress,
+    });
+
+    return report;
+  }
+}
+
+export const auditChainService = new AuditChainService();
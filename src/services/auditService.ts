@@ -1,4 +1,20 @@
+import { PoolClient } from 'pg';
+import { Writable } from 'stream';
 import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import {
+  AuditChainEntry,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogPage,
+  SecurityActivityPage,
+  Transaction,
+} from '../types';
+import { auditEntryHash } from '../utils/auditChain';
+import { chunkWriter, csvRow } from '../utils/csv';
+import { dateParam, listParam } from '../utils/queryParams';
+import { getRequestContext } from '../utils/requestContext';
+import { exportLimiter } from './exportLimiter';
 
 interface AuditLogData {
   actorId: string | null;
@@ -6,27 +22,240 @@ interface AuditLogData {
   eventData: any;
   ipAddress?: string;
   userAgent?: string;
+  requestId?: string;
 }
 
+const AUDIT_LOG_COLUMNS =
+  'l.id, l.actor_id, u.email AS actor_email, l.event_type, l.event_data, l.ip_address, l.user_agent, l.request_id, l.created_at';
+
+const ACTIVITY_COLUMNS = 'id, event_type, event_data, ip_address, user_agent, created_at';
+
+// Sign-ins, credential changes and money movements, as shown to the user they concern
+const SECURITY_ACTIVITY_EVENTS = [
+  'USER_REGISTERED',
+  'USER_LOGIN',
+  'USER_LOGIN_FAILED',
+  'USER_LOGIN_LOCKED',
+  'USER_LOGOUT',
+  'USER_LOGOUT_ALL',
+  'EMAIL_VERIFIED',
+  'PASSWORD_CHANGED',
+  'PASSWORD_RESET_REQUESTED',
+  'PASSWORD_RESET',
+  'REFRESH_TOKEN_REUSED',
+  'MFA_ENABLED',
+  'MFA_DISABLED',
+  'MFA_CODE_FAILED',
+  'MFA_LOCKED',
+  'TRANSACTION_PIN_SET',
+  'TRANSACTION_PIN_CHANGED',
+  'TRANSACTION_PIN_RESET',
+  'TRANSACTION_PIN_FAILED',
+  'TRANSACTION_PIN_LOCKED',
+  'TRANSACTION_CREATED',
+  'TRANSACTION_REJECTED',
+  'FX_CONVERSION',
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const ID_PATTERN = /^\d{1,18}$/;
+
+// Dot-separated keys into event_data, e.g. transactionId or conversion.rate
+const DATA_PATH_PATTERN = /^[A-Za-z0-9_]+(\.[A-Za-z0-9_]+)*$/;
+
+const MAX_DATA_FILTERS = 5;
+
+const encodeCursor = (id: string): string => Buffer.from(id).toString('base64url');
+
+const decodeCursor = (cursor: string): string => {
+  const id = Buffer.from(cursor, 'base64url').toString('utf8');
+
+  if (!ID_PATTERN.test(id)) {
+    throw new AppError(400, 'Invalid cursor');
+  }
+
+  return id;
+};
+
+const csvTimestamp = (date: Date): string => new Date(date).toISOString();
+
 export class AuditService {
+  // Best effort: a failure is logged, never thrown, so auditing cannot fail the caller
   async log(data: AuditLogData): Promise<void> {
     try {
-      await db.query(
-        `INSERT INTO audit_logs (actor_id, event_type, event_data, ip_address, user_agent)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [
-          data.actorId,
-          data.eventType,
-          JSON.stringify(data.eventData),
-          data.ipAddress || null,
-          data.userAgent || null,
-        ]
-      );
+      await this.record(data);
     } catch (error) {
       console.error('Failed to create audit log:', error);
     }
   }
 
+  /**
+   * Throws when the row cannot be written, for callers that retry or must not go on without the
+   * record. Given a client, the record is written in that transaction and commits or rolls back
+   * with it. Details the caller leaves out are taken from the request being served, if any.
+   */
+  async record(data: AuditLogData, client?: PoolClient): Promise<void> {
+    if (client) {
+      await this.append(client, data);
+    } else {
+      await db.transaction((transactionClient) => this.append(transactionClient, data));
+    }
+  }
+
+  /**
+   * TRANSACTION_CREATED records for the transactions a money movement is writing, in its own DB
+   * transaction so a committed movement is never missing from the audit log. Call it last: the
+   * chain head stays locked until the commit, and taking it after the wallet locks keeps lock
+   * order the same everywhere.
+   */
+  async recordTransactions(client: PoolClient, transactions: Transaction[], ipAddress?: string): Promise<void> {
+    for (const transaction of transactions) {
+      await this.append(client, {
+        actorId: transaction.user_id,
+        eventType: 'TRANSACTION_CREATED',
+        eventData: {
+          transactionId: transaction.id,
+          reference: transaction.reference,
+          type: transaction.type,
+          amount: transaction.amount,
+        },
+        ipAddress,
+      });
+    }
+  }
+
+  /**
+   * Audit records for auditors and admins, newest first. Pages follow the id, so a page holds
+   * its place while new records arrive. The search itself is audited.
+   */
+  async search(
+    staffId: string,
+    filters: AuditLogFilters = {},
+    cursor?: string,
+    limit: number = 50,
+    ipAddress?: string
+  ): Promise<AuditLogPage> {
+    if (limit < 1 || limit > 200) limit = 50;
+
+    const { filter, params } = this.buildFilter(filters);
+    let keyset = '';
+
+    if (cursor) {
+      params.push(decodeCursor(cursor));
+      keyset = ` AND l.id < $${params.length}`;
+    }
+
+    const result = await db.query(
+      `SELECT ${AUDIT_LOG_COLUMNS}
+       FROM audit_logs l
+       LEFT JOIN users u ON u.id = l.actor_id
+       WHERE ${filter}${keyset}
+       ORDER BY l.id DESC
+       LIMIT $${params.length + 1}`,
+      [...params, limit + 1]
+    );
+
+    const logs: AuditLogEntry[] = result.rows.slice(0, limit);
+
+    await this.log({
+      actorId: staffId,
+      eventType: 'AUDIT_LOGS_SEARCHED',
+      eventData: { filters, results: logs.length },
+      ipAddress,
+    });
+
+    return {
+      logs,
+      next_cursor: result.rows.length > limit ? encodeCursor(logs[logs.length - 1].id) : null,
+      limit,
+    };
+  }
+
+  /**
+   * Every record matching the filters as CSV, oldest first, read through a database cursor so
+   * the export streams in constant memory. Filters are checked before anything is written.
+   */
+  async export(staffId: string, filters: AuditLogFilters, output: Writable, ipAddress?: string): Promise<number> {
+    const { filter, params } = this.buildFilter(filters);
+    const release = exportLimiter.acquire(staffId);
+    const write = chunkWriter(output);
+    let count = 0;
+
+    try {
+      await write(
+        csvRow(['Id', 'Time', 'Actor id', 'Actor email', 'Event', 'Data', 'IP address', 'User agent', 'Request id'])
+      );
+
+      const rows = db.iterate(
+        `SELECT ${AUDIT_LOG_COLUMNS}
+         FROM audit_logs l
+         LEFT JOIN users u ON u.id = l.actor_id
+         WHERE ${filter}
+         ORDER BY l.id`,
+        params
+      );
+
+      for await (const row of rows as AsyncIterable<AuditLogEntry>) {
+        count += 1;
+        await write(
+          csvRow([
+            row.id,
+            csvTimestamp(row.created_at),
+            row.actor_id || '',
+            row.actor_email || '',
+            row.event_type,
+            row.event_data ? JSON.stringify(row.event_data) : '',
+            row.ip_address || '',
+            row.user_agent || '',
+            row.request_id || '',
+          ])
+        );
+      }
+    } finally {
+      release();
+    }
+
+    await this.log({
+      actorId: staffId,
+      eventType: 'AUDIT_LOGS_EXPORTED',
+      eventData: { filters, results: count },
+      ipAddress,
+    });
+
+    return count;
+  }
+
+  // The user's own sign-ins, security changes and money movements, newest first
+  async getSecurityActivity(userId: string, cursor?: string, limit: number = 20): Promise<SecurityActivityPage> {
+    if (limit < 1 || limit > 100) limit = 20;
+
+    const params: any[] = [userId, SECURITY_ACTIVITY_EVENTS];
+    let keyset = '';
+
+    if (cursor) {
+      params.push(decodeCursor(cursor));
+      keyset = ` AND id < $${params.length}`;
+    }
+
+    const result = await db.query(
+      `SELECT ${ACTIVITY_COLUMNS}
+       FROM audit_logs
+       WHERE actor_id = $1 AND event_type = ANY($2)${keyset}
+       ORDER BY id DESC
+       LIMIT $${params.length + 1}`,
+      [...params, limit + 1]
+    );
+
+    const activity = result.rows.slice(0, limit);
+
+    return {
+      activity,
+      next_cursor: result.rows.length > limit ? encodeCursor(activity[activity.length - 1].id) : null,
+      limit,
+    };
+  }
+
   async logUserRegistration(userId: string, email: string, ipAddress?: string): Promise<void> {
     await this.log({
       actorId: userId,
@@ -59,6 +288,111 @@ export class AuditService {
       ipAddress,
     });
   }
+
+  /**
+   * Chains the record to the one before it while the chain head is locked, so writes happen one
+   * at a time and the sequence has no gaps.
+   */
+  private async append(client: PoolClient, data: AuditLogData): Promise<void> {
+    const context = getRequestContext();
+    // Hashed the way it reads back from JSONB, without undefined fields or Date objects
+    const eventData = data.eventData === undefined ? null : JSON.parse(JSON.stringify(data.eventData));
+
+    const head = await client.query(
+      `SELECT seq, hash, to_char(LOCALTIMESTAMP, 'YYYY-MM-DD HH24:MI:SS.US') AS now
+       FROM audit_chain_head
+       FOR UPDATE`
+    );
+    if (head.rows.length === 0) {
+      throw new Error('Audit chain head is missing');
+    }
+
+    const entry: AuditChainEntry = {
+      seq: String(Number(head.rows[0].seq) + 1),
+      prev_hash: head.rows[0].hash,
+      actor_id: data.actorId,
+      event_type: data.eventType,
+      event_data: eventData,
+      ip_address: data.ipAddress || context?.ipAddress || null,
+      user_agent: data.userAgent || context?.userAgent || null,
+      request_id: data.requestId || context?.requestId || null,
+      created_at: head.rows[0].now,
+    };
+    const hash = auditEntryHash(entry);
+
+    await client.query(
+      `INSERT INTO audit_logs
+         (actor_id, event_type, event_data, ip_address, user_agent, request_id, seq, prev_hash, hash, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        entry.actor_id,
+        entry.event_type,
+        JSON.stringify(entry.event_data),
+        entry.ip_address,
+        entry.user_agent,
+        entry.request_id,
+        entry.seq,
+        entry.prev_hash,
+        hash,
+        entry.created_at,
+      ]
+    );
+
+    await client.query('UPDATE audit_chain_head SET seq = $1, hash = $2, updated_at = now()', [entry.seq, hash]);
+  }
+
+  // from is inclusive and to exclusive, like the transaction history filters
+  private buildFilter(filters: AuditLogFilters): { filter: string; params: any[] } {
+    const params: any[] = [];
+    const param = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    const conditions: string[] = [];
+
+    if (filters.actor_id) {
+      if (!UUID_PATTERN.test(filters.actor_id)) {
+        throw new AppError(400, 'actor_id must be a valid user id');
+      }
+      conditions.push(`l.actor_id = ${param(filters.actor_id)}`);
+    }
+
+    const eventTypes = listParam(filters.event_type).map((type) => type.toUpperCase());
+    if (eventTypes.length > 0) {
+      conditions.push(`l.event_type = ANY(${param(eventTypes)})`);
+    }
+
+    if (filters.request_id) {
+      conditions.push(`l.request_id = ${param(filters.request_id)}`);
+    }
+
+    const from = dateParam('from', filters.from);
+    const to = dateParam('to', filters.to);
+    if (from && to && from >= to) {
+      throw new AppError(400, 'from must be earlier than to');
+    }
+    if (from) {
+      conditions.push(`l.created_at >= ${param(from)}`);
+    }
+    if (to) {
+      conditions.push(`l.created_at < ${param(to)}`);
+    }
+
+    const data = Object.entries(filters.data || {});
+    if (data.length > MAX_DATA_FILTERS) {
+      throw new AppError(400, `No more than ${MAX_DATA_FILTERS} data filters can be combined`);
+    }
+    for (const [path, value] of data) {
+      if (!DATA_PATH_PATTERN.test(path)) {
+        throw new AppError(400, `data.${path} is not a valid event data field`);
+      }
+      // Compared as text, the way the value reads in the JSON, e.g. data.amount=100.00 or data.locked=true
+      conditions.push(`l.event_data #>> ${param(path.split('.'))} = ${param(String(value))}`);
+    }
+
+    return { filter: conditions.length > 0 ? conditions.join(' AND ') : 'TRUE', params };
+  }
 }
 
 export const auditService = new AuditService();
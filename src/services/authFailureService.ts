@@ -0,0 +1,85 @@
+import { auditService } from './auditService';
+import { getRequestContext } from '../utils/requestContext';
+
+// Distinct sources kept per window; anything past this is counted under its reason alone
+const MAX_SOURCES = 1000;
+
+// Request paths kept per source, enough to see what was being probed
+const MAX_PATHS = 10;
+
+interface FailureCount {
+  reason: string;
+  ipAddress?: string;
+  userAgent?: string;
+  count: number;
+  paths: Set<string>;
+  firstAt: Date;
+  lastAt: Date;
+}
+
+/**
+ * Counts requests refused before anyone is identified (no token, or one that fails verification)
+ * and writes one AUTHENTICATION_FAILED record per source IP and reason for each window. Anyone
+ * can send these, so writing a chained audit record for each one would let a flood of them
+ * serialise every other audit write behind the chain head. Counts not yet flushed are lost if
+ * the process dies.
+ */
+export class AuthFailureService {
+  private counts = new Map<string, FailureCount>();
+
+  note(reason: string, method: string, path: string): void {
+    const context = getRequestContext();
+    let key = `${context?.ipAddress || ''}|${reason}`;
+
+    if (!this.counts.has(key) && this.counts.size >= MAX_SOURCES) {
+      key = `|${reason}`;
+    }
+
+    const now = new Date();
+    let entry = this.counts.get(key);
+    if (!entry) {
+      entry = {
+        reason,
+        ipAddress: key.startsWith('|') ? undefined : context?.ipAddress,
+        userAgent: context?.userAgent,
+        count: 0,
+        paths: new Set(),
+        firstAt: now,
+        lastAt: now,
+      };
+      this.counts.set(key, entry);
+    }
+
+    entry.count += 1;
+    entry.lastAt = now;
+    if (entry.paths.size < MAX_PATHS) {
+      entry.paths.add(`${method} ${path}`);
+    }
+  }
+
+  // Writes what was counted since the last flush and returns the number of records written
+  async flush(): Promise<number> {
+    const counts = this.counts;
+    this.counts = new Map();
+
+    for (const entry of counts.values()) {
+      await auditService.log({
+        actorId: null,
+        eventType: 'AUTHENTICATION_FAILED',
+        eventData: {
+          reason: entry.reason,
+          count: entry.count,
+          paths: Array.from(entry.paths),
+          firstAt: entry.firstAt.toISOString(),
+          lastAt: entry.lastAt.toISOString(),
+        },
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+      });
+    }
+
+    return counts.size;
+  }
+}
+
+export const authFailureService = new AuthFailureService();
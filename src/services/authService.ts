@@ -1,13 +1,21 @@
 import { db } from '../database/postgres';
+import { config } from '../config/env';
 import { hashPassword, comparePassword } from '../utils/password';
-import { generateToken } from '../utils/jwt';
-import { isValidEmail, isValidPassword, isValidPhoneNumber } from '../utils/validators';
+import { generateToken, generateMfaToken, verifyMfaToken } from '../utils/jwt';
+import { isValidEmail, isValidPassword, isValidPhoneNumber, DEFAULT_CURRENCY } from '../utils/validators';
 import { AppError } from '../middleware/errorHandler';
-import { RegisterRequest, LoginRequest, UserProfile } from '../types';
+import { RegisterRequest, LoginRequest, UserProfile, AuthTokens, UserRole, MfaChallenge } from '../types';
+import { mailer } from '../mail';
+import { passwordResetEmail } from '../mail/templates';
 import { auditService } from './auditService';
+import { sessionService } from './sessionService';
+import { emailVerificationService } from './emailVerificationService';
+import { userTokenService } from './userTokenService';
+import { mfaService } from './mfaService';
+import { loginLockoutService } from './loginLockoutService';
 
 export class AuthService {
-  async register(data: RegisterRequest, ipAddress?: string): Promise<{ user: UserProfile; token: string }> {
+  async register(data: RegisterRequest, ipAddress?: string): Promise<{ user: UserProfile } & AuthTokens> {
   
     let isError = false, message = '';
     
@@ -55,7 +63,7 @@ export class AuthService {
       const userResult = await client.query(
         `INSERT INTO users (email, password_hash, full_name, phone_number)
          VALUES ($1, $2, $3, $4)
-         RETURNING id, email, full_name, phone_number, is_verified, created_at`,
+         RETURNING id, email, full_name, phone_number, is_verified, role, created_at`,
         [data.email, passwordHash, data.full_name.trim(), data.phone_number || null]
       );
 
@@ -64,7 +72,7 @@ export class AuthService {
       await client.query(
         `INSERT INTO wallets (user_id, currency, balance)
          VALUES ($1, $2, $3)`,
-        [user.id, 'NGN', 0.00]
+        [user.id, DEFAULT_CURRENCY, 0.00]
       );
 
       return user;
@@ -72,7 +80,14 @@ export class AuthService {
 
     await auditService.logUserRegistration(result.id, result.email, ipAddress);
 
-    const token = generateToken({ userId: result.id, email: result.email });
+    // A mail outage must not undo the registration; the user can ask for another email
+    try {
+      await emailVerificationService.sendVerificationEmail(result.id, ipAddress);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+    }
+
+    const tokens = await this.issueTokens(result.id, result.email, result.role, ipAddress);
 
     return {
       user: {
@@ -81,37 +96,295 @@ export class AuthService {
         full_name: result.full_name,
         phone_number: result.phone_number,
         is_verified: result.is_verified,
+        role: result.role,
         created_at: result.created_at,
       },
-      token,
+      ...tokens,
     };
   }
 
-  async login(data: LoginRequest, ipAddress?: string): Promise<{ user: UserProfile; token: string }> {
+  /**
+   * Checks the password. Users with 2FA get an MFA challenge instead of tokens, and finish the
+   * login through completeMfaLogin. While the account is locked out or backing off, even the right
+   * password gets the wrong-password response, so neither the lock nor the account shows.
+   */
+  async login(data: LoginRequest, ipAddress?: string): Promise<({ user: UserProfile } & AuthTokens) | MfaChallenge> {
     if (!isValidEmail(data.email)) {
       throw new AppError(400, 'Invalid email format');
     }
 
     const result = await db.query(
-      'SELECT id, email, password_hash, full_name, phone_number, is_verified, created_at FROM users WHERE email = $1',
+      `SELECT id, email, password_hash, full_name, phone_number, is_verified, role, totp_enabled, created_at,
+              login_locked_until > now() AS login_locked
+       FROM users WHERE email = $1`,
       [data.email]
     );
 
     // Message same as register, to avoid information leakage
     if (result.rows.length === 0) {
-      throw new AppError(401, 'Invalid email or password');
+      await this.auditFailedLogin(null, data.email, 'UNKNOWN_EMAIL', ipAddress);
+      throw new AppError(401, 'Invalid email or password', 'INVALID_CREDENTIALS');
     }
 
     const user = result.rows[0];
+    // Checked even when locked, so a locked account takes as long to answer as any other
     const isPasswordValid = await comparePassword(data.password, user.password_hash);
 
+    if (user.login_locked) {
+      await this.auditFailedLogin(user.id, data.email, 'ACCOUNT_LOCKED', ipAddress);
+      throw new AppError(401, 'Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
     if (!isPasswordValid) {
-      throw new AppError(401, 'Invalid email or password');
+      await loginLockoutService.recordFailure(user, ipAddress);
+      await this.auditFailedLogin(user.id, data.email, 'INVALID_PASSWORD', ipAddress);
+      throw new AppError(401, 'Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    await loginLockoutService.recordSuccess(user.id);
+
+    if (user.totp_enabled) {
+      return { mfa_required: true, mfa_token: generateMfaToken(user.id) };
+    }
+
+    return this.completeLogin(user, ipAddress);
+  }
+
+  // Second login step: swaps the MFA token from login and a TOTP or recovery code for real tokens
+  async completeMfaLogin(
+    mfaToken: string,
+    code: string,
+    ipAddress?: string
+  ): Promise<{ user: UserProfile } & AuthTokens> {
+    let userId: string;
+    try {
+      userId = verifyMfaToken(mfaToken);
+    } catch (error) {
+      throw new AppError(401, error instanceof Error ? error.message : 'Invalid or expired MFA token');
+    }
+
+    await mfaService.verifyCode(userId, code, 'login', ipAddress);
+
+    const result = await db.query(
+      'SELECT id, email, full_name, phone_number, is_verified, role, created_at FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(401, 'Invalid or expired MFA token');
+    }
+
+    return this.completeLogin(result.rows[0], ipAddress);
+  }
+
+  async refresh(refreshToken: string, ipAddress?: string): Promise<AuthTokens> {
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      throw new AppError(400, 'refresh_token is required');
+    }
+
+    const session = await sessionService.rotate(refreshToken, ipAddress);
+
+    const user = await this.getUserById(session.userId);
+    if (!user) {
+      throw new AppError(401, 'Invalid refresh token');
+    }
+
+    return {
+      token: generateToken({ userId: user.id, email: user.email, role: user.role, sessionId: session.sessionId }),
+      refresh_token: session.refreshToken,
+    };
+  }
+
+  async logout(userId: string, sessionId: string, ipAddress?: string): Promise<void> {
+    await sessionService.revokeSession(sessionId, userId);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'USER_LOGOUT',
+      eventData: { sessionId },
+      ipAddress,
+    });
+  }
+
+  async logoutAll(userId: string, ipAddress?: string): Promise<{ revoked_sessions: number }> {
+    const revoked = await sessionService.revokeAllSessions(userId);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'USER_LOGOUT_ALL',
+      eventData: { revokedSessions: revoked },
+      ipAddress,
+    });
+
+    return { revoked_sessions: revoked };
+  }
+
+  /**
+   * Emails a reset code if the address belongs to an account. Unknown addresses, throttled
+   * requests and mail failures all look like success, for the same reason login does not say
+   * which half of the credentials was wrong.
+   */
+  async forgotPassword(email: string, ipAddress?: string): Promise<void> {
+    if (!isValidEmail(email)) {
+      throw new AppError(400, 'Invalid email format');
+    }
+
+    const issued = await db.transaction(async (client) => {
+      const userResult = await client.query('SELECT id, email, full_name FROM users WHERE email = $1 FOR UPDATE', [
+        email,
+      ]);
+
+      if (userResult.rows.length === 0) {
+        return null;
+      }
+
+      const user = userResult.rows[0];
+
+      const remaining = await userTokenService.cooldownRemaining(
+        client,
+        user.id,
+        'password_reset',
+        config.PASSWORD_RESET_RESEND_SECONDS
+      );
+
+      if (remaining > 0) {
+        return null;
+      }
+
+      const token = await userTokenService.issue(client, user.id, 'password_reset', config.PASSWORD_RESET_TTL_MINUTES * 60);
+
+      return { user, token };
+    });
+
+    if (!issued) {
+      return;
+    }
+
+    try {
+      await mailer.send({
+        to: issued.user.email,
+        ...passwordResetEmail(issued.user.full_name, issued.token, config.PASSWORD_RESET_TTL_MINUTES),
+      });
+    } catch (error) {
+      console.error('Failed to send password reset email:', error);
+      return;
     }
 
+    await auditService.log({
+      actorId: issued.user.id,
+      eventType: 'PASSWORD_RESET_REQUESTED',
+      eventData: { email: issued.user.email },
+      ipAddress,
+    });
+  }
+
+  // Spends the reset code, sets the new password and signs the user out everywhere
+  async resetPassword(token: string, newPassword: string, ipAddress?: string): Promise<void> {
+    if (!token || typeof token !== 'string') {
+      throw new AppError(400, 'token is required');
+    }
+
+    if (typeof newPassword !== 'string' || !isValidPassword(newPassword)) {
+      throw new AppError(400, 'Password must be at least 8 characters long');
+    }
+
+    const passwordHash = await hashPassword(newPassword);
+
+    const user = await db.transaction(async (client) => {
+      const userId = await userTokenService.consume(client, token, 'password_reset');
+
+      if (!userId) {
+        throw new AppError(400, 'Invalid or expired reset token');
+      }
+
+      // Proving control of the email also lifts a login lockout
+      const result = await client.query(
+        `UPDATE users SET password_hash = $1, failed_login_attempts = 0, login_locked_until = NULL
+         WHERE id = $2 RETURNING id, email`,
+        [passwordHash, userId]
+      );
+
+      // Any other reset code that was emailed is now stale
+      await userTokenService.revokeAll(client, userId, 'password_reset');
+
+      return result.rows[0];
+    });
+
+    const revoked = await sessionService.revokeAllSessions(user.id);
+
+    await auditService.log({
+      actorId: user.id,
+      eventType: 'PASSWORD_RESET',
+      eventData: { email: user.email, revokedSessions: revoked },
+      ipAddress,
+    });
+  }
+
+  /**
+   * Requires the current password. Every existing session is revoked, including the one making
+   * the request, and a new session is returned so the caller stays signed in.
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    ipAddress?: string
+  ): Promise<AuthTokens> {
+    if (typeof currentPassword !== 'string' || currentPassword === '') {
+      throw new AppError(400, 'current_password is required');
+    }
+
+    if (typeof newPassword !== 'string' || !isValidPassword(newPassword)) {
+      throw new AppError(400, 'Password must be at least 8 characters long');
+    }
+
+    if (newPassword === currentPassword) {
+      throw new AppError(400, 'New password must be different from the current password');
+    }
+
+    const result = await db.query('SELECT id, email, password_hash, role FROM users WHERE id = $1', [userId]);
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    const user = result.rows[0];
+
+    if (!(await comparePassword(currentPassword, user.password_hash))) {
+      throw new AppError(400, 'Current password is incorrect');
+    }
+
+    await db.query('UPDATE users SET password_hash = $1 WHERE id = $2', [await hashPassword(newPassword), userId]);
+
+    const revoked = await sessionService.revokeAllSessions(userId);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'PASSWORD_CHANGED',
+      eventData: { revokedSessions: revoked },
+      ipAddress,
+    });
+
+    return this.issueTokens(user.id, user.email, user.role, ipAddress);
+  }
+
+  async getUserById(userId: string): Promise<UserProfile | null> {
+    const result = await db.query(
+      'SELECT id, email, full_name, phone_number, is_verified, role, created_at FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return result.rows[0];
+  }
+
+  private async completeLogin(user: UserProfile, ipAddress?: string): Promise<{ user: UserProfile } & AuthTokens> {
     await auditService.logUserLogin(user.id, user.email, ipAddress);
 
-    const token = generateToken({ userId: user.id, email: user.email });
+    const tokens = await this.issueTokens(user.id, user.email, user.role, ipAddress);
 
     return {
       user: {
@@ -120,23 +393,36 @@ export class AuthService {
         full_name: user.full_name,
         phone_number: user.phone_number,
         is_verified: user.is_verified,
+        role: user.role,
         created_at: user.created_at,
       },
-      token,
+      ...tokens,
     };
   }
 
-  async getUserById(userId: string): Promise<UserProfile | null> {
-    const result = await db.query(
-      'SELECT id, email, full_name, phone_number, is_verified, created_at FROM users WHERE id = $1',
-      [userId]
-    );
+  // The attempted email is kept even when no account has it, so guessing across accounts shows up
+  private async auditFailedLogin(
+    userId: string | null,
+    email: string,
+    reason: string,
+    ipAddress?: string
+  ): Promise<void> {
+    await auditService.log({
+      actorId: userId,
+      eventType: 'USER_LOGIN_FAILED',
+      eventData: { email, reason },
+      ipAddress,
+    });
+  }
 
-    if (result.rows.length === 0) {
-      return null;
-    }
+  // Every login starts a new session; the access token carries its id so it can be revoked
+  private async issueTokens(userId: string, email: string, role: UserRole, ipAddress?: string): Promise<AuthTokens> {
+    const session = await sessionService.createSession(userId, ipAddress);
 
-    return result.rows[0];
+    return {
+      token: generateToken({ userId, email, role, sessionId: session.sessionId }),
+      refresh_token: session.refreshToken,
+    };
   }
 }
 
@@ -0,0 +1,96 @@
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { mailer } from '../mail';
+import { verificationEmail } from '../mail/templates';
+import { auditService } from './auditService';
+import { userTokenService } from './userTokenService';
+
+export class EmailVerificationService {
+  /**
+   * Emails a fresh verification code. Requests are throttled per user; the user row is locked
+   * so two requests at once cannot both slip past the cooldown.
+   */
+  async sendVerificationEmail(userId: string, ipAddress?: string): Promise<void> {
+    const { user, token } = await db.transaction(async (client) => {
+      const userResult = await client.query(
+        'SELECT id, email, full_name, is_verified FROM users WHERE id = $1 FOR UPDATE',
+        [userId]
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new AppError(404, 'User not found');
+      }
+
+      const user = userResult.rows[0];
+
+      if (user.is_verified) {
+        throw new AppError(409, 'Email is already verified');
+      }
+
+      const remaining = await userTokenService.cooldownRemaining(
+        client,
+        userId,
+        'email_verification',
+        config.EMAIL_VERIFICATION_RESEND_SECONDS
+      );
+
+      if (remaining > 0) {
+        throw new AppError(429, `Please wait ${remaining} seconds before requesting another verification email`);
+      }
+
+      const token = await userTokenService.issue(
+        client,
+        userId,
+        'email_verification',
+        config.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60
+      );
+
+      return { user, token };
+    });
+
+    await mailer.send({
+      to: user.email,
+      ...verificationEmail(user.full_name, token, config.EMAIL_VERIFICATION_TTL_HOURS),
+    });
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'VERIFICATION_EMAIL_SENT',
+      eventData: { email: user.email },
+      ipAddress,
+    });
+  }
+
+  async verifyEmail(token: string, ipAddress?: string): Promise<{ email: string; is_verified: boolean }> {
+    if (!token || typeof token !== 'string') {
+      throw new AppError(400, 'token is required');
+    }
+
+    const user = await db.transaction(async (client) => {
+      const userId = await userTokenService.consume(client, token, 'email_verification');
+
+      if (!userId) {
+        throw new AppError(400, 'Invalid or expired verification token');
+      }
+
+      const result = await client.query(
+        'UPDATE users SET is_verified = true WHERE id = $1 RETURNING id, email, is_verified',
+        [userId]
+      );
+
+      return result.rows[0];
+    });
+
+    await auditService.log({
+      actorId: user.id,
+      eventType: 'EMAIL_VERIFIED',
+      eventData: { email: user.email },
+      ipAddress,
+    });
+
+    return { email: user.email, is_verified: user.is_verified };
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
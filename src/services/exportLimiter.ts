@@ -0,0 +1,48 @@
+import { AppError } from '../middleware/errorHandler';
+
+// Each export holds a pooled connection for as long as the download runs, so only a few run at once on one instance
+const MAX_EXPORTS = 5;
+
+// Per user or staff member, so one account cannot take every export slot
+const MAX_EXPORTS_PER_USER = 2;
+
+/**
+ * Counts the statement and audit log downloads in progress. A slot is taken before anything is
+ * written, so a refused export still gets a normal error response instead of a cut-off file.
+ */
+export class ExportLimiter {
+  private active = new Map<string, number>();
+  private total = 0;
+
+  // Returns the function that gives the slot back; call it once the download ends, however it ends
+  acquire(userId: string): () => void {
+    const own = this.active.get(userId) || 0;
+
+    if (own >= MAX_EXPORTS_PER_USER) {
+      throw new AppError(429, `No more than ${MAX_EXPORTS_PER_USER} exports can run at once`, 'EXPORT_LIMIT');
+    }
+
+    if (this.total >= MAX_EXPORTS) {
+      throw new AppError(503, 'Too many exports are running, try again shortly', 'EXPORTS_BUSY');
+    }
+
+    this.active.set(userId, own + 1);
+    this.total += 1;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const remaining = (this.active.get(userId) || 1) - 1;
+      if (remaining === 0) {
+        this.active.delete(userId);
+      } else {
+        this.active.set(userId, remaining);
+      }
+      this.total -= 1;
+    };
+  }
+}
+
+export const exportLimiter = new ExportLimiter();
@@ -0,0 +1,242 @@
+import { PoolClient } from 'pg';
+import { promises as fs } from 'fs';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { ConversionDetails, FxQuote, FxRate, FxRateUpdate, PostingInput } from '../types';
+import { isValidAmount, isValidCurrency, isValidRate } from '../utils/validators';
+import { systemAccountCode, walletAccountCode } from './ledgerService';
+import { auditService } from './auditService';
+
+interface PairRate {
+  midRate: number;
+  spreadBps: number;
+}
+
+const FX_RATE_COLUMNS = 'base_currency, quote_currency, mid_rate, spread_bps, source, updated_by, updated_at';
+
+const FX_QUOTE_COLUMNS =
+  'id, user_id, from_currency, to_currency, source_amount, target_amount, mid_rate, rate, spread_bps, spread_amount, expires_at, used_at, created_at';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class FxService {
+  async getRates(): Promise<FxRate[]> {
+    const result = await db.query(`SELECT ${FX_RATE_COLUMNS} FROM fx_rates ORDER BY base_currency, quote_currency`);
+
+    return result.rows;
+  }
+
+  async setRate(update: FxRateUpdate, source: 'admin' | 'feed', updatedBy?: string, ipAddress?: string): Promise<FxRate> {
+    if (!isValidCurrency(update.base_currency) || !isValidCurrency(update.quote_currency)) {
+      throw new AppError(400, 'Unsupported currency');
+    }
+
+    if (update.base_currency === update.quote_currency) {
+      throw new AppError(400, 'Base and quote currencies must differ');
+    }
+
+    if (!isValidRate(update.mid_rate)) {
+      throw new AppError(400, 'Invalid rate');
+    }
+
+    const spreadBps = update.spread_bps ?? 0;
+    if (!Number.isInteger(spreadBps) || spreadBps < 0 || spreadBps >= 10000) {
+      throw new AppError(400, 'Spread must be a whole number of basis points between 0 and 9999');
+    }
+
+    const result = await db.query(
+      `INSERT INTO fx_rates (base_currency, quote_currency, mid_rate, spread_bps, source, updated_by, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, now())
+       ON CONFLICT (base_currency, quote_currency)
+       DO UPDATE SET mid_rate = EXCLUDED.mid_rate, spread_bps = EXCLUDED.spread_bps, source = EXCLUDED.source,
+                     updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at
+       RETURNING ${FX_RATE_COLUMNS}`,
+      [update.base_currency, update.quote_currency, update.mid_rate, spreadBps, source, updatedBy || null]
+    );
+
+    await auditService.log({
+      actorId: updatedBy || null,
+      eventType: 'FX_RATE_UPDATED',
+      eventData: {
+        base_currency: update.base_currency,
+        quote_currency: update.quote_currency,
+        mid_rate: update.mid_rate,
+        spread_bps: spreadBps,
+        source,
+      },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Loads rates from a JSON feed file shaped as `[{ base_currency, quote_currency, mid_rate, spread_bps }]`.
+   * Invalid rows are skipped so one bad pair does not block the rest of the feed.
+   */
+  async loadRatesFromFile(filePath: string): Promise<number> {
+    const contents = await fs.readFile(filePath, 'utf8');
+    const parsed = JSON.parse(contents);
+    const rows: FxRateUpdate[] = Array.isArray(parsed) ? parsed : parsed.rates || [];
+
+    let loaded = 0;
+    for (const row of rows) {
+      try {
+        await this.setRate(row, 'feed');
+        loaded++;
+      } catch (error) {
+        console.error('Skipping invalid FX feed row:', row, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return loaded;
+  }
+
+  async getPairRate(fromCurrency: string, toCurrency: string, client?: PoolClient): Promise<PairRate> {
+    const runner = client || db;
+    const result = await runner.query(
+      `SELECT base_currency, mid_rate, spread_bps FROM fx_rates
+       WHERE (base_currency = $1 AND quote_currency = $2) OR (base_currency = $2 AND quote_currency = $1)
+       ORDER BY (base_currency = $1) DESC
+       LIMIT 1`,
+      [fromCurrency, toCurrency]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(422, `No FX rate available for ${fromCurrency}/${toCurrency}`);
+    }
+
+    const row = result.rows[0];
+    const midRate = parseFloat(row.mid_rate);
+
+    // Only the inverse pair is maintained, so the rate is flipped
+    return {
+      midRate: row.base_currency.trim() === fromCurrency ? midRate : 1 / midRate,
+      spreadBps: row.spread_bps,
+    };
+  }
+
+  /**
+   * Prices a conversion: the customer receives the mid-market amount less the spread,
+   * and the spread is kept in the target currency as income.
+   */
+  price(fromCurrency: string, toCurrency: string, sourceAmount: number, pairRate: PairRate): ConversionDetails {
+    const rate = pairRate.midRate * (1 - pairRate.spreadBps / 10000);
+    const midAmount = roundAmount(sourceAmount * pairRate.midRate);
+    const targetAmount = roundAmount(sourceAmount * rate);
+
+    if (targetAmount <= 0) {
+      throw new AppError(400, 'Amount is too small to convert');
+    }
+
+    return {
+      from_currency: fromCurrency,
+      to_currency: toCurrency,
+      source_amount: sourceAmount.toFixed(2),
+      target_amount: targetAmount.toFixed(2),
+      mid_rate: pairRate.midRate.toFixed(8),
+      rate: rate.toFixed(8),
+      spread_amount: (midAmount - targetAmount).toFixed(2),
+    };
+  }
+
+  async createQuote(userId: string, fromCurrency: string, toCurrency: string, amount: number): Promise<FxQuote> {
+    if (!isValidCurrency(fromCurrency) || !isValidCurrency(toCurrency)) {
+      throw new AppError(400, 'Unsupported currency');
+    }
+
+    if (fromCurrency === toCurrency) {
+      throw new AppError(400, 'Cannot convert a currency to itself');
+    }
+
+    if (!isValidAmount(amount)) {
+      throw new AppError(400, 'Invalid amount');
+    }
+
+    const pairRate = await this.getPairRate(fromCurrency, toCurrency);
+    const pricing = this.price(fromCurrency, toCurrency, roundAmount(amount), pairRate);
+
+    const result = await db.query(
+      `INSERT INTO fx_quotes (user_id, from_currency, to_currency, source_amount, target_amount, mid_rate, rate, spread_bps, spread_amount, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, now() + make_interval(secs => $10))
+       RETURNING ${FX_QUOTE_COLUMNS}`,
+      [
+        userId,
+        fromCurrency,
+        toCurrency,
+        pricing.source_amount,
+        pricing.target_amount,
+        pricing.mid_rate,
+        pricing.rate,
+        pairRate.spreadBps,
+        pricing.spread_amount,
+        config.FX_QUOTE_TTL_SECONDS,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Locks an unused, unexpired quote owned by the user and marks it as used.
+   * Runs inside the conversion's DB transaction so a failed conversion leaves the quote usable.
+   */
+  async consumeQuote(client: PoolClient, quoteId: string, userId: string): Promise<FxQuote> {
+    const result = await client.query(
+      `SELECT ${FX_QUOTE_COLUMNS}, expires_at <= now() AS expired FROM fx_quotes WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+      [quoteId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Quote not found');
+    }
+
+    const { expired, ...quote } = result.rows[0];
+
+    if (quote.used_at) {
+      throw new AppError(409, 'Quote has already been used');
+    }
+
+    if (expired) {
+      throw new AppError(410, 'Quote has expired');
+    }
+
+    await client.query('UPDATE fx_quotes SET used_at = now() WHERE id = $1', [quoteId]);
+
+    return quote;
+  }
+
+  /**
+   * Postings that move money from one wallet to another across currencies.
+   * Each currency balances on its own through the FX position account.
+   */
+  conversionPostings(sourceWalletId: string, targetWalletId: string, conversion: ConversionDetails): PostingInput[] {
+    const sourceAmount = parseFloat(conversion.source_amount);
+    const targetAmount = parseFloat(conversion.target_amount);
+    const spreadAmount = parseFloat(conversion.spread_amount);
+
+    const postings: PostingInput[] = [
+      { accountCode: walletAccountCode(sourceWalletId), direction: 'debit', amount: sourceAmount },
+      { accountCode: systemAccountCode('FX_POSITION', conversion.from_currency), direction: 'credit', amount: sourceAmount },
+      {
+        accountCode: systemAccountCode('FX_POSITION', conversion.to_currency),
+        direction: 'debit',
+        amount: roundAmount(targetAmount + spreadAmount),
+      },
+      { accountCode: walletAccountCode(targetWalletId), direction: 'credit', amount: targetAmount },
+    ];
+
+    if (spreadAmount > 0) {
+      postings.push({
+        accountCode: systemAccountCode('FX_SPREAD', conversion.to_currency),
+        direction: 'credit',
+        amount: spreadAmount,
+      });
+    }
+
+    return postings;
+  }
+}
+
+export const fxService = new FxService();
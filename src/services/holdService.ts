@@ -0,0 +1,399 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { Hold, HoldCaptureResponse, HoldOptions, HoldStatus, Transaction } from '../types';
+import { isValidAmount, DEFAULT_CURRENCY } from '../utils/validators';
+import { generateTransactionReference } from '../utils/reference';
+import { auditService } from './auditService';
+import { ledgerService, systemAccountCode, walletAccountCode } from './ledgerService';
+import { availableBalance, LOCK_WALLET_SQL, TRANSACTION_COLUMNS, walletService } from './walletService';
+import { mfaService } from './mfaService';
+import { assertStatusAllows } from './accountStatusService';
+import { limitService } from './limitService';
+import { outboxService } from './outboxService';
+
+const HOLD_COLUMNS =
+  'id, wallet_id, user_id, recipient_user_id, amount, captured_amount, reference, description, status, transaction_id, expires_at, created_at, updated_at';
+
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+export class HoldService {
+  /**
+   * Reserves part of the available balance. The ledger is untouched until capture; the hold
+   * is recorded as a pending debit (or transfer_out when a recipient is named).
+   */
+  async placeHold(
+    userId: string,
+    amount: number,
+    description?: string,
+    reference?: string,
+    ipAddress?: string,
+    options: HoldOptions = {}
+  ): Promise<Hold> {
+    try {
+      if (!isValidAmount(amount)) {
+        throw new AppError(400, 'Invalid amount', 'INVALID_AMOUNT');
+      }
+
+      const expiresInSeconds = options.expiresInSeconds ?? config.HOLD_TTL_SECONDS;
+      if (!Number.isInteger(expiresInSeconds) || expiresInSeconds < 1 || expiresInSeconds > config.HOLD_TTL_SECONDS) {
+        throw new AppError(400, `expires_in_seconds must be between 1 and ${config.HOLD_TTL_SECONDS}`);
+      }
+
+      const currency = walletService.resolveCurrency(options.currency);
+
+      // The hold is where the payment is authorised; capturing it later needs no second code
+      await mfaService.assertStepUp(userId, amount, options.totpCode, ipAddress);
+
+      const isTransfer = !!(options.recipientEmail || options.recipientUserId);
+      if (isTransfer) {
+        await walletService.assertCanTransfer(userId);
+      }
+
+      const recipientId = isTransfer
+        ? await walletService.resolveRecipientId(userId, options.recipientEmail, options.recipientUserId)
+        : null;
+
+      const txnReference = reference || generateTransactionReference();
+
+      const hold = await walletService.moveMoney(async (client) => {
+        const walletResult = await client.query(
+          LOCK_WALLET_SQL,
+          [userId, currency]
+        );
+
+        if (walletResult.rows.length === 0) {
+          throw new AppError(404, `${currency} wallet not found`);
+        }
+
+        const wallet = walletResult.rows[0];
+        assertStatusAllows(wallet, 'out');
+
+        const balance = parseFloat(wallet.balance);
+
+        if (availableBalance(wallet) < amount) {
+          throw new AppError(400, 'Insufficient balance', 'INSUFFICIENT_BALANCE');
+        }
+
+        // The pending row counts towards outflow from now on, so capturing it later is not checked again
+        await limitService.assertOutflowAllowed(client, userId, wallet.id, currency, amount);
+
+        if (recipientId) {
+          // Locked like a transfer's recipient, so a status change cannot slip in before the hold is recorded
+          const recipientWallet = await client.query(
+            LOCK_WALLET_SQL,
+            [recipientId, currency]
+          );
+
+          if (recipientWallet.rows.length === 0) {
+            throw new AppError(404, `Recipient has no ${currency} wallet`);
+          }
+
+          assertStatusAllows(recipientWallet.rows[0], 'in', 'recipient');
+        }
+
+        await client.query('UPDATE wallets SET held_amount = held_amount + $1 WHERE id = $2', [
+          amount.toFixed(2),
+          wallet.id,
+        ]);
+
+        // The pending row shows the reservation in the statement without moving the balance
+        const pending = await walletService.recordTransaction(client, {
+          walletId: wallet.id,
+          userId,
+          type: recipientId ? 'transfer_out' : 'debit',
+          amount,
+          reference: recipientId ? `${txnReference}-OUT` : txnReference,
+          description: description || (recipientId ? `Transfer to user ${recipientId}` : null),
+          balanceBefore: balance,
+          balanceAfter: balance,
+          journalEntryId: null,
+          status: 'pending',
+        });
+
+        const holdResult = await client.query(
+          `INSERT INTO holds (wallet_id, user_id, recipient_user_id, amount, reference, description, transaction_id, expires_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, now() + make_interval(secs => $8))
+           RETURNING ${HOLD_COLUMNS}`,
+          [
+            wallet.id,
+            userId,
+            recipientId,
+            amount.toFixed(2),
+            txnReference,
+            description || null,
+            pending.id,
+            expiresInSeconds,
+          ]
+        );
+
+        return holdResult.rows[0] as Hold;
+      });
+
+      await auditService.log({
+        actorId: userId,
+        eventType: 'HOLD_PLACED',
+        eventData: { holdId: hold.id, amount: hold.amount, reference: hold.reference, recipientId },
+        ipAddress,
+      });
+
+      return hold;
+    } catch (error) {
+      await walletService.auditRejection(
+        error,
+        userId,
+        'hold',
+        {
+          amount,
+          currency: options.currency || DEFAULT_CURRENCY,
+          recipientEmail: options.recipientEmail,
+          recipientUserId: options.recipientUserId,
+          reference,
+        },
+        ipAddress
+      );
+      throw error;
+    }
+  }
+
+  async getHolds(userId: string, status?: HoldStatus): Promise<Hold[]> {
+    const result = status
+      ? await db.query(
+          `SELECT ${HOLD_COLUMNS} FROM holds WHERE user_id = $1 AND status = $2 ORDER BY created_at DESC`,
+          [userId, status]
+        )
+      : await db.query(`SELECT ${HOLD_COLUMNS} FROM holds WHERE user_id = $1 ORDER BY created_at DESC`, [userId]);
+
+    return result.rows;
+  }
+
+  /**
+   * Moves up to the held amount out of the wallet; whatever is not captured is released.
+   * Capturing a transfer hold credits the recipient in the same journal entry.
+   */
+  async captureHold(userId: string, holdId: string, amount?: number, ipAddress?: string): Promise<HoldCaptureResponse> {
+    try {
+      if (amount !== undefined && !isValidAmount(amount)) {
+        throw new AppError(400, 'Invalid amount', 'INVALID_AMOUNT');
+      }
+
+      const result = await walletService.moveMoney(async (client) => {
+        const hold = await this.lockActiveHold(client, holdId, userId);
+        const heldAmount = parseFloat(hold.amount);
+        const captureAmount = amount ?? heldAmount;
+
+        if (toMinorUnits(captureAmount) > toMinorUnits(heldAmount)) {
+          throw new AppError(400, 'Capture amount exceeds the held amount');
+        }
+
+        const walletsResult = await client.query(
+          `SELECT w.id, w.user_id, w.balance, w.currency, w.status, u.status AS user_status
+           FROM wallets w JOIN users u ON u.id = w.user_id
+           WHERE w.id = $1 OR (w.user_id = $2 AND w.currency = (SELECT currency FROM wallets WHERE id = $1))
+           ORDER BY w.id FOR UPDATE OF w`,
+          [hold.wallet_id, hold.recipient_user_id]
+        );
+
+        const wallet = walletsResult.rows.find((row) => row.id === hold.wallet_id);
+        const recipientWallet = hold.recipient_user_id
+          ? walletsResult.rows.find((row) => row.user_id === hold.recipient_user_id)
+          : undefined;
+
+        if (hold.recipient_user_id && !recipientWallet) {
+          throw new AppError(404, 'Recipient wallet not found');
+        }
+
+        // Either side may have been frozen or closed since the hold was placed
+        assertStatusAllows(wallet, 'out');
+        if (recipientWallet) {
+          assertStatusAllows(recipientWallet, 'in', 'recipient');
+          await limitService.assertBalanceAllowed(
+            client,
+            recipientWallet.user_id,
+            recipientWallet.currency,
+            parseFloat(recipientWallet.balance) + captureAmount,
+            'recipient'
+          );
+        }
+
+        const balanceBefore = parseFloat(wallet.balance);
+        if (balanceBefore < captureAmount) {
+          throw new AppError(400, 'Insufficient balance', 'INSUFFICIENT_BALANCE');
+        }
+
+        const balanceAfter = balanceBefore - captureAmount;
+
+        await client.query('UPDATE wallets SET held_amount = held_amount - $1 WHERE id = $2', [hold.amount, wallet.id]);
+
+        const journalEntry = await ledgerService.postEntry(client, {
+          reference: hold.reference,
+          entryType: recipientWallet ? 'transfer' : 'debit',
+          description: hold.description,
+          postings: [
+            { accountCode: walletAccountCode(wallet.id), direction: 'debit', amount: captureAmount },
+            {
+              accountCode: recipientWallet
+                ? walletAccountCode(recipientWallet.id)
+                : systemAccountCode('FUNDING', wallet.currency.trim()),
+              direction: 'credit',
+              amount: captureAmount,
+            },
+          ],
+        });
+
+        // Dated at capture, when the balance actually moves, so the statement stays in balance order
+        const transactionResult = await client.query(
+          `UPDATE transactions
+           SET status = 'success', amount = $1, balance_before = $2, balance_after = $3, journal_entry_id = $4,
+               created_at = now()
+           WHERE id = $5
+           RETURNING ${TRANSACTION_COLUMNS}`,
+          [captureAmount.toFixed(2), balanceBefore.toFixed(2), balanceAfter.toFixed(2), journalEntry.id, hold.transaction_id]
+        );
+
+        let recipientTransaction: Transaction | undefined;
+        if (recipientWallet) {
+          const recipientBalanceBefore = parseFloat(recipientWallet.balance);
+          recipientTransaction = await walletService.recordTransaction(client, {
+            walletId: recipientWallet.id,
+            userId: recipientWallet.user_id,
+            type: 'transfer_in',
+            amount: captureAmount,
+            reference: `${hold.reference}-IN`,
+            description: `${hold.description || 'Transfer'} from user ${userId}`,
+            balanceBefore: recipientBalanceBefore,
+            balanceAfter: recipientBalanceBefore + captureAmount,
+            journalEntryId: journalEntry.id,
+          });
+        }
+
+        // The pending row was created when the hold was placed; capturing is when it becomes a real transaction
+        await outboxService.addTransactions(
+          client,
+          recipientTransaction ? [transactionResult.rows[0], recipientTransaction] : [transactionResult.rows[0]],
+          ipAddress
+        );
+
+        const capturedResult = await client.query(
+          `UPDATE holds SET status = 'captured', captured_amount = $1 WHERE id = $2 RETURNING ${HOLD_COLUMNS}`,
+          [captureAmount.toFixed(2), hold.id]
+        );
+
+        await auditService.recordTransactions(
+          client,
+          recipientTransaction ? [transactionResult.rows[0], recipientTransaction] : [transactionResult.rows[0]],
+          ipAddress
+        );
+
+        const response: HoldCaptureResponse = {
+          hold: capturedResult.rows[0],
+          transaction: transactionResult.rows[0],
+          new_balance: balanceAfter.toFixed(2),
+        };
+
+        if (recipientTransaction) {
+          response.recipient_transaction = recipientTransaction;
+        }
+
+        return response;
+      });
+
+      return result;
+    } catch (error) {
+      await walletService.auditRejection(error, userId, 'hold_capture', { holdId, amount }, ipAddress);
+      throw error;
+    }
+  }
+
+  async voidHold(userId: string, holdId: string, ipAddress?: string): Promise<Hold> {
+    const hold = await db.transaction(async (client) => {
+      const active = await this.lockActiveHold(client, holdId, userId);
+      return this.releaseHold(client, active, 'voided');
+    });
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'HOLD_VOIDED',
+      eventData: { holdId: hold.id, amount: hold.amount, reference: hold.reference },
+      ipAddress,
+    });
+
+    return hold;
+  }
+
+  /**
+   * Releases active holds past their expiry. SKIP LOCKED lets a capture or void in progress
+   * win, and lets several app instances run the sweep side by side.
+   */
+  async releaseExpiredHolds(batchSize: number = 100): Promise<number> {
+    const released = await db.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT ${HOLD_COLUMNS} FROM holds
+         WHERE status = 'active' AND expires_at <= now()
+         ORDER BY expires_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED`,
+        [batchSize]
+      );
+
+      const holds: Hold[] = [];
+      for (const hold of result.rows as Hold[]) {
+        holds.push(await this.releaseHold(client, hold, 'expired'));
+      }
+
+      return holds;
+    });
+
+    for (const hold of released) {
+      await auditService.log({
+        actorId: null,
+        eventType: 'HOLD_EXPIRED',
+        eventData: { holdId: hold.id, userId: hold.user_id, amount: hold.amount, reference: hold.reference },
+      });
+    }
+
+    return released.length;
+  }
+
+  private async lockActiveHold(client: PoolClient, holdId: string, userId: string): Promise<Hold> {
+    const result = await client.query(
+      `SELECT ${HOLD_COLUMNS}, expires_at <= now() AS expired FROM holds WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+      [holdId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Hold not found');
+    }
+
+    const { expired, ...hold } = result.rows[0];
+
+    if (hold.status !== 'active') {
+      throw new AppError(409, `Hold is already ${hold.status}`);
+    }
+
+    if (expired) {
+      throw new AppError(410, 'Hold has expired');
+    }
+
+    return hold;
+  }
+
+  private async releaseHold(client: PoolClient, hold: Hold, status: 'voided' | 'expired'): Promise<Hold> {
+    await client.query('UPDATE wallets SET held_amount = held_amount - $1 WHERE id = $2', [
+      hold.amount,
+      hold.wallet_id,
+    ]);
+
+    await client.query("UPDATE transactions SET status = 'failed' WHERE id = $1", [hold.transaction_id]);
+
+    const result = await client.query(`UPDATE holds SET status = $1 WHERE id = $2 RETURNING ${HOLD_COLUMNS}`, [
+      status,
+      hold.id,
+    ]);
+
+    return result.rows[0];
+  }
+}
+
+export const holdService = new HoldService();
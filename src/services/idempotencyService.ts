@@ -0,0 +1,93 @@
+import { createHash } from 'crypto';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { IdempotencyOutcome } from '../types';
+
+export const hashRequest = (method: string, path: string, body: unknown): string => {
+  return createHash('sha256')
+    .update(`${method}\n${path}\n${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+};
+
+export class IdempotencyService {
+  /**
+   * Claims the key for this request. The insert doubles as the lock: exactly one concurrent
+   * request wins the row, everyone else sees it and gets a replay, a conflict or a mismatch.
+   * The claim is leased so a key left behind by a process that died mid-request is not stuck
+   * until it expires: once the lease runs out, a retry of the same request takes the key over.
+   */
+  async begin(
+    userId: string,
+    key: string,
+    method: string,
+    path: string,
+    requestHash: string
+  ): Promise<IdempotencyOutcome> {
+    // An expired row is taken over as if the key had never been used
+    const claimed = await db.query(
+      `INSERT INTO idempotency_keys
+         (user_id, idempotency_key, request_method, request_path, request_hash, expires_at, locked_until)
+       VALUES ($1, $2, $3, $4, $5, now() + make_interval(hours => $6), now() + make_interval(secs => $7))
+       ON CONFLICT (user_id, idempotency_key) DO UPDATE
+       SET request_method = EXCLUDED.request_method, request_path = EXCLUDED.request_path,
+           request_hash = EXCLUDED.request_hash, status = 'processing', response_status = NULL,
+           response_body = NULL, created_at = now(), expires_at = EXCLUDED.expires_at,
+           locked_until = EXCLUDED.locked_until
+       WHERE idempotency_keys.expires_at <= now()
+          OR (idempotency_keys.status = 'processing' AND idempotency_keys.locked_until <= now()
+              AND idempotency_keys.request_method = EXCLUDED.request_method
+              AND idempotency_keys.request_path = EXCLUDED.request_path
+              AND idempotency_keys.request_hash = EXCLUDED.request_hash)
+       RETURNING user_id`,
+      [userId, key, method, path, requestHash, config.IDEMPOTENCY_KEY_TTL_HOURS, config.IDEMPOTENCY_LEASE_SECONDS]
+    );
+
+    if (claimed.rows.length > 0) {
+      return { state: 'new' };
+    }
+
+    const existing = await db.query(
+      `SELECT request_method, request_path, request_hash, status, response_status, response_body
+       FROM idempotency_keys WHERE user_id = $1 AND idempotency_key = $2`,
+      [userId, key]
+    );
+
+    // The row expired and was cleaned up between the two statements
+    if (existing.rows.length === 0) {
+      return this.begin(userId, key, method, path, requestHash);
+    }
+
+    const record = existing.rows[0];
+
+    if (record.request_method !== method || record.request_path !== path || record.request_hash !== requestHash) {
+      return { state: 'mismatch' };
+    }
+
+    if (record.status !== 'completed') {
+      return { state: 'in_progress' };
+    }
+
+    return { state: 'replay', status: record.response_status, body: record.response_body };
+  }
+
+  async complete(userId: string, key: string, status: number, body: string): Promise<void> {
+    await db.query(
+      `UPDATE idempotency_keys SET status = 'completed', response_status = $3, response_body = $4
+       WHERE user_id = $1 AND idempotency_key = $2`,
+      [userId, key, status, body]
+    );
+  }
+
+  // Frees the key so the client can retry, used when the request failed for reasons outside its control
+  async release(userId: string, key: string): Promise<void> {
+    await db.query('DELETE FROM idempotency_keys WHERE user_id = $1 AND idempotency_key = $2', [userId, key]);
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await db.query('DELETE FROM idempotency_keys WHERE expires_at <= now()');
+
+    return result.rowCount || 0;
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
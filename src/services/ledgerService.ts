@@ -0,0 +1,142 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { JournalEntry, JournalEntryInput, LedgerAccountType, PostingInput, WalletBalanceMismatch } from '../types';
+
+export type SystemAccount = 'FUNDING' | 'FEES' | 'SUSPENSE' | 'FX_POSITION' | 'FX_SPREAD';
+
+export const walletAccountCode = (walletId: string): string => `WALLET:${walletId}`;
+
+export const systemAccountCode = (account: SystemAccount, currency: string): string => `${account}:${currency}`;
+
+interface ResolvedAccount {
+  id: string;
+  code: string;
+  type: LedgerAccountType;
+  currency: string;
+  wallet_id: string | null;
+}
+
+// Amounts are compared in minor units so float noise never unbalances an entry
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+export class LedgerService {
+  /**
+   * Records a balanced journal entry and applies it to the wallet balances it touches.
+   * Must run inside the caller's DB transaction, after the affected wallets are locked.
+   */
+  async postEntry(client: PoolClient, entry: JournalEntryInput): Promise<JournalEntry> {
+    if (entry.postings.length < 2) {
+      throw new Error(`Journal entry ${entry.reference} needs at least two postings`);
+    }
+
+    const codes = Array.from(new Set(entry.postings.map((posting) => posting.accountCode)));
+    const accountsResult = await client.query(
+      'SELECT id, code, type, currency, wallet_id FROM ledger_accounts WHERE code = ANY($1)',
+      [codes]
+    );
+
+    const accounts = new Map<string, ResolvedAccount>();
+    for (const row of accountsResult.rows) {
+      accounts.set(row.code, { ...row, currency: row.currency.trim() });
+    }
+
+    const totals = new Map<string, number>();
+    const walletDeltas = new Map<string, number>();
+
+    for (const posting of entry.postings) {
+      const account = accounts.get(posting.accountCode);
+      if (!account) {
+        throw new Error(`Ledger account ${posting.accountCode} does not exist`);
+      }
+
+      const minor = toMinorUnits(posting.amount);
+      // Only reachable with an amount that rounds to nothing, e.g. 0.001, which is the caller's input
+      if (minor <= 0) {
+        throw new AppError(400, 'Amount must be at least 0.01', 'INVALID_AMOUNT');
+      }
+
+      const signed = posting.direction === 'debit' ? minor : -minor;
+      totals.set(account.currency, (totals.get(account.currency) || 0) + signed);
+
+      // Wallet accounts are liabilities: credits raise the balance, debits lower it
+      if (account.wallet_id) {
+        walletDeltas.set(account.wallet_id, (walletDeltas.get(account.wallet_id) || 0) - signed);
+      }
+    }
+
+    for (const [currency, total] of totals) {
+      if (total !== 0) {
+        throw new Error(`Journal entry ${entry.reference} is not balanced in ${currency}`);
+      }
+    }
+
+    const entryResult = await client.query(
+      `INSERT INTO journal_entries (reference, entry_type, description, related_entry_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, reference, entry_type, description, related_entry_id, created_at`,
+      [entry.reference, entry.entryType, entry.description || null, entry.relatedEntryId || null]
+    );
+
+    const journalEntry: JournalEntry = entryResult.rows[0];
+
+    const values: string[] = [];
+    const params: any[] = [];
+    entry.postings.forEach((posting, index) => {
+      const account = accounts.get(posting.accountCode) as ResolvedAccount;
+      const offset = index * 5;
+      values.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`);
+      params.push(journalEntry.id, account.id, posting.direction, posting.amount.toFixed(2), account.currency);
+    });
+
+    await client.query(
+      `INSERT INTO postings (journal_entry_id, account_id, direction, amount, currency)
+       VALUES ${values.join(', ')}`,
+      params
+    );
+
+    for (const [walletId, delta] of walletDeltas) {
+      if (delta !== 0) {
+        await client.query('UPDATE wallets SET balance = balance + $1 WHERE id = $2', [
+          (delta / 100).toFixed(2),
+          walletId,
+        ]);
+      }
+    }
+
+    return journalEntry;
+  }
+
+  async getPostings(client: PoolClient, journalEntryId: string): Promise<PostingInput[]> {
+    const result = await client.query(
+      `SELECT la.code, p.direction, p.amount
+       FROM postings p
+       JOIN ledger_accounts la ON la.id = p.account_id
+       WHERE p.journal_entry_id = $1
+       ORDER BY p.id`,
+      [journalEntryId]
+    );
+
+    return result.rows.map((row) => ({
+      accountCode: row.code,
+      direction: row.direction,
+      amount: parseFloat(row.amount),
+    }));
+  }
+
+  async getAccountBalance(accountCode: string): Promise<string | null> {
+    const result = await db.query('SELECT balance FROM ledger_account_balances WHERE code = $1', [accountCode]);
+
+    return result.rows.length > 0 ? result.rows[0].balance : null;
+  }
+
+  async findWalletBalanceMismatches(): Promise<WalletBalanceMismatch[]> {
+    const result = await db.query(
+      'SELECT wallet_id, user_id, currency, wallet_balance, ledger_balance FROM wallet_balance_mismatches'
+    );
+
+    return result.rows;
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,285 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { LimitAllowance, LimitTier, TransactionLimits, UpdateLimitsRequest } from '../types';
+import { auditService } from './auditService';
+
+// Money leaving to the outside world or another user; conversions stay with the same user.
+// Refunds are recorded on both sides, so only the refunding wallet's row, which lowers its balance, counts
+const OUTFLOW_TYPES = ['debit', 'transfer_out'];
+
+const OWN_LIMIT_FIELDS = ['per_transaction_max', 'daily_outflow_max', 'monthly_outflow_max'] as const;
+
+interface EffectiveLimits extends TransactionLimits {
+  tier: LimitTier;
+}
+
+interface Outflow {
+  daily: number;
+  monthly: number;
+}
+
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+const fromMinorUnits = (minor: number): string => (minor / 100).toFixed(2);
+
+// A user's own limit only counts when it is lower than the tier's
+const lowerOf = (tierValue: string | null, ownValue: string | null): string | null => {
+  if (ownValue === null) return tierValue;
+  if (tierValue === null) return ownValue;
+  return parseFloat(ownValue) < parseFloat(tierValue) ? ownValue : tierValue;
+};
+
+/**
+ * Tiered limits on money leaving a wallet and on how much a wallet may hold. The checks run on
+ * the caller's DB transaction after the wallet row is locked, so concurrent payments from the
+ * same wallet see each other's outflow.
+ */
+export class LimitService {
+  async assertOutflowAllowed(
+    client: PoolClient,
+    userId: string,
+    walletId: string,
+    currency: string,
+    amount: number
+  ): Promise<void> {
+    const limits = await this.getEffectiveLimits(userId, currency, client);
+
+    if (!limits) {
+      return;
+    }
+
+    const amountMinor = toMinorUnits(amount);
+
+    if (limits.per_transaction_max !== null && amountMinor > toMinorUnits(parseFloat(limits.per_transaction_max))) {
+      throw new AppError(
+        403,
+        `Amount exceeds the per-transaction limit of ${limits.per_transaction_max} ${currency}`,
+        'LIMIT_PER_TRANSACTION'
+      );
+    }
+
+    if (limits.daily_outflow_max === null && limits.monthly_outflow_max === null) {
+      return;
+    }
+
+    const outflow = await this.getOutflow(walletId, client);
+
+    const windows = [
+      { label: 'Daily', max: limits.daily_outflow_max, used: outflow.daily, code: 'LIMIT_DAILY' },
+      { label: 'Monthly', max: limits.monthly_outflow_max, used: outflow.monthly, code: 'LIMIT_MONTHLY' },
+    ];
+
+    for (const window of windows) {
+      if (window.max === null) continue;
+
+      const remaining = Math.max(toMinorUnits(parseFloat(window.max)) - window.used, 0);
+      if (amountMinor > remaining) {
+        throw new AppError(
+          403,
+          `${window.label} limit of ${window.max} ${currency} would be exceeded, ${fromMinorUnits(remaining)} ${currency} remaining`,
+          window.code
+        );
+      }
+    }
+  }
+
+  // Recipients get a generic message so a sender cannot learn another user's limits
+  async assertBalanceAllowed(
+    client: PoolClient,
+    userId: string,
+    currency: string,
+    balanceAfter: number,
+    owner: 'self' | 'recipient' = 'self'
+  ): Promise<void> {
+    const limits = await this.getEffectiveLimits(userId, currency, client);
+
+    if (!limits || limits.max_balance === null) {
+      return;
+    }
+
+    if (toMinorUnits(balanceAfter) <= toMinorUnits(parseFloat(limits.max_balance))) {
+      return;
+    }
+
+    if (owner === 'recipient') {
+      throw new AppError(403, 'Recipient account cannot receive funds', 'RECIPIENT_UNAVAILABLE');
+    }
+
+    throw new AppError(
+      403,
+      `Wallet balance cannot exceed ${limits.max_balance} ${currency} on the ${limits.tier} tier`,
+      'LIMIT_MAX_BALANCE'
+    );
+  }
+
+  async getAllowance(userId: string, currency?: string): Promise<LimitAllowance[]> {
+    const walletsResult = await db.query(
+      `SELECT id, currency, balance FROM wallets
+       WHERE user_id = $1 AND ($2::text IS NULL OR currency = $2)
+       ORDER BY created_at ASC`,
+      [userId, currency || null]
+    );
+
+    if (walletsResult.rows.length === 0) {
+      throw new AppError(404, currency ? `${currency} wallet not found` : 'Wallet not found');
+    }
+
+    const allowances: LimitAllowance[] = [];
+
+    for (const wallet of walletsResult.rows) {
+      const walletCurrency = wallet.currency.trim();
+      const limits = await this.getEffectiveLimits(userId, walletCurrency);
+      const outflow = await this.getOutflow(wallet.id);
+
+      if (!limits) {
+        throw new AppError(404, 'User not found');
+      }
+
+      const remaining = (max: string | null, used: number): string | null =>
+        max === null ? null : fromMinorUnits(Math.max(toMinorUnits(parseFloat(max)) - used, 0));
+
+      const { tier, ...walletLimits } = limits;
+
+      allowances.push({
+        wallet_id: wallet.id,
+        currency: walletCurrency,
+        tier,
+        limits: walletLimits,
+        used: { daily: fromMinorUnits(outflow.daily), monthly: fromMinorUnits(outflow.monthly) },
+        remaining: {
+          daily: remaining(limits.daily_outflow_max, outflow.daily),
+          monthly: remaining(limits.monthly_outflow_max, outflow.monthly),
+          balance: remaining(limits.max_balance, toMinorUnits(parseFloat(wallet.balance))),
+        },
+      });
+    }
+
+    return allowances;
+  }
+
+  /**
+   * Stores limits the user chose for themselves. They can only be lower than the tier's; null
+   * drops a limit back to the tier value.
+   */
+  async setOwnLimits(
+    userId: string,
+    currency: string,
+    update: UpdateLimitsRequest,
+    ipAddress?: string
+  ): Promise<LimitAllowance> {
+    const fields = OWN_LIMIT_FIELDS.filter((field) => update[field] !== undefined);
+
+    if (fields.length === 0) {
+      throw new AppError(400, `Provide at least one of ${OWN_LIMIT_FIELDS.join(', ')}`);
+    }
+
+    const tierLimits = await this.getTierLimits(userId, currency);
+
+    const values: Record<string, string | null> = {};
+
+    for (const field of fields) {
+      const value = update[field];
+
+      if (value === null) {
+        values[field] = null;
+        continue;
+      }
+
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new AppError(400, `${field} must be a positive number or null`);
+      }
+
+      const tierValue = tierLimits ? tierLimits[field] : null;
+      if (tierValue !== null && toMinorUnits(value) > toMinorUnits(parseFloat(tierValue))) {
+        throw new AppError(400, `${field} cannot be higher than the tier limit of ${tierValue} ${currency}`);
+      }
+
+      values[field] = value.toFixed(2);
+    }
+
+    const assignments = fields.map((field, index) => `${field} = $${index + 3}`).join(', ');
+
+    await db.query(
+      `INSERT INTO user_limits (user_id, currency, ${fields.join(', ')})
+       VALUES ($1, $2, ${fields.map((_, index) => `$${index + 3}`).join(', ')})
+       ON CONFLICT (user_id, currency) DO UPDATE SET ${assignments}, updated_at = now()`,
+      [userId, currency, ...fields.map((field) => values[field])]
+    );
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'USER_LIMITS_UPDATED',
+      eventData: { currency, ...values },
+      ipAddress,
+    });
+
+    const [allowance] = await this.getAllowance(userId, currency);
+    return allowance;
+  }
+
+  // Limits the tier does not set for the currency come back as null; unknown users as null overall
+  async getEffectiveLimits(userId: string, currency: string, client?: PoolClient): Promise<EffectiveLimits | null> {
+    const runner = client || db;
+    const result = await runner.query(
+      `SELECT u.limit_tier AS tier,
+              t.per_transaction_max, t.daily_outflow_max, t.monthly_outflow_max, t.max_balance,
+              o.per_transaction_max AS own_per_transaction_max,
+              o.daily_outflow_max AS own_daily_outflow_max,
+              o.monthly_outflow_max AS own_monthly_outflow_max
+       FROM users u
+       LEFT JOIN limit_tiers t ON t.tier = u.limit_tier AND t.currency = $2
+       LEFT JOIN user_limits o ON o.user_id = u.id AND o.currency = $2
+       WHERE u.id = $1`,
+      [userId, currency]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+
+    return {
+      tier: row.tier,
+      per_transaction_max: lowerOf(row.per_transaction_max, row.own_per_transaction_max),
+      daily_outflow_max: lowerOf(row.daily_outflow_max, row.own_daily_outflow_max),
+      monthly_outflow_max: lowerOf(row.monthly_outflow_max, row.own_monthly_outflow_max),
+      max_balance: row.max_balance,
+    };
+  }
+
+  private async getTierLimits(userId: string, currency: string): Promise<TransactionLimits | null> {
+    const result = await db.query(
+      `SELECT t.per_transaction_max, t.daily_outflow_max, t.monthly_outflow_max, t.max_balance
+       FROM users u
+       LEFT JOIN limit_tiers t ON t.tier = u.limit_tier AND t.currency = $2
+       WHERE u.id = $1`,
+      [userId, currency]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  // Pending rows are authorisation holds, which count as spent until they are voided
+  private async getOutflow(walletId: string, client?: PoolClient): Promise<Outflow> {
+    const runner = client || db;
+    const result = await runner.query(
+      `SELECT COALESCE(SUM(amount) FILTER (WHERE created_at > now() - interval '24 hours'), 0) AS daily,
+              COALESCE(SUM(amount), 0) AS monthly
+       FROM transactions
+       WHERE wallet_id = $1
+         AND (type = ANY($2) OR (type = 'refund' AND balance_after < balance_before))
+         AND status IN ('success', 'pending')
+         AND created_at > now() - interval '30 days'`,
+      [walletId, OUTFLOW_TYPES]
+    );
+
+    return {
+      daily: toMinorUnits(parseFloat(result.rows[0].daily)),
+      monthly: toMinorUnits(parseFloat(result.rows[0].monthly)),
+    };
+  }
+}
+
+export const limitService = new LimitService();
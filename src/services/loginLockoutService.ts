@@ -0,0 +1,90 @@
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { mailer } from '../mail';
+import { loginLockedEmail } from '../mail/templates';
+import { auditService } from './auditService';
+
+interface LoginAccount {
+  id: string;
+  email: string;
+  full_name: string;
+}
+
+/**
+ * Wrong passwords are counted per account, so credential stuffing spread over many IPs still
+ * slows down against one account. Each failure makes the account wait 1, 2, 4... x
+ * LOGIN_BACKOFF_BASE_SECONDS before the next password is checked, and LOGIN_MAX_ATTEMPTS in a
+ * row lock it for LOGIN_LOCK_MINUTES. Callers answer a locked account like a wrong password, so
+ * the lock says nothing about which accounts exist.
+ */
+export class LoginLockoutService {
+  /**
+   * Counts a wrong password in one statement, so concurrent attempts cannot lose a count. The
+   * count starts over once the account locks; the owner is emailed when that happens.
+   */
+  async recordFailure(user: LoginAccount, ipAddress?: string): Promise<void> {
+    const result = await db.query(
+      `UPDATE users
+       SET failed_login_attempts = CASE WHEN failed_login_attempts + 1 >= $2 THEN 0 ELSE failed_login_attempts + 1 END,
+           login_locked_until = CASE
+             WHEN failed_login_attempts + 1 >= $2 THEN now() + make_interval(mins => $3)
+             ELSE now() + make_interval(secs => $4 * power(2, failed_login_attempts))
+           END
+       WHERE id = $1
+       RETURNING failed_login_attempts = 0 AS locked`,
+      [user.id, config.LOGIN_MAX_ATTEMPTS, config.LOGIN_LOCK_MINUTES, config.LOGIN_BACKOFF_BASE_SECONDS]
+    );
+
+    if (result.rows.length === 0 || !result.rows[0].locked) {
+      return;
+    }
+
+    await auditService.log({
+      actorId: user.id,
+      eventType: 'USER_LOGIN_LOCKED',
+      eventData: { email: user.email, lockMinutes: config.LOGIN_LOCK_MINUTES },
+      ipAddress,
+    });
+
+    try {
+      await mailer.send({
+        to: user.email,
+        ...loginLockedEmail(user.full_name, config.LOGIN_LOCK_MINUTES),
+      });
+    } catch (error) {
+      console.error('Failed to send login lockout email:', error);
+    }
+  }
+
+  async recordSuccess(userId: string): Promise<void> {
+    await db.query(
+      `UPDATE users SET failed_login_attempts = 0, login_locked_until = NULL
+       WHERE id = $1 AND (failed_login_attempts > 0 OR login_locked_until IS NOT NULL)`,
+      [userId]
+    );
+  }
+
+  // Lets the user sign in again straight away, for staff helping someone who was locked out
+  async unlock(staffId: string, userId: string, ipAddress?: string): Promise<void> {
+    const result = await db.query(
+      'SELECT email, login_locked_until > now() AS locked FROM users WHERE id = $1',
+      [userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    await db.query('UPDATE users SET failed_login_attempts = 0, login_locked_until = NULL WHERE id = $1', [userId]);
+
+    await auditService.log({
+      actorId: staffId,
+      eventType: 'USER_LOGIN_UNLOCKED',
+      eventData: { userId, email: result.rows[0].email, wasLocked: result.rows[0].locked === true },
+      ipAddress,
+    });
+  }
+}
+
+export const loginLockoutService = new LoginLockoutService();
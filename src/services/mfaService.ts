@@ -0,0 +1,305 @@
+import { randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { MfaSetupResponse } from '../types';
+import { comparePassword } from '../utils/password';
+import { hashToken } from '../utils/token';
+import { generateTotpSecret, matchTotp, provisioningUri } from '../utils/totp';
+import { mailer } from '../mail';
+import { mfaLockedEmail } from '../mail/templates';
+import { auditService } from './auditService';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Where a code was submitted, recorded with failed attempts
+type MfaContext = 'login' | 'step_up' | 'confirm' | 'disable';
+
+// 16 hex characters shown as four groups, e.g. 3f9a-04c1-b7e2-5d60
+const generateRecoveryCode = (): string =>
+  randomBytes(8)
+    .toString('hex')
+    .match(/.{4}/g)!
+    .join('-');
+
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^0-9a-f]/g, '');
+
+export class MfaService {
+  /**
+   * Starts enrollment with a new secret. 2FA stays off until a code from the authenticator app
+   * is confirmed, so an abandoned setup never locks the user out.
+   */
+  async setup(userId: string, ipAddress?: string): Promise<MfaSetupResponse> {
+    const userResult = await db.query('SELECT email, totp_enabled FROM users WHERE id = $1', [userId]);
+
+    if (userResult.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    const user = userResult.rows[0];
+
+    if (user.totp_enabled) {
+      throw new AppError(409, 'Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await db.query('UPDATE users SET totp_secret = $1, totp_last_step = NULL WHERE id = $2', [secret, userId]);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'MFA_ENROLLMENT_STARTED',
+      eventData: {},
+      ipAddress,
+    });
+
+    return { secret, otpauth_url: provisioningUri(secret, user.email, config.MFA_ISSUER) };
+  }
+
+  // Turns 2FA on and returns the recovery codes; this is the only time they are shown
+  async confirm(userId: string, code: string, ipAddress?: string): Promise<{ recovery_codes: string[] }> {
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+    const confirmed = await db.transaction(async (client) => {
+      const userResult = await client.query(
+        'SELECT totp_secret, totp_enabled, totp_last_step FROM users WHERE id = $1 FOR UPDATE',
+        [userId]
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new AppError(404, 'User not found');
+      }
+
+      const user = userResult.rows[0];
+
+      if (user.totp_enabled) {
+        throw new AppError(409, 'Two-factor authentication is already enabled');
+      }
+
+      if (!user.totp_secret) {
+        throw new AppError(400, 'Two-factor setup has not been started');
+      }
+
+      const step = matchTotp(user.totp_secret, String(code || ''));
+      if (step === null) {
+        return false;
+      }
+
+      await client.query('UPDATE users SET totp_enabled = true, totp_last_step = $1 WHERE id = $2', [step, userId]);
+      await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+
+      for (const recoveryCode of recoveryCodes) {
+        await client.query('INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2)', [
+          userId,
+          hashToken(normalizeRecoveryCode(recoveryCode)),
+        ]);
+      }
+
+      return true;
+    });
+
+    if (!confirmed) {
+      await this.rejectCode(userId, 'confirm', ipAddress);
+    }
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'MFA_ENABLED',
+      eventData: { recoveryCodes: RECOVERY_CODE_COUNT },
+      ipAddress,
+    });
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  // Needs both the password and a current code (or a recovery code), so a stolen session alone cannot do it
+  async disable(userId: string, password: string, code: string, ipAddress?: string): Promise<void> {
+    const userResult = await db.query('SELECT password_hash, totp_enabled FROM users WHERE id = $1', [userId]);
+
+    if (userResult.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    if (!userResult.rows[0].totp_enabled) {
+      throw new AppError(409, 'Two-factor authentication is not enabled');
+    }
+
+    if (typeof password !== 'string' || !(await comparePassword(password, userResult.rows[0].password_hash))) {
+      throw new AppError(400, 'Current password is incorrect');
+    }
+
+    await this.verifyCode(userId, code, 'disable', ipAddress);
+
+    await db.transaction(async (client) => {
+      await client.query(
+        'UPDATE users SET totp_enabled = false, totp_secret = NULL, totp_last_step = NULL WHERE id = $1',
+        [userId]
+      );
+      await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+    });
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'MFA_DISABLED',
+      eventData: {},
+      ipAddress,
+    });
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const result = await db.query('SELECT totp_enabled FROM users WHERE id = $1', [userId]);
+
+    return result.rows.length > 0 && result.rows[0].totp_enabled === true;
+  }
+
+  /**
+   * Accepts a TOTP code, or a recovery code outside step-up. A TOTP code is only accepted for a
+   * time step later than the last one used, so every code works once. Wrong codes are counted
+   * per account under the user row's lock, whatever the context, and MFA_MAX_ATTEMPTS in a row
+   * stop codes being checked for MFA_LOCK_MINUTES.
+   */
+  async verifyCode(userId: string, code: string, context: MfaContext, ipAddress?: string): Promise<void> {
+    const submitted = typeof code === 'string' ? code.trim() : '';
+
+    const outcome = await db.transaction(async (client) => {
+      const userResult = await client.query(
+        `SELECT email, full_name, totp_secret, totp_enabled, totp_last_step, failed_mfa_attempts,
+                mfa_locked_until > now() AS mfa_locked
+         FROM users WHERE id = $1 FOR UPDATE`,
+        [userId]
+      );
+
+      const user = userResult.rows[0];
+      if (!user || !user.totp_enabled) {
+        return { accepted: false, locked: false };
+      }
+
+      if (user.mfa_locked) {
+        throw new AppError(423, 'Two-factor codes are locked, try again later', 'MFA_LOCKED');
+      }
+
+      if (await this.matchCode(client, userId, user, submitted, context)) {
+        if (user.failed_mfa_attempts > 0) {
+          await client.query('UPDATE users SET failed_mfa_attempts = 0 WHERE id = $1', [userId]);
+        }
+        return { accepted: true, locked: false };
+      }
+
+      const attempts = user.failed_mfa_attempts + 1;
+
+      if (attempts >= config.MFA_MAX_ATTEMPTS) {
+        await client.query(
+          `UPDATE users SET failed_mfa_attempts = 0, mfa_locked_until = now() + make_interval(mins => $1)
+           WHERE id = $2`,
+          [config.MFA_LOCK_MINUTES, userId]
+        );
+        return { accepted: false, locked: true, email: user.email, fullName: user.full_name };
+      }
+
+      await client.query('UPDATE users SET failed_mfa_attempts = $1 WHERE id = $2', [attempts, userId]);
+      return { accepted: false, locked: false };
+    });
+
+    if (outcome.locked) {
+      await this.lock(userId, outcome.email, outcome.fullName, context, ipAddress);
+    }
+
+    if (!outcome.accepted) {
+      await this.rejectCode(userId, context, ipAddress);
+    }
+  }
+
+  /**
+   * Step-up check for money leaving a wallet. Amounts above MFA_STEP_UP_THRESHOLD need a fresh
+   * TOTP code, but only from users who enabled 2FA.
+   */
+  async assertStepUp(userId: string, amount: number, code?: string, ipAddress?: string): Promise<void> {
+    if (amount <= config.MFA_STEP_UP_THRESHOLD) {
+      return;
+    }
+
+    if (!(await this.isEnabled(userId))) {
+      return;
+    }
+
+    if (!code) {
+      throw new AppError(403, `A TOTP code is required for amounts above ${config.MFA_STEP_UP_THRESHOLD}`, 'MFA_REQUIRED');
+    }
+
+    await this.verifyCode(userId, code, 'step_up', ipAddress);
+  }
+
+  // Marks the TOTP step or recovery code used when it matches; runs under the user row's lock
+  private async matchCode(
+    client: PoolClient,
+    userId: string,
+    user: { totp_secret: string; totp_last_step: string | null },
+    submitted: string,
+    context: MfaContext
+  ): Promise<boolean> {
+    const step = matchTotp(user.totp_secret, submitted);
+    const lastStep = user.totp_last_step === null ? null : Number(user.totp_last_step);
+
+    if (step !== null && (lastStep === null || step > lastStep)) {
+      await client.query('UPDATE users SET totp_last_step = $1 WHERE id = $2', [step, userId]);
+      return true;
+    }
+
+    // Recovery codes cannot authorise a payment, only get the user back into their account
+    if (context === 'step_up' || step !== null) {
+      return false;
+    }
+
+    const recoveryResult = await client.query(
+      `UPDATE mfa_recovery_codes SET used_at = now()
+       WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+       RETURNING id`,
+      [userId, hashToken(normalizeRecoveryCode(submitted))]
+    );
+
+    return recoveryResult.rows.length > 0;
+  }
+
+  // The owner is emailed, since whoever is guessing already has the password or a session
+  private async lock(
+    userId: string,
+    email: string,
+    fullName: string,
+    context: MfaContext,
+    ipAddress?: string
+  ): Promise<never> {
+    await auditService.log({
+      actorId: userId,
+      eventType: 'MFA_LOCKED',
+      eventData: { context, lockMinutes: config.MFA_LOCK_MINUTES },
+      ipAddress,
+    });
+
+    try {
+      await mailer.send({ to: email, ...mfaLockedEmail(fullName, config.MFA_LOCK_MINUTES) });
+    } catch (error) {
+      console.error('Failed to send two-factor lockout email:', error);
+    }
+
+    throw new AppError(
+      423,
+      `Too many incorrect two-factor codes, codes are locked for ${config.MFA_LOCK_MINUTES} minutes`,
+      'MFA_LOCKED'
+    );
+  }
+
+  private async rejectCode(userId: string, context: MfaContext, ipAddress?: string): Promise<never> {
+    await auditService.log({
+      actorId: userId,
+      eventType: 'MFA_CODE_FAILED',
+      eventData: { context },
+      ipAddress,
+    });
+
+    const statusCode = context === 'login' ? 401 : context === 'step_up' ? 403 : 400;
+    throw new AppError(statusCode, 'Invalid two-factor code', 'MFA_CODE_INVALID');
+  }
+}
+
+export const mfaService = new MfaService();
@@ -0,0 +1,226 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { NewOutboxEvent, OutboxEvent, OutboxSink, Transaction } from '../types';
+import { eventBus } from '../utils/eventBus';
+import { getRequestContext } from '../utils/requestContext';
+import { webhookService } from './webhookService';
+
+export const OUTBOX_COLUMNS =
+  'id, event_id, wallet_id, user_id, event_type, payload, ip_address, user_agent, request_id, delivered_sinks, attempts, created_at';
+
+// LISTEN/NOTIFY channel carrying the ids of newly committed outbox events
+export const OUTBOX_CHANNEL = 'outbox_events';
+
+// Only one relay runs at a time across instances, otherwise two could publish a wallet's events out of order
+const RELAY_LOCK_SQL = "SELECT pg_try_advisory_lock(hashtext('outbox_relay')) AS acquired";
+const RELAY_UNLOCK_SQL = "SELECT pg_advisory_unlock(hashtext('outbox_relay'))";
+
+// Failed events are retried after 5 s, 10 s, 20 s... up to five minutes, and never given up on
+const RETRY_BASE_SECONDS = 5;
+const RETRY_MAX_SECONDS = 300;
+
+export const outboxRetryDelaySeconds = (attempts: number): number =>
+  Math.min(RETRY_BASE_SECONDS * 2 ** (attempts - 1), RETRY_MAX_SECONDS);
+
+const webhookSink: OutboxSink = {
+  name: 'webhooks',
+  async handle(event) {
+    await webhookService.enqueue({
+      id: event.event_id,
+      type: event.event_type,
+      created_at: new Date(event.created_at).toISOString(),
+      user_id: event.user_id,
+      data: event.payload,
+    });
+  },
+};
+
+const busSink: OutboxSink = {
+  name: 'bus',
+  async handle(event) {
+    eventBus.emit(event.event_type, event);
+    eventBus.emit('*', event);
+  },
+};
+
+/**
+ * Transactional outbox. Money movements add their events with the same client as the balance
+ * change, so an event exists exactly when its change committed. The relay then hands every
+ * event to each sink at least once, in id order per wallet.
+ */
+export class OutboxService {
+  constructor(private sinks: OutboxSink[] = []) {}
+
+  register(sink: OutboxSink): void {
+    if (this.sinks.some((existing) => existing.name === sink.name)) {
+      throw new Error(`Outbox sink ${sink.name} is already registered`);
+    }
+
+    this.sinks.push(sink);
+  }
+
+  /**
+   * Must run inside the caller's DB transaction, after the wallet rows are locked. The ids are
+   * announced on OUTBOX_CHANNEL, which Postgres only delivers once the transaction commits.
+   * The request's IP, user agent and id are kept with each event so a stuck or disputed event can be
+   * traced to the request that wrote it; no sink reads them, the audit record is written by the caller.
+   */
+  async add(client: PoolClient, events: NewOutboxEvent[]): Promise<void> {
+    const context = getRequestContext();
+    const ids: string[] = [];
+
+    for (const event of events) {
+      const result = await client.query(
+        `INSERT INTO outbox_events (wallet_id, user_id, event_type, payload, ip_address, user_agent, request_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING id`,
+        [
+          event.walletId,
+          event.userId,
+          event.eventType,
+          JSON.stringify(event.payload),
+          event.ipAddress || context?.ipAddress || null,
+          context?.userAgent || null,
+          context?.requestId || null,
+        ]
+      );
+      ids.push(result.rows[0].id);
+    }
+
+    if (ids.length > 0) {
+      await client.query('SELECT pg_notify($1, $2)', [OUTBOX_CHANNEL, ids.join(',')]);
+    }
+  }
+
+  // One transaction.created event per row, each on its own wallet
+  async addTransactions(client: PoolClient, transactions: Transaction[], ipAddress?: string): Promise<void> {
+    await this.add(
+      client,
+      transactions.map((transaction) => ({
+        walletId: transaction.wallet_id,
+        userId: transaction.user_id,
+        eventType: 'transaction.created',
+        payload: { transaction },
+        ipAddress,
+      }))
+    );
+  }
+
+  /**
+   * Publishes one batch of due events and returns how many were fully published. Writers hold
+   * the wallet lock while adding events, so a wallet's events commit in id order. An event still
+   * waiting for a retry holds back the later events of its wallet, and a failure in this batch
+   * skips the rest of that wallet's events until the next run.
+   */
+  async relay(batchSize: number = 100): Promise<number> {
+    const client = await db.getClient();
+
+    try {
+      const lock = await client.query(RELAY_LOCK_SQL);
+      if (!lock.rows[0].acquired) {
+        return 0;
+      }
+
+      try {
+        const due = await client.query(
+          `SELECT ${OUTBOX_COLUMNS} FROM outbox_events o
+           WHERE o.published_at IS NULL AND o.next_attempt_at <= now()
+             AND NOT EXISTS (
+               SELECT 1 FROM outbox_events earlier
+               WHERE earlier.wallet_id = o.wallet_id AND earlier.published_at IS NULL
+                 AND earlier.id < o.id AND earlier.next_attempt_at > now()
+             )
+           ORDER BY o.id
+           LIMIT $1`,
+          [batchSize]
+        );
+
+        const blockedWallets = new Set<string>();
+        let published = 0;
+
+        for (const event of due.rows as OutboxEvent[]) {
+          if (blockedWallets.has(event.wallet_id)) {
+            continue;
+          }
+
+          if (await this.dispatch(client, event)) {
+            published += 1;
+          } else {
+            blockedWallets.add(event.wallet_id);
+          }
+        }
+
+        return published;
+      } finally {
+        await client.query(RELAY_UNLOCK_SQL);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Published events are only kept for troubleshooting. The highest deleted id is recorded in the
+   * same statement, so a realtime client resuming from before it knows it may have missed events.
+   */
+  async deleteExpired(): Promise<number> {
+    const result = await db.query(
+      `WITH deleted AS (
+         DELETE FROM outbox_events
+         WHERE published_at IS NOT NULL AND published_at < now() - make_interval(days => $1)
+         RETURNING id
+       ), watermark AS (
+         UPDATE outbox_cleanup SET deleted_through = GREATEST(deleted_through, (SELECT MAX(id) FROM deleted))
+         WHERE EXISTS (SELECT 1 FROM deleted)
+       )
+       SELECT COUNT(*)::int AS count FROM deleted`,
+      [config.OUTBOX_RETENTION_DAYS]
+    );
+
+    return result.rows[0].count;
+  }
+
+  // Runs every sink that has not accepted the event yet; returns whether all of them have now
+  private async dispatch(client: PoolClient, event: OutboxEvent): Promise<boolean> {
+    const delivered = [...event.delivered_sinks];
+    const errors: string[] = [];
+
+    for (const sink of this.sinks) {
+      if (delivered.includes(sink.name)) {
+        continue;
+      }
+
+      try {
+        await sink.handle(event);
+        delivered.push(sink.name);
+      } catch (error) {
+        errors.push(`${sink.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const attempts = event.attempts + 1;
+
+    if (errors.length === 0) {
+      await client.query(
+        `UPDATE outbox_events
+         SET delivered_sinks = $1, attempts = $2, last_error = NULL, published_at = now()
+         WHERE id = $3`,
+        [delivered, attempts, event.id]
+      );
+      return true;
+    }
+
+    console.error('Outbox event could not be published:', { eventId: event.event_id, errors });
+
+    await client.query(
+      `UPDATE outbox_events
+       SET delivered_sinks = $1, attempts = $2, last_error = $3, next_attempt_at = now() + make_interval(secs => $4)
+       WHERE id = $5`,
+      [delivered, attempts, errors.join('; '), outboxRetryDelaySeconds(attempts), event.id]
+    );
+    return false;
+  }
+}
+
+export const outboxService = new OutboxService([webhookSink, busSink]);
@@ -0,0 +1,229 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { OutboxEvent, RealtimeStream } from '../types';
+import { OUTBOX_CHANNEL, OUTBOX_COLUMNS } from './outboxService';
+
+// At most this many missed events are replayed; a client further behind is told to reload
+const REPLAY_LIMIT = 500;
+
+// Open streams per user on one instance, so a client stuck in a reconnect loop cannot hold every connection
+const MAX_STREAMS_PER_USER = 5;
+
+const EVENT_ID_PATTERN = /^\d{1,18}$/;
+
+export const isStreamEventId = (value: string): boolean => EVENT_ID_PATTERN.test(value);
+
+const serverSentEvent = (id: string, type: string, data: Record<string, any>): string =>
+  `id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Formats an outbox event for an event stream. Every new transaction is followed by a
+ * balance.updated event for its wallet; both carry the outbox id, which the client sends back
+ * as Last-Event-ID when it reconnects.
+ */
+export const toServerSentEvents = (event: OutboxEvent): string => {
+  let text = serverSentEvent(event.id, event.event_type, {
+    id: event.event_id,
+    type: event.event_type,
+    created_at: new Date(event.created_at).toISOString(),
+    data: event.payload,
+  });
+
+  if (event.event_type === 'transaction.created') {
+    const { transaction } = event.payload;
+    text += serverSentEvent(event.id, 'balance.updated', {
+      wallet_id: event.wallet_id,
+      balance: transaction.balance_after,
+      transaction_id: transaction.id,
+    });
+  }
+
+  return text;
+};
+
+/**
+ * Pushes committed wallet events to the owners' open streams. Each instance LISTENs on the
+ * outbox channel, which Postgres notifies when a money movement commits, and forwards the
+ * events of the users connected to it. If the listening connection fails, every stream is
+ * closed so clients reconnect and resume from their last event instead of silently missing some.
+ */
+export class RealtimeService {
+  private streams = new Map<string, Set<RealtimeStream>>();
+  private listener: PoolClient | null = null;
+  private connecting: Promise<void> | null = null;
+  // Notifications are forwarded one batch at a time, so a slow query cannot let a later batch overtake it
+  private forwarding: Promise<void> = Promise.resolve();
+
+  /**
+   * Starts a stream. Live events are buffered while the ones after lastEventId are replayed, so
+   * nothing committed in between is lost. Returns the function that ends the subscription.
+   */
+  async open(userId: string, lastEventId: string | undefined, stream: RealtimeStream): Promise<() => void> {
+    const open = this.streams.get(userId);
+    if (open && open.size >= MAX_STREAMS_PER_USER) {
+      throw new AppError(429, `No more than ${MAX_STREAMS_PER_USER} event streams can be open at once`);
+    }
+
+    const buffered: OutboxEvent[] = [];
+    let live = false;
+
+    const subscriber: RealtimeStream = {
+      ...stream,
+      send: (event) => (live ? stream.send(event) : buffered.push(event)),
+    };
+
+    this.add(userId, subscriber);
+    const unsubscribe = (): void => this.remove(userId, subscriber);
+
+    try {
+      await this.listen();
+
+      const replayed = new Set<string>();
+
+      if (lastEventId !== undefined) {
+        const missed = await db.query(
+          `SELECT ${OUTBOX_COLUMNS} FROM outbox_events
+           WHERE user_id = $1 AND id > $2
+           ORDER BY id
+           LIMIT $3`,
+          [userId, lastEventId, REPLAY_LIMIT + 1]
+        );
+
+        // Events after lastEventId may have been deleted by the outbox cleanup and cannot be replayed.
+        // Read after the replay, so a cleanup that ran in between is seen here.
+        const cleanup = await db.query('SELECT deleted_through FROM outbox_cleanup');
+        const deleted = cleanup.rows.length > 0 && BigInt(lastEventId) < BigInt(cleanup.rows[0].deleted_through);
+
+        if (deleted || missed.rows.length > REPLAY_LIMIT) {
+          stream.reset();
+          buffered.length = 0;
+        } else {
+          for (const event of missed.rows as OutboxEvent[]) {
+            replayed.add(event.id);
+            stream.send(event);
+          }
+        }
+      }
+
+      for (const event of buffered) {
+        if (!replayed.has(event.id)) {
+          stream.send(event);
+        }
+      }
+
+      live = true;
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    }
+
+    return unsubscribe;
+  }
+
+  // Ends every open stream and stops listening, for a graceful shutdown
+  async close(): Promise<void> {
+    this.closeStreams();
+
+    const listener = this.listener;
+    this.listener = null;
+
+    if (listener) {
+      await listener.query(`UNLISTEN ${OUTBOX_CHANNEL}`).catch(() => undefined);
+      listener.release();
+    }
+  }
+
+  private add(userId: string, stream: RealtimeStream): void {
+    const streams = this.streams.get(userId) || new Set<RealtimeStream>();
+    streams.add(stream);
+    this.streams.set(userId, streams);
+  }
+
+  private remove(userId: string, stream: RealtimeStream): void {
+    const streams = this.streams.get(userId);
+    if (!streams) {
+      return;
+    }
+
+    streams.delete(stream);
+    if (streams.size === 0) {
+      this.streams.delete(userId);
+    }
+  }
+
+  private closeStreams(): void {
+    const streams = [...this.streams.values()].flatMap((set) => [...set]);
+    this.streams.clear();
+    streams.forEach((stream) => stream.close());
+  }
+
+  // The listening connection is opened with the first stream and kept for the life of the process
+  private async listen(): Promise<void> {
+    if (this.listener) {
+      return;
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    await this.connecting;
+  }
+
+  private async connect(): Promise<void> {
+    const client = await db.getClient();
+
+    client.on('notification', (message) => {
+      if (message.channel === OUTBOX_CHANNEL && message.payload) {
+        const ids = message.payload.split(',');
+        this.forwarding = this.forwarding
+          .then(() => this.forward(ids))
+          .catch((error) => {
+            console.error('Failed to forward wallet events:', error);
+          });
+      }
+    });
+
+    client.on('error', (error) => {
+      console.error('Wallet event listener failed:', error);
+
+      if (this.listener === client) {
+        this.listener = null;
+        client.release(error);
+        this.closeStreams();
+      }
+    });
+
+    try {
+      await client.query(`LISTEN ${OUTBOX_CHANNEL}`);
+    } catch (error) {
+      client.release(error instanceof Error ? error : true);
+      throw error;
+    }
+
+    this.listener = client;
+  }
+
+  private async forward(ids: string[]): Promise<void> {
+    const userIds = [...this.streams.keys()];
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const result = await db.query(
+      `SELECT ${OUTBOX_COLUMNS} FROM outbox_events
+       WHERE id = ANY($1::bigint[]) AND user_id = ANY($2::uuid[])
+       ORDER BY id`,
+      [ids, userIds]
+    );
+
+    for (const event of result.rows as OutboxEvent[]) {
+      this.streams.get(event.user_id)?.forEach((stream) => stream.send(event));
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -0,0 +1,354 @@
+import { PoolClient } from 'pg';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import {
+  CreateScheduledTransferRequest,
+  ScheduledTransfer,
+  ScheduledTransferRun,
+  ScheduleFrequency,
+  ScheduleStatus,
+} from '../types';
+import { isValidAmount } from '../utils/validators';
+import { auditService } from './auditService';
+import { walletService } from './walletService';
+import { mfaService } from './mfaService';
+
+const SCHEDULE_COLUMNS =
+  'id, user_id, recipient_user_id, amount, currency, description, frequency, start_at, end_at, max_runs, next_occurrence, next_run_at, run_count, status, created_at, updated_at';
+
+const RUN_COLUMNS = 'id, scheduled_transfer_id, occurrence, reference, status, error_message, scheduled_for, executed_at';
+
+const FREQUENCIES: ScheduleFrequency[] = ['once', 'daily', 'weekly', 'monthly'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Requests are allowed this much clock skew when start_at is "now"
+const START_AT_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * When occurrence n of a schedule is due. Every occurrence is counted from start_at rather than
+ * from the previous run, so a monthly schedule started on the 31st runs on the last day of
+ * shorter months and returns to the 31st afterwards.
+ */
+export const nextRunAt = (startAt: Date, frequency: ScheduleFrequency, occurrence: number): Date => {
+  const start = new Date(startAt);
+
+  switch (frequency) {
+    case 'daily':
+      return new Date(start.getTime() + occurrence * DAY_MS);
+    case 'weekly':
+      return new Date(start.getTime() + occurrence * 7 * DAY_MS);
+    case 'monthly': {
+      const target = new Date(start);
+      target.setUTCDate(1);
+      target.setUTCMonth(start.getUTCMonth() + occurrence);
+      const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+      target.setUTCDate(Math.min(start.getUTCDate(), daysInMonth));
+      return target;
+    }
+    default:
+      return start;
+  }
+};
+
+export const scheduleReference = (scheduleId: string, occurrence: number): string => `SCH-${scheduleId}-${occurrence}`;
+
+const parseDate = (value: string, field: string): Date => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(400, `Invalid ${field}`);
+  }
+  return date;
+};
+
+export class ScheduledTransferService {
+  async createSchedule(
+    userId: string,
+    data: CreateScheduledTransferRequest,
+    ipAddress?: string,
+    totpCode?: string
+  ): Promise<ScheduledTransfer> {
+    if (!isValidAmount(data.amount)) {
+      throw new AppError(400, 'Invalid amount');
+    }
+
+    if (!FREQUENCIES.includes(data.frequency)) {
+      throw new AppError(400, `frequency must be one of ${FREQUENCIES.join(', ')}`);
+    }
+
+    if (data.max_runs !== undefined && (!Number.isInteger(data.max_runs) || data.max_runs < 1)) {
+      throw new AppError(400, 'max_runs must be a positive whole number');
+    }
+
+    const startAt = data.start_at ? parseDate(data.start_at, 'start_at') : new Date();
+    if (startAt.getTime() < Date.now() - START_AT_TOLERANCE_MS) {
+      throw new AppError(400, 'start_at cannot be in the past');
+    }
+
+    const endAt = data.end_at ? parseDate(data.end_at, 'end_at') : null;
+    if (endAt && endAt < startAt) {
+      throw new AppError(400, 'end_at must be after start_at');
+    }
+
+    const currency = walletService.resolveCurrency(data.currency);
+    await walletService.assertCanTransfer(userId);
+    // Step-up happens once, here; the runs themselves skip it
+    await mfaService.assertStepUp(userId, data.amount, totpCode, ipAddress);
+    const recipientId = await walletService.resolveRecipientId(userId, data.recipient_email, data.recipient_user_id);
+
+    const walletsResult = await db.query('SELECT user_id FROM wallets WHERE user_id IN ($1, $2) AND currency = $3', [
+      userId,
+      recipientId,
+      currency,
+    ]);
+    const walletOwners = walletsResult.rows.map((row) => row.user_id);
+
+    if (!walletOwners.includes(userId)) {
+      throw new AppError(404, `${currency} wallet not found`);
+    }
+
+    if (!walletOwners.includes(recipientId)) {
+      throw new AppError(404, `Recipient has no ${currency} wallet`);
+    }
+
+    const result = await db.query(
+      `INSERT INTO scheduled_transfers (user_id, recipient_user_id, amount, currency, description, frequency, start_at, end_at, max_runs, next_run_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $7)
+       RETURNING ${SCHEDULE_COLUMNS}`,
+      [
+        userId,
+        recipientId,
+        data.amount.toFixed(2),
+        currency,
+        data.description || null,
+        data.frequency,
+        startAt,
+        endAt,
+        data.frequency === 'once' ? null : data.max_runs ?? null,
+      ]
+    );
+
+    const schedule: ScheduledTransfer = result.rows[0];
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'SCHEDULED_TRANSFER_CREATED',
+      eventData: { scheduleId: schedule.id, recipientId, amount: schedule.amount, frequency: schedule.frequency },
+      ipAddress,
+    });
+
+    return schedule;
+  }
+
+  async getSchedules(userId: string): Promise<ScheduledTransfer[]> {
+    const result = await db.query(
+      `SELECT ${SCHEDULE_COLUMNS} FROM scheduled_transfers WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  async getRuns(userId: string, scheduleId: string): Promise<ScheduledTransferRun[]> {
+    const scheduleResult = await db.query('SELECT id FROM scheduled_transfers WHERE id = $1 AND user_id = $2', [
+      scheduleId,
+      userId,
+    ]);
+
+    if (scheduleResult.rows.length === 0) {
+      throw new AppError(404, 'Scheduled transfer not found');
+    }
+
+    const result = await db.query(
+      `SELECT ${RUN_COLUMNS} FROM scheduled_transfer_runs WHERE scheduled_transfer_id = $1 ORDER BY occurrence DESC`,
+      [scheduleId]
+    );
+
+    return result.rows;
+  }
+
+  async pauseSchedule(userId: string, scheduleId: string, ipAddress?: string): Promise<ScheduledTransfer> {
+    return this.changeStatus(userId, scheduleId, ['active'], 'paused', ipAddress);
+  }
+
+  async cancelSchedule(userId: string, scheduleId: string, ipAddress?: string): Promise<ScheduledTransfer> {
+    return this.changeStatus(userId, scheduleId, ['active', 'paused'], 'cancelled', ipAddress);
+  }
+
+  /**
+   * Reactivates a paused schedule. Occurrences that fell due while it was paused are skipped,
+   * except for a one-off transfer, which runs on the next scheduler pass.
+   */
+  async resumeSchedule(userId: string, scheduleId: string, ipAddress?: string): Promise<ScheduledTransfer> {
+    const schedule = await db.transaction(async (client) => {
+      const current = await this.lockSchedule(client, scheduleId, userId);
+
+      if (current.status !== 'paused') {
+        throw new AppError(409, `Scheduled transfer is ${current.status}`);
+      }
+
+      let occurrence = current.next_occurrence;
+      let runAt = nextRunAt(current.start_at, current.frequency, occurrence);
+
+      if (current.frequency !== 'once') {
+        const now = Date.now();
+        while (runAt.getTime() < now) {
+          occurrence++;
+          runAt = nextRunAt(current.start_at, current.frequency, occurrence);
+        }
+      }
+
+      const finished = current.end_at !== null && runAt > new Date(current.end_at);
+
+      const result = await client.query(
+        `UPDATE scheduled_transfers SET status = $1, next_occurrence = $2, next_run_at = $3
+         WHERE id = $4
+         RETURNING ${SCHEDULE_COLUMNS}`,
+        [finished ? 'completed' : 'active', occurrence, finished ? null : runAt, current.id]
+      );
+
+      return result.rows[0] as ScheduledTransfer;
+    });
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'SCHEDULED_TRANSFER_RESUMED',
+      eventData: { scheduleId, nextRunAt: schedule.next_run_at },
+      ipAddress,
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Executes due occurrences one at a time. Each schedule row stays locked (FOR UPDATE SKIP LOCKED)
+   * while its transfer runs, so other instances skip it instead of paying it twice.
+   */
+  async runDueTransfers(batchSize: number = 50): Promise<number> {
+    let processed = 0;
+
+    while (processed < batchSize && (await this.runNextDue())) {
+      processed++;
+    }
+
+    return processed;
+  }
+
+  private async runNextDue(): Promise<boolean> {
+    return db.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT ${SCHEDULE_COLUMNS} FROM scheduled_transfers
+         WHERE status = 'active' AND next_run_at <= now()
+         ORDER BY next_run_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED`
+      );
+
+      if (result.rows.length === 0) {
+        return false;
+      }
+
+      const schedule: ScheduledTransfer = result.rows[0];
+      const occurrence = schedule.next_occurrence;
+      const reference = scheduleReference(schedule.id, occurrence);
+
+      let status: ScheduledTransferRun['status'] = 'success';
+      let errorMessage: string | null = null;
+
+      try {
+        await walletService.transfer(
+          schedule.user_id,
+          undefined,
+          schedule.recipient_user_id,
+          parseFloat(schedule.amount),
+          schedule.description || 'Scheduled transfer',
+          reference,
+          undefined,
+          { currency: schedule.currency.trim(), skipStepUp: true }
+        );
+      } catch (error) {
+        // Anything but a business error (e.g. the database going away) rolls back and is retried next pass
+        if (!(error instanceof AppError)) {
+          throw error;
+        }
+
+        // The transfer committed on an earlier pass that failed before recording the run
+        if (error.code !== 'DUPLICATE_REFERENCE') {
+          status = 'failed';
+          errorMessage = error.message;
+        }
+      }
+
+      await client.query(
+        `INSERT INTO scheduled_transfer_runs (scheduled_transfer_id, occurrence, reference, status, error_message, scheduled_for)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (scheduled_transfer_id, occurrence) DO NOTHING`,
+        [schedule.id, occurrence, reference, status, errorMessage, schedule.next_run_at]
+      );
+
+      const runCount = schedule.run_count + 1;
+      const followingRunAt =
+        schedule.frequency === 'once' ? null : nextRunAt(schedule.start_at, schedule.frequency, occurrence + 1);
+      const finished =
+        !followingRunAt ||
+        (schedule.max_runs !== null && runCount >= schedule.max_runs) ||
+        (schedule.end_at !== null && followingRunAt > new Date(schedule.end_at));
+
+      await client.query(
+        `UPDATE scheduled_transfers SET next_occurrence = $1, next_run_at = $2, run_count = $3, status = $4
+         WHERE id = $5`,
+        [occurrence + 1, finished ? null : followingRunAt, runCount, finished ? 'completed' : 'active', schedule.id]
+      );
+
+      return true;
+    });
+  }
+
+  private async changeStatus(
+    userId: string,
+    scheduleId: string,
+    from: ScheduleStatus[],
+    to: ScheduleStatus,
+    ipAddress?: string
+  ): Promise<ScheduledTransfer> {
+    const schedule = await db.transaction(async (client) => {
+      const current = await this.lockSchedule(client, scheduleId, userId);
+
+      if (!from.includes(current.status)) {
+        throw new AppError(409, `Scheduled transfer is ${current.status}`);
+      }
+
+      const result = await client.query(
+        `UPDATE scheduled_transfers SET status = $1 WHERE id = $2 RETURNING ${SCHEDULE_COLUMNS}`,
+        [to, current.id]
+      );
+
+      return result.rows[0] as ScheduledTransfer;
+    });
+
+    await auditService.log({
+      actorId: userId,
+      eventType: `SCHEDULED_TRANSFER_${to.toUpperCase()}`,
+      eventData: { scheduleId },
+      ipAddress,
+    });
+
+    return schedule;
+  }
+
+  // Waits for a run in progress, so a schedule is never paused or cancelled halfway through a run
+  private async lockSchedule(client: PoolClient, scheduleId: string, userId: string): Promise<ScheduledTransfer> {
+    const result = await client.query(
+      `SELECT ${SCHEDULE_COLUMNS} FROM scheduled_transfers WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+      [scheduleId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Scheduled transfer not found');
+    }
+
+    return result.rows[0];
+  }
+}
+
+export const scheduledTransferService = new ScheduledTransferService();
@@ -0,0 +1,137 @@
+import { randomUUID } from 'crypto';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { generateOpaqueToken, hashToken } from '../utils/token';
+import { auditService } from './auditService';
+
+interface IssuedSession {
+  userId: string;
+  sessionId: string;
+  refreshToken: string;
+}
+
+const newRefreshToken = (): string => generateOpaqueToken(48);
+
+/**
+ * A session is a family of refresh tokens that descend from one login. The family id is the
+ * session id carried in access tokens, so revoking the family also locks out its access tokens.
+ */
+export class SessionService {
+  async createSession(userId: string, ipAddress?: string): Promise<IssuedSession> {
+    const sessionId = randomUUID();
+    const refreshToken = newRefreshToken();
+
+    await db.query(
+      `INSERT INTO sessions (user_id, family_id, token, ip_address, expires_at)
+       VALUES ($1, $2, $3, $4, now() + make_interval(days => $5))`,
+      [userId, sessionId, hashToken(refreshToken), ipAddress || null, config.REFRESH_TOKEN_TTL_DAYS]
+    );
+
+    return { userId, sessionId, refreshToken };
+  }
+
+  /**
+   * Swaps a refresh token for a new one in the same family. A token that was already swapped
+   * means it leaked (or the client raced itself), so the whole family is revoked.
+   */
+  async rotate(refreshToken: string, ipAddress?: string): Promise<IssuedSession> {
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT id, user_id, family_id, replaced_by, revoked_at, expires_at <= now() AS expired
+         FROM sessions WHERE token = $1 FOR UPDATE`,
+        [hashToken(refreshToken)]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(401, 'Invalid refresh token');
+      }
+
+      const current = result.rows[0];
+
+      if (current.revoked_at) {
+        throw new AppError(401, 'Session has been revoked');
+      }
+
+      if (current.replaced_by) {
+        // Committed before the error is raised, so the revocation sticks
+        await client.query('UPDATE sessions SET revoked_at = now() WHERE family_id = $1 AND revoked_at IS NULL', [
+          current.family_id,
+        ]);
+        return { reused: true as const, userId: current.user_id as string, sessionId: current.family_id as string };
+      }
+
+      if (current.expired) {
+        throw new AppError(401, 'Refresh token has expired');
+      }
+
+      const nextToken = newRefreshToken();
+      const inserted = await client.query(
+        `INSERT INTO sessions (user_id, family_id, token, ip_address, expires_at)
+         VALUES ($1, $2, $3, $4, now() + make_interval(days => $5))
+         RETURNING id`,
+        [current.user_id, current.family_id, hashToken(nextToken), ipAddress || null, config.REFRESH_TOKEN_TTL_DAYS]
+      );
+
+      await client.query('UPDATE sessions SET replaced_by = $1 WHERE id = $2', [inserted.rows[0].id, current.id]);
+
+      return {
+        reused: false as const,
+        userId: current.user_id as string,
+        sessionId: current.family_id as string,
+        refreshToken: nextToken,
+      };
+    });
+
+    if (outcome.reused) {
+      await auditService.log({
+        actorId: outcome.userId,
+        eventType: 'REFRESH_TOKEN_REUSED',
+        eventData: { sessionId: outcome.sessionId },
+        ipAddress,
+      });
+
+      throw new AppError(401, 'Refresh token has already been used');
+    }
+
+    return outcome;
+  }
+
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const result = await db.query(
+      `SELECT 1 FROM sessions
+       WHERE family_id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > now()
+       LIMIT 1`,
+      [sessionId, userId]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  async revokeSession(sessionId: string, userId: string): Promise<void> {
+    await db.query('UPDATE sessions SET revoked_at = now() WHERE family_id = $1 AND user_id = $2 AND revoked_at IS NULL', [
+      sessionId,
+      userId,
+    ]);
+  }
+
+  // Returns how many sessions were still live
+  async revokeAllSessions(userId: string): Promise<number> {
+    const result = await db.query(
+      `UPDATE sessions SET revoked_at = now()
+       WHERE user_id = $1 AND revoked_at IS NULL
+       RETURNING family_id`,
+      [userId]
+    );
+
+    return new Set(result.rows.map((row) => row.family_id)).size;
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await db.query('DELETE FROM sessions WHERE expires_at <= now()');
+
+    return result.rowCount || 0;
+  }
+}
+
+export const sessionService = new SessionService();
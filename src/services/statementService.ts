@@ -0,0 +1,325 @@
+import { Writable } from 'stream';
+import { db } from '../database/postgres';
+import { AppError } from '../middleware/errorHandler';
+import { StatementDetails, StatementFormat, StatementRequest, StatementSummary } from '../types';
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfText, PdfWriter } from '../utils/pdf';
+import { chunkWriter, csvRow } from '../utils/csv';
+import { auditService } from './auditService';
+import { exportLimiter } from './exportLimiter';
+import { walletService } from './walletService';
+
+const STATEMENT_FORMATS: StatementFormat[] = ['csv', 'pdf'];
+
+export const STATEMENT_CONTENT_TYPES: Record<StatementFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// One row of the statement, amounts in minor units
+interface StatementLine {
+  date: Date;
+  reference: string;
+  type: string;
+  description: string;
+  moneyIn: number;
+  moneyOut: number;
+  balance: number;
+}
+
+interface Totals {
+  moneyIn: number;
+  moneyOut: number;
+  count: number;
+}
+
+// Page layout, in points; columns are character widths of 8pt Courier
+const PDF_MARGIN = 40;
+const PDF_LINE_HEIGHT = 11;
+const PDF_TABLE_TOP = PDF_PAGE_HEIGHT - 119;
+const PDF_COLUMNS = [19, 30, 14, 36, 15, 15, 17];
+const PDF_AMOUNT_COLUMN = 4;
+
+const toMinorUnits = (amount: string): number => Math.round(parseFloat(amount) * 100);
+
+const formatAmount = (minorUnits: number): string => (minorUnits / 100).toFixed(2);
+
+const formatDateTime = (date: Date): string => date.toISOString().slice(0, 19).replace('T', ' ');
+
+// Text is cut to the column width; amounts are right-aligned
+const pdfRow = (cells: string[]): string =>
+  cells
+    .map((cell, index) => {
+      const width = PDF_COLUMNS[index];
+      const fitted = cell.replace(/\s+/g, ' ').slice(0, width);
+      return index >= PDF_AMOUNT_COLUMN ? fitted.padStart(width) : fitted.padEnd(width);
+    })
+    .join(' ');
+
+const isCalendarDate = (value: string): boolean =>
+  DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+/**
+ * Statements for one wallet over a range of days. Rows are read through a database cursor and
+ * written as they arrive, so a statement covering years of activity streams in constant memory.
+ */
+export class StatementService {
+  // Validates the request and loads the header, so errors surface before any bytes are sent
+  async prepare(userId: string, request: StatementRequest): Promise<StatementDetails> {
+    const format = (request.format || 'csv') as StatementFormat;
+    if (!STATEMENT_FORMATS.includes(format)) {
+      throw new AppError(400, `format must be one of ${STATEMENT_FORMATS.join(', ')}`);
+    }
+
+    const { from, to } = request;
+    if (!from || !to || !isCalendarDate(from) || !isCalendarDate(to)) {
+      throw new AppError(400, 'from and to are required as YYYY-MM-DD dates');
+    }
+
+    if (from > to) {
+      throw new AppError(400, 'from cannot be later than to');
+    }
+
+    const currency = walletService.resolveCurrency(request.currency);
+
+    const walletResult = await db.query(
+      `SELECT w.id, u.full_name
+       FROM wallets w JOIN users u ON u.id = w.user_id
+       WHERE w.user_id = $1 AND w.currency = $2`,
+      [userId, currency]
+    );
+
+    if (walletResult.rows.length === 0) {
+      throw new AppError(404, `${currency} wallet not found`);
+    }
+
+    const wallet = walletResult.rows[0];
+
+    // The balance left by the last settled transaction before the first day
+    const openingResult = await db.query(
+      `SELECT balance_after FROM transactions
+       WHERE wallet_id = $1 AND status = 'success' AND created_at < $2::date
+       ORDER BY created_at DESC, id DESC
+       LIMIT 1`,
+      [wallet.id, from]
+    );
+
+    return {
+      userId,
+      holderName: wallet.full_name,
+      walletId: wallet.id,
+      currency,
+      from,
+      to,
+      format,
+      openingBalance: openingResult.rows.length > 0 ? openingResult.rows[0].balance_after : '0.00',
+    };
+  }
+
+  fileName(statement: StatementDetails): string {
+    return `statement-${statement.currency}-${statement.from}-to-${statement.to}.${statement.format}`;
+  }
+
+  // actorId differs from the statement's owner when staff export it on the user's behalf
+  async export(
+    actorId: string,
+    statement: StatementDetails,
+    output: Writable,
+    ipAddress?: string
+  ): Promise<StatementSummary> {
+    const release = exportLimiter.acquire(actorId);
+    const write = chunkWriter(output);
+    const totals: Totals = { moneyIn: 0, moneyOut: 0, count: 0 };
+    const lines = this.lines(statement, totals);
+
+    try {
+      if (statement.format === 'pdf') {
+        await this.writePdf(statement, lines, totals, write);
+      } else {
+        await this.writeCsv(statement, lines, totals, write);
+      }
+    } finally {
+      release();
+    }
+
+    const summary = this.summarize(statement, totals);
+
+    await auditService.log({
+      actorId,
+      eventType: actorId === statement.userId ? 'STATEMENT_EXPORTED' : 'ADMIN_STATEMENT_EXPORTED',
+      eventData: {
+        userId: statement.userId,
+        walletId: statement.walletId,
+        from: statement.from,
+        to: statement.to,
+        format: statement.format,
+        transactions: summary.transaction_count,
+      },
+      ipAddress,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Settled transactions in order, tallying money in and out as they pass. The direction and
+   * running balance come from balance_before and balance_after, so reversals and refunds land
+   * on the right side without a per-type rule.
+   */
+  private async *lines(statement: StatementDetails, totals: Totals): AsyncGenerator<StatementLine> {
+    const rows = db.iterate(
+      `SELECT created_at, reference, type, description, balance_before, balance_after
+       FROM transactions
+       WHERE wallet_id = $1 AND status = 'success' AND created_at >= $2::date AND created_at < $3::date + 1
+       ORDER BY created_at, id`,
+      [statement.walletId, statement.from, statement.to]
+    );
+
+    for await (const row of rows) {
+      const change = toMinorUnits(row.balance_after) - toMinorUnits(row.balance_before);
+      const line: StatementLine = {
+        date: row.created_at,
+        reference: row.reference,
+        type: row.type,
+        description: row.description || '',
+        moneyIn: Math.max(change, 0),
+        moneyOut: Math.max(-change, 0),
+        balance: toMinorUnits(row.balance_after),
+      };
+
+      totals.moneyIn += line.moneyIn;
+      totals.moneyOut += line.moneyOut;
+      totals.count += 1;
+
+      yield line;
+    }
+  }
+
+  private summarize(statement: StatementDetails, totals: Totals): StatementSummary {
+    const opening = toMinorUnits(statement.openingBalance);
+
+    return {
+      opening_balance: formatAmount(opening),
+      total_in: formatAmount(totals.moneyIn),
+      total_out: formatAmount(totals.moneyOut),
+      closing_balance: formatAmount(opening + totals.moneyIn - totals.moneyOut),
+      transaction_count: totals.count,
+    };
+  }
+
+  private async writeCsv(
+    statement: StatementDetails,
+    lines: AsyncIterable<StatementLine>,
+    totals: Totals,
+    write: (chunk: string) => Promise<void>
+  ): Promise<void> {
+    await write(
+      csvRow(['Account holder', statement.holderName]) +
+        csvRow(['Currency', statement.currency]) +
+        csvRow(['Period', `${statement.from} to ${statement.to}`]) +
+        csvRow(['Opening balance', formatAmount(toMinorUnits(statement.openingBalance))]) +
+        '\r\n' +
+        csvRow(['Date', 'Reference', 'Type', 'Description', 'Money in', 'Money out', 'Balance'])
+    );
+
+    for await (const line of lines) {
+      await write(
+        csvRow([
+          formatDateTime(line.date),
+          line.reference,
+          line.type,
+          line.description,
+          line.moneyIn ? formatAmount(line.moneyIn) : '',
+          line.moneyOut ? formatAmount(line.moneyOut) : '',
+          formatAmount(line.balance),
+        ])
+      );
+    }
+
+    const summary = this.summarize(statement, totals);
+
+    await write(
+      '\r\n' +
+        csvRow(['Total in', summary.total_in]) +
+        csvRow(['Total out', summary.total_out]) +
+        csvRow(['Closing balance', summary.closing_balance])
+    );
+  }
+
+  private async writePdf(
+    statement: StatementDetails,
+    lines: AsyncIterable<StatementLine>,
+    totals: Totals,
+    write: (chunk: Buffer) => Promise<void>
+  ): Promise<void> {
+    const pdf = new PdfWriter(write);
+    let page: PdfText[] = [];
+    let pageNumber = 0;
+    let y = 0;
+
+    const startPage = async (): Promise<void> => {
+      if (page.length > 0) {
+        await pdf.addPage(page);
+      }
+
+      pageNumber += 1;
+      page = this.pdfHeader(statement, pageNumber);
+      y = PDF_TABLE_TOP;
+    };
+
+    const addRow = async (cells: string[], bold = false): Promise<void> => {
+      if (y < PDF_MARGIN) {
+        await startPage();
+      }
+
+      page.push({ x: PDF_MARGIN, y, text: pdfRow(cells), bold });
+      y -= PDF_LINE_HEIGHT;
+    };
+
+    await pdf.begin();
+    await startPage();
+    await addRow(['', '', '', 'Opening balance', '', '', formatAmount(toMinorUnits(statement.openingBalance))], true);
+
+    for await (const line of lines) {
+      await addRow([
+        formatDateTime(line.date),
+        line.reference,
+        line.type,
+        line.description,
+        line.moneyIn ? formatAmount(line.moneyIn) : '',
+        line.moneyOut ? formatAmount(line.moneyOut) : '',
+        formatAmount(line.balance),
+      ]);
+    }
+
+    const summary = this.summarize(statement, totals);
+
+    await addRow(['', '', '', 'Total in / out', summary.total_in, summary.total_out, ''], true);
+    await addRow(['', '', '', 'Closing balance', '', '', summary.closing_balance], true);
+
+    await pdf.addPage(page);
+    await pdf.end();
+  }
+
+  // Repeated on every page so a printed page still says whose statement it is
+  private pdfHeader(statement: StatementDetails, pageNumber: number): PdfText[] {
+    const top = PDF_PAGE_HEIGHT - PDF_MARGIN;
+
+    return [
+      { x: PDF_MARGIN, y: top, text: 'Account Statement', size: 14, bold: true },
+      { x: PDF_PAGE_WIDTH - PDF_MARGIN - 60, y: top, text: `Page ${pageNumber}`, size: 9 },
+      { x: PDF_MARGIN, y: top - 20, text: `Account holder: ${statement.holderName}`, size: 9 },
+      { x: PDF_MARGIN, y: top - 32, text: `Wallet: ${statement.currency} (${statement.walletId})`, size: 9 },
+      { x: PDF_MARGIN, y: top - 44, text: `Period: ${statement.from} to ${statement.to}`, size: 9 },
+      {
+        x: PDF_MARGIN,
+        y: PDF_TABLE_TOP + 14,
+        text: pdfRow(['Date', 'Reference', 'Type', 'Description', 'Money in', 'Money out', 'Balance']),
+        bold: true,
+      },
+    ];
+  }
+}
+
+export const statementService = new StatementService();
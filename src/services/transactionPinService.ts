@@ -0,0 +1,182 @@
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import { comparePassword, hashPassword } from '../utils/password';
+import { isValidPin } from '../utils/validators';
+import { auditService } from './auditService';
+
+const assertPinFormat = (pin: string): void => {
+  if (typeof pin !== 'string' || !isValidPin(pin)) {
+    throw new AppError(400, 'PIN must be 4 to 6 digits');
+  }
+};
+
+/**
+ * The transaction PIN authorises money leaving a wallet. It is hashed like a password, and wrong
+ * attempts lock the PIN for a while without touching the login.
+ */
+export class TransactionPinService {
+  async setPin(userId: string, pin: string, password: string, ipAddress?: string): Promise<void> {
+    assertPinFormat(pin);
+
+    const user = await this.findUser(userId);
+
+    if (user.pin_hash) {
+      throw new AppError(409, 'Transaction PIN is already set');
+    }
+
+    await this.assertPassword(password, user.password_hash);
+    await this.storePin(userId, pin);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'TRANSACTION_PIN_SET',
+      eventData: {},
+      ipAddress,
+    });
+  }
+
+  // The current PIN goes through verify, so guessing it here counts towards the lock
+  async changePin(userId: string, currentPin: string, newPin: string, ipAddress?: string): Promise<void> {
+    assertPinFormat(newPin);
+
+    if (newPin === currentPin) {
+      throw new AppError(400, 'New PIN must be different from the current PIN');
+    }
+
+    await this.verify(userId, currentPin, ipAddress);
+    await this.storePin(userId, newPin);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'TRANSACTION_PIN_CHANGED',
+      eventData: {},
+      ipAddress,
+    });
+  }
+
+  // For a forgotten PIN: the account password replaces the old PIN and lifts any lock
+  async resetPin(userId: string, password: string, newPin: string, ipAddress?: string): Promise<void> {
+    assertPinFormat(newPin);
+
+    const user = await this.findUser(userId);
+
+    if (!user.pin_hash) {
+      throw new AppError(409, 'No transaction PIN is set');
+    }
+
+    await this.assertPassword(password, user.password_hash);
+    await this.storePin(userId, newPin);
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'TRANSACTION_PIN_RESET',
+      eventData: {},
+      ipAddress,
+    });
+  }
+
+  /**
+   * Checks the PIN and keeps count of wrong attempts. The count is committed before the error
+   * is raised, and reaching PIN_MAX_ATTEMPTS locks the PIN for PIN_LOCK_MINUTES.
+   */
+  async verify(userId: string, pin: string | undefined, ipAddress?: string): Promise<void> {
+    const outcome = await db.transaction(async (client) => {
+      const result = await client.query(
+        `SELECT pin_hash, pin_failed_attempts, pin_locked_until > now() AS locked
+         FROM users WHERE id = $1 FOR UPDATE`,
+        [userId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError(404, 'User not found');
+      }
+
+      const user = result.rows[0];
+
+      if (!user.pin_hash) {
+        throw new AppError(403, 'Set a transaction PIN before moving money', 'PIN_NOT_SET');
+      }
+
+      if (user.locked) {
+        throw new AppError(423, 'Transaction PIN is locked, try again later', 'PIN_LOCKED');
+      }
+
+      if (typeof pin !== 'string' || pin === '') {
+        throw new AppError(403, 'Transaction PIN is required', 'PIN_REQUIRED');
+      }
+
+      if (await comparePassword(pin, user.pin_hash)) {
+        if (user.pin_failed_attempts > 0) {
+          await client.query('UPDATE users SET pin_failed_attempts = 0 WHERE id = $1', [userId]);
+        }
+        return { accepted: true as const };
+      }
+
+      const attempts = user.pin_failed_attempts + 1;
+
+      if (attempts >= config.PIN_MAX_ATTEMPTS) {
+        await client.query(
+          `UPDATE users SET pin_failed_attempts = 0, pin_locked_until = now() + make_interval(mins => $1)
+           WHERE id = $2`,
+          [config.PIN_LOCK_MINUTES, userId]
+        );
+        return { accepted: false as const, attempts, locked: true };
+      }
+
+      await client.query('UPDATE users SET pin_failed_attempts = $1 WHERE id = $2', [attempts, userId]);
+      return { accepted: false as const, attempts, locked: false };
+    });
+
+    if (outcome.accepted) {
+      return;
+    }
+
+    await auditService.log({
+      actorId: userId,
+      eventType: outcome.locked ? 'TRANSACTION_PIN_LOCKED' : 'TRANSACTION_PIN_FAILED',
+      eventData: { attempts: outcome.attempts },
+      ipAddress,
+    });
+
+    if (outcome.locked) {
+      throw new AppError(
+        423,
+        `Too many incorrect PIN attempts, the PIN is locked for ${config.PIN_LOCK_MINUTES} minutes`,
+        'PIN_LOCKED'
+      );
+    }
+
+    const remaining = config.PIN_MAX_ATTEMPTS - outcome.attempts;
+    throw new AppError(
+      403,
+      `Incorrect transaction PIN, ${remaining} attempt${remaining === 1 ? '' : 's'} remaining`,
+      'PIN_INVALID'
+    );
+  }
+
+  private async findUser(userId: string): Promise<{ password_hash: string; pin_hash: string | null }> {
+    const result = await db.query('SELECT password_hash, pin_hash FROM users WHERE id = $1', [userId]);
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async assertPassword(password: string, passwordHash: string): Promise<void> {
+    if (typeof password !== 'string' || !(await comparePassword(password, passwordHash))) {
+      throw new AppError(400, 'Current password is incorrect');
+    }
+  }
+
+  private async storePin(userId: string, pin: string): Promise<void> {
+    await db.query(
+      'UPDATE users SET pin_hash = $1, pin_failed_attempts = 0, pin_locked_until = NULL WHERE id = $2',
+      [await hashPassword(pin), userId]
+    );
+  }
+}
+
+export const transactionPinService = new TransactionPinService();
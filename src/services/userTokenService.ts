@@ -0,0 +1,66 @@
+import { PoolClient } from 'pg';
+import { UserTokenPurpose } from '../types';
+import { generateOpaqueToken, hashToken } from '../utils/token';
+
+/**
+ * Single-use tokens that are emailed to a user. Callers pass their own transaction client so
+ * issuing or spending a token commits together with whatever it unlocks.
+ */
+export class UserTokenService {
+  async issue(client: PoolClient, userId: string, purpose: UserTokenPurpose, ttlSeconds: number): Promise<string> {
+    const token = generateOpaqueToken();
+
+    await client.query(
+      `INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES ($1, $2, $3, now() + make_interval(secs => $4))`,
+      [userId, purpose, hashToken(token), ttlSeconds]
+    );
+
+    return token;
+  }
+
+  // Marks the token as used and returns its owner, or null if it is unknown, spent or expired
+  async consume(client: PoolClient, token: string, purpose: UserTokenPurpose): Promise<string | null> {
+    const result = await client.query(
+      `UPDATE user_tokens SET consumed_at = now()
+       WHERE token_hash = $1 AND purpose = $2 AND consumed_at IS NULL AND expires_at > now()
+       RETURNING user_id`,
+      [hashToken(token), purpose]
+    );
+
+    return result.rows.length > 0 ? result.rows[0].user_id : null;
+  }
+
+  // Spends every outstanding token of the purpose, e.g. older reset codes once one was used
+  async revokeAll(client: PoolClient, userId: string, purpose: UserTokenPurpose): Promise<void> {
+    await client.query(
+      'UPDATE user_tokens SET consumed_at = now() WHERE user_id = $1 AND purpose = $2 AND consumed_at IS NULL',
+      [userId, purpose]
+    );
+  }
+
+  // Seconds until another token may be issued, 0 when the cooldown has passed
+  async cooldownRemaining(
+    client: PoolClient,
+    userId: string,
+    purpose: UserTokenPurpose,
+    cooldownSeconds: number
+  ): Promise<number> {
+    const result = await client.query(
+      `SELECT CEIL(EXTRACT(EPOCH FROM (created_at + make_interval(secs => $3) - now()))) AS remaining
+       FROM user_tokens
+       WHERE user_id = $1 AND purpose = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId, purpose, cooldownSeconds]
+    );
+
+    if (result.rows.length === 0) {
+      return 0;
+    }
+
+    return Math.max(0, parseInt(result.rows[0].remaining, 10));
+  }
+}
+
+export const userTokenService = new UserTokenService();
@@ -1,30 +1,179 @@
+import { PoolClient } from 'pg';
 import { db } from '../database/postgres';
 import { AppError } from '../middleware/errorHandler';
-import { Wallet, Transaction, TransferResponse } from '../types';
-import { isValidAmount } from '../utils/validators';
+import {
+  Wallet,
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TransactionHistoryFilters,
+  TransactionHistoryPage,
+  TransactionHistoryCursorPage,
+  TransferResponse,
+  BalanceSummary,
+  WalletOperationOptions,
+  TransferOptions,
+  ConversionDetails,
+  ConversionResponse,
+  PostingInput,
+  ReversalResponse,
+  RefundResponse,
+  AccountStatus,
+  TransactionRecordInput,
+} from '../types';
+import { isValidAmount, isValidCurrency, DEFAULT_CURRENCY } from '../utils/validators';
 import { generateTransactionReference } from '../utils/reference';
+import { dateParam, listParam } from '../utils/queryParams';
 import { auditService } from './auditService';
+import { ledgerService, systemAccountCode, walletAccountCode } from './ledgerService';
+import { fxService } from './fxService';
+import { mfaService } from './mfaService';
+import { assertStatusAllows } from './accountStatusService';
+import { limitService } from './limitService';
+import { outboxService } from './outboxService';
+
+export const TRANSACTION_COLUMNS =
+  'id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, journal_entry_id, related_transaction_id, metadata, created_at';
+
+// Entry types that can be undone; reversals and refunds are corrections themselves
+const REVERSIBLE_ENTRY_TYPES = ['credit', 'debit', 'transfer', 'conversion'];
+
+// Locks one of a user's wallets along with the wallet and owner statuses that decide whether money may move
+export const LOCK_WALLET_SQL = `SELECT w.id, w.balance, w.held_amount, w.currency, w.status, u.status AS user_status
+   FROM wallets w JOIN users u ON u.id = w.user_id
+   WHERE w.user_id = $1 AND w.currency = $2
+   FOR UPDATE OF w`;
+
+const TRANSACTION_TYPES: TransactionType[] = [
+  'credit',
+  'debit',
+  'transfer_in',
+  'transfer_out',
+  'conversion_in',
+  'conversion_out',
+  'reversal',
+  'refund',
+];
+
+const TRANSACTION_STATUSES: TransactionStatus[] = ['success', 'pending', 'failed'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// created_at is kept to the microsecond in cursors; a JS Date would round it and skip rows
+const CURSOR_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{6}$/;
+
+const encodeCursor = (createdAt: string, id: string): string =>
+  Buffer.from(`${createdAt}|${id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): { createdAt: string; id: string } => {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+
+  if (!CURSOR_TIMESTAMP_PATTERN.test(createdAt || '') || !UUID_PATTERN.test(id || '')) {
+    throw new AppError(400, 'Invalid cursor');
+  }
+
+  return { createdAt, id };
+};
+
+const amountParam = (name: string, value?: string): number | null => {
+  if (value === undefined || value === '') {
+    return null;
+  }
+
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new AppError(400, `${name} must be a non-negative number`);
+  }
+
+  return amount;
+};
+
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+const isDuplicateReference = (error: unknown): boolean => {
+  const pgError = error as { code?: string; constraint?: string } | null;
+  return !!pgError && pgError.code === '23505' && /reference_key$/.test(pgError.constraint || '');
+};
+
+interface LockedBalance {
+  balance: number;
+  available: number;
+  currency: string;
+  status: AccountStatus;
+  user_status: AccountStatus;
+}
+
+// Money reserved by active holds cannot be spent
+export const availableBalance = (wallet: { balance: string; held_amount: string }): number =>
+  (toMinorUnits(parseFloat(wallet.balance)) - toMinorUnits(parseFloat(wallet.held_amount))) / 100;
 
 export class WalletService {
-  async getWalletByUserId(userId: string): Promise<Wallet | null> {
+  async getWalletByUserId(userId: string, currency: string = DEFAULT_CURRENCY): Promise<Wallet | null> {
     const result = await db.query(
-      'SELECT id, user_id, currency, balance, created_at, updated_at FROM wallets WHERE user_id = $1',
-      [userId]
+      'SELECT id, user_id, currency, balance, held_amount, status, created_at, updated_at FROM wallets WHERE user_id = $1 AND currency = $2',
+      [userId, currency]
     );
 
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
-  async getBalance(userId: string): Promise<{ balance: string; currency: string }> {
-    const wallet = await this.getWalletByUserId(userId);
+  async getWallets(userId: string): Promise<Wallet[]> {
+    const result = await db.query(
+      'SELECT id, user_id, currency, balance, held_amount, status, created_at, updated_at FROM wallets WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  async openWallet(userId: string, currency: string): Promise<Wallet> {
+    if (!currency || !isValidCurrency(currency)) {
+      throw new AppError(400, 'Unsupported currency', 'UNSUPPORTED_CURRENCY');
+    }
+
+    const result = await db.query(
+      `INSERT INTO wallets (user_id, currency, balance)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, currency) DO NOTHING
+       RETURNING id, user_id, currency, balance, held_amount, status, created_at, updated_at`,
+      [userId, currency, 0.00]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(409, `A ${currency} wallet already exists`);
+    }
+
+    return result.rows[0];
+  }
+
+  // The top-level balance is the requested (or default) wallet, kept for clients that expect a single wallet
+  async getBalance(userId: string, currency?: string): Promise<BalanceSummary> {
+    const wallets = await this.getWallets(userId);
 
-    if (!wallet) {
+    if (wallets.length === 0) {
       throw new AppError(404, 'Wallet not found');
     }
 
+    const primary = currency
+      ? wallets.find((wallet) => wallet.currency === currency)
+      : wallets.find((wallet) => wallet.currency === DEFAULT_CURRENCY) || wallets[0];
+
+    if (!primary) {
+      throw new AppError(404, `${currency} wallet not found`, 'WALLET_NOT_FOUND');
+    }
+
     return {
-      balance: wallet.balance,
-      currency: wallet.currency,
+      balance: primary.balance,
+      ledger_balance: primary.balance,
+      available_balance: availableBalance(primary).toFixed(2),
+      currency: primary.currency,
+      balances: wallets.map((wallet) => ({
+        wallet_id: wallet.id,
+        currency: wallet.currency,
+        balance: wallet.balance,
+        held_amount: wallet.held_amount,
+        available_balance: availableBalance(wallet).toFixed(2),
+      })),
     };
   }
 
@@ -33,61 +182,76 @@ export class WalletService {
     amount: number,
     description?: string,
     reference?: string,
-    ipAddress?: string
+    ipAddress?: string,
+    options: WalletOperationOptions = {}
   ): Promise<Transaction> {
-    if (!isValidAmount(amount)) {
-      throw new AppError(400, 'Invalid amount');
-    }
+    try {
+      if (!isValidAmount(amount)) {
+        throw new AppError(400, 'Invalid amount', 'INVALID_AMOUNT');
+      }
 
-    const txnReference = reference || generateTransactionReference();
+      const currency = this.resolveCurrency(options.currency);
 
-    const existingTxn = await db.query('SELECT id FROM transactions WHERE reference = $1', [txnReference]);
-    if (existingTxn.rows.length > 0) {
-      throw new AppError(409, 'Transaction reference already exists');
-    }
+      const txnReference = reference || generateTransactionReference();
 
-    const transaction = await db.transaction(async (client) => {
-      const walletResult = await client.query(
-        'SELECT id, balance FROM wallets WHERE user_id = $1 FOR UPDATE',
-        [userId]
-      );
+      const transaction = await this.moveMoney(async (client) => {
+        const walletResult = await client.query(
+          LOCK_WALLET_SQL,
+          [userId, currency]
+        );
 
-      if (walletResult.rows.length === 0) {
-        throw new AppError(404, 'Wallet not found');
-      }
+        if (walletResult.rows.length === 0) {
+          throw new AppError(404, `${currency} wallet not found`, 'WALLET_NOT_FOUND');
+        }
 
-      const wallet = walletResult.rows[0];
-      const balanceBefore = parseFloat(wallet.balance);
-      const balanceAfter = balanceBefore + amount;
+        const wallet = walletResult.rows[0];
+        assertStatusAllows(wallet, 'in');
 
-      await client.query(
-        'UPDATE wallets SET balance = balance + $1 WHERE id = $2',
-        [amount, wallet.id]
-      );
+        const balanceBefore = parseFloat(wallet.balance);
+        const balanceAfter = balanceBefore + amount;
+
+        await limitService.assertBalanceAllowed(client, userId, currency, balanceAfter);
 
-      const txnResult = await client.query(
-        `INSERT INTO transactions (wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-         RETURNING id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, created_at`,
-        [
-          wallet.id,
+        // Money comes in from the funding settlement account
+        const journalEntry = await ledgerService.postEntry(client, {
+          reference: txnReference,
+          entryType: 'credit',
+          description,
+          postings: [
+            { accountCode: systemAccountCode('FUNDING', wallet.currency), direction: 'debit', amount },
+            { accountCode: walletAccountCode(wallet.id), direction: 'credit', amount },
+          ],
+        });
+
+        const transaction = await this.recordTransaction(client, {
+          walletId: wallet.id,
           userId,
-          'credit',
+          type: 'credit',
           amount,
-          txnReference,
-          description || null,
-          balanceBefore.toFixed(2),
-          balanceAfter.toFixed(2),
-          'success',
-        ]
-      );
+          reference: txnReference,
+          description: description || null,
+          balanceBefore,
+          balanceAfter,
+          journalEntryId: journalEntry.id,
+        });
 
-      return txnResult.rows[0];
-    });
+        await outboxService.addTransactions(client, [transaction], ipAddress);
+        await auditService.recordTransactions(client, [transaction], ipAddress);
 
-    await auditService.logTransaction(userId, transaction.id, 'credit', transaction.amount, ipAddress);
+        return transaction;
+      });
 
-    return transaction;
+      return transaction;
+    } catch (error) {
+      await this.auditRejection(
+        error,
+        userId,
+        'credit',
+        { amount, currency: options.currency || DEFAULT_CURRENCY, reference },
+        ipAddress
+      );
+      throw error;
+    }
   }
 
   async debit(
@@ -95,88 +259,109 @@ export class WalletService {
     amount: number,
     description?: string,
     reference?: string,
-    ipAddress?: string
+    ipAddress?: string,
+    options: WalletOperationOptions = {}
   ): Promise<Transaction> {
-    if (!isValidAmount(amount)) {
-      throw new AppError(400, 'Invalid amount');
-    }
+    try {
+      if (!isValidAmount(amount)) {
+        throw new AppError(400, 'Invalid amount', 'INVALID_AMOUNT');
+      }
 
-    const txnReference = reference || generateTransactionReference();
+      await mfaService.assertStepUp(userId, amount, options.totpCode, ipAddress);
 
-    const existingTxn = await db.query('SELECT id FROM transactions WHERE reference = $1', [txnReference]);
-    if (existingTxn.rows.length > 0) {
-      throw new AppError(409, 'Transaction reference already exists');
-    }
+      const currency = this.resolveCurrency(options.currency);
 
-    const transaction = await db.transaction(async (client) => {
-      const walletResult = await client.query(
-        'SELECT id, balance FROM wallets WHERE user_id = $1 FOR UPDATE',
-        [userId]
-      );
+      const txnReference = reference || generateTransactionReference();
 
-      if (walletResult.rows.length === 0) {
-        throw new AppError(404, 'Wallet not found');
-      }
+      const transaction = await this.moveMoney(async (client) => {
+        const walletResult = await client.query(
+          LOCK_WALLET_SQL,
+          [userId, currency]
+        );
 
-      const wallet = walletResult.rows[0];
-      const balanceBefore = parseFloat(wallet.balance);
+        if (walletResult.rows.length === 0) {
+          throw new AppError(404, `${currency} wallet not found`, 'WALLET_NOT_FOUND');
+        }
 
-      if (balanceBefore < amount) {
-        throw new AppError(400, 'Insufficient balance');
-      }
+        const wallet = walletResult.rows[0];
+        assertStatusAllows(wallet, 'out');
 
-      const balanceAfter = balanceBefore - amount;
+        const balanceBefore = parseFloat(wallet.balance);
 
-      await client.query(
-        'UPDATE wallets SET balance = balance - $1 WHERE id = $2',
-        [amount, wallet.id]
-      );
+        if (availableBalance(wallet) < amount) {
+          throw new AppError(400, 'Insufficient balance', 'INSUFFICIENT_BALANCE');
+        }
+
+        await limitService.assertOutflowAllowed(client, userId, wallet.id, currency, amount);
+
+        const balanceAfter = balanceBefore - amount;
+
+        // Money leaves through the funding settlement account
+        const journalEntry = await ledgerService.postEntry(client, {
+          reference: txnReference,
+          entryType: 'debit',
+          description,
+          postings: [
+            { accountCode: walletAccountCode(wallet.id), direction: 'debit', amount },
+            { accountCode: systemAccountCode('FUNDING', wallet.currency), direction: 'credit', amount },
+          ],
+        });
 
-      const txnResult = await client.query(
-        `INSERT INTO transactions (wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-         RETURNING id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, created_at`,
-        [
-          wallet.id,
+        const transaction = await this.recordTransaction(client, {
+          walletId: wallet.id,
           userId,
-          'debit',
+          type: 'debit',
           amount,
-          txnReference,
-          description || null,
-          balanceBefore.toFixed(2),
-          balanceAfter.toFixed(2),
-          'success',
-        ]
-      );
+          reference: txnReference,
+          description: description || null,
+          balanceBefore,
+          balanceAfter,
+          journalEntryId: journalEntry.id,
+        });
 
-      return txnResult.rows[0];
-    });
+        await outboxService.addTransactions(client, [transaction], ipAddress);
+        await auditService.recordTransactions(client, [transaction], ipAddress);
 
-    await auditService.logTransaction(userId, transaction.id, 'debit', transaction.amount, ipAddress);
+        return transaction;
+      });
 
-    return transaction;
+      return transaction;
+    } catch (error) {
+      await this.auditRejection(
+        error,
+        userId,
+        'debit',
+        { amount, currency: options.currency || DEFAULT_CURRENCY, reference },
+        ipAddress
+      );
+      throw error;
+    }
   }
 
+  // Page-numbered history, kept for existing clients; prefer getTransactionHistoryByCursor for deep pages
   async getTransactionHistory(
     userId: string,
     page: number = 1,
-    limit: number = 20
-  ): Promise<{ transactions: Transaction[]; total: number; page: number; totalPages: number }> {
+    limit: number = 20,
+    currency?: string,
+    filters: TransactionHistoryFilters = {}
+  ): Promise<TransactionHistoryPage> {
     if (page < 1) page = 1;
     if (limit < 1 || limit > 100) limit = 20;
 
     const offset = (page - 1) * limit;
+    const { filter, params } = this.buildHistoryFilter(userId, currency, filters);
 
-    const countResult = await db.query('SELECT COUNT(*) FROM transactions WHERE user_id = $1', [userId]);
+    const countResult = await db.query(`SELECT COUNT(*) FROM transactions WHERE ${filter}`, params);
     const total = parseInt(countResult.rows[0].count, 10);
 
     const result = await db.query(
-      `SELECT id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, created_at
+      `SELECT ${TRANSACTION_COLUMNS}
        FROM transactions
-       WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
+       WHERE ${filter}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
     );
 
     return {
@@ -187,9 +372,51 @@ export class WalletService {
     };
   }
 
+  /**
+   * Keyset pagination on (created_at, id), newest first. Each page seeks past the previous
+   * page's last row, so it costs the same however deep it is. No cursor starts at the newest row.
+   */
+  async getTransactionHistoryByCursor(
+    userId: string,
+    cursor?: string,
+    limit: number = 20,
+    currency?: string,
+    filters: TransactionHistoryFilters = {}
+  ): Promise<TransactionHistoryCursorPage> {
+    if (limit < 1 || limit > 100) limit = 20;
+
+    const { filter, params } = this.buildHistoryFilter(userId, currency, filters);
+    let keyset = '';
+
+    if (cursor) {
+      const after = decodeCursor(cursor);
+      params.push(after.createdAt, after.id);
+      keyset = ` AND (created_at, id) < ($${params.length - 1}::timestamp, $${params.length}::uuid)`;
+    }
+
+    // One row beyond the page tells whether another page follows, without a count
+    const result = await db.query(
+      `SELECT ${TRANSACTION_COLUMNS}, to_char(created_at, 'YYYY-MM-DD HH24:MI:SS.US') AS cursor_created_at
+       FROM transactions
+       WHERE ${filter}${keyset}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length + 1}`,
+      [...params, limit + 1]
+    );
+
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      transactions: rows.map(({ cursor_created_at, ...transaction }) => transaction),
+      next_cursor: result.rows.length > limit ? encodeCursor(last.cursor_created_at, last.id) : null,
+      limit,
+    };
+  }
+
   async getTransactionByReference(reference: string, userId: string): Promise<Transaction | null> {
     const result = await db.query(
-      `SELECT id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, created_at
+      `SELECT ${TRANSACTION_COLUMNS}
        FROM transactions
        WHERE reference = $1 AND user_id = $2`,
       [reference, userId]
@@ -209,35 +436,742 @@ export class WalletService {
     amount: number,
     description?: string,
     reference?: string,
-    ipAddress?: string
+    ipAddress?: string,
+    options: TransferOptions = {}
   ): Promise<TransferResponse> {
-    if (!isValidAmount(amount)) {
-      throw new AppError(400, 'Invalid amount');
+    try {
+      if (!isValidAmount(amount)) {
+        throw new AppError(400, 'Invalid amount', 'INVALID_AMOUNT');
+      }
+
+      if (!recipientEmail && !recipientUserId) {
+        throw new AppError(400, 'Either recipient_email or recipient_user_id must be provided');
+      }
+
+      const currency = this.resolveCurrency(options.currency);
+      const recipientCurrency = this.resolveCurrency(options.recipientCurrency || currency);
+
+      if (recipientCurrency !== currency && !options.convert) {
+        throw new AppError(
+          400,
+          `Currency mismatch: cannot send ${currency} to a ${recipientCurrency} wallet without conversion`,
+          'CURRENCY_MISMATCH'
+        );
+      }
+
+      await this.assertCanTransfer(senderUserId);
+
+      if (!options.skipStepUp) {
+        await mfaService.assertStepUp(senderUserId, amount, options.totpCode, ipAddress);
+      }
+
+      const txnReference = reference || generateTransactionReference();
+
+      const recipientId = await this.resolveRecipientId(senderUserId, recipientEmail, recipientUserId);
+
+      const result = await this.moveMoney(async (client) => {
+        const senderWalletResult = await client.query(
+          LOCK_WALLET_SQL,
+          [senderUserId, currency]
+        );
+
+        if (senderWalletResult.rows.length === 0) {
+          throw new AppError(404, `Sender ${currency} wallet not found`, 'WALLET_NOT_FOUND');
+        }
+
+        const senderWallet = senderWalletResult.rows[0];
+        assertStatusAllows(senderWallet, 'out');
+
+        const senderBalanceBefore = parseFloat(senderWallet.balance);
+
+        if (availableBalance(senderWallet) < amount) {
+          throw new AppError(400, 'Insufficient balance', 'INSUFFICIENT_BALANCE');
+        }
+
+        await limitService.assertOutflowAllowed(client, senderUserId, senderWallet.id, currency, amount);
+
+        const recipientWalletResult = await client.query(
+          LOCK_WALLET_SQL,
+          [recipientId, recipientCurrency]
+        );
+
+        if (recipientWalletResult.rows.length === 0) {
+          throw new AppError(404, `Recipient has no ${recipientCurrency} wallet`, 'RECIPIENT_WALLET_NOT_FOUND');
+        }
+
+        const recipientWallet = recipientWalletResult.rows[0];
+        assertStatusAllows(recipientWallet, 'in', 'recipient');
+
+        const recipientBalanceBefore = parseFloat(recipientWallet.balance);
+
+        // Cross-currency transfers are converted at the current rate, without a quote
+        const conversion =
+          recipientCurrency !== currency
+            ? fxService.price(currency, recipientCurrency, amount, await fxService.getPairRate(currency, recipientCurrency, client))
+            : undefined;
+        const recipientAmount = conversion ? parseFloat(conversion.target_amount) : amount;
+
+        const senderBalanceAfter = senderBalanceBefore - amount;
+        const recipientBalanceAfter = recipientBalanceBefore + recipientAmount;
+
+        await limitService.assertBalanceAllowed(client, recipientId, recipientCurrency, recipientBalanceAfter, 'recipient');
+
+        const transferDescription = description || 'Transfer';
+
+        // Both sides of the transfer are a single journal entry
+        const journalEntry = await ledgerService.postEntry(client, {
+          reference: txnReference,
+          entryType: 'transfer',
+          description: transferDescription,
+          postings: conversion
+            ? fxService.conversionPostings(senderWallet.id, recipientWallet.id, conversion)
+            : [
+                { accountCode: walletAccountCode(senderWallet.id), direction: 'debit', amount },
+                { accountCode: walletAccountCode(recipientWallet.id), direction: 'credit', amount },
+              ],
+        });
+
+        const senderTransaction = await this.recordTransaction(client, {
+          walletId: senderWallet.id,
+          userId: senderUserId,
+          type: 'transfer_out',
+          amount,
+          reference: `${txnReference}-OUT`,
+          description: `${transferDescription} to user ${recipientId}`,
+          balanceBefore: senderBalanceBefore,
+          balanceAfter: senderBalanceAfter,
+          journalEntryId: journalEntry.id,
+          metadata: conversion ? { conversion } : null,
+        });
+
+        const recipientTransaction = await this.recordTransaction(client, {
+          walletId: recipientWallet.id,
+          userId: recipientId,
+          type: 'transfer_in',
+          amount: recipientAmount,
+          reference: `${txnReference}-IN`,
+          description: `${transferDescription} from user ${senderUserId}`,
+          balanceBefore: recipientBalanceBefore,
+          balanceAfter: recipientBalanceAfter,
+          journalEntryId: journalEntry.id,
+          metadata: conversion ? { conversion } : null,
+        });
+
+        const response: TransferResponse = {
+          sender_transaction: senderTransaction,
+          recipient_transaction: recipientTransaction,
+          sender_new_balance: senderBalanceAfter.toFixed(2),
+          recipient_new_balance: recipientBalanceAfter.toFixed(2),
+        };
+
+        if (conversion) {
+          response.conversion = conversion;
+        }
+
+        const sender = { walletId: senderWallet.id, userId: senderUserId, ipAddress };
+        const recipient = { walletId: recipientWallet.id, userId: recipientId, ipAddress };
+
+        await outboxService.add(client, [
+          { ...sender, eventType: 'transaction.created', payload: { transaction: senderTransaction } },
+          { ...recipient, eventType: 'transaction.created', payload: { transaction: recipientTransaction } },
+          {
+            ...sender,
+            eventType: 'transfer.completed',
+            payload: {
+              direction: 'sent',
+              transaction: senderTransaction,
+              new_balance: response.sender_new_balance,
+              ...(conversion && { conversion }),
+            },
+          },
+          {
+            ...recipient,
+            eventType: 'transfer.completed',
+            payload: {
+              direction: 'received',
+              transaction: recipientTransaction,
+              new_balance: response.recipient_new_balance,
+            },
+          },
+        ]);
+        await auditService.recordTransactions(client, [senderTransaction, recipientTransaction], ipAddress);
+
+        return response;
+      });
+
+      return result;
+    } catch (error) {
+      await this.auditRejection(
+        error,
+        senderUserId,
+        'transfer',
+        { amount, currency: options.currency || DEFAULT_CURRENCY, recipientEmail, recipientUserId, reference },
+        ipAddress
+      );
+      throw error;
     }
+  }
+
+  async convert(userId: string, quoteId: string, reference?: string, ipAddress?: string): Promise<ConversionResponse> {
+    try {
+      if (!quoteId) {
+        throw new AppError(400, 'quote_id is required');
+      }
+
+      const txnReference = reference || generateTransactionReference();
+
+      const result = await this.moveMoney(async (client) => {
+        const quote = await fxService.consumeQuote(client, quoteId, userId);
+        const fromCurrency = quote.from_currency.trim();
+        const toCurrency = quote.to_currency.trim();
+
+        // Lock both wallets in one statement so concurrent conversions cannot deadlock
+        const walletsResult = await client.query(
+          `SELECT w.id, w.balance, w.held_amount, w.currency, w.status, u.status AS user_status
+           FROM wallets w JOIN users u ON u.id = w.user_id
+           WHERE w.user_id = $1 AND w.currency IN ($2, $3)
+           ORDER BY w.id FOR UPDATE OF w`,
+          [userId, fromCurrency, toCurrency]
+        );
+
+        const sourceWallet = walletsResult.rows.find((wallet) => wallet.currency === fromCurrency);
+        const targetWallet = walletsResult.rows.find((wallet) => wallet.currency === toCurrency);
+
+        if (!sourceWallet) {
+          throw new AppError(404, `${fromCurrency} wallet not found`);
+        }
+
+        if (!targetWallet) {
+          throw new AppError(404, `${toCurrency} wallet not found`);
+        }
+
+        assertStatusAllows(sourceWallet, 'out');
+        assertStatusAllows(targetWallet, 'in');
 
-    if (!recipientEmail && !recipientUserId) {
-      throw new AppError(400, 'Either recipient_email or recipient_user_id must be provided');
+        const conversion: ConversionDetails = {
+          from_currency: fromCurrency,
+          to_currency: toCurrency,
+          source_amount: quote.source_amount,
+          target_amount: quote.target_amount,
+          mid_rate: quote.mid_rate,
+          rate: quote.rate,
+          spread_amount: quote.spread_amount,
+        };
+
+        const sourceAmount = parseFloat(quote.source_amount);
+        const targetAmount = parseFloat(quote.target_amount);
+        const sourceBalanceBefore = parseFloat(sourceWallet.balance);
+        const targetBalanceBefore = parseFloat(targetWallet.balance);
+
+        if (availableBalance(sourceWallet) < sourceAmount) {
+          throw new AppError(400, 'Insufficient balance', 'INSUFFICIENT_BALANCE');
+        }
+
+        const sourceBalanceAfter = sourceBalanceBefore - sourceAmount;
+        const targetBalanceAfter = targetBalanceBefore + targetAmount;
+
+        await limitService.assertBalanceAllowed(client, userId, toCurrency, targetBalanceAfter);
+
+        const journalEntry = await ledgerService.postEntry(client, {
+          reference: txnReference,
+          entryType: 'conversion',
+          description: `Conversion ${fromCurrency} to ${toCurrency}`,
+          postings: fxService.conversionPostings(sourceWallet.id, targetWallet.id, conversion),
+        });
+
+        const metadata = { quote_id: quote.id, conversion };
+
+        const sourceTransaction = await this.recordTransaction(client, {
+          walletId: sourceWallet.id,
+          userId,
+          type: 'conversion_out',
+          amount: sourceAmount,
+          reference: `${txnReference}-OUT`,
+          description: `Converted to ${toCurrency} at ${quote.rate}`,
+          balanceBefore: sourceBalanceBefore,
+          balanceAfter: sourceBalanceAfter,
+          journalEntryId: journalEntry.id,
+          metadata,
+        });
+
+        const targetTransaction = await this.recordTransaction(client, {
+          walletId: targetWallet.id,
+          userId,
+          type: 'conversion_in',
+          amount: targetAmount,
+          reference: `${txnReference}-IN`,
+          description: `Converted from ${fromCurrency} at ${quote.rate}`,
+          balanceBefore: targetBalanceBefore,
+          balanceAfter: targetBalanceAfter,
+          journalEntryId: journalEntry.id,
+          metadata,
+        });
+
+        await outboxService.addTransactions(client, [sourceTransaction, targetTransaction], ipAddress);
+        await auditService.recordTransactions(client, [sourceTransaction, targetTransaction], ipAddress);
+
+        return {
+          source_transaction: sourceTransaction,
+          target_transaction: targetTransaction,
+          source_new_balance: sourceBalanceAfter.toFixed(2),
+          target_new_balance: targetBalanceAfter.toFixed(2),
+          conversion,
+        };
+      });
+
+      await auditService.log({
+        actorId: userId,
+        eventType: 'FX_CONVERSION',
+        eventData: { quoteId, journalEntryId: result.source_transaction.journal_entry_id, ...result.conversion },
+        ipAddress,
+      });
+
+      return result;
+    } catch (error) {
+      await this.auditRejection(error, userId, 'convert', { quoteId, reference }, ipAddress);
+      throw error;
     }
+  }
 
-    const txnReference = reference || generateTransactionReference();
+  /**
+   * Undoes a credit, debit, transfer or conversion with a compensating journal entry that mirrors
+   * the original postings. Every wallet row of the original gets a linked reversal row, so both
+   * sides of a transfer are restored in the same DB transaction.
+   */
+  async reverseTransaction(
+    reference: string,
+    actorId: string,
+    reason?: string,
+    ipAddress?: string
+  ): Promise<ReversalResponse> {
+    const lookup = await db.query('SELECT journal_entry_id, status FROM transactions WHERE reference = $1', [
+      reference,
+    ]);
+
+    if (lookup.rows.length === 0) {
+      throw new AppError(404, 'Transaction not found');
+    }
 
-    const existingTxn = await db.query('SELECT id FROM transactions WHERE reference = $1', [txnReference]);
-    if (existingTxn.rows.length > 0) {
-      throw new AppError(409, 'Transaction reference already exists');
+    if (lookup.rows[0].status !== 'success') {
+      throw new AppError(400, 'Only successful transactions can be reversed');
     }
 
+    const journalEntryId: string | null = lookup.rows[0].journal_entry_id;
+
+    if (!journalEntryId) {
+      throw new AppError(422, 'Transaction was recorded before the ledger and cannot be reversed');
+    }
+
+    const result = await this.moveMoney(async (client) => {
+      const entry = await this.lockJournalEntry(client, journalEntryId);
+
+      if (!REVERSIBLE_ENTRY_TYPES.includes(entry.entry_type)) {
+        throw new AppError(400, `A ${entry.entry_type} cannot be reversed`);
+      }
+
+      const relatedResult = await client.query(
+        'SELECT entry_type FROM journal_entries WHERE related_entry_id = $1',
+        [entry.id]
+      );
+      const relatedTypes: string[] = relatedResult.rows.map((row) => row.entry_type);
+
+      if (relatedTypes.includes('reversal')) {
+        throw new AppError(409, 'Transaction has already been reversed');
+      }
+
+      if (relatedTypes.includes('refund')) {
+        throw new AppError(409, 'Transaction has been partially refunded and cannot be reversed');
+      }
+
+      const originalsResult = await client.query(
+        `SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE journal_entry_id = $1 ORDER BY created_at, id`,
+        [entry.id]
+      );
+      const originals: Transaction[] = originalsResult.rows;
+
+      const balances = await this.lockWalletsById(
+        client,
+        originals.map((original) => original.wallet_id)
+      );
+
+      // Each wallet moves back by exactly what the original moved it
+      const reversals = originals.map((original) => {
+        const delta = parseFloat(original.balance_before) - parseFloat(original.balance_after);
+        const locked = balances.get(original.wallet_id) as LockedBalance;
+        const balanceBefore = locked.balance;
+        const balanceAfter = (toMinorUnits(balanceBefore) + toMinorUnits(delta)) / 100;
+        const availableAfter = (toMinorUnits(locked.available) + toMinorUnits(delta)) / 100;
+
+        if (availableAfter < 0) {
+          throw new AppError(400, 'Insufficient balance to reverse transaction', 'INSUFFICIENT_BALANCE');
+        }
+
+        balances.set(original.wallet_id, { ...locked, balance: balanceAfter, available: availableAfter });
+        return { original, balanceBefore, balanceAfter };
+      });
+
+      const postings = await ledgerService.getPostings(client, entry.id);
+
+      const reversalEntry = await ledgerService.postEntry(client, {
+        reference: `${entry.reference}-REV`,
+        entryType: 'reversal',
+        description: reason || `Reversal of ${entry.reference}`,
+        relatedEntryId: entry.id,
+        postings: postings.map(
+          (posting): PostingInput => ({
+            ...posting,
+            direction: posting.direction === 'debit' ? 'credit' : 'debit',
+          })
+        ),
+      });
+
+      const reversalTransactions: Transaction[] = [];
+      for (const reversal of reversals) {
+        reversalTransactions.push(
+          await this.recordTransaction(client, {
+            walletId: reversal.original.wallet_id,
+            userId: reversal.original.user_id,
+            type: 'reversal',
+            amount: parseFloat(reversal.original.amount),
+            reference: `${reversal.original.reference}-REV`,
+            description: `Reversal of ${reversal.original.reference}`,
+            balanceBefore: reversal.balanceBefore,
+            balanceAfter: reversal.balanceAfter,
+            journalEntryId: reversalEntry.id,
+            relatedTransactionId: reversal.original.id,
+            metadata: { reason: reason || null, reversed_by: actorId },
+          })
+        );
+      }
+
+      await outboxService.addTransactions(client, reversalTransactions, ipAddress);
+      await auditService.recordTransactions(client, reversalTransactions, ipAddress);
+
+      return {
+        original_reference: entry.reference,
+        reversal_transactions: reversalTransactions,
+      };
+    });
+
+    await auditService.log({
+      actorId,
+      eventType: 'TRANSACTION_REVERSED',
+      eventData: { reference, originalReference: result.original_reference, reason: reason || null },
+      ipAddress,
+    });
+
+    return result;
+  }
+
+  /**
+   * Sends part or all of a received transfer back to its sender. Refunds are linked to the
+   * original rows and their running total is checked under the original entry's lock,
+   * so concurrent refunds can never exceed the amount received.
+   */
+  async refundTransfer(
+    userId: string,
+    transferReference: string,
+    amount: number,
+    reason?: string,
+    reference?: string,
+    ipAddress?: string
+  ): Promise<RefundResponse> {
+    try {
+      if (!isValidAmount(amount)) {
+        throw new AppError(400, 'Invalid amount', 'INVALID_AMOUNT');
+      }
+
+      // A refund sends money to another user, so it follows the same rules as a transfer
+      await this.assertCanTransfer(userId);
+
+      const txnReference = reference || generateTransactionReference();
+
+      const result = await this.moveMoney(async (client) => {
+        const incomingResult = await client.query(
+          `SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE reference = $1 AND user_id = $2`,
+          [transferReference, userId]
+        );
+
+        if (incomingResult.rows.length === 0) {
+          throw new AppError(404, 'Transaction not found');
+        }
+
+        const incoming: Transaction = incomingResult.rows[0];
+
+        if (incoming.type !== 'transfer_in') {
+          throw new AppError(400, 'Only received transfers can be refunded');
+        }
+
+        if (incoming.metadata?.conversion) {
+          throw new AppError(422, 'Converted transfers cannot be refunded, ask support for a reversal');
+        }
+
+        if (!incoming.journal_entry_id) {
+          throw new AppError(422, 'Transaction was recorded before the ledger and cannot be refunded');
+        }
+
+        await this.lockJournalEntry(client, incoming.journal_entry_id);
+
+        const reversedResult = await client.query(
+          "SELECT 1 FROM journal_entries WHERE related_entry_id = $1 AND entry_type = 'reversal'",
+          [incoming.journal_entry_id]
+        );
+
+        if (reversedResult.rows.length > 0) {
+          throw new AppError(409, 'Transaction has already been reversed');
+        }
+
+        const refundedResult = await client.query(
+          "SELECT COALESCE(SUM(amount), 0) AS refunded FROM transactions WHERE related_transaction_id = $1 AND type = 'refund'",
+          [incoming.id]
+        );
+
+        const refundedMinor = toMinorUnits(parseFloat(refundedResult.rows[0].refunded));
+        const remainingMinor = toMinorUnits(parseFloat(incoming.amount)) - refundedMinor;
+
+        if (toMinorUnits(amount) > remainingMinor) {
+          throw new AppError(400, `Refund exceeds the refundable amount of ${(remainingMinor / 100).toFixed(2)}`);
+        }
+
+        const outgoingResult = await client.query(
+          `SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE journal_entry_id = $1 AND type = 'transfer_out'`,
+          [incoming.journal_entry_id]
+        );
+        const outgoing: Transaction = outgoingResult.rows[0];
+
+        const balances = await this.lockWalletsById(client, [incoming.wallet_id, outgoing.wallet_id]);
+        const refunder = balances.get(incoming.wallet_id) as LockedBalance;
+        const sender = balances.get(outgoing.wallet_id) as LockedBalance;
+        assertStatusAllows(refunder, 'out');
+        assertStatusAllows(sender, 'in', 'recipient');
+
+        const refunderBalanceBefore = refunder.balance;
+        const senderBalanceBefore = sender.balance;
+
+        if (refunder.available < amount) {
+          throw new AppError(400, 'Insufficient balance', 'INSUFFICIENT_BALANCE');
+        }
+
+        await limitService.assertOutflowAllowed(client, userId, incoming.wallet_id, refunder.currency, amount);
+
+        const refunderBalanceAfter = refunderBalanceBefore - amount;
+        const senderBalanceAfter = senderBalanceBefore + amount;
+
+        await limitService.assertBalanceAllowed(client, outgoing.user_id, sender.currency, senderBalanceAfter, 'recipient');
+        const refundDescription = reason || `Refund of ${transferReference}`;
+
+        const journalEntry = await ledgerService.postEntry(client, {
+          reference: txnReference,
+          entryType: 'refund',
+          description: refundDescription,
+          relatedEntryId: incoming.journal_entry_id,
+          postings: [
+            { accountCode: walletAccountCode(incoming.wallet_id), direction: 'debit', amount },
+            { accountCode: walletAccountCode(outgoing.wallet_id), direction: 'credit', amount },
+          ],
+        });
+
+        const refundTransaction = await this.recordTransaction(client, {
+          walletId: incoming.wallet_id,
+          userId,
+          type: 'refund',
+          amount,
+          reference: `${txnReference}-OUT`,
+          description: `${refundDescription} to user ${outgoing.user_id}`,
+          balanceBefore: refunderBalanceBefore,
+          balanceAfter: refunderBalanceAfter,
+          journalEntryId: journalEntry.id,
+          relatedTransactionId: incoming.id,
+        });
+
+        const counterpartyTransaction = await this.recordTransaction(client, {
+          walletId: outgoing.wallet_id,
+          userId: outgoing.user_id,
+          type: 'refund',
+          amount,
+          reference: `${txnReference}-IN`,
+          description: `${refundDescription} from user ${userId}`,
+          balanceBefore: senderBalanceBefore,
+          balanceAfter: senderBalanceAfter,
+          journalEntryId: journalEntry.id,
+          relatedTransactionId: outgoing.id,
+        });
+
+        await outboxService.addTransactions(client, [refundTransaction, counterpartyTransaction], ipAddress);
+        await auditService.recordTransactions(client, [refundTransaction, counterpartyTransaction], ipAddress);
+
+        const refundedTotalMinor = refundedMinor + toMinorUnits(amount);
+
+        return {
+          refund_transaction: refundTransaction,
+          counterparty_transaction: counterpartyTransaction,
+          new_balance: refunderBalanceAfter.toFixed(2),
+          refunded_total: (refundedTotalMinor / 100).toFixed(2),
+          refundable_remaining: ((remainingMinor - toMinorUnits(amount)) / 100).toFixed(2),
+        };
+      });
+
+      return result;
+    } catch (error) {
+      await this.auditRejection(error, userId, 'refund', { amount, transferReference, reference }, ipAddress);
+      throw error;
+    }
+  }
+
+  // Duplicate references are caught by the UNIQUE constraints on journal_entries and transactions,
+  // which a concurrent request cannot race the way a SELECT before the DB transaction could
+  async moveMoney<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    try {
+      return await db.transaction(callback);
+    } catch (error) {
+      if (isDuplicateReference(error)) {
+        throw new AppError(409, 'Transaction reference already exists', 'DUPLICATE_REFERENCE');
+      }
+      throw error;
+    }
+  }
+
+  // Rejected money movements are audited with the error's code as the reason, for fraud review
+  async auditRejection(
+    error: unknown,
+    userId: string,
+    operation: string,
+    details: Record<string, any>,
+    ipAddress?: string
+  ): Promise<void> {
+    // Anything else is a fault, not a rejection
+    if (!(error instanceof AppError)) {
+      return;
+    }
+
+    await auditService.log({
+      actorId: userId,
+      eventType: 'TRANSACTION_REJECTED',
+      eventData: { operation, reason: error.code || 'REJECTED', message: error.message, ...details },
+      ipAddress,
+    });
+  }
+
+  // Unverified users can fund and spend from their wallets, but cannot send money to other users
+  async assertCanTransfer(userId: string): Promise<void> {
+    const result = await db.query('SELECT is_verified FROM users WHERE id = $1', [userId]);
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'User not found');
+    }
+
+    if (!result.rows[0].is_verified) {
+      throw new AppError(403, 'Verify your email address before sending transfers', 'EMAIL_NOT_VERIFIED');
+    }
+  }
+
+  /**
+   * WHERE clause shared by both history modes. The counterparty is whoever holds the other side
+   * of the same journal entry: transfers, captured transfer holds, refunds and reversals between the two.
+   */
+  private buildHistoryFilter(
+    userId: string,
+    currency: string | undefined,
+    filters: TransactionHistoryFilters
+  ): { filter: string; params: any[] } {
+    const params: any[] = [userId];
+    const param = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    // Without a currency the history spans every wallet the user holds
+    const conditions = ['user_id = $1'];
+
+    if (currency) {
+      conditions.push(`wallet_id IN (SELECT id FROM wallets WHERE user_id = $1 AND currency = ${param(currency)})`);
+    }
+
+    const types = listParam(filters.type);
+    if (types.some((type) => !TRANSACTION_TYPES.includes(type as TransactionType))) {
+      throw new AppError(400, `type must be one of ${TRANSACTION_TYPES.join(', ')}`);
+    }
+    if (types.length > 0) {
+      conditions.push(`type = ANY(${param(types)})`);
+    }
+
+    const statuses = listParam(filters.status);
+    if (statuses.some((status) => !TRANSACTION_STATUSES.includes(status as TransactionStatus))) {
+      throw new AppError(400, `status must be one of ${TRANSACTION_STATUSES.join(', ')}`);
+    }
+    if (statuses.length > 0) {
+      conditions.push(`status = ANY(${param(statuses)})`);
+    }
+
+    // from is inclusive and to exclusive, so consecutive ranges never overlap
+    const from = dateParam('from', filters.from);
+    const to = dateParam('to', filters.to);
+    if (from && to && from >= to) {
+      throw new AppError(400, 'from must be earlier than to');
+    }
+    if (from) {
+      conditions.push(`created_at >= ${param(from)}`);
+    }
+    if (to) {
+      conditions.push(`created_at < ${param(to)}`);
+    }
+
+    const minAmount = amountParam('min_amount', filters.min_amount);
+    const maxAmount = amountParam('max_amount', filters.max_amount);
+    if (minAmount !== null && maxAmount !== null && minAmount > maxAmount) {
+      throw new AppError(400, 'min_amount cannot be greater than max_amount');
+    }
+    if (minAmount !== null) {
+      conditions.push(`amount >= ${param(minAmount.toFixed(2))}`);
+    }
+    if (maxAmount !== null) {
+      conditions.push(`amount <= ${param(maxAmount.toFixed(2))}`);
+    }
+
+    const search = filters.search ? String(filters.search).trim() : '';
+    if (search) {
+      // Escaped so a search for "50%" is taken literally
+      const pattern = param(`%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`);
+      conditions.push(`(description ILIKE ${pattern} OR reference ILIKE ${pattern})`);
+    }
+
+    const counterparty = filters.counterparty ? String(filters.counterparty).trim() : '';
+    if (counterparty) {
+      let counterpartyIds: string;
+
+      if (counterparty.includes('@')) {
+        counterpartyIds = `(SELECT id FROM users WHERE email = ${param(counterparty)})`;
+      } else if (UUID_PATTERN.test(counterparty)) {
+        counterpartyIds = `(${param(counterparty)}::uuid)`;
+      } else {
+        throw new AppError(400, 'counterparty must be a user id or email');
+      }
+
+      conditions.push(
+        `journal_entry_id IN (SELECT journal_entry_id FROM transactions WHERE user_id IN ${counterpartyIds} AND user_id <> $1)`
+      );
+    }
+
+    return { filter: conditions.join(' AND '), params };
+  }
+
+  async resolveRecipientId(
+    senderUserId: string,
+    recipientEmail: string | undefined,
+    recipientUserId: string | undefined
+  ): Promise<string> {
     let recipientId: string;
 
     if (recipientEmail) {
       const recipientResult = await db.query('SELECT id FROM users WHERE email = $1', [recipientEmail]);
       if (recipientResult.rows.length === 0) {
-        throw new AppError(404, 'Recipient user not found');
+        throw new AppError(404, 'Recipient user not found', 'RECIPIENT_NOT_FOUND');
       }
       recipientId = recipientResult.rows[0].id;
     } else if (recipientUserId) {
       const recipientResult = await db.query('SELECT id FROM users WHERE id = $1', [recipientUserId]);
       if (recipientResult.rows.length === 0) {
-        throw new AppError(404, 'Recipient user not found');
+        throw new AppError(404, 'Recipient user not found', 'RECIPIENT_NOT_FOUND');
       }
       recipientId = recipientUserId;
     } else {
@@ -245,106 +1179,89 @@ export class WalletService {
     }
 
     if (senderUserId === recipientId) {
-      throw new AppError(400, 'Cannot transfer to yourself');
+      throw new AppError(400, 'Cannot transfer to yourself', 'SELF_TRANSFER');
     }
 
-    const result = await db.transaction(async (client) => {
-      const senderWalletResult = await client.query(
-        'SELECT id, balance FROM wallets WHERE user_id = $1 FOR UPDATE',
-        [senderUserId]
-      );
-
-      if (senderWalletResult.rows.length === 0) {
-        throw new AppError(404, 'Sender wallet not found');
-      }
-
-      const senderWallet = senderWalletResult.rows[0];
-      const senderBalanceBefore = parseFloat(senderWallet.balance);
-
-      if (senderBalanceBefore < amount) {
-        throw new AppError(400, 'Insufficient balance');
-      }
-
-      const recipientWalletResult = await client.query(
-        'SELECT id, balance FROM wallets WHERE user_id = $1 FOR UPDATE',
-        [recipientId]
-      );
-
-      if (recipientWalletResult.rows.length === 0) {
-        throw new AppError(404, 'Recipient wallet not found');
-      }
-
-      const recipientWallet = recipientWalletResult.rows[0];
-      const recipientBalanceBefore = parseFloat(recipientWallet.balance);
+    return recipientId;
+  }
 
-      const senderBalanceAfter = senderBalanceBefore - amount;
-      const recipientBalanceAfter = recipientBalanceBefore + amount;
+  resolveCurrency(currency?: string): string {
+    if (!currency) {
+      return DEFAULT_CURRENCY;
+    }
 
-      await client.query('UPDATE wallets SET balance = balance - $1 WHERE id = $2', [amount, senderWallet.id]);
+    if (!isValidCurrency(currency)) {
+      throw new AppError(400, 'Unsupported currency', 'UNSUPPORTED_CURRENCY');
+    }
 
-      await client.query('UPDATE wallets SET balance = balance + $1 WHERE id = $2', [amount, recipientWallet.id]);
+    return currency;
+  }
 
-      const transferDescription = description || 'Transfer';
+  // Locking the original entry serialises reversals and refunds of the same transaction
+  private async lockJournalEntry(
+    client: PoolClient,
+    journalEntryId: string
+  ): Promise<{ id: string; reference: string; entry_type: string }> {
+    const result = await client.query(
+      'SELECT id, reference, entry_type FROM journal_entries WHERE id = $1 FOR UPDATE',
+      [journalEntryId]
+    );
 
-      const senderTxnResult = await client.query(
-        `INSERT INTO transactions (wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-         RETURNING id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, created_at`,
-        [
-          senderWallet.id,
-          senderUserId,
-          'transfer_out',
-          amount,
-          `${txnReference}-OUT`,
-          `${transferDescription} to user ${recipientId}`,
-          senderBalanceBefore.toFixed(2),
-          senderBalanceAfter.toFixed(2),
-          'success',
-        ]
-      );
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Journal entry not found');
+    }
 
-      const recipientTxnResult = await client.query(
-        `INSERT INTO transactions (wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-         RETURNING id, wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, created_at`,
-        [
-          recipientWallet.id,
-          recipientId,
-          'transfer_in',
-          amount,
-          `${txnReference}-IN`,
-          `${transferDescription} from user ${senderUserId}`,
-          recipientBalanceBefore.toFixed(2),
-          recipientBalanceAfter.toFixed(2),
-          'success',
-        ]
-      );
+    return result.rows[0];
+  }
 
-      return {
-        sender_transaction: senderTxnResult.rows[0],
-        recipient_transaction: recipientTxnResult.rows[0],
-        sender_new_balance: senderBalanceAfter.toFixed(2),
-        recipient_new_balance: recipientBalanceAfter.toFixed(2),
-      };
-    });
+  // Wallets are locked in id order so concurrent multi-wallet operations cannot deadlock
+  private async lockWalletsById(client: PoolClient, walletIds: string[]): Promise<Map<string, LockedBalance>> {
+    const result = await client.query(
+      `SELECT w.id, w.balance, w.held_amount, w.currency, w.status, u.status AS user_status
+       FROM wallets w JOIN users u ON u.id = w.user_id
+       WHERE w.id = ANY($1)
+       ORDER BY w.id
+       FOR UPDATE OF w`,
+      [Array.from(new Set(walletIds))]
+    );
 
-    await auditService.logTransaction(
-      senderUserId,
-      result.sender_transaction.id,
-      'transfer_out',
-      result.sender_transaction.amount,
-      ipAddress
+    return new Map(
+      result.rows.map((row) => [
+        row.id,
+        {
+          balance: parseFloat(row.balance),
+          available: availableBalance(row),
+          currency: row.currency,
+          status: row.status,
+          user_status: row.user_status,
+        },
+      ])
     );
+  }
 
-    await auditService.logTransaction(
-      recipientId,
-      result.recipient_transaction.id,
-      'transfer_in',
-      result.recipient_transaction.amount,
-      ipAddress
+  // Writes a statement line; must run inside the caller's DB transaction
+  async recordTransaction(client: PoolClient, record: TransactionRecordInput): Promise<Transaction> {
+    const txnResult = await client.query(
+      `INSERT INTO transactions (wallet_id, user_id, type, amount, reference, description, balance_before, balance_after, status, journal_entry_id, related_transaction_id, metadata)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING ${TRANSACTION_COLUMNS}`,
+      [
+        record.walletId,
+        record.userId,
+        record.type,
+        record.amount,
+        record.reference,
+        record.description,
+        record.balanceBefore.toFixed(2),
+        record.balanceAfter.toFixed(2),
+        record.status || 'success',
+        record.journalEntryId,
+        record.relatedTransactionId || null,
+        record.metadata ? JSON.stringify(record.metadata) : null,
+      ]
     );
 
-    return result;
+    return txnResult.rows[0];
   }
 }
 
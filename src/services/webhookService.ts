@@ -0,0 +1,432 @@
+import { createHmac, randomUUID } from 'crypto';
+import { db } from '../database/postgres';
+import { config } from '../config/env';
+import { AppError } from '../middleware/errorHandler';
+import {
+  AuthPayload,
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointWithSecret,
+  WebhookEvent,
+  WebhookEventType,
+} from '../types';
+import { isPrivateHost, postJson } from '../utils/outboundHttp';
+import { generateOpaqueToken } from '../utils/token';
+import { auditService } from './auditService';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'transaction.created',
+  'transfer.completed',
+  'wallet.activated',
+  'wallet.frozen',
+  'wallet.suspended',
+  'wallet.closed',
+  'account.activated',
+  'account.frozen',
+  'account.suspended',
+  'account.closed',
+];
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+const ENDPOINT_COLUMNS = 'id, user_id, url, event_types, description, is_active, created_by, created_at, updated_at';
+
+const DELIVERY_COLUMNS =
+  'id, endpoint_id, event_id, event_type, payload, status, attempt_count, next_attempt_at, last_response_status, last_error, delivered_at, created_at';
+
+const ATTEMPT_COLUMNS = 'id, delivery_id, attempt_number, response_status, error, duration_ms, attempted_at';
+
+// How long a claimed delivery stays hidden from other workers while its request is in flight
+const CLAIM_LEASE_SECONDS = 120;
+
+interface ClaimedDelivery {
+  id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookEvent;
+  attempt_count: number;
+  url: string;
+  secret: string;
+}
+
+const generateSecret = (): string => `whsec_${generateOpaqueToken(32)}`;
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>", sent as X-Webhook-Signature: t=<timestamp>,v1=<signature>.
+ * Signing the timestamp lets receivers reject old requests replayed at them.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+// Delay before the next attempt once `attempts` have failed: 1, 2, 4, 8... times the base
+export const retryDelaySeconds = (attempts: number): number =>
+  config.WEBHOOK_RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0);
+
+const validateUrl = (url: unknown): string => {
+  let parsed: URL;
+
+  try {
+    parsed = new URL(String(url));
+  } catch {
+    throw new AppError(400, 'url must be a valid http or https URL');
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    throw new AppError(400, 'url must be a valid http or https URL');
+  }
+
+  // Early feedback only: names are resolved and checked again on every delivery
+  if (!config.WEBHOOK_ALLOW_PRIVATE_URLS && isPrivateHost(parsed.hostname)) {
+    throw new AppError(400, 'url must not point at a private or local address');
+  }
+
+  return parsed.toString();
+};
+
+const validateEvents = (events: unknown): WebhookEventType[] => {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new AppError(400, 'events must list at least one event type');
+  }
+
+  const unknown = events.filter((event) => !WEBHOOK_EVENT_TYPES.includes(event));
+  if (unknown.length > 0) {
+    throw new AppError(400, `Unknown event type ${unknown[0]}; expected one of ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+  }
+
+  return Array.from(new Set(events as WebhookEventType[]));
+};
+
+/**
+ * Outbound webhooks. Events are queued as one delivery per matching endpoint and sent by the
+ * delivery worker, so a slow or broken receiver never holds up the request that caused the event.
+ * Delivery is at least once: receivers should ignore an X-Webhook-Id they have already seen.
+ */
+export class WebhookService {
+  async createEndpoint(
+    actor: AuthPayload,
+    data: CreateWebhookRequest,
+    ipAddress?: string
+  ): Promise<WebhookEndpointWithSecret> {
+    const url = validateUrl(data.url);
+    const events = validateEvents(data.events);
+
+    if (data.global && actor.role !== 'admin') {
+      throw new AppError(403, 'Only admins can register global webhooks');
+    }
+
+    const result = await db.query(
+      `INSERT INTO webhook_endpoints (user_id, url, secret, event_types, description, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${ENDPOINT_COLUMNS}, secret`,
+      [data.global ? null : actor.userId, url, generateSecret(), events, data.description || null, actor.userId]
+    );
+
+    const endpoint: WebhookEndpointWithSecret = result.rows[0];
+
+    await auditService.log({
+      actorId: actor.userId,
+      eventType: 'WEBHOOK_ENDPOINT_CREATED',
+      eventData: { endpointId: endpoint.id, url, events, global: endpoint.user_id === null },
+      ipAddress,
+    });
+
+    return endpoint;
+  }
+
+  // A user's own endpoints; admins also see the global ones
+  async listEndpoints(actor: AuthPayload): Promise<WebhookEndpoint[]> {
+    const result = await db.query(
+      `SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints
+       WHERE user_id = $1 OR (user_id IS NULL AND $2)
+       ORDER BY created_at DESC`,
+      [actor.userId, actor.role === 'admin']
+    );
+
+    return result.rows;
+  }
+
+  async getEndpoint(actor: AuthPayload, endpointId: string): Promise<WebhookEndpoint> {
+    return this.findEndpoint(actor, endpointId);
+  }
+
+  async updateEndpoint(
+    actor: AuthPayload,
+    endpointId: string,
+    data: UpdateWebhookRequest,
+    ipAddress?: string
+  ): Promise<WebhookEndpoint> {
+    const current = await this.findEndpoint(actor, endpointId);
+
+    if (data.is_active !== undefined && typeof data.is_active !== 'boolean') {
+      throw new AppError(400, 'is_active must be true or false');
+    }
+
+    const url = data.url === undefined ? current.url : validateUrl(data.url);
+    const events = data.events === undefined ? current.event_types : validateEvents(data.events);
+    const description = data.description === undefined ? current.description : data.description || null;
+    const isActive = data.is_active === undefined ? current.is_active : data.is_active;
+
+    const result = await db.query(
+      `UPDATE webhook_endpoints SET url = $1, event_types = $2, description = $3, is_active = $4
+       WHERE id = $5
+       RETURNING ${ENDPOINT_COLUMNS}`,
+      [url, events, description, isActive, current.id]
+    );
+
+    await auditService.log({
+      actorId: actor.userId,
+      eventType: 'WEBHOOK_ENDPOINT_UPDATED',
+      eventData: { endpointId: current.id, url, events, isActive },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  async deleteEndpoint(actor: AuthPayload, endpointId: string, ipAddress?: string): Promise<void> {
+    const current = await this.findEndpoint(actor, endpointId);
+
+    await db.query('DELETE FROM webhook_endpoints WHERE id = $1', [current.id]);
+
+    await auditService.log({
+      actorId: actor.userId,
+      eventType: 'WEBHOOK_ENDPOINT_DELETED',
+      eventData: { endpointId: current.id, url: current.url },
+      ipAddress,
+    });
+  }
+
+  // The old secret stops working at once, so the receiver must be updated with the new one
+  async rotateSecret(actor: AuthPayload, endpointId: string, ipAddress?: string): Promise<WebhookEndpointWithSecret> {
+    const current = await this.findEndpoint(actor, endpointId);
+
+    const result = await db.query(
+      `UPDATE webhook_endpoints SET secret = $1 WHERE id = $2 RETURNING ${ENDPOINT_COLUMNS}, secret`,
+      [generateSecret(), current.id]
+    );
+
+    await auditService.log({
+      actorId: actor.userId,
+      eventType: 'WEBHOOK_SECRET_ROTATED',
+      eventData: { endpointId: current.id },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  async listDeliveries(
+    actor: AuthPayload,
+    endpointId: string,
+    status?: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number; page: number; totalPages: number }> {
+    if (page < 1) page = 1;
+    if (limit < 1 || limit > 100) limit = 20;
+
+    if (status && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+      throw new AppError(400, `status must be one of ${DELIVERY_STATUSES.join(', ')}`);
+    }
+
+    const endpoint = await this.findEndpoint(actor, endpointId);
+
+    const filter = status ? 'endpoint_id = $1 AND status = $2' : 'endpoint_id = $1';
+    const params: any[] = status ? [endpoint.id, status] : [endpoint.id];
+
+    const countResult = await db.query(`SELECT COUNT(*) FROM webhook_deliveries WHERE ${filter}`, params);
+    const total = parseInt(countResult.rows[0].count, 10);
+
+    const result = await db.query(
+      `SELECT ${DELIVERY_COLUMNS}
+       FROM webhook_deliveries
+       WHERE ${filter}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return { deliveries: result.rows, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  async getDelivery(
+    actor: AuthPayload,
+    deliveryId: string
+  ): Promise<WebhookDelivery & { attempts: WebhookDeliveryAttempt[] }> {
+    const delivery = await this.findDelivery(actor, deliveryId);
+
+    const attempts = await db.query(
+      `SELECT ${ATTEMPT_COLUMNS} FROM webhook_delivery_attempts WHERE delivery_id = $1 ORDER BY attempt_number`,
+      [delivery.id]
+    );
+
+    return { ...delivery, attempts: attempts.rows };
+  }
+
+  // Queues the delivery again with a fresh set of attempts, whatever its current state
+  async redeliver(actor: AuthPayload, deliveryId: string, ipAddress?: string): Promise<WebhookDelivery> {
+    const delivery = await this.findDelivery(actor, deliveryId);
+
+    const result = await db.query(
+      `UPDATE webhook_deliveries SET status = 'pending', attempt_count = 0, next_attempt_at = now()
+       WHERE id = $1
+       RETURNING ${DELIVERY_COLUMNS}`,
+      [delivery.id]
+    );
+
+    await auditService.log({
+      actorId: actor.userId,
+      eventType: 'WEBHOOK_REDELIVERY_REQUESTED',
+      eventData: { deliveryId: delivery.id, endpointId: delivery.endpoint_id, eventId: delivery.event_id },
+      ipAddress,
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Queues an event for the user's own endpoints and every global endpoint subscribed to it.
+   * Used for changes that do not go through the outbox, such as status changes. Called after the
+   * change has committed; a failure is logged rather than thrown, so the caller still gets its response.
+   */
+  async publish(userId: string, type: WebhookEventType, data: Record<string, any>): Promise<void> {
+    const event: WebhookEvent = { id: randomUUID(), type, created_at: new Date().toISOString(), user_id: userId, data };
+
+    try {
+      await this.enqueue(event);
+    } catch (error) {
+      console.error('Failed to queue webhook event:', { type, userId, error });
+    }
+  }
+
+  // Throws on failure. Queuing the same event id again adds nothing, so callers can safely retry
+  async enqueue(event: WebhookEvent): Promise<void> {
+    await db.query(
+      `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+       SELECT id, $1, $2, $3 FROM webhook_endpoints
+       WHERE is_active AND $2 = ANY(event_types) AND (user_id = $4 OR user_id IS NULL)
+       ON CONFLICT (endpoint_id, event_id) DO NOTHING`,
+      [event.id, event.type, JSON.stringify(event), event.user_id]
+    );
+  }
+
+  /**
+   * Sends one batch of due deliveries. Claiming a delivery pushes its next_attempt_at out by a
+   * lease instead of holding a row lock during the HTTP call, so other instances skip it and a
+   * worker that dies mid-request only delays the retry.
+   */
+  async deliverDue(batchSize: number = 20): Promise<number> {
+    const claimed = await db.query(
+      `UPDATE webhook_deliveries d
+       SET next_attempt_at = now() + make_interval(secs => $1)
+       FROM webhook_endpoints e
+       WHERE e.id = d.endpoint_id AND d.id IN (
+         SELECT wd.id FROM webhook_deliveries wd
+         JOIN webhook_endpoints we ON we.id = wd.endpoint_id
+         WHERE wd.status = 'pending' AND wd.next_attempt_at <= now() AND we.is_active
+         ORDER BY wd.next_attempt_at
+         LIMIT $2
+         FOR UPDATE OF wd SKIP LOCKED
+       )
+       RETURNING d.id, d.event_id, d.event_type, d.payload, d.attempt_count, e.url, e.secret`,
+      [CLAIM_LEASE_SECONDS, batchSize]
+    );
+
+    await Promise.all(claimed.rows.map((delivery: ClaimedDelivery) => this.attempt(delivery)));
+
+    return claimed.rows.length;
+  }
+
+  private async attempt(delivery: ClaimedDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      // Only the status is kept: a body could carry whatever an internal service answered
+      responseStatus = await postJson(delivery.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'financial-wallet-webhooks/1.0',
+          'X-Webhook-Id': delivery.event_id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Signature': `t=${timestamp},v1=${signPayload(delivery.secret, timestamp, body)}`,
+        },
+        timeoutMs: config.WEBHOOK_TIMEOUT_MS,
+        allowPrivate: config.WEBHOOK_ALLOW_PRIVATE_URLS,
+      });
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const attemptNumber = delivery.attempt_count + 1;
+    const delivered = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+
+    if (!delivered && error === null) {
+      error = `Endpoint responded with HTTP ${responseStatus}`;
+    }
+
+    const status: WebhookDeliveryStatus = delivered
+      ? 'delivered'
+      : attemptNumber >= config.WEBHOOK_MAX_ATTEMPTS
+        ? 'dead'
+        : 'pending';
+
+    await db.transaction(async (client) => {
+      await client.query(
+        `INSERT INTO webhook_delivery_attempts (delivery_id, attempt_number, response_status, error, duration_ms)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [delivery.id, attemptNumber, responseStatus, error, durationMs]
+      );
+
+      await client.query(
+        `UPDATE webhook_deliveries
+         SET status = $1, attempt_count = $2, last_response_status = $3, last_error = $4,
+             next_attempt_at = CASE WHEN $1 = 'pending' THEN now() + make_interval(secs => $5) END,
+             delivered_at = CASE WHEN $1 = 'delivered' THEN now() END
+         WHERE id = $6`,
+        [status, attemptNumber, responseStatus, error, retryDelaySeconds(attemptNumber), delivery.id]
+      );
+    });
+  }
+
+  private async findEndpoint(actor: AuthPayload, endpointId: string): Promise<WebhookEndpoint> {
+    const result = await db.query(
+      `SELECT ${ENDPOINT_COLUMNS} FROM webhook_endpoints
+       WHERE id = $1 AND (user_id = $2 OR (user_id IS NULL AND $3))`,
+      [endpointId, actor.userId, actor.role === 'admin']
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Webhook endpoint not found');
+    }
+
+    return result.rows[0];
+  }
+
+  private async findDelivery(actor: AuthPayload, deliveryId: string): Promise<WebhookDelivery> {
+    const result = await db.query(
+      `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries
+       WHERE id = $1 AND endpoint_id IN (
+         SELECT id FROM webhook_endpoints WHERE user_id = $2 OR (user_id IS NULL AND $3)
+       )`,
+      [deliveryId, actor.userId, actor.role === 'admin']
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError(404, 'Webhook delivery not found');
+    }
+
+    return result.rows[0];
+  }
+}
+
+export const webhookService = new WebhookService();
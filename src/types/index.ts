@@ -1,3 +1,5 @@
+export type UserRole = 'user' | 'support' | 'admin' | 'auditor';
+
 export interface User {
   id: string;
   email: string;
@@ -5,24 +7,38 @@ export interface User {
   full_name: string | null;
   phone_number: string | null;
   is_verified: boolean;
+  role: UserRole;
   created_at: Date;
   updated_at: Date;
 }
 
 export type UserProfile = Omit<User, 'password_hash' | 'updated_at'>;
 
+// frozen stops money leaving; suspended and closed stop all money movement
+export type AccountStatus = 'active' | 'frozen' | 'suspended' | 'closed';
+
 export interface Wallet {
   id: string;
   user_id: string;
   currency: string;
   balance: string;
+  held_amount: string;
+  status: AccountStatus;
   created_at: Date;
   updated_at: Date;
 }
 
 export type TransactionStatus = 'success' | 'pending' | 'failed';
 
-export type TransactionType = 'credit' | 'debit' | 'transfer_in' | 'transfer_out';
+export type TransactionType =
+  | 'credit'
+  | 'debit'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'conversion_in'
+  | 'conversion_out'
+  | 'reversal'
+  | 'refund';
 
 export interface Transaction {
   id: string;
@@ -35,9 +51,82 @@ export interface Transaction {
   balance_before: string;
   balance_after: string;
   status: TransactionStatus;
+  journal_entry_id: string | null;
+  related_transaction_id: string | null;
+  metadata: Record<string, any> | null;
+  created_at: Date;
+}
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export type PostingDirection = 'debit' | 'credit';
+
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  currency: string;
+  wallet_id: string | null;
+  created_at: Date;
+}
+
+export interface JournalEntry {
+  id: string;
+  reference: string;
+  entry_type: string;
+  description: string | null;
+  related_entry_id: string | null;
+  created_at: Date;
+}
+
+export interface Posting {
+  id: string;
+  journal_entry_id: string;
+  account_id: string;
+  direction: PostingDirection;
+  amount: string;
+  currency: string;
   created_at: Date;
 }
 
+export interface PostingInput {
+  accountCode: string;
+  direction: PostingDirection;
+  amount: number;
+}
+
+export interface JournalEntryInput {
+  reference: string;
+  entryType: string;
+  description?: string | null;
+  relatedEntryId?: string;
+  postings: PostingInput[];
+}
+
+export interface TransactionRecordInput {
+  walletId: string;
+  userId: string;
+  type: TransactionType;
+  amount: number;
+  reference: string;
+  description: string | null;
+  balanceBefore: number;
+  balanceAfter: number;
+  journalEntryId: string | null;
+  status?: TransactionStatus;
+  relatedTransactionId?: string | null;
+  metadata?: Record<string, any> | null;
+}
+
+export interface WalletBalanceMismatch {
+  wallet_id: string;
+  user_id: string;
+  currency: string;
+  wallet_balance: string;
+  ledger_balance: string;
+}
+
 export interface Session {
   id: string;
   user_id: string;
@@ -47,12 +136,14 @@ export interface Session {
 }
 
 export interface AuditLog {
-  id: number;
+  // BIGSERIAL, which pg returns as a string
+  id: string;
   actor_id: string | null;
   event_type: string;
   event_data: any;
   ip_address: string | null;
   user_agent: string | null;
+  request_id: string | null;
   created_at: Date;
 }
 
@@ -75,10 +166,38 @@ export interface TransactionHistory {
   totalPages: number;
 }
 
+export interface WalletBalance {
+  wallet_id: string;
+  currency: string;
+  balance: string;
+  held_amount: string;
+  available_balance: string;
+}
+
+// balance is the ledger balance; available_balance excludes money reserved by active holds
+export interface BalanceSummary {
+  balance: string;
+  ledger_balance: string;
+  available_balance: string;
+  currency: string;
+  balances: WalletBalance[];
+}
+
+export interface OpenWalletRequest {
+  currency: string;
+}
+
 export interface TransactionRequest {
   amount: number;
   description?: string;
   reference?: string;
+  currency?: string;
+}
+
+export interface WalletOperationOptions {
+  currency?: string;
+  // Fresh TOTP code for amounts above the step-up threshold
+  totpCode?: string;
 }
 
 
@@ -88,6 +207,18 @@ export interface TransferRequest {
   amount: number;
   description?: string;
   reference?: string;
+  currency?: string;
+  recipient_currency?: string;
+  convert?: boolean;
+}
+
+export interface TransferOptions {
+  currency?: string;
+  recipientCurrency?: string;
+  convert?: boolean;
+  totpCode?: string;
+  // Set by background jobs replaying a transfer the user authorised earlier
+  skipStepUp?: boolean;
 }
 
 // I structure the interface this way so it can be sent to the probably a notification service.
@@ -99,11 +230,265 @@ export interface TransferResponse {
   recipient_transaction: Transaction;
   sender_new_balance: string;
   recipient_new_balance: string;
+  conversion?: ConversionDetails;
+}
+
+export interface ReversalRequest {
+  reason?: string;
+}
+
+export interface ReversalResponse {
+  original_reference: string;
+  reversal_transactions: Transaction[];
+}
+
+export interface RefundRequest {
+  amount: number;
+  reason?: string;
+  reference?: string;
+}
+
+export interface RefundResponse {
+  refund_transaction: Transaction;
+  counterparty_transaction: Transaction;
+  new_balance: string;
+  refunded_total: string;
+  refundable_remaining: string;
+}
+
+export type HoldStatus = 'active' | 'captured' | 'voided' | 'expired';
+
+export interface Hold {
+  id: string;
+  wallet_id: string;
+  user_id: string;
+  recipient_user_id: string | null;
+  amount: string;
+  captured_amount: string | null;
+  reference: string;
+  description: string | null;
+  status: HoldStatus;
+  transaction_id: string | null;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PlaceHoldRequest {
+  amount: number;
+  currency?: string;
+  recipient_email?: string;
+  recipient_user_id?: string;
+  description?: string;
+  reference?: string;
+  expires_in_seconds?: number;
+}
+
+export interface HoldOptions {
+  currency?: string;
+  recipientEmail?: string;
+  recipientUserId?: string;
+  expiresInSeconds?: number;
+  totpCode?: string;
+}
+
+export interface CaptureHoldRequest {
+  amount?: number;
 }
 
+export interface HoldCaptureResponse {
+  hold: Hold;
+  transaction: Transaction;
+  recipient_transaction?: Transaction;
+  new_balance: string;
+}
+
+export type ScheduleFrequency = 'once' | 'daily' | 'weekly' | 'monthly';
+
+export type ScheduleStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export interface ScheduledTransfer {
+  id: string;
+  user_id: string;
+  recipient_user_id: string;
+  amount: string;
+  currency: string;
+  description: string | null;
+  frequency: ScheduleFrequency;
+  start_at: Date;
+  end_at: Date | null;
+  max_runs: number | null;
+  next_occurrence: number;
+  next_run_at: Date | null;
+  run_count: number;
+  status: ScheduleStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScheduledTransferRun {
+  id: string;
+  scheduled_transfer_id: string;
+  occurrence: number;
+  reference: string;
+  status: 'success' | 'failed';
+  error_message: string | null;
+  scheduled_for: Date;
+  executed_at: Date;
+}
+
+export interface CreateScheduledTransferRequest {
+  recipient_email?: string;
+  recipient_user_id?: string;
+  amount: number;
+  currency?: string;
+  description?: string;
+  frequency: ScheduleFrequency;
+  start_at?: string;
+  end_at?: string;
+  max_runs?: number;
+}
+
+export interface FxRate {
+  base_currency: string;
+  quote_currency: string;
+  mid_rate: string;
+  spread_bps: number;
+  source: 'admin' | 'feed';
+  updated_by: string | null;
+  updated_at: Date;
+}
+
+export interface FxRateUpdate {
+  base_currency: string;
+  quote_currency: string;
+  mid_rate: number;
+  spread_bps?: number;
+}
+
+export interface FxQuote {
+  id: string;
+  user_id: string;
+  from_currency: string;
+  to_currency: string;
+  source_amount: string;
+  target_amount: string;
+  mid_rate: string;
+  rate: string;
+  spread_bps: number;
+  spread_amount: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export interface FxQuoteRequest {
+  from_currency: string;
+  to_currency: string;
+  amount: number;
+}
+
+export interface ConversionDetails {
+  from_currency: string;
+  to_currency: string;
+  source_amount: string;
+  target_amount: string;
+  mid_rate: string;
+  rate: string;
+  spread_amount: string;
+}
+
+export interface ConvertRequest {
+  quote_id: string;
+  reference?: string;
+}
+
+export interface ConversionResponse {
+  source_transaction: Transaction;
+  target_transaction: Transaction;
+  source_new_balance: string;
+  target_new_balance: string;
+  conversion: ConversionDetails;
+}
+
+export type IdempotencyOutcome =
+  | { state: 'new' }
+  | { state: 'replay'; status: number; body: string }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
 export interface AuthPayload {
   userId: string;
   email: string;
+  role: UserRole;
+  sessionId?: string;
+  // Expiry in seconds since the epoch, set on tokens that have been verified
+  exp?: number;
+}
+
+export interface AuthTokens {
+  token: string;
+  refresh_token: string;
+}
+
+export interface RefreshTokenRequest {
+  refresh_token: string;
+}
+
+export type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  new_password: string;
+}
+
+export interface ChangePasswordRequest {
+  current_password: string;
+  new_password: string;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Anything that can deliver a message: console, file, SMTP or a provider SDK
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface MfaChallenge {
+  mfa_required: true;
+  mfa_token: string;
+}
+
+export interface MfaLoginRequest {
+  mfa_token: string;
+  code: string;
+}
+
+export interface MfaSetupResponse {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface MfaCodeRequest {
+  code: string;
+}
+
+export interface MfaDisableRequest {
+  password: string;
+  code: string;
 }
 
 export interface ApiResponse<T = any> {
@@ -113,3 +498,319 @@ export interface ApiResponse<T = any> {
   error?: string;
 }
 
+
+export interface SetPinRequest {
+  pin: string;
+  password: string;
+}
+
+export interface ChangePinRequest {
+  current_pin: string;
+  new_pin: string;
+}
+
+export interface ResetPinRequest {
+  password: string;
+  new_pin: string;
+}
+
+export type StaffUserView = UserProfile & { status: AccountStatus; limit_tier: LimitTier };
+
+export interface UserSearchResult {
+  users: StaffUserView[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface UpdateRoleRequest {
+  role: UserRole;
+}
+
+export type StatusSubject = 'user' | 'wallet';
+
+export interface StatusChange {
+  id: string;
+  subject_type: StatusSubject;
+  subject_id: string;
+  from_status: AccountStatus;
+  to_status: AccountStatus;
+  reason: string;
+  changed_by: string | null;
+  created_at: Date;
+}
+
+export interface UpdateStatusRequest {
+  status: AccountStatus;
+  reason: string;
+}
+
+export type LimitTier = 'basic' | 'standard' | 'premium';
+
+// Amounts as NUMERIC strings; null means no limit
+export interface TransactionLimits {
+  per_transaction_max: string | null;
+  daily_outflow_max: string | null;
+  monthly_outflow_max: string | null;
+  max_balance: string | null;
+}
+
+export interface LimitAllowance {
+  wallet_id: string;
+  currency: string;
+  tier: LimitTier;
+  limits: TransactionLimits;
+  used: { daily: string; monthly: string };
+  remaining: { daily: string | null; monthly: string | null; balance: string | null };
+}
+
+export interface UpdateLimitsRequest {
+  currency?: string;
+  per_transaction_max?: number | null;
+  daily_outflow_max?: number | null;
+  monthly_outflow_max?: number | null;
+}
+
+export interface UpdateLimitTierRequest {
+  tier: LimitTier;
+}
+
+// Transaction history filters as they arrive in the query string; type and status take comma-separated lists
+export interface TransactionHistoryFilters {
+  type?: string;
+  status?: string;
+  from?: string;
+  to?: string;
+  min_amount?: string;
+  max_amount?: string;
+  search?: string;
+  counterparty?: string;
+}
+
+export interface TransactionHistoryPage {
+  transactions: Transaction[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface TransactionHistoryCursorPage {
+  transactions: Transaction[];
+  next_cursor: string | null;
+  limit: number;
+}
+
+export type StatementFormat = 'csv' | 'pdf';
+
+// Dates are calendar days (YYYY-MM-DD) and both ends are included
+export interface StatementRequest {
+  from?: string;
+  to?: string;
+  currency?: string;
+  format?: string;
+}
+
+// Everything printed above the first transaction, loaded before the download starts
+export interface StatementDetails {
+  userId: string;
+  holderName: string;
+  walletId: string;
+  currency: string;
+  from: string;
+  to: string;
+  format: StatementFormat;
+  openingBalance: string;
+}
+
+export interface StatementSummary {
+  opening_balance: string;
+  total_in: string;
+  total_out: string;
+  closing_balance: string;
+  transaction_count: number;
+}
+
+export type WebhookEventType =
+  | 'transaction.created'
+  | 'transfer.completed'
+  | 'wallet.activated'
+  | 'wallet.frozen'
+  | 'wallet.suspended'
+  | 'wallet.closed'
+  | 'account.activated'
+  | 'account.frozen'
+  | 'account.suspended'
+  | 'account.closed';
+
+// A global endpoint (user_id null) is registered by an admin and receives every user's events
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string | null;
+  url: string;
+  event_types: WebhookEventType[];
+  description: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// The signing secret is only returned when an endpoint is created or its secret rotated
+export type WebhookEndpointWithSecret = WebhookEndpoint & { secret: string };
+
+// Body of every webhook request; id is the same for every endpoint that receives the event
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  created_at: string;
+  user_id: string;
+  data: Record<string, any>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_attempt_at: Date | null;
+  last_response_status: number | null;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  delivery_id: string;
+  attempt_number: number;
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number;
+  attempted_at: Date;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  // Admins only: receive every user's events
+  global?: boolean;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  events?: WebhookEventType[];
+  description?: string | null;
+  is_active?: boolean;
+}
+
+// Events written to the outbox alongside a balance change
+export type OutboxEventType = 'transaction.created' | 'transfer.completed';
+
+export interface NewOutboxEvent {
+  walletId: string;
+  userId: string;
+  eventType: OutboxEventType;
+  payload: Record<string, any>;
+  ipAddress?: string;
+}
+
+export interface OutboxEvent {
+  id: string;
+  event_id: string;
+  wallet_id: string;
+  user_id: string;
+  event_type: OutboxEventType;
+  payload: Record<string, any>;
+  ip_address: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  delivered_sinks: string[];
+  attempts: number;
+  created_at: Date;
+}
+
+// A destination for outbox events; handle throws to have the event retried
+export interface OutboxSink {
+  name: string;
+  handle(event: OutboxEvent): Promise<void>;
+}
+
+// An open event stream of one user; reset tells the client it fell too far behind to resume
+export interface RealtimeStream {
+  send(event: OutboxEvent): void;
+  reset(): void;
+  close(): void;
+}
+
+// Who and where the current HTTP request came from, available to any code it calls
+export interface RequestContext {
+  requestId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Audit log search as it arrives in the query string; event_type takes a comma-separated list and
+// data holds event_data fields to match, keyed by dot-separated path
+export interface AuditLogFilters {
+  actor_id?: string;
+  event_type?: string;
+  request_id?: string;
+  from?: string;
+  to?: string;
+  data?: Record<string, string>;
+}
+
+export type AuditLogEntry = AuditLog & { actor_email: string | null };
+
+export interface AuditLogPage {
+  logs: AuditLogEntry[];
+  next_cursor: string | null;
+  limit: number;
+}
+
+export type SecurityActivity = Pick<AuditLog, 'id' | 'event_type' | 'event_data' | 'ip_address' | 'user_agent' | 'created_at'>;
+
+export interface SecurityActivityPage {
+  activity: SecurityActivity[];
+  next_cursor: string | null;
+  limit: number;
+}
+
+// What an audit record's hash covers, read back the way it was written; created_at to the microsecond
+export interface AuditChainEntry {
+  seq: string;
+  prev_hash: string | null;
+  actor_id: string | null;
+  event_type: string;
+  event_data: any;
+  ip_address: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+  created_at: string;
+}
+
+export interface AuditCheckpoint {
+  id: string;
+  seq: string;
+  hash: string;
+  signature: string;
+  created_at: Date;
+}
+
+// Result of walking the audit chain; lists are capped, first_broken_seq is the earliest problem found
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number;
+  head_seq: string;
+  first_broken_seq: string | null;
+  changed: string[];
+  missing: { from: string; to: string }[];
+  invalid_checkpoints: string[];
+  unchained: number;
+}
@@ -0,0 +1,41 @@
+import { createHash, createHmac } from 'crypto';
+import { AuditChainEntry } from '../types';
+
+// JSON with object keys sorted, so content hashes the same after a JSONB round trip reorders it
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const fields = Object.keys(object)
+      .filter((key) => object[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(object[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+};
+
+// Covers the record's content and the previous record's hash, which links it into the chain
+export const auditEntryHash = (entry: AuditChainEntry): string =>
+  createHash('sha256')
+    .update(
+      canonicalJson([
+        entry.seq,
+        entry.prev_hash,
+        entry.actor_id,
+        entry.event_type,
+        entry.event_data,
+        entry.ip_address,
+        entry.user_agent,
+        entry.request_id,
+        entry.created_at,
+      ])
+    )
+    .digest('hex');
+
+export const signCheckpoint = (secret: string, seq: string, hash: string): string =>
+  createHmac('sha256', secret).update(`${seq}.${hash}`).digest('hex');
@@ -0,0 +1,43 @@
+import { Writable } from 'stream';
+
+export const csvField = (value: string): string => {
+  // A leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const csvRow = (cells: string[]): string => `${cells.map(csvField).join(',')}\r\n`;
+
+// A client that reads nothing for this long is cut off, so a stalled download cannot keep its database cursor open
+const STALL_TIMEOUT_MS = 60 * 1000;
+
+// Resolves once the chunk is buffered, waiting whenever the client falls behind
+export const chunkWriter =
+  (output: Writable, stallTimeoutMs: number = STALL_TIMEOUT_MS) =>
+  (chunk: string | Buffer): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (output.destroyed) {
+        reject(new Error('Download was aborted'));
+        return;
+      }
+
+      if (output.write(chunk)) {
+        resolve();
+        return;
+      }
+
+      const onDrain = (): void => {
+        clearTimeout(timer);
+        output.off('close', onClose);
+        resolve();
+      };
+      const onClose = (): void => {
+        clearTimeout(timer);
+        output.off('drain', onDrain);
+        reject(new Error('Download was aborted'));
+      };
+      const timer = setTimeout(() => output.destroy(new Error('Download stalled')), stallTimeoutMs);
+
+      output.once('drain', onDrain);
+      output.once('close', onClose);
+    });
@@ -0,0 +1,8 @@
+import { EventEmitter } from 'events';
+
+/**
+ * In-process bus for events relayed from the outbox. Each event is emitted under its type and
+ * under '*'. Listeners run on the relay's tick, so they should be quick; a listener that throws
+ * makes the relay retry the event, and every listener sees it again.
+ */
+export const eventBus = new EventEmitter();
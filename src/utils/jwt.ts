@@ -8,11 +8,43 @@ export const generateToken = (payload: AuthPayload): string => {
   } as SignOptions);
 };
 
+// Marks the token handed out between the password and TOTP steps of a login
+const MFA_PENDING_PURPOSE = 'mfa_pending';
+
 export const verifyToken = (token: string): AuthPayload => {
+  let payload: AuthPayload & { purpose?: string };
   try {
-    return verify(token, config.JWT_SECRET) as AuthPayload;
+    payload = verify(token, config.JWT_SECRET) as AuthPayload & { purpose?: string };
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
+
+  if (payload.purpose) {
+    throw new Error('Invalid or expired token');
+  }
+
+  return payload;
+};
+
+export const generateMfaToken = (userId: string): string => {
+  return sign({ userId, purpose: MFA_PENDING_PURPOSE }, config.JWT_SECRET, {
+    expiresIn: config.MFA_TOKEN_TTL_SECONDS,
+  });
+};
+
+// Returns the user id the pending login belongs to
+export const verifyMfaToken = (token: string): string => {
+  let payload: { userId?: string; purpose?: string };
+  try {
+    payload = verify(token, config.JWT_SECRET) as { userId?: string; purpose?: string };
+  } catch (error) {
+    throw new Error('Invalid or expired MFA token');
+  }
+
+  if (payload.purpose !== MFA_PENDING_PURPOSE || !payload.userId) {
+    throw new Error('Invalid or expired MFA token');
+  }
+
+  return payload.userId;
 };
 
@@ -0,0 +1,98 @@
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP, LookupFunction } from 'net';
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata) and unspecified addresses
+export const isPrivateAddress = (address: string): boolean => {
+  const host = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  if (isIP(host) === 6) {
+    return host === '::' || host === '::1' || /^(fc|fd|fe[89ab])/.test(host) || host.startsWith('::ffff:');
+  }
+
+  return false;
+};
+
+// The host as written; a name can still resolve to a private address, which only the lookup below catches
+export const isPrivateHost = (hostname: string): boolean => {
+  const host = hostname.toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+};
+
+/**
+ * DNS lookup for outbound sockets that refuses names resolving to any private address. The
+ * socket connects to the address checked here, so a name cannot pass the check and then be
+ * re-resolved somewhere else.
+ */
+export const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...(options as LookupOptions), all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new Error(`${hostname} resolves to a private or local address`), '', 0);
+      return;
+    }
+
+    if ((options as LookupOptions).all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+interface PostOptions {
+  headers: Record<string, string>;
+  timeoutMs: number;
+  allowPrivate: boolean;
+}
+
+/**
+ * POSTs the body and resolves with the response status. Redirects are not followed and the
+ * response body is discarded, so a request aimed at an internal service reveals nothing of it.
+ */
+export const postJson = (url: string, body: string, options: PostOptions): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+
+    // Literal addresses connect without a lookup, so they are checked here
+    if (!options.allowPrivate && isIP(host) && isPrivateAddress(host)) {
+      reject(new Error(`${target.hostname} is a private or local address`));
+      return;
+    }
+
+    const request = (target.protocol === 'https:' ? https : http).request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...options.headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: options.allowPrivate ? undefined : publicOnlyLookup,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
@@ -0,0 +1,102 @@
+// A4 landscape, in points
+export const PDF_PAGE_WIDTH = 842;
+export const PDF_PAGE_HEIGHT = 595;
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+}
+
+// Object numbers fixed up front; pages are numbered from FIRST_PAGE_OBJECT as they are written
+const CATALOG_OBJECT = 1;
+const PAGES_OBJECT = 2;
+const REGULAR_FONT_OBJECT = 3;
+const BOLD_FONT_OBJECT = 4;
+const FIRST_PAGE_OBJECT = 5;
+
+// The standard fonts use WinAnsi, so anything outside Latin-1 is printed as "?"
+const escapeText = (text: string): string =>
+  text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/[\\()]/g, (char) => `\\${char}`);
+
+/**
+ * Writes a PDF one page at a time, so a long document never sits in memory. Objects go out in
+ * order and their byte offsets are kept for the cross-reference table written by end().
+ * Text is set in the built-in Courier fonts, so columns line up by character count.
+ */
+export class PdfWriter {
+  private offset = 0;
+  private offsets: number[] = [];
+  private pageObjects: number[] = [];
+  private nextObject = FIRST_PAGE_OBJECT;
+
+  constructor(private write: (chunk: Buffer) => Promise<void>) {}
+
+  async begin(): Promise<void> {
+    // The binary comment tells transfer tools the file is not plain text
+    await this.emit('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    await this.object(
+      REGULAR_FONT_OBJECT,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>'
+    );
+    await this.object(
+      BOLD_FONT_OBJECT,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>'
+    );
+  }
+
+  async addPage(texts: PdfText[]): Promise<void> {
+    const content = texts
+      .map(
+        ({ x, y, text, size = 8, bold = false }) =>
+          `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${y} Td (${escapeText(text)}) Tj ET`
+      )
+      .join('\n');
+
+    const contentObject = this.nextObject++;
+    const pageObject = this.nextObject++;
+
+    await this.object(
+      contentObject,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+    await this.object(
+      pageObject,
+      `<< /Type /Page /Parent ${PAGES_OBJECT} 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}]` +
+        ` /Resources << /Font << /F1 ${REGULAR_FONT_OBJECT} 0 R /F2 ${BOLD_FONT_OBJECT} 0 R >> >>` +
+        ` /Contents ${contentObject} 0 R >>`
+    );
+
+    this.pageObjects.push(pageObject);
+  }
+
+  async end(): Promise<void> {
+    const kids = this.pageObjects.map((id) => `${id} 0 R`).join(' ');
+
+    await this.object(PAGES_OBJECT, `<< /Type /Pages /Kids [${kids}] /Count ${this.pageObjects.length} >>`);
+    await this.object(CATALOG_OBJECT, `<< /Type /Catalog /Pages ${PAGES_OBJECT} 0 R >>`);
+
+    const xrefOffset = this.offset;
+    const size = this.nextObject;
+    let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+
+    for (let id = 1; id < size; id++) {
+      xref += `${String(this.offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+
+    await this.emit(`${xref}trailer\n<< /Size ${size} /Root ${CATALOG_OBJECT} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  }
+
+  private async object(id: number, body: string): Promise<void> {
+    this.offsets[id] = this.offset;
+    await this.emit(`${id} 0 obj\n${body}\nendobj\n`);
+  }
+
+  private async emit(text: string): Promise<void> {
+    const chunk = Buffer.from(text, 'latin1');
+    this.offset += chunk.length;
+    await this.write(chunk);
+  }
+}
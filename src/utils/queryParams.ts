@@ -0,0 +1,23 @@
+import { AppError } from '../middleware/errorHandler';
+
+// A comma-separated query parameter, without blanks
+export const listParam = (value?: string): string[] =>
+  value
+    ? String(value)
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+
+export const dateParam = (name: string, value?: string): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError(400, `${name} must be a valid date`);
+  }
+
+  return date;
+};
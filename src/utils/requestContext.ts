@@ -0,0 +1,10 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestContext } from '../types';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(context: RequestContext, callback: () => T): T =>
+  storage.run(context, callback);
+
+// Undefined outside a request, e.g. in workers
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
@@ -0,0 +1,7 @@
+import { createHash, randomBytes } from 'crypto';
+
+// Opaque, URL-safe secret handed to the client (refresh tokens, emailed codes)
+export const generateOpaqueToken = (bytes: number = 32): string => randomBytes(bytes).toString('base64url');
+
+// Only the hash is stored, so a leaked table cannot be replayed
+export const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
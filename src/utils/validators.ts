@@ -7,17 +7,37 @@ export const isValidPassword = (password: string): boolean => {
   return password.length >= 8;
 };
 
+export const isValidPin = (pin: string): boolean => {
+  return /^\d{4,6}$/.test(pin);
+};
+
 export const isValidPhoneNumber = (phone: string): boolean => {
   const phoneRegex = /^\+?[1-9]\d{1,14}$/;
   return phoneRegex.test(phone);
 };
 
+// Whole cents only: NUMERIC(18,2) would round a third decimal half-up while the ledger rounds the float,
+// so 1.005 would post 1.00 to the ledger and record 1.01 on the transaction
 export const isValidAmount = (amount: number): boolean => {
-  return amount > 0 && Number.isFinite(amount);
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return false;
+  }
+
+  const cents = amount * 100;
+  return Math.abs(cents - Math.round(cents)) < 1e-6;
 };
 
+// Exchange rates carry more precision than money amounts
+export const isValidRate = (rate: number): boolean => {
+  return typeof rate === 'number' && rate > 0 && Number.isFinite(rate);
+};
+
+export const SUPPORTED_CURRENCIES = ['NGN', 'USD', 'EUR', 'GBP'];
+
+// Currency of the wallet opened at registration, and the one used when a request names none
+export const DEFAULT_CURRENCY = 'NGN';
+
 export const isValidCurrency = (currency: string): boolean => {
-  const validCurrencies = ['NGN', 'USD', 'EUR', 'GBP'];
-  return validCurrencies.includes(currency);
+  return SUPPORTED_CURRENCIES.includes(currency);
 };
 
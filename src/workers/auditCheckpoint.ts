@@ -0,0 +1,22 @@
+import { config } from '../config/env';
+import { auditChainService } from '../services/auditChainService';
+
+// Each checkpoint is also logged, so a copy of the chain head lives outside the database
+export const startAuditCheckpoints = (): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      const checkpoint = await auditChainService.checkpoint();
+      if (checkpoint) {
+        console.log('Audit chain checkpoint:', {
+          seq: checkpoint.seq,
+          hash: checkpoint.hash,
+          signature: checkpoint.signature,
+        });
+      }
+    } catch (error) {
+      console.error('Audit chain checkpoint failed:', error);
+    }
+  }, config.AUDIT_CHECKPOINT_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,15 @@
+import { config } from '../config/env';
+import { authFailureService } from '../services/authFailureService';
+
+// However many requests were refused, each interval writes one record per source and reason
+export const startAuthFailureFlush = (): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      await authFailureService.flush();
+    } catch (error) {
+      console.error('Authentication failure flush failed:', error);
+    }
+  }, config.AUTH_FAILURE_FLUSH_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs';
+import { config } from '../config/env';
+import { fxService } from '../services/fxService';
+
+// Polls FX_RATES_FILE and reloads it whenever the file changes
+export const startFxRateFeed = (): (() => void) => {
+  if (!config.FX_RATES_FILE) {
+    return () => {};
+  }
+
+  let lastModified = 0;
+  let running = false;
+
+  const poll = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const stats = await fs.stat(config.FX_RATES_FILE);
+      if (stats.mtimeMs > lastModified) {
+        const loaded = await fxService.loadRatesFromFile(config.FX_RATES_FILE);
+        lastModified = stats.mtimeMs;
+        console.log(`Loaded ${loaded} FX rate(s) from ${config.FX_RATES_FILE}`);
+      }
+    } catch (error) {
+      console.error('FX rate feed failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void poll();
+  const timer = setInterval(poll, config.FX_FEED_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,27 @@
+import { config } from '../config/env';
+import { holdService } from '../services/holdService';
+
+// Releases holds that were neither captured nor voided before they expired
+export const startHoldExpiry = (): (() => void) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const released = await holdService.releaseExpiredHolds();
+      if (released > 0) {
+        console.log(`Released ${released} expired hold(s)`);
+      }
+    } catch (error) {
+      console.error('Hold expiry failed:', error);
+    } finally {
+      running = false;
+    }
+  }, config.HOLD_EXPIRY_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,19 @@
+import { idempotencyService } from '../services/idempotencyService';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Expired keys are already ignored by lookups, this only keeps the table small
+export const startIdempotencyKeyCleanup = (): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      const deleted = await idempotencyService.deleteExpired();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} expired idempotency key(s)`);
+      }
+    } catch (error) {
+      console.error('Idempotency key cleanup failed:', error);
+    }
+  }, CLEANUP_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
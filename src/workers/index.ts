@@ -0,0 +1,30 @@
+import { startAuditCheckpoints } from './auditCheckpoint';
+import { startAuthFailureFlush } from './authFailureFlush';
+import { startFxRateFeed } from './fxRateFeed';
+import { startIdempotencyKeyCleanup } from './idempotencyKeyCleanup';
+import { startHoldExpiry } from './holdExpiry';
+import { startOutboxCleanup } from './outboxCleanup';
+import { startOutboxRelay } from './outboxRelay';
+import { startRateLimitCleanup } from './rateLimitCleanup';
+import { startScheduledTransfers } from './scheduledTransfers';
+import { startSessionCleanup } from './sessionCleanup';
+import { startWebhookDelivery } from './webhookDelivery';
+
+// Starts the in-process background workers and returns a function that stops them all
+export const startWorkers = (): (() => void) => {
+  const stops = [
+    startAuditCheckpoints(),
+    startAuthFailureFlush(),
+    startFxRateFeed(),
+    startIdempotencyKeyCleanup(),
+    startHoldExpiry(),
+    startOutboxRelay(),
+    startOutboxCleanup(),
+    startRateLimitCleanup(),
+    startScheduledTransfers(),
+    startSessionCleanup(),
+    startWebhookDelivery(),
+  ];
+
+  return () => stops.forEach((stop) => stop());
+};
@@ -0,0 +1,19 @@
+import { outboxService } from '../services/outboxService';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Unpublished events are never deleted, only ones every sink has accepted
+export const startOutboxCleanup = (): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      const deleted = await outboxService.deleteExpired();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} published outbox event(s)`);
+      }
+    } catch (error) {
+      console.error('Outbox cleanup failed:', error);
+    }
+  }, CLEANUP_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,27 @@
+import { config } from '../config/env';
+import { outboxService } from '../services/outboxService';
+
+// Publishes committed outbox events to their sinks
+export const startOutboxRelay = (): (() => void) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const published = await outboxService.relay();
+      if (published > 0) {
+        console.log(`Published ${published} outbox event(s)`);
+      }
+    } catch (error) {
+      console.error('Outbox relay failed:', error);
+    } finally {
+      running = false;
+    }
+  }, config.OUTBOX_RELAY_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
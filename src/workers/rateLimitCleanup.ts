@@ -0,0 +1,19 @@
+import { deleteExpiredRateLimits } from '../middleware/rateLimitStore';
+
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Counters whose window has passed are already ignored, this only keeps the table small
+export const startRateLimitCleanup = (): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      const deleted = await deleteExpiredRateLimits();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} expired rate limit counter(s)`);
+      }
+    } catch (error) {
+      console.error('Rate limit cleanup failed:', error);
+    }
+  }, CLEANUP_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,27 @@
+import { config } from '../config/env';
+import { scheduledTransferService } from '../services/scheduledTransferService';
+
+// Executes scheduled and recurring transfers that have fallen due
+export const startScheduledTransfers = (): (() => void) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const processed = await scheduledTransferService.runDueTransfers();
+      if (processed > 0) {
+        console.log(`Ran ${processed} scheduled transfer(s)`);
+      }
+    } catch (error) {
+      console.error('Scheduled transfer run failed:', error);
+    } finally {
+      running = false;
+    }
+  }, config.SCHEDULER_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
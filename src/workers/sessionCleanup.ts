@@ -0,0 +1,19 @@
+import { sessionService } from '../services/sessionService';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Expired refresh tokens are already refused by rotate, this only keeps the table small
+export const startSessionCleanup = (): (() => void) => {
+  const timer = setInterval(async () => {
+    try {
+      const deleted = await sessionService.deleteExpired();
+      if (deleted > 0) {
+        console.log(`Deleted ${deleted} expired session token(s)`);
+      }
+    } catch (error) {
+      console.error('Session cleanup failed:', error);
+    }
+  }, CLEANUP_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,27 @@
+import { config } from '../config/env';
+import { webhookService } from '../services/webhookService';
+
+// Sends queued webhook deliveries whose next attempt is due
+export const startWebhookDelivery = (): (() => void) => {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const attempted = await webhookService.deliverDue();
+      if (attempted > 0) {
+        console.log(`Attempted ${attempted} webhook delivery(ies)`);
+      }
+    } catch (error) {
+      console.error('Webhook delivery failed:', error);
+    } finally {
+      running = false;
+    }
+  }, config.WEBHOOK_DELIVERY_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+};